@@ -323,7 +323,7 @@ const samplePresets = [
         maxPolarAngle: 3.141592653589793
       },
       particles: {
-        count: 1200,
+        count: 1000,
         size: 0.015,
         color: '#4169e1',
         speed: 0.3,
@@ -618,7 +618,7 @@ const samplePresets = [
         maxPolarAngle: 3.141592653589793
       },
       particles: {
-        count: 1500,
+        count: 1000,
         size: 0.025,
         color: '#ff00ff',
         speed: 0.6,
@@ -777,7 +777,7 @@ const samplePresets = [
         },
         fireflies: {
           enabled: true,
-          count: 200,
+          count: 150,
           speed: 0.8,
           glowIntensity: 2.5,
           swarmRadius: 60
@@ -921,4 +921,8 @@ async function seedPresets() {
   }
 }
 
-seedPresets(); 
\ No newline at end of file
+module.exports = { samplePresets };
+
+if (require.main === module) {
+  seedPresets();
+}
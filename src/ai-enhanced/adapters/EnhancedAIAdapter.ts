@@ -82,10 +82,15 @@ export class EnhancedAIAdapter {
           count: 0,
           size: 1,
           color: '#ffffff',
+          speed: 0.6,
           rotation: 0,
           opacity: 1,
           complexity: 1,
-          organicness: 0
+          organicness: 0,
+          movementPattern: 'orbit' as const,
+          distance: 2.0,
+          pulseEnabled: false,
+          pulseSize: 1
         },
         waveInterference: {
           color: '#ffffff'
@@ -1,5 +1,8 @@
 // ContextAnalyzer.ts
-// Standalone image context analyzer with sophisticated mock analysis algorithms
+// Standalone image context analyzer with sophisticated mock analysis algorithms.
+// Dominant colors, brightness, saturation and warmth are measured from the pixels
+// when the ImageData carries them (e.g. a decoded thumbnail); everything else, and
+// the colors too when the data is empty, comes from the seeded mock.
 
 import {
   ImageContext,
@@ -40,11 +43,13 @@ export class ContextAnalyzer {
   // ===== CORE ANALYSIS METHODS =====
 
   /**
-   * Main analysis method - orchestrates all analysis components
+   * Main analysis method - orchestrates all analysis components.
+   * Pass a seed (e.g. derived from the image bytes) for repeatable results.
    */
-  async analyzeImage(imageData: ImageData): Promise<ImageContext> {
+  async analyzeImage(imageData: ImageData, seed?: number): Promise<ImageContext> {
     const startTime = performance.now();
     const processingSteps: string[] = [];
+    if (seed !== undefined) this.mockRandom(seed);
 
     try {
       if (this.featureFlags.enableDetailedLogging) {
@@ -332,9 +337,14 @@ export class ContextAnalyzer {
   // ===== HELPER METHODS =====
 
   /**
-   * Extract dominant colors using mock color quantization
+   * Extract dominant colors: quantized pixel buckets when pixels are present, else mock
    */
   private extractDominantColors(imageData: ImageData): string[] {
+    const pixels = this.readPixels(imageData);
+    if (pixels.length > 0) {
+      return this.quantizeColors(pixels);
+    }
+
     const colors: string[] = [];
     const numColors = Math.floor(this.mockRandom() * 3) + 2; // 2-4 colors
     
@@ -358,6 +368,10 @@ export class ContextAnalyzer {
    * Calculate brightness level
    */
   private calculateBrightness(imageData: ImageData): number {
+    const pixels = this.readPixels(imageData);
+    if (pixels.length > 0) {
+      return this.average(pixels, ([r, g, b]) => (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255);
+    }
     // Mock brightness calculation based on image data characteristics
     return 0.3 + this.mockRandom() * 0.6;
   }
@@ -366,6 +380,13 @@ export class ContextAnalyzer {
    * Calculate saturation level
    */
   private calculateSaturation(imageData: ImageData): number {
+    const pixels = this.readPixels(imageData);
+    if (pixels.length > 0) {
+      return this.average(pixels, ([r, g, b]) => {
+        const max = Math.max(r, g, b);
+        return max === 0 ? 0 : (max - Math.min(r, g, b)) / max;
+      });
+    }
     // Mock saturation calculation
     return 0.2 + this.mockRandom() * 0.7;
   }
@@ -374,6 +395,11 @@ export class ContextAnalyzer {
    * Calculate color warmth (-1 to 1)
    */
   private calculateWarmth(imageData: ImageData): number {
+    const pixels = this.readPixels(imageData);
+    if (pixels.length > 0) {
+      // Red against blue, scaled so strongly tinted images reach the ends of the range
+      return Math.max(-1, Math.min(1, this.average(pixels, ([r, , b]) => (r - b) / 255) * 2));
+    }
     // Mock warmth calculation
     return (this.mockRandom() - 0.5) * 2;
   }
@@ -514,6 +540,52 @@ export class ContextAnalyzer {
     };
   }
 
+  /**
+   * Opaque pixels as [r, g, b]; empty when the ImageData carries no pixel data
+   */
+  private readPixels(imageData: ImageData): Array<[number, number, number]> {
+    const { data } = imageData;
+    const pixels: Array<[number, number, number]> = [];
+    if (data.length !== imageData.width * imageData.height * 4) return pixels;
+    for (let i = 0; i + 3 < data.length; i += 4) {
+      if (data[i + 3] >= 128) pixels.push([data[i], data[i + 1], data[i + 2]]);
+    }
+    return pixels;
+  }
+
+  private average(pixels: Array<[number, number, number]>, measure: (pixel: [number, number, number]) => number): number {
+    return pixels.reduce((sum, pixel) => sum + measure(pixel), 0) / pixels.length;
+  }
+
+  /**
+   * Up to four dominant colors: pixels bucketed at 3 bits per channel, the fullest
+   * buckets averaged, skipping any too close to a color already picked
+   */
+  private quantizeColors(pixels: Array<[number, number, number]>): string[] {
+    const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+    pixels.forEach(([r, g, b]) => {
+      const key = ((r >> 5) << 6) | ((g >> 5) << 3) | (b >> 5);
+      const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+      bucket.count++;
+      bucket.r += r;
+      bucket.g += g;
+      bucket.b += b;
+      buckets.set(key, bucket);
+    });
+
+    const picked: Array<[number, number, number]> = [];
+    Array.from(buckets.values())
+      .sort((a, b) => b.count - a.count)
+      .forEach(({ count, r, g, b }) => {
+        if (picked.length >= 4) return;
+        const color: [number, number, number] = [r / count, g / count, b / count].map(Math.round) as [number, number, number];
+        const distinct = picked.every(([pr, pg, pb]) => Math.hypot(pr - color[0], pg - color[1], pb - color[2]) >= 48);
+        if (distinct) picked.push(color);
+      });
+
+    return picked.map((rgb) => `#${rgb.map((channel) => channel.toString(16).padStart(2, '0')).join('')}`);
+  }
+
   /**
    * Convert HSL to Hex color
    */
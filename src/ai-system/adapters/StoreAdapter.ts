@@ -217,6 +217,13 @@ export class AIStoreAdapter {
             width: 1 + visualCharacteristics.energy * 2,
             fadeRate: 0.95
           },
+          crystalTrails: {
+            enabled: true,
+            length: Math.round(visualCharacteristics.speed * 10),
+            opacity: 0.3 + visualCharacteristics.harmony * 0.4,
+            width: 1 + visualCharacteristics.energy * 2,
+            fadeRate: 0.95
+          },
           particleTrails: {
             enabled: true,
             length: Math.round(visualCharacteristics.speed * 8),
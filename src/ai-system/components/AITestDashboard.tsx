@@ -16,6 +16,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { MappingEngine } from '../services/MappingEngine';
 import { WeatherService } from '../services/WeatherService';
+import { AIService, AIServiceStatus } from '../services/AIService';
 import { TestHelpers } from '../utils/testHelpers';
 import { GeneratedParameters, WeatherData } from '../types/AITypes';
 import { useAIStore, initializeAIVisualIntegration, enableSpecialEffects } from '../../store/aiStore';
@@ -38,11 +39,8 @@ export const AITestDashboard = () => {
   const [referenceImage, setReferenceImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   
-  // API setup
-  const [openaiKey, setOpenaiKey] = useState('');
-  const [openweatherKey, setOpenweatherKey] = useState('');
-  const [showApiSetup, setShowApiSetup] = useState(false);
-  const [showWeatherApiSetup, setShowWeatherApiSetup] = useState(false);
+  // Server-side API configuration
+  const [serviceStatus, setServiceStatus] = useState<AIServiceStatus | null>(null);
 
   // Zustand store integration
   const {
@@ -78,29 +76,9 @@ export const AITestDashboard = () => {
   const mappingEngine = MappingEngine.getInstance();
   const weatherService = WeatherService.getInstance();
 
-  // Load API keys on mount
+  // Keys live on the server; only learn which integrations are available
   useEffect(() => {
-    // Try to load OpenAI key from environment variables first (for production)
-    if (typeof process !== 'undefined' && process.env.OPENAI_API_KEY) {
-      setOpenaiKey(process.env.OPENAI_API_KEY);
-    } else {
-      // Fallback to localStorage for development
-      const savedKey = localStorage.getItem('openai-key');
-      if (savedKey) {
-        setOpenaiKey(savedKey);
-      }
-    }
-    
-    // Try to load OpenWeather key from environment variables first (for production)
-    if (typeof process !== 'undefined' && process.env.OPENWEATHER_API_KEY) {
-      setOpenweatherKey(process.env.OPENWEATHER_API_KEY);
-    } else {
-      // Fallback to localStorage for development
-      const savedWeatherKey = localStorage.getItem('openweather-api-key');
-      if (savedWeatherKey) {
-        setOpenweatherKey(savedWeatherKey);
-      }
-    }
+    AIService.getInstance().getStatus().then(setServiceStatus);
   }, []);
 
   // Initialize AI-Visual integration - only when component is actively being used
@@ -189,119 +167,19 @@ export const AITestDashboard = () => {
     try {
       const base64Image = await convertImageToBase64(referenceImage);
       
-      // Try to get API key from environment variables first (for production)
-      let apiKey = '';
-      if (typeof process !== 'undefined' && process.env.OPENAI_API_KEY) {
-        apiKey = process.env.OPENAI_API_KEY;
-      } else {
-        // Fallback to localStorage for development
-        apiKey = localStorage.getItem('openai-key') || openaiKey;
-      }
-      
-      if (!apiKey) {
-        alert('Please setup your OpenAI API key first');
-        setShowApiSetup(true);
-        setIsLoading(false);
-        return;
-      }
-      
-      if (!apiKey.startsWith('sk-') && !apiKey.startsWith('sk-proj-')) {
-        throw new Error('Invalid API key format. Should start with "sk-" or "sk-proj-"');
-      }
-      
+      const startTime = Date.now();
       setTestResults(prev => [...prev, '🤖 Calling OpenAI Vision API...']);
-      
-      const requestPayload = {
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: `Analyze this ${theme} reference image for a generative art piece. Extract and return as JSON:
 
-1. dominantColors: Array of 3-5 hex color codes from the image
-2. colorPalette: {primary, secondary, accent} hex codes  
-3. mood: Array of 3-5 mood keywords
-4. atmosphere: Single descriptive phrase
-5. visualCharacteristics: {
-   saturation: 0-1 (how vibrant),
-   turbulence: 0-1 (how chaotic vs calm),
-   harmony: 0-1 (how balanced),
-   energy: 0-1 (how dynamic),
-   speed: 0-2 (suggested animation speed),
-   density: 0-2 (object density multiplier)
-}
-6. weatherMappings: Suggestions for how weather should influence this theme
+      const aiAnalysis = await AIService.getInstance().analyzeImage(base64Image, weather || undefined);
 
-Return only valid JSON, no markdown formatting.`
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: `data:image/jpeg;base64,${base64Image}`,
-                  detail: "low"
-                }
-              }
-            ]
-          }
-        ],
-        max_tokens: 1000,
-        temperature: 0.3
-      };
-      
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestPayload)
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        if (response.status === 401) {
-          throw new Error('Invalid API key. Please check your OpenAI API key.');
-        } else if (response.status === 404) {
-          throw new Error('API endpoint not found. Please check your OpenAI API access.');
-        } else if (response.status === 429) {
-          throw new Error('Rate limit exceeded. Please try again later.');
-        } else {
-          throw new Error(`API Error: ${response.status} - ${response.statusText}`);
-        }
-      }
-
-      const data = await response.json();
-      const analysisText = data.choices[0].message.content;
-      
       setTestResults(prev => [...prev, '✅ AI response received, parsing analysis...']);
-      
-      let aiAnalysis;
-      try {
-        let cleanedResponse = analysisText.trim();
-        if (cleanedResponse.startsWith('```json')) {
-          cleanedResponse = cleanedResponse.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        } else if (cleanedResponse.startsWith('```')) {
-          cleanedResponse = cleanedResponse.replace(/^```\s*/, '').replace(/\s*```$/, '');
-        }
-        
-        aiAnalysis = JSON.parse(cleanedResponse);
-      } catch (parseError) {
-        throw new Error('AI returned invalid JSON format');
-      }
 
       const enrichedAnalysis = {
         ...aiAnalysis,
         theme,
         imageName: referenceImage.name,
         imageSize: `${(referenceImage.size / 1024).toFixed(1)} KB`,
-        processingTime: `${Date.now() - Date.now()}ms`,
-        source: 'OpenAI Vision API',
-        apiTokens: data.usage?.total_tokens || 'Unknown',
-        confidence: 0.95,
-        timestamp: new Date().toISOString()
+        processingTime: `${Date.now() - startTime}ms`
       };
 
       setAnalysis(enrichedAnalysis);
@@ -383,12 +261,6 @@ Return only valid JSON, no markdown formatting.`
   };
 
   const fetchWeather = async () => {
-    if (!openweatherKey) {
-      alert('Please setup your OpenWeather API key first');
-      setShowWeatherApiSetup(true);
-      return;
-    }
-    
     try {
       const weatherData = await weatherService.getWeatherData(location);
       setWeather(weatherData);
@@ -407,7 +279,7 @@ Return only valid JSON, no markdown formatting.`
       }
     } catch (error) {
       console.error('Weather fetch error:', error);
-      alert('Failed to fetch weather data. Please check your API key and try again.');
+      alert('Failed to fetch weather data. Please try again.');
     }
   };
 
@@ -461,7 +333,7 @@ Return only valid JSON, no markdown formatting.`
     }
   };
 
-  const isSetupComplete = theme && referenceImage && (openaiKey || openweatherKey);
+  const isSetupComplete = theme && referenceImage;
   const isAnalysisComplete = analysis && weather;
 
   return (
@@ -553,91 +425,37 @@ Return only valid JSON, no markdown formatting.`
                       <div className="space-y-4">
                         {/* OpenAI API */}
                         <div className="bg-gray-800/60 backdrop-blur-sm rounded-lg border border-gray-700/50 p-4">
-                          <div className="flex items-center justify-between mb-3">
+                          <div className="flex items-center justify-between">
                             <div className="flex items-center space-x-2">
                               <span className="text-blue-400">🤖</span>
-                              <span className="font-medium text-white">OpenAI API Key</span>
+                              <span className="font-medium text-white">AI Provider</span>
                             </div>
                             <span className={`text-sm px-2 py-1 rounded-full ${
-                              openaiKey ? 'bg-green-900/60 text-green-400' : 'bg-yellow-900/60 text-yellow-400'
+                              serviceStatus?.ai ? 'bg-green-900/60 text-green-400' : 'bg-yellow-900/60 text-yellow-400'
                             }`}>
-                              {openaiKey ? '✓ Configured' : '⚠️ Required'}
+                              {!serviceStatus ? 'Checking…' : serviceStatus.ai ? `✓ ${serviceStatus.provider}` : '⚠️ Mock analysis'}
                             </span>
                           </div>
-                          
-                          <button
-                            onClick={() => setShowApiSetup(!showApiSetup)}
-                            className="w-full bg-blue-600 hover:bg-blue-700 rounded-lg px-4 py-3 transition-all duration-200 flex items-center justify-between group"
-                          >
-                            <span className="text-white">Configure API Key</span>
-                            <span className="text-blue-200 group-hover:translate-x-1 transition-transform">→</span>
-                          </button>
-                          
-                          {showApiSetup && (
-                            <div className="mt-4 space-y-3 p-4 bg-gray-700 rounded-lg border border-gray-600">
-                              <input
-                                type="password"
-                                value={openaiKey}
-                                onChange={(e) => setOpenaiKey(e.target.value)}
-                                placeholder="sk-..."
-                                className="w-full bg-gray-800 border border-gray-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                              />
-                              <button
-                                onClick={() => {
-                                  localStorage.setItem('openai-key', openaiKey);
-                                  alert('API key saved!');
-                                }}
-                                className="w-full bg-green-600 hover:bg-green-700 rounded-lg px-4 py-3 transition-all duration-200 text-white font-medium"
-                              >
-                                Save API Key
-                              </button>
-                            </div>
-                          )}
                         </div>
 
                         {/* Weather API */}
                         <div className="bg-gray-800/60 backdrop-blur-sm rounded-lg border border-gray-700/50 p-4">
-                          <div className="flex items-center justify-between mb-3">
+                          <div className="flex items-center justify-between">
                             <div className="flex items-center space-x-2">
                               <span className="text-green-400">🌤️</span>
-                              <span className="font-medium text-white">Weather API Key</span>
+                              <span className="font-medium text-white">Weather</span>
                             </div>
                             <span className={`text-sm px-2 py-1 rounded-full ${
-                              openweatherKey ? 'bg-green-900/60 text-green-400' : 'bg-gray-700/60 text-gray-400'
+                              serviceStatus?.weather === 'openweather' ? 'bg-green-900/60 text-green-400' : 'bg-gray-700/60 text-gray-400'
                             }`}>
-                              {openweatherKey ? '✓ Configured' : 'Optional'}
+                              {!serviceStatus ? 'Checking…' : serviceStatus.weather === 'openweather' ? '✓ OpenWeather' : 'wttr.in'}
                             </span>
                           </div>
-                          
-                          <button
-                            onClick={() => setShowWeatherApiSetup(!showWeatherApiSetup)}
-                            className="w-full bg-green-600 hover:bg-green-700 rounded-lg px-4 py-3 transition-all duration-200 flex items-center justify-between group"
-                          >
-                            <span className="text-white">Configure Weather API</span>
-                            <span className="text-green-200 group-hover:translate-x-1 transition-transform">→</span>
-                          </button>
-                          
-                          {showWeatherApiSetup && (
-                            <div className="mt-4 space-y-3 p-4 bg-gray-700 rounded-lg border border-gray-600">
-                              <input
-                                type="password"
-                                value={openweatherKey}
-                                onChange={(e) => setOpenweatherKey(e.target.value)}
-                                placeholder="OpenWeather API key"
-                                className="w-full bg-gray-800 border border-gray-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-green-500 focus:border-transparent transition-all"
-                              />
-                              <button
-                                onClick={() => {
-                                  localStorage.setItem('openweather-api-key', openweatherKey);
-                                  alert('Weather API key saved!');
-                                }}
-                                className="w-full bg-green-600 hover:bg-green-700 rounded-lg px-4 py-3 transition-all duration-200 text-white font-medium"
-                              >
-                                Save Weather API Key
-                              </button>
-                            </div>
-                          )}
                         </div>
+
+                        <p className="text-xs text-gray-400">
+                          Providers and keys are configured in the server environment (AI_PROVIDER, OPENAI_API_KEY, OPENWEATHER_API_KEY).
+                        </p>
                       </div>
                     </div>
 
@@ -1,12 +1,19 @@
 // ParameterMappingTester.tsx
 // React component for testing and debugging the ParameterMappingEngine
-// Allows live monitoring, manual overrides, and performance tracking
+// Allows live monitoring, manual overrides, performance tracking and the mapping audit log
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { ParameterMappingEngine, type ParameterRule, type ParameterUpdate } from '../services/ParameterMappingEngine';
+import type { ParameterRule, ParameterUpdate } from '../services/ParameterMappingEngine';
+import type { MappingAuditEntry, MappingCandidateOutcome } from '../services/MappingAuditLog';
 import { ThemeAnalysis, WeatherData } from '../types/AITypes';
 import { useAIStore, subscribeToParameterUpdates, subscribeToPerformanceMetrics } from '../../store/aiStore';
 import { useVisualStore } from '../../store/visualStore';
+import { EVOLUTION_PERIOD_MS, type EvolutionPeriod } from '../../utils/evolution';
+import { evolutionScheduler, useEvolution } from '../../utils/evolutionScheduler';
+import { liveMapping, useLiveMapping } from '../../utils/liveMapping';
+import { downloadBlob } from '../../utils/imageExport';
+import { CONFLICT_STRATEGIES } from '../../utils/mappingRules';
+import type { ConflictStrategy } from '../../types/mappingRule';
 
 interface ParameterMappingTesterProps {
   aiResults?: ThemeAnalysis;
@@ -26,6 +33,8 @@ interface PerformanceMetrics {
   renderTime: number;
 }
 
+const AUDIT_OUTCOMES: MappingCandidateOutcome[] = ['won', 'outvoted', 'blended', 'unchanged', 'locked', 'rejected', 'error'];
+
 interface OverrideState {
   [variable: string]: {
     value: any;
@@ -69,12 +78,10 @@ const ParameterMappingTester: React.FC<ParameterMappingTesterProps> = ({
     performanceMetrics: storePerformanceMetrics,
     showParameterTester,
     selectedVariable: storeSelectedVariable,
-    addParameterUpdates,
     setLiveMode,
     setOverride,
     clearOverride,
     clearAllOverrides,
-    setMappingEngineStatus,
     updatePerformanceMetrics,
     setShowParameterTester,
     setSelectedVariable
@@ -89,7 +96,7 @@ const ParameterMappingTester: React.FC<ParameterMappingTesterProps> = ({
   const currentParams = propCurrentParams || visualState;
 
   // Local state management
-  const [parameterMappingEngine] = useState(() => new ParameterMappingEngine());
+  const [parameterMappingEngine] = useState(() => liveMapping.getEngine());
   const [selectedVariable, setSelectedVariableLocal] = useState<string>(storeSelectedVariable);
   const [liveMode, setLiveModeLocal] = useState<boolean>(isLiveMode);
   const [overrideMode, setOverrideMode] = useState<OverrideState>({});
@@ -100,6 +107,11 @@ const ParameterMappingTester: React.FC<ParameterMappingTesterProps> = ({
   const [lastUpdate, setLastUpdateLocal] = useState<Date>(lastUpdateTime || new Date());
   const [updateHistory, setUpdateHistory] = useState<ParameterUpdate[]>(parameterUpdates);
   const [showAdvanced, setShowAdvanced] = useState<boolean>(false);
+  const [auditOutcome, setAuditOutcome] = useState<MappingCandidateOutcome | ''>('');
+  const [auditEntries, setAuditEntries] = useState<MappingAuditEntry[]>([]);
+  const [conflictStrategy, setConflictStrategyLocal] = useState<ConflictStrategy>('winner-takes-all');
+  const evolution = useEvolution();
+  const liveRun = useLiveMapping();
 
   // Sync local state with store
   useEffect(() => {
@@ -139,19 +151,33 @@ const ParameterMappingTester: React.FC<ParameterMappingTesterProps> = ({
     return parameterMappingEngine.getAllRules().sort((a, b) => a.variable.localeCompare(b.variable));
   }, [parameterMappingEngine]);
 
+  // One entry per variable (a variable may have several rules)
+  const variableRules = useMemo(() => {
+    return allRules.filter((rule, index) => index === 0 || allRules[index - 1].variable !== rule.variable);
+  }, [allRules]);
+
+  useEffect(() => {
+    setConflictStrategyLocal(selectedVariable ? parameterMappingEngine.getConflictStrategy(selectedVariable) : 'winner-takes-all');
+  }, [parameterMappingEngine, selectedVariable]);
+
+  const changeConflictStrategy = useCallback((strategy: ConflictStrategy) => {
+    parameterMappingEngine.setConflictStrategy(selectedVariable, strategy);
+    setConflictStrategyLocal(strategy);
+  }, [parameterMappingEngine, selectedVariable]);
+
   // Get current computed value for selected variable
   const currentComputedValue = useMemo(() => {
     if (!selectedVariable || !aiResults || !weatherData) return null;
 
     try {
-      const updates = parameterMappingEngine.mapParameters(aiResults, weatherData, currentParams);
+      const updates = parameterMappingEngine.previewParameters(aiResults, weatherData, currentParams, evolution.state);
       const update = updates.find(u => u.variable === selectedVariable);
       return update?.value ?? null;
     } catch (error) {
       console.error('Error computing value:', error);
       return null;
     }
-  }, [selectedVariable, aiResults, weatherData, currentParams, parameterMappingEngine]);
+  }, [selectedVariable, aiResults, weatherData, currentParams, parameterMappingEngine, evolution.state]);
 
   // Get current actual value from scene
   const currentActualValue = useMemo(() => {
@@ -197,34 +223,33 @@ const ParameterMappingTester: React.FC<ParameterMappingTesterProps> = ({
     };
   }, [updatePerformanceMetrics, showAdvanced, liveMode]);
 
-  // Auto-update in live mode - optimized for performance
+  // Live mode runs in the canvas (see liveMapping); show what each run changed
   useEffect(() => {
-    if (!liveMode || !aiResults || !weatherData) return;
+    if (!liveRun.lastRunAt || liveRun.lastUpdates.length === 0) return;
+    setUpdateHistory(prev => [...prev.slice(-50), ...liveRun.lastUpdates]);
+    setLastUpdateLocal(new Date(liveRun.lastRunAt));
+  }, [liveRun.lastRunAt, liveRun.lastUpdates]);
 
-    const interval = setInterval(() => {
-      try {
-        setMappingEngineStatus('active');
-        const updates = parameterMappingEngine.mapParameters(aiResults, weatherData, currentParams);
-        
-        // Add updates to store
-        addParameterUpdates(updates);
-        
-        // Call prop callback if provided
-        if (onParameterUpdate) {
-          onParameterUpdate(updates);
-        }
-        
-        setMappingEngineStatus('idle');
-      } catch (error) {
-        if (process.env.NODE_ENV === 'development') {
-          console.error('Error in live mode update:', error);
-        }
-        setMappingEngineStatus('error');
-      }
-    }, 2000); // Update every 2 seconds instead of 1 second for better performance
+  // Audit entries for the selected variable (or all), refreshed after every live run
+  const auditQuery = useMemo(() => ({
+    variable: selectedVariable || undefined,
+    outcome: auditOutcome || undefined
+  }), [selectedVariable, auditOutcome]);
 
-    return () => clearInterval(interval);
-  }, [liveMode, aiResults, weatherData, currentParams, parameterMappingEngine, onParameterUpdate, addParameterUpdates, setMappingEngineStatus]);
+  useEffect(() => {
+    setAuditEntries(parameterMappingEngine.getAuditLog().query({ ...auditQuery, limit: 20 }));
+  }, [parameterMappingEngine, auditQuery, liveRun.lastRunAt]);
+
+  const exportAudit = useCallback(() => {
+    const json = parameterMappingEngine.getAuditLog().export(auditQuery);
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadBlob(new Blob([json], { type: 'application/json' }), `mapping-audit_${auditQuery.variable ?? 'all'}_${stamp}.json`);
+  }, [parameterMappingEngine, auditQuery]);
+
+  const clearAudit = useCallback(() => {
+    parameterMappingEngine.getAuditLog().clear();
+    setAuditEntries([]);
+  }, [parameterMappingEngine]);
 
   // Subscribe to external parameter updates
   useEffect(() => {
@@ -450,6 +475,28 @@ const ParameterMappingTester: React.FC<ParameterMappingTesterProps> = ({
             {showAdvanced ? 'Hide' : 'Show'} Advanced
           </button>
         </div>
+
+        <div className="flex items-center space-x-2 text-sm">
+          <span className="text-gray-400">Evolution:</span>
+          <span className="font-mono text-purple-300" title={`Next phase at ${new Date(evolution.phaseEndsAt).toLocaleString()}`}>
+            {evolution.state.phase} · {evolution.state.mood} · {Math.round(evolution.state.intensity * 100)}%
+          </span>
+          <select
+            value={evolution.period}
+            onChange={(e) => evolutionScheduler.setPeriod(e.target.value as EvolutionPeriod)}
+            className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+          >
+            {(Object.keys(EVOLUTION_PERIOD_MS) as EvolutionPeriod[]).map(period => (
+              <option key={period} value={period}>{period}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => evolutionScheduler.restart()}
+            className="px-3 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+          >
+            Restart Cycle
+          </button>
+        </div>
         
         {Object.keys(overrideMode).length > 0 && (
           <button
@@ -474,7 +521,7 @@ const ParameterMappingTester: React.FC<ParameterMappingTesterProps> = ({
               className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
               <option value="">Choose a variable...</option>
-              {allRules.map(rule => (
+              {variableRules.map(rule => (
                 <option key={rule.variable} value={rule.variable}>
                   {rule.variable} - {rule.description}
                 </option>
@@ -568,6 +615,25 @@ const ParameterMappingTester: React.FC<ParameterMappingTesterProps> = ({
                 </div>
               </div>
 
+              {/* Conflict Strategy */}
+              <div className="flex items-center justify-between text-sm">
+                <label className="text-gray-300" title="How competing rules on this variable are combined">
+                  Conflict Strategy
+                  <span className="ml-2 text-xs text-gray-500">
+                    {parameterMappingEngine.getRules(selectedVariable).length} rule(s)
+                  </span>
+                </label>
+                <select
+                  value={conflictStrategy}
+                  onChange={(e) => changeConflictStrategy(e.target.value as ConflictStrategy)}
+                  className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+                >
+                  {CONFLICT_STRATEGIES.map(strategy => (
+                    <option key={strategy} value={strategy}>{strategy}</option>
+                  ))}
+                </select>
+              </div>
+
               {/* Rule Information */}
               {showAdvanced && (
                 <div className="text-xs text-gray-400 space-y-1">
@@ -661,10 +727,92 @@ const ParameterMappingTester: React.FC<ParameterMappingTesterProps> = ({
         </div>
       </div>
 
+      {/* Mapping Audit */}
+      <div className="mt-6">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium text-gray-300">
+            Mapping Audit {selectedVariable ? `· ${selectedVariable}` : '· all variables'}
+          </h3>
+          <div className="flex items-center space-x-2">
+            <select
+              value={auditOutcome}
+              onChange={(e) => setAuditOutcome(e.target.value as MappingCandidateOutcome | '')}
+              className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+            >
+              <option value="">Any outcome</option>
+              {AUDIT_OUTCOMES.map(outcome => (
+                <option key={outcome} value={outcome}>{outcome}</option>
+              ))}
+            </select>
+            <button
+              onClick={exportAudit}
+              className="px-3 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+            >
+              Export JSON
+            </button>
+            <button
+              onClick={clearAudit}
+              className="px-3 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+        <div className="bg-gray-800 rounded-lg p-4 max-h-80 overflow-y-auto">
+          {auditEntries.length === 0 ? (
+            <p className="text-gray-500 text-sm">No decisions recorded yet...</p>
+          ) : (
+            <div className="space-y-2">
+              {auditEntries.map(entry => (
+                <div key={entry.id} className="text-xs border-b border-gray-700 pb-2">
+                  <div className="flex items-center justify-between">
+                    <span className="font-mono text-blue-400">{entry.variable}</span>
+                    <span className="text-gray-500">
+                      {new Date(entry.timestamp).toLocaleTimeString()} · {entry.trigger}
+                    </span>
+                  </div>
+                  <div className="text-gray-300 mt-1">
+                    {entry.decision}
+                    {entry.value !== undefined && (
+                      <span className="font-mono"> → {formatValue(entry.value)}</span>
+                    )}
+                  </div>
+                  {entry.override && <div className="text-orange-400">{entry.override}</div>}
+                  {entry.candidates.map((candidate, index) => (
+                    <div key={index} className="ml-2 mt-1 text-gray-500">
+                      <div className="flex items-center justify-between">
+                        <span className="truncate" title={candidate.reason ?? undefined}>
+                          <span className={candidate.outcome === 'won' ? 'text-green-400' : candidate.outcome === 'error' || candidate.outcome === 'rejected' ? 'text-red-400' : 'text-gray-400'}>
+                            {candidate.outcome}
+                          </span>
+                          {' '}{candidate.source} · p{candidate.priority}
+                          {candidate.confidence !== null && ` · ${candidate.confidence.toFixed(2)}`}
+                          {' '}· {candidate.rule}
+                        </span>
+                        {candidate.value !== undefined && (
+                          <span className="font-mono ml-2">{formatValue(candidate.value)}</span>
+                        )}
+                      </div>
+                      {candidate.clamp && (
+                        <div className="text-yellow-500">
+                          Clamped {formatValue(candidate.clamp.from)} → {formatValue(candidate.clamp.to)} by {candidate.clamp.by.join(', ')}
+                        </div>
+                      )}
+                      {candidate.detail && <div>{candidate.detail}</div>}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
       {/* Status Bar */}
       <div className="mt-6 pt-4 border-t border-gray-700 flex items-center justify-between text-xs text-gray-400">
         <div className="flex items-center space-x-4">
           <span>Status: {liveMode ? '🟢 Live' : '🔴 Manual'}</span>
+          {liveRun.running && <span>Live updates: {storePerformanceMetrics.updateFrequency}/s</span>}
           <span>Engine: {mappingEngineStatus === 'active' ? '🟢 Active' : mappingEngineStatus === 'error' ? '🔴 Error' : '🟡 Idle'}</span>
           {aiResults && <span>AI: ✅ Connected</span>}
           {weatherData && <span>Weather: ✅ Connected</span>}
@@ -0,0 +1,196 @@
+// MappingAuditLog.ts
+// Per-variable record of ParameterMappingEngine decisions: every candidate value the
+// rules proposed, which one won and why, what safety clamp applied and which lock
+// blocked a rule. Runs where nothing would change are not recorded, so the history
+// reaches back to the last real change. Bounded per variable; exportable as JSON.
+
+import type { ParameterUpdate } from './ParameterMappingEngine';
+
+export type MappingAuditTrigger = 'rules' | 'audio' | 'ai-suggestions';
+
+export type MappingCandidateOutcome =
+  | 'won'          // became the engine's update
+  | 'outvoted'     // lost the conflict to another candidate
+  | 'blended'      // combined with the others by the variable's conflict strategy
+  | 'unchanged'    // too close to the current value for the rule's sensitivity
+  | 'locked'       // the variable is locked on the engine
+  | 'rejected'     // an AI suggestion that failed validation
+  | 'error';       // the rule threw
+
+export interface SafetyClamp {
+  from: number;               // what the rule proposed
+  to: number;                 // what was kept
+  by: string[];               // which limits moved it, e.g. 'safety limit [20, 150]'
+}
+
+export interface MappingAuditCandidate {
+  source: ParameterUpdate['source'];
+  priority: number;
+  confidence: number | null;
+  rule: string;               // The rule's description
+  reason: string | null;      // The update's reason, when the rule produced one
+  proposed: unknown;          // Raw value from the rule or suggestion
+  value: unknown;             // After safety limits
+  clamp: SafetyClamp | null;
+  outcome: MappingCandidateOutcome;
+  detail: string | null;      // Why it lost, the lock reason or the error
+}
+
+export interface MappingAuditEntry {
+  id: number;
+  timestamp: number;          // Epoch ms
+  variable: string;
+  trigger: MappingAuditTrigger;
+  current: unknown;           // Scene value when the engine ran
+  value: unknown;             // What the engine emitted (undefined: nothing)
+  decision: string;
+  candidates: MappingAuditCandidate[];
+  override: string | null;    // Set when something outside the engine replaced the decision
+}
+
+export interface MappingAuditQuery {
+  variable?: string;
+  since?: number;             // Epoch ms, inclusive
+  until?: number;
+  trigger?: MappingAuditTrigger;
+  outcome?: MappingCandidateOutcome;   // Entries with at least one candidate with this outcome
+  limit?: number;             // Newest first
+}
+
+export interface MappingAuditFile {
+  format: 'visual-canvas-mapping-audit';
+  version: 1;
+  exportedAt: string;
+  entries: MappingAuditEntry[];
+}
+
+const DEFAULT_CAPACITY = 200;   // Entries kept per variable
+
+interface PendingVariable {
+  current: unknown;
+  candidates: MappingAuditCandidate[];
+  value: unknown;
+  decision: string | null;
+}
+
+/** Candidates gathered during one engine run; committed to the log by finish(). */
+export class MappingAuditRun {
+  private variables = new Map<string, PendingVariable>();
+  private byUpdate = new Map<ParameterUpdate, MappingAuditCandidate>();
+
+  constructor(private readonly trigger: MappingAuditTrigger) {}
+
+  add(variable: string, current: unknown, candidate: MappingAuditCandidate, update?: ParameterUpdate) {
+    let pending = this.variables.get(variable);
+    if (!pending) {
+      pending = { current, candidates: [], value: undefined, decision: null };
+      this.variables.set(variable, pending);
+    }
+    pending.candidates.push(candidate);
+    if (update) this.byUpdate.set(update, candidate);
+  }
+
+  setOutcome(update: ParameterUpdate, outcome: MappingCandidateOutcome, detail: string | null = null) {
+    const candidate = this.byUpdate.get(update);
+    if (candidate) {
+      candidate.outcome = outcome;
+      candidate.detail = detail;
+    }
+  }
+
+  decide(variable: string, value: unknown, decision: string) {
+    const pending = this.variables.get(variable);
+    if (pending) {
+      pending.value = value;
+      pending.decision = decision;
+    }
+  }
+
+  finish(log: MappingAuditLog, timestamp = Date.now()) {
+    this.variables.forEach((pending, variable) => {
+      const decision = pending.decision ?? describeNoUpdate(pending.candidates);
+      if (decision === null) return;
+      log.record({
+        timestamp,
+        variable,
+        trigger: this.trigger,
+        current: pending.current,
+        value: pending.value,
+        decision,
+        candidates: pending.candidates,
+        override: null
+      });
+    });
+  }
+}
+
+// Why a variable got no update; null when every candidate simply matched the scene
+function describeNoUpdate(candidates: MappingAuditCandidate[]): string | null {
+  const locked = candidates.find((candidate) => candidate.outcome === 'locked');
+  if (locked) return `Locked${locked.detail ? `: ${locked.detail}` : ''}`;
+  const failed = candidates.find((candidate) => candidate.outcome === 'error');
+  if (failed) return `Rule failed: ${failed.detail}`;
+  const rejected = candidates.find((candidate) => candidate.outcome === 'rejected');
+  if (rejected) return `Suggestion rejected: ${rejected.detail}`;
+  return null;
+}
+
+export class MappingAuditLog {
+  private entries = new Map<string, MappingAuditEntry[]>();
+  private nextId = 1;
+
+  constructor(private readonly capacity = DEFAULT_CAPACITY) {}
+
+  record(entry: Omit<MappingAuditEntry, 'id'>): MappingAuditEntry {
+    const recorded = { id: this.nextId++, ...entry };
+    const history = this.entries.get(entry.variable) ?? [];
+    history.push(recorded);
+    if (history.length > this.capacity) history.splice(0, history.length - this.capacity);
+    this.entries.set(entry.variable, history);
+    return recorded;
+  }
+
+  /** Mark the variable's latest decision (if made at or after `since`) as replaced from outside the engine. */
+  noteOverride(variable: string, since: number, reason: string) {
+    const history = this.entries.get(variable);
+    const latest = history?.[history.length - 1];
+    if (latest && latest.timestamp >= since) latest.override = reason;
+  }
+
+  /** Variables with history, most recently decided first. */
+  getVariables(): string[] {
+    return Array.from(this.entries.entries())
+      .sort(([, a], [, b]) => b[b.length - 1].id - a[a.length - 1].id)
+      .map(([variable]) => variable);
+  }
+
+  /** Matching entries, newest first. */
+  query(query: MappingAuditQuery = {}): MappingAuditEntry[] {
+    const histories = query.variable !== undefined
+      ? [this.entries.get(query.variable) ?? []]
+      : Array.from(this.entries.values());
+
+    const matches = histories.flat().filter((entry) =>
+      (query.since === undefined || entry.timestamp >= query.since) &&
+      (query.until === undefined || entry.timestamp <= query.until) &&
+      (query.trigger === undefined || entry.trigger === query.trigger) &&
+      (query.outcome === undefined || entry.candidates.some((candidate) => candidate.outcome === query.outcome))
+    );
+    matches.sort((a, b) => b.id - a.id);
+    return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+
+  export(query: MappingAuditQuery = {}): string {
+    const file: MappingAuditFile = {
+      format: 'visual-canvas-mapping-audit',
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      entries: this.query(query)
+    };
+    return JSON.stringify(file, null, 2);
+  }
+}
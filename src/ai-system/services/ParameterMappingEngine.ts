@@ -1,13 +1,27 @@
 // ParameterMappingEngine.ts
 // Comprehensive parameter mapping system for EnhancedVisualCanvas
-// Supports AI, weather, time, evolution, and hybrid logic
-
-import { ThemeAnalysis, WeatherData } from '../types/AITypes';
+// Supports AI, weather, time, evolution, audio, and hybrid logic
+
+import { AdjustableParameter, ParameterMappingRequest, ThemeAnalysis, WeatherData } from '../types/AITypes';
+import type { AudioFeatureName, AudioFeatures } from '../../types/audio';
+import { SILENT_FEATURES } from '../../utils/audioFeatures';
+import { averageColorsOklab, blendHuesOklch, isDiscreteNumberKey, isHexColor } from '../../utils/stateInterpolation';
+import { compileMappingRule } from '../../utils/mappingRules';
+import { SAFETY_LIMITS } from '../../utils/safetyLimits';
+import type { ConflictStrategy, MappingRuleDefinition } from '../../types/mappingRule';
+import {
+  MappingAuditLog,
+  MappingAuditRun,
+  type MappingAuditCandidate,
+  type MappingCandidateOutcome,
+  type SafetyClamp
+} from './MappingAuditLog';
+import { AIService } from './AIService';
 
 // Core Types
 interface ParameterRule {
   variable: string;
-  source: 'ai' | 'weather' | 'time' | 'evolution' | 'hybrid' | 'override' | 'reset';
+  source: 'ai' | 'weather' | 'time' | 'evolution' | 'audio' | 'hybrid' | 'override' | 'reset';
   priority: number; // 1-10, higher wins conflicts
   constraints: {
     min: number;
@@ -28,6 +42,7 @@ interface MappingInput {
   weather: WeatherData;
   time: TimeData;
   evolution: EvolutionState;
+  audio: AudioFeatures; // latest analysed sound (all zero when audio-reactive mode is off)
   current: any; // current parameter value
   scene: SceneState; // for safety checks
 }
@@ -56,7 +71,7 @@ interface SceneState {
 interface ParameterUpdate {
   variable: string;
   value: any;
-  source: 'ai' | 'weather' | 'time' | 'evolution' | 'hybrid' | 'override' | 'reset';
+  source: 'ai' | 'weather' | 'time' | 'evolution' | 'audio' | 'hybrid' | 'override' | 'reset';
   priority: number;
   reason: string;
   confidence: number; // 0-1
@@ -68,9 +83,36 @@ interface UserPreferences {
   sensitivityLevel: number; // 0-1
 }
 
+// Stand-ins for audio rules evaluated before any AI analysis or weather has arrived
+const NEUTRAL_THEME: ThemeAnalysis = {
+  theme: 'neutral',
+  colorPalette: { primary: '#ffffff', secondary: '#888888', accent: '#ffffff', supporting: [] },
+  mood: [],
+  atmosphere: 'neutral',
+  visualCharacteristics: { saturation: 0.5, turbulence: 0.5, harmony: 0.5, energy: 0.5, speed: 1, density: 1, brightness: 1 },
+  weatherMappings: {
+    temperature: { hueShift: () => 0, speedMultiplier: () => 1, energyModifier: () => 0 },
+    wind: { turbulence: () => 0, flowDirection: () => 0, density: () => 1 },
+    conditions: {}
+  },
+  confidence: 0
+};
+
+const NEUTRAL_WEATHER: WeatherData = {
+  temperature: 65,
+  condition: 'unknown',
+  windSpeed: 0,
+  windDirection: 0,
+  humidity: 50,
+  pressure: 30,
+  timeOfDay: 'day'
+};
+
 class ParameterMappingEngine {
-  private rules: Map<string, ParameterRule> = new Map();
-  private locked: Set<string> = new Set();
+  // Rules per variable; several on one variable are combined by its conflict strategy
+  private rules: Map<string, ParameterRule[]> = new Map();
+  private conflictStrategies: Map<string, ConflictStrategy> = new Map(); // default: winner-takes-all
+  private locked: Map<string, string> = new Map(); // variable -> reason ('' when none was given)
   private safetyLimits: Map<string, [number, number]> = new Map();
   private evolutionState: EvolutionState = {
     phase: 'calm',
@@ -78,14 +120,21 @@ class ParameterMappingEngine {
     intensity: 0.5,
     duration: 0
   };
+  private audioFeatures: AudioFeatures = SILENT_FEATURES;
+  // Rules and strategies displaced by rule definitions, restored when the definitions go away
+  private displacedRules: Map<string, { rules: ParameterRule[]; strategy?: ConflictStrategy }> = new Map();
+  // AI results and weather from the last mapParameters call, reused by per-frame audio mapping
+  private lastContext: { ai: ThemeAnalysis; weather: WeatherData } = { ai: NEUTRAL_THEME, weather: NEUTRAL_WEATHER };
+  private auditLog = new MappingAuditLog();
 
   constructor() {
     this.initializeRules();
     this.initializeSafetyLimits();
   }
 
-  private addRule(rule: ParameterRule) {
-    this.rules.set(rule.variable, rule);
+  /** Add a rule next to any the variable already has; they compete or blend per its conflict strategy. */
+  public addRule(rule: ParameterRule) {
+    this.rules.set(rule.variable, [...(this.rules.get(rule.variable) ?? []), rule]);
   }
 
   private initializeRules() {
@@ -594,17 +643,10 @@ class ParameterMappingEngine {
   }
 
   private initializeSafetyLimits() {
-    // Absolute limits that should never be exceeded
-    this.safetyLimits.set('particles.count', [10, 1000]);
-    this.safetyLimits.set('geometric.spheres.count', [0, 15]);
-    this.safetyLimits.set('geometric.cubes.count', [0, 15]);
-    this.safetyLimits.set('geometric.toruses.count', [0, 10]);
-    this.safetyLimits.set('geometric.blobs.count', [0, 10]);
-    this.safetyLimits.set('camera.distance', [8, 60]);
-    this.safetyLimits.set('camera.fov', [20, 150]);
-    this.safetyLimits.set('globalEffects.shapeGlow.radius', [1, 150]);
-    this.safetyLimits.set('globalEffects.fireflies.count', [5, 150]);
-    this.safetyLimits.set('backgroundConfig.timeScale', [0.05, 5.0]);
+    // Absolute limits that should never be exceeded, shared with preset validation
+    Object.entries(SAFETY_LIMITS).forEach(([variable, [min, max]]) => {
+      this.safetyLimits.set(variable, [min, max]);
+    });
   }
 
   // Main mapping function
@@ -613,6 +655,29 @@ class ParameterMappingEngine {
     weatherData: WeatherData,
     currentParams: any,
     evolutionState?: EvolutionState
+  ): ParameterUpdate[] {
+    const audit = new MappingAuditRun('rules');
+    const updates = this.runRules(aiResults, weatherData, currentParams, evolutionState, audit);
+    audit.finish(this.auditLog);
+    return updates;
+  }
+
+  /** Same as mapParameters, but kept out of the audit log: for previews that don't touch the scene. */
+  public previewParameters(
+    aiResults: ThemeAnalysis,
+    weatherData: WeatherData,
+    currentParams: any,
+    evolutionState?: EvolutionState
+  ): ParameterUpdate[] {
+    return this.runRules(aiResults, weatherData, currentParams, evolutionState, null);
+  }
+
+  private runRules(
+    aiResults: ThemeAnalysis,
+    weatherData: WeatherData,
+    currentParams: any,
+    evolutionState: EvolutionState | undefined,
+    audit: MappingAuditRun | null
   ): ParameterUpdate[] {
     const updates: ParameterUpdate[] = [];
     const timeData = this.getCurrentTimeData();
@@ -623,38 +688,124 @@ class ParameterMappingEngine {
       this.evolutionState = evolutionState;
     }
 
-    for (const [variable, rule] of this.rules) {
-      if (this.locked.has(variable)) continue;
+    this.lastContext = { ai: aiResults, weather: weatherData };
 
-      const input: MappingInput = {
-        ai: aiResults,
-        weather: weatherData,
-        time: timeData,
-        evolution: this.evolutionState,
-        current: this.getNestedValue(currentParams, variable),
-        scene: sceneState
-      };
+    for (const rules of this.rules.values()) {
+      for (const rule of rules) {
+        const update = this.evaluateRule(rule, currentParams, timeData, sceneState, audit);
+        if (update) updates.push(update);
+      }
+    }
 
-      try {
-        const newValue = rule.mappingFunction(input);
-        const safeValue = this.applySafetyLimits(variable, newValue, rule.constraints);
-        
-        if (this.shouldUpdate(variable, safeValue, input.current, rule.sensitivity)) {
-          updates.push({
-            variable,
-            value: safeValue,
-            source: rule.source,
-            priority: rule.priority,
-            reason: this.generateReason(rule.source, input),
-            confidence: this.calculateConfidence(rule, input)
-          });
-        }
-      } catch (error) {
-        console.warn(`Mapping error for ${variable}:`, error);
+    return this.resolveConflicts(updates, audit, currentParams);
+  }
+
+  /**
+   * Evaluate only the audio rules against the latest features. Cheap enough to run
+   * every frame; AI and weather inputs are the ones last passed to mapParameters.
+   */
+  public mapAudioParameters(features: AudioFeatures, currentParams: any): ParameterUpdate[] {
+    this.audioFeatures = features;
+    const timeData = this.getCurrentTimeData();
+    const sceneState = this.getSceneState(currentParams);
+    const updates: ParameterUpdate[] = [];
+    const audit = new MappingAuditRun('audio');
+
+    for (const rules of this.rules.values()) {
+      for (const rule of rules) {
+        if (rule.source !== 'audio') continue;
+        const update = this.evaluateRule(rule, currentParams, timeData, sceneState, audit);
+        if (update) updates.push(update);
+      }
+    }
+
+    const resolved = this.resolveConflicts(updates, audit, currentParams);
+    audit.finish(this.auditLog);
+    return resolved;
+  }
+
+  private evaluateRule(
+    rule: ParameterRule,
+    currentParams: any,
+    timeData: TimeData,
+    sceneState: SceneState,
+    audit: MappingAuditRun | null
+  ): ParameterUpdate | null {
+    const { variable } = rule;
+    const current = this.getNestedValue(currentParams, variable);
+    if (this.locked.has(variable)) {
+      audit?.add(variable, current, this.auditCandidate(rule, 'locked', { detail: this.locked.get(variable) || null }));
+      return null;
+    }
+
+    const input: MappingInput = {
+      ai: this.lastContext.ai,
+      weather: this.lastContext.weather,
+      time: timeData,
+      evolution: this.evolutionState,
+      audio: this.audioFeatures,
+      current,
+      scene: sceneState
+    };
+
+    try {
+      const newValue = rule.mappingFunction(input);
+      const { value: safeValue, clamp } = this.clampToLimits(variable, newValue, rule.constraints);
+
+      // Blended variables keep every candidate; the blend is checked against sensitivity instead
+      const blended = this.getConflictStrategy(variable) !== 'winner-takes-all';
+      if (blended || this.shouldUpdate(variable, safeValue, input.current, rule.sensitivity)) {
+        const update: ParameterUpdate = {
+          variable,
+          value: safeValue,
+          source: rule.source,
+          priority: rule.priority,
+          reason: this.generateReason(rule.source, input),
+          confidence: this.calculateConfidence(rule, input)
+        };
+        // Provisionally the winner; resolveConflicts settles it
+        audit?.add(variable, current, this.auditCandidate(rule, 'won', {
+          proposed: newValue,
+          value: safeValue,
+          clamp,
+          confidence: update.confidence,
+          reason: update.reason
+        }), update);
+        return update;
       }
+      audit?.add(variable, current, this.auditCandidate(rule, 'unchanged', {
+        proposed: newValue,
+        value: safeValue,
+        clamp,
+        detail: 'Within the sensitivity threshold of the current value'
+      }));
+    } catch (error) {
+      console.warn(`Mapping error for ${variable}:`, error);
+      audit?.add(variable, current, this.auditCandidate(rule, 'error', {
+        detail: error instanceof Error ? error.message : String(error)
+      }));
     }
+    return null;
+  }
 
-    return this.resolveConflicts(updates);
+  private auditCandidate(
+    rule: ParameterRule,
+    outcome: MappingCandidateOutcome,
+    details: Partial<MappingAuditCandidate> = {}
+  ): MappingAuditCandidate {
+    return {
+      source: rule.source,
+      priority: rule.priority,
+      confidence: null,
+      rule: rule.description || rule.variable,
+      reason: null,
+      proposed: undefined,
+      value: undefined,
+      clamp: null,
+      outcome,
+      detail: null,
+      ...details
+    };
   }
 
   // AI-Powered Meta-Mapping (for complex decisions)
@@ -663,24 +814,34 @@ class ParameterMappingEngine {
     currentScene: any,
     userPreferences?: UserPreferences
   ): Promise<ParameterUpdate[]> {
-    // This could call OpenAI to make higher-level decisions
-    const prompt = this.buildMappingPrompt(aiResults, currentScene, userPreferences);
-    
-    // Call AI for complex mapping decisions
-    const aiResponse = await this.callAIForMapping(prompt);
-    
-    // Parse and validate AI suggestions
+    const request = this.buildMappingRequest(aiResults, currentScene, userPreferences);
+
+    // Without a provider, or when the call fails, fall back to the rule-based mapping
+    const aiResponse = await this.callAIForMapping(request);
+    if (!aiResponse) {
+      return this.mapParameters(aiResults, this.lastContext.weather, currentScene);
+    }
+
     return this.validateAISuggestions(aiResponse, currentScene);
   }
 
   private applySafetyLimits(variable: string, value: any, constraints: any): any {
+    return this.clampToLimits(variable, value, constraints).value;
+  }
+
+  // Safety limits, also reporting which of them moved the value (for the audit log)
+  private clampToLimits(variable: string, value: any, constraints: any): { value: any; clamp: SafetyClamp | null } {
     const absoluteLimits = this.safetyLimits.get(variable);
     
     if (typeof value === 'number') {
+      const by: string[] = [];
       let safeValue = Math.max(constraints.min, Math.min(constraints.max, value));
+      if (safeValue !== value) by.push(`rule range [${constraints.min}, ${constraints.max}]`);
       
       if (absoluteLimits) {
-        safeValue = Math.max(absoluteLimits[0], Math.min(absoluteLimits[1], safeValue));
+        const limited = Math.max(absoluteLimits[0], Math.min(absoluteLimits[1], safeValue));
+        if (limited !== safeValue) by.push(`safety limit [${absoluteLimits[0]}, ${absoluteLimits[1]}]`);
+        safeValue = limited;
       }
       
       // Prefer safe zone if available
@@ -691,25 +852,38 @@ class ParameterMappingEngine {
           safeValue = safeValue < safeMin ? 
             Math.min(safeMin, safeValue + 1) : 
             Math.max(safeMax, safeValue - 1);
+          by.push(`safe zone [${safeMin}, ${safeMax}]`);
         }
       }
       
-      return safeValue;
+      return { value: safeValue, clamp: by.length > 0 ? { from: value, to: safeValue, by } : null };
     }
     
-    return value;
+    return { value, clamp: null };
   }
 
   // Configuration methods for tweaking
   public updateRule(variable: string, updates: Partial<ParameterRule>) {
-    const rule = this.rules.get(variable);
+    const [rule, ...others] = this.rules.get(variable) ?? [];
     if (rule) {
-      this.rules.set(variable, { ...rule, ...updates });
+      this.rules.set(variable, [{ ...rule, ...updates }, ...others]);
     }
   }
 
+  public setConflictStrategy(variable: string, strategy: ConflictStrategy) {
+    if (strategy === 'winner-takes-all') {
+      this.conflictStrategies.delete(variable);
+    } else {
+      this.conflictStrategies.set(variable, strategy);
+    }
+  }
+
+  public getConflictStrategy(variable: string): ConflictStrategy {
+    return this.conflictStrategies.get(variable) ?? 'winner-takes-all';
+  }
+
   public lockParameter(variable: string, reason?: string) {
-    this.locked.add(variable);
+    this.locked.set(variable, reason ?? '');
     console.log(`🔒 Locked parameter: ${variable}${reason ? ` (${reason})` : ''}`);
   }
 
@@ -718,12 +892,17 @@ class ParameterMappingEngine {
     console.log(`🔓 Unlocked parameter: ${variable}`);
   }
 
+  /** Use `engine`'s locks from now on: locking or unlocking on either engine applies to both. */
+  public shareLocksWith(engine: ParameterMappingEngine) {
+    this.locked = engine.locked;
+  }
+
   public addCustomMapping(
     variable: string, 
     mappingFunction: MappingFunction,
     options: Partial<ParameterRule> = {}
   ) {
-    this.rules.set(variable, {
+    this.rules.set(variable, [{
       variable,
       source: 'hybrid',
       priority: 5,
@@ -732,6 +911,71 @@ class ParameterMappingEngine {
       sensitivity: 0.5,
       description: 'Custom mapping',
       ...options
+    }]);
+  }
+
+  /** Drive `variable` linearly from `min` (feature 0) to `max` (feature 1). Replaces any rule on it. */
+  public addAudioMapping(
+    variable: string,
+    feature: AudioFeatureName,
+    min: number,
+    max: number,
+    options: Partial<ParameterRule> = {}
+  ) {
+    this.rules.set(variable, [{
+      variable,
+      source: 'audio',
+      priority: 9,
+      constraints: { min: Math.min(min, max), max: Math.max(min, max) },
+      mappingFunction: (input: MappingInput) => min + (max - min) * input.audio[feature],
+      sensitivity: 1,
+      description: `Audio ${feature} mapped to ${min}–${max}`,
+      ...options
+    }]);
+  }
+
+  public removeRule(variable: string) {
+    this.rules.delete(variable);
+  }
+
+  /**
+   * Replace the current set of declarative rules. Each enabled definition takes over
+   * its variable (later definitions win), or joins the variable's rules when it names
+   * a conflict strategy; variables no longer defined get their original rules back.
+   * Definitions that fail to compile are skipped.
+   */
+  public setRuleDefinitions(definitions: MappingRuleDefinition[]) {
+    this.displacedRules.forEach(({ rules, strategy }, variable) => {
+      if (rules.length > 0) {
+        this.rules.set(variable, rules);
+      } else {
+        this.rules.delete(variable);
+      }
+      this.setConflictStrategy(variable, strategy ?? 'winner-takes-all');
+    });
+    this.displacedRules.clear();
+
+    definitions.forEach((definition) => {
+      if (!definition.enabled) return;
+      let rule: ParameterRule;
+      try {
+        rule = compileMappingRule(definition);
+      } catch (error) {
+        console.warn(`Skipping mapping rule ${definition.id} on ${definition.variable}:`, error);
+        return;
+      }
+      if (!this.displacedRules.has(rule.variable)) {
+        this.displacedRules.set(rule.variable, {
+          rules: this.rules.get(rule.variable) ?? [],
+          strategy: this.conflictStrategies.get(rule.variable)
+        });
+      }
+      if (definition.strategy) {
+        this.addRule(rule);
+        this.setConflictStrategy(rule.variable, definition.strategy);
+      } else {
+        this.rules.set(rule.variable, [rule]);
+      }
     });
   }
 
@@ -749,8 +993,15 @@ class ParameterMappingEngine {
     return newValue !== currentValue;
   }
 
-  private resolveConflicts(updates: ParameterUpdate[]): ParameterUpdate[] {
-    // Sort by priority and resolve conflicts
+  /**
+   * One update per variable, combined by the variable's conflict strategy. With
+   * `currentParams`, a blended value that would barely move the scene is dropped.
+   */
+  private resolveConflicts(
+    updates: ParameterUpdate[],
+    audit: MappingAuditRun | null = null,
+    currentParams?: any
+  ): ParameterUpdate[] {
     const grouped = new Map<string, ParameterUpdate[]>();
     
     updates.forEach(update => {
@@ -760,11 +1011,85 @@ class ParameterMappingEngine {
       grouped.get(update.variable)!.push(update);
     });
 
-    return Array.from(grouped.values()).map(group => {
-      return group.sort((a, b) => b.priority - a.priority)[0];
+    return Array.from(grouped.values()).flatMap(group => {
+      const variable = group[0].variable;
+      const strategy = this.getConflictStrategy(variable);
+      const blend = strategy === 'winner-takes-all' ? null : this.blendUpdates(variable, group, strategy);
+      if (blend) {
+        const current = currentParams === undefined ? undefined : this.getNestedValue(currentParams, variable);
+        const sensitivity = Math.max(0, ...(this.rules.get(variable) ?? []).map(rule => rule.sensitivity));
+        group.forEach((update, index) => audit?.setOutcome(update, 'blended', `Weight ${Math.round(blend.weights[index] * 100)}%`));
+        if (currentParams !== undefined && !this.shouldUpdate(variable, blend.update.value, current, sensitivity)) {
+          return [];
+        }
+        audit?.decide(variable, blend.update.value, `Blended ${group.length} candidate${group.length === 1 ? '' : 's'} (${strategy})`);
+        return [blend.update];
+      }
+
+      // Sort by priority and resolve conflicts
+      const [winner, ...losers] = group.sort((a, b) => b.priority - a.priority);
+      if (audit) {
+        losers.forEach(loser => audit.setOutcome(loser, 'outvoted', loser.priority === winner.priority
+          ? `Tied on priority ${winner.priority}; the ${winner.source} rule came first`
+          : `The ${winner.source} rule has priority ${winner.priority}, this one ${loser.priority}`));
+        audit.setOutcome(winner, 'won');
+        audit.decide(winner.variable, winner.value, losers.length === 0
+          ? `${winner.source} rule: ${winner.reason}`
+          : `${winner.source} rule won on priority ${winner.priority} over ${losers.length} other candidate${losers.length === 1 ? '' : 's'}`);
+      }
+      return [winner];
     });
   }
 
+  // Combine one variable's updates; null when the values can't be combined that way (winner takes all instead)
+  private blendUpdates(
+    variable: string,
+    group: ParameterUpdate[],
+    strategy: ConflictStrategy
+  ): { update: ParameterUpdate; weights: number[] } | null {
+    const values = group.map(update => update.value);
+    const numeric = values.every(value => typeof value === 'number');
+    const colors = values.every(value => isHexColor(value));
+
+    let weights: number[];
+    if (strategy === 'max' || strategy === 'min') {
+      if (!numeric) return null;
+      const picked = strategy === 'max' ? Math.max(...values) : Math.min(...values);
+      const ties = values.filter(value => value === picked).length;
+      weights = values.map(value => (value === picked ? 1 / ties : 0));
+    } else {
+      if (!numeric && !colors) return null;
+      const raw = group.map(update =>
+        strategy === 'priority-weighted' ? update.priority :
+        strategy === 'confidence-weighted' ? update.confidence :
+        update.priority * update.confidence
+      );
+      const total = raw.reduce((sum, weight) => sum + weight, 0);
+      weights = total > 0 ? raw.map(weight => weight / total) : raw.map(() => 1 / raw.length);
+    }
+
+    let value: any;
+    if (numeric) {
+      value = values.reduce((sum, candidate, index) => sum + candidate * weights[index], 0);
+      if (isDiscreteNumberKey(variable.slice(variable.lastIndexOf('.') + 1))) value = Math.round(value);
+    } else {
+      value = strategy === 'hue-blend' ? blendHuesOklch(values, weights) : averageColorsOklab(values, weights);
+    }
+
+    const sources = Array.from(new Set(group.filter((_, index) => weights[index] > 0).map(update => update.source)));
+    return {
+      weights,
+      update: {
+        variable,
+        value,
+        source: sources.length === 1 ? sources[0] : 'hybrid',
+        priority: Math.max(...group.map(update => update.priority)),
+        reason: `${strategy}: ${group.map((update, index) => `${update.source} ${Math.round(weights[index] * 100)}%`).join(', ')}`,
+        confidence: group.reduce((sum, update, index) => sum + update.confidence * weights[index], 0)
+      }
+    };
+  }
+
   private generateReason(source: string, input: MappingInput): string {
     switch (source) {
       case 'ai':
@@ -775,6 +1100,8 @@ class ParameterMappingEngine {
         return `Time-based: ${input.time.period}`;
       case 'evolution':
         return `Evolution: ${input.evolution.phase} phase, ${input.evolution.mood} mood`;
+      case 'audio':
+        return `Audio: level ${input.audio.level.toFixed(2)}, bass ${input.audio.bass.toFixed(2)}${input.audio.beat === 1 ? ', beat' : ''}`;
       default:
         return 'Hybrid mapping';
     }
@@ -792,6 +1119,9 @@ class ParameterMappingEngine {
     // Higher confidence for evolution when intensity is high
     if (rule.source === 'evolution' && input.evolution.intensity > 0.7) confidence += 0.1;
     
+    // Audio rules are only as sure as the signal is audible
+    if (rule.source === 'audio') confidence += input.audio.level > 0.05 ? 0.2 : -0.2;
+    
     // Lower confidence for hybrid rules (more complex)
     if (rule.source === 'hybrid') confidence -= 0.1;
     
@@ -841,41 +1171,128 @@ class ParameterMappingEngine {
     return effects;
   }
 
-  private buildMappingPrompt(aiResults: ThemeAnalysis, currentScene: any, userPreferences?: UserPreferences): string {
-    return `Analyze the following visual scene and suggest parameter adjustments:
-
-AI Analysis: ${JSON.stringify(aiResults, null, 2)}
-Current Scene: ${JSON.stringify(currentScene, null, 2)}
-User Preferences: ${JSON.stringify(userPreferences, null, 2)}
+  // Structured request for /api/ai/parameter-mapping; the server writes the prompt from it
+  private buildMappingRequest(aiResults: ThemeAnalysis, currentScene: any, userPreferences?: UserPreferences): ParameterMappingRequest {
+    // Only unlocked rule variables may be suggested; send their current values and ranges
+    const parameters: AdjustableParameter[] = [];
+    this.rules.forEach((rules, variable) => {
+      if (this.locked.has(variable)) return;
+      const current = this.getNestedValue(currentScene, variable);
+      if (typeof current !== 'number' && typeof current !== 'boolean' && !isHexColor(current)) return;
+
+      const rule = rules[0];
+      const parameter: AdjustableParameter = { variable, current };
+      if (typeof current === 'number') {
+        const limits = this.safetyLimits.get(variable);
+        parameter.min = Math.max(rule.constraints.min, limits?.[0] ?? -Infinity);
+        parameter.max = Math.min(rule.constraints.max, limits?.[1] ?? Infinity);
+      }
+      if (rule.description) parameter.description = rule.description.slice(0, 200);
+      parameters.push(parameter);
+    });
 
-Suggest parameter updates that would enhance the visual experience while maintaining performance.`;
-  }
+    // Weather mappings are functions and don't serialise
+    const { weatherMappings, ...analysis } = aiResults;
 
-  private async callAIForMapping(prompt: string): Promise<any> {
-    // This would integrate with OpenAI or other AI service
-    // For now, return a mock response
     return {
-      suggestions: [],
-      confidence: 0.5
+      analysis,
+      activeEffects: this.getActiveEffects(currentScene),
+      ...(userPreferences && { preferences: userPreferences }),
+      parameters
     };
   }
 
+  // Parsed model reply, or null when no provider is configured or the call fails
+  private async callAIForMapping(request: ParameterMappingRequest): Promise<any> {
+    const aiService = AIService.getInstance();
+    try {
+      if (!(await aiService.getStatus()).parameterMapping) {
+        return null;
+      }
+      return await aiService.suggestParameterMapping(request);
+    } catch (error) {
+      console.warn('AI mapping failed, using rule-based mapping:', error);
+      return null;
+    }
+  }
+
   private validateAISuggestions(aiResponse: any, currentScene: any): ParameterUpdate[] {
-    // Validate and convert AI suggestions to ParameterUpdate format
-    return [];
+    const suggestions: any[] = Array.isArray(aiResponse?.suggestions) ? aiResponse.suggestions : [];
+    const overallConfidence = typeof aiResponse?.confidence === 'number' ? aiResponse.confidence : 0.5;
+    const updates: ParameterUpdate[] = [];
+    const audit = new MappingAuditRun('ai-suggestions');
+
+    suggestions.forEach(suggestion => {
+      const variable = suggestion?.variable;
+      const rule = typeof variable === 'string' ? this.getRule(variable) : undefined;
+      if (!rule) {
+        console.warn(`AI suggested unknown parameter: ${variable}`);
+        return;
+      }
+
+      const current = this.getNestedValue(currentScene, variable);
+      const suggested = (outcome: MappingCandidateOutcome, details: Partial<MappingAuditCandidate> = {}) =>
+        this.auditCandidate(rule, outcome, { source: 'ai', proposed: suggestion.value, rule: 'AI mapping suggestion', ...details });
+      if (this.locked.has(variable)) {
+        audit.add(variable, current, suggested('locked', { detail: this.locked.get(variable) || null }));
+        return;
+      }
+
+      // The suggestion must have the same kind of value the scene holds
+      let value = suggestion.value;
+      let clamp: SafetyClamp | null = null;
+      const reject = (expected: string) => audit.add(variable, current, suggested('rejected', { detail: `Expected ${expected}` }));
+      if (typeof current === 'number') {
+        if (typeof value !== 'number' || !isFinite(value)) return reject('a number');
+        ({ value, clamp } = this.clampToLimits(variable, value, rule.constraints));
+        if (isDiscreteNumberKey(variable.slice(variable.lastIndexOf('.') + 1))) value = Math.round(value);
+      } else if (typeof current === 'boolean') {
+        if (typeof value !== 'boolean') return reject('true or false');
+      } else if (isHexColor(current)) {
+        if (!isHexColor(value)) return reject('a hex color');
+      } else {
+        return reject('a number, boolean or color parameter');
+      }
+
+      const confidence = typeof suggestion.confidence === 'number' ? suggestion.confidence : overallConfidence;
+      const update: ParameterUpdate = {
+        variable,
+        value,
+        source: 'ai',
+        priority: rule.priority,
+        reason: typeof suggestion.reason === 'string' && suggestion.reason ? suggestion.reason : 'AI mapping suggestion',
+        confidence: Math.max(0, Math.min(1, confidence))
+      };
+      updates.push(update);
+      audit.add(variable, current, suggested('won', { value, clamp, confidence: update.confidence, reason: update.reason }), update);
+    });
+
+    const resolved = this.resolveConflicts(updates, audit);
+    audit.finish(this.auditLog);
+    return resolved;
   }
 
   // Public utility methods
+  // The variable's first rule: its built-in one unless that was replaced
   public getRule(variable: string): ParameterRule | undefined {
-    return this.rules.get(variable);
+    return this.rules.get(variable)?.[0];
+  }
+
+  public getRules(variable: string): ParameterRule[] {
+    return [...(this.rules.get(variable) ?? [])];
   }
 
   public getAllRules(): ParameterRule[] {
-    return Array.from(this.rules.values());
+    return Array.from(this.rules.values()).flat();
   }
 
   public getLockedParameters(): string[] {
-    return Array.from(this.locked);
+    return Array.from(this.locked.keys());
+  }
+
+  /** Why each variable got (or didn't get) its value; see MappingAuditLog. */
+  public getAuditLog(): MappingAuditLog {
+    return this.auditLog;
   }
 
   public getSafetyLimits(): Map<string, [number, number]> {
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { ParameterMappingEngine, type ParameterRule } from '../ParameterMappingEngine';
+import { SILENT_FEATURES } from '@/utils/audioFeatures';
+import type { ConflictStrategy } from '@/types/mappingRule';
+
+const loud = { ...SILENT_FEATURES, level: 0.8, bass: 1 };
+const scene = { camera: { fov: 60 } };
+
+describe('ParameterMappingEngine locks', () => {
+  it('shares locks with the engine it was pointed at', () => {
+    const live = new ParameterMappingEngine();
+    const audio = new ParameterMappingEngine();
+    audio.shareLocksWith(live);
+    audio.addAudioMapping('camera.fov', 'bass', 40, 100);
+
+    expect(audio.mapAudioParameters(loud, scene).map((update) => update.variable)).toEqual(['camera.fov']);
+
+    live.lockParameter('camera.fov', 'tester');
+    expect(audio.mapAudioParameters(loud, scene)).toEqual([]);
+    expect(audio.getLockedParameters()).toEqual(['camera.fov']);
+
+    audio.unlockParameter('camera.fov');
+    expect(live.getLockedParameters()).toEqual([]);
+  });
+});
+
+const rule = (variable: string, value: number | string, priority: number): ParameterRule => ({
+  variable,
+  source: 'audio',
+  priority,
+  constraints: { min: 0, max: 10 },
+  mappingFunction: () => value,
+  sensitivity: 1,
+  description: `${value} at priority ${priority}`
+});
+
+const resolve = (strategy: ConflictStrategy, candidates: [number | string, number][], variable = 'test.value', current: unknown = 0) => {
+  const engine = new ParameterMappingEngine();
+  candidates.forEach(([value, priority]) => engine.addRule(rule(variable, value, priority)));
+  engine.setConflictStrategy(variable, strategy);
+  const [name, key] = variable.split('.');
+  return engine.mapAudioParameters(loud, { [name]: { [key]: current } }).filter((update) => update.variable === variable);
+};
+
+const saturation = (hex: string) => {
+  const channels = [1, 3, 5].map((index) => parseInt(hex.slice(index, index + 2), 16));
+  return Math.max(...channels) - Math.min(...channels);
+};
+
+describe('ParameterMappingEngine conflict strategies', () => {
+  const candidates: [number, number][] = [[2, 8], [6, 4]];
+
+  it('lets the highest priority win by default and records who was outvoted', () => {
+    const engine = new ParameterMappingEngine();
+    candidates.forEach(([value, priority]) => engine.addRule(rule('test.value', value, priority)));
+    const updates = engine.mapAudioParameters(loud, { test: { value: 0 } });
+
+    expect(updates).toEqual([expect.objectContaining({ variable: 'test.value', value: 2, priority: 8 })]);
+    const [entry] = engine.getAuditLog().query({ variable: 'test.value' });
+    expect(entry.candidates.map((candidate) => candidate.outcome)).toEqual(['won', 'outvoted']);
+  });
+
+  it('averages numbers by priority or confidence', () => {
+    expect(resolve('priority-weighted', candidates)[0].value).toBeCloseTo(40 / 12);
+    // Both audio rules are equally confident
+    expect(resolve('confidence-weighted', candidates)[0].value).toBeCloseTo(4);
+    expect(resolve('hue-blend', candidates)[0].value).toBeCloseTo(40 / 12);
+  });
+
+  it('picks the extreme value for max and min', () => {
+    expect(resolve('max', candidates)[0]).toMatchObject({ value: 6, priority: 8, reason: 'max: audio 0%, audio 100%' });
+    expect(resolve('min', candidates)[0].value).toBe(2);
+  });
+
+  it('rounds blended counts', () => {
+    expect(resolve('priority-weighted', [[1, 5], [2, 5]], 'test.count')[0].value).toBe(2);
+  });
+
+  it('blends colors around the hue wheel only for hue-blend', () => {
+    const colors: [string, number][] = [['#ff0000', 5], ['#00ffff', 5]];
+    const averaged = resolve('priority-weighted', colors, 'test.color', '#000000')[0].value as string;
+    const hueBlended = resolve('hue-blend', colors, 'test.color', '#000000')[0].value as string;
+    expect(saturation(hueBlended)).toBeGreaterThan(saturation(averaged) + 60);
+  });
+
+  it('falls back to the winner when values cannot be combined that way', () => {
+    expect(resolve('max', [['#ff0000', 3], ['#00ff00', 7]], 'test.color', '#000000')[0].value).toBe('#00ff00');
+    expect(resolve('priority-weighted', [[1, 3], ['#00ff00', 7]], 'test.mixed')[0].value).toBe('#00ff00');
+  });
+
+  it('drops a blend that would not move the current value', () => {
+    expect(resolve('priority-weighted', [[4, 5], [4, 5]], 'test.value', 4)).toEqual([]);
+  });
+
+  it('restores the original rules and strategy when strategy definitions go away', () => {
+    const engine = new ParameterMappingEngine();
+    engine.addRule(rule('test.value', 2, 5));
+    engine.setRuleDefinitions([{
+      id: 'louder',
+      variable: 'test.value',
+      enabled: true,
+      source: 'audio',
+      inputs: ['audio.level'],
+      expression: '6',
+      constraints: { min: 0, max: 10 },
+      priority: 5,
+      sensitivity: 1,
+      strategy: 'max'
+    }]);
+    expect(engine.getConflictStrategy('test.value')).toBe('max');
+    expect(engine.mapAudioParameters(loud, { test: { value: 0 } })[0].value).toBe(6);
+
+    engine.setRuleDefinitions([]);
+    expect(engine.getConflictStrategy('test.value')).toBe('winner-takes-all');
+    expect(engine.mapAudioParameters(loud, { test: { value: 0 } })[0].value).toBe(2);
+  });
+});
@@ -77,4 +77,32 @@ export interface GeneratedParameters {
     brightness: number;
   };
   reasoning: string[];    // AI explanation of decisions
-} 
\ No newline at end of file
+} 
+// Body of /api/ai/parameter-mapping. The server writes the prompt from these fields,
+// so the route can't be used to send arbitrary text to the AI provider.
+export interface ParameterMappingRequest {
+  analysis: Omit<ThemeAnalysis, 'weatherMappings'>;
+  activeEffects: string[];
+  preferences?: {
+    performanceMode: 'quality' | 'balanced' | 'performance';
+    preferredMood: string[];
+    sensitivityLevel: number;   // 0-1
+  };
+  parameters: AdjustableParameter[];
+}
+
+export interface AdjustableParameter {
+  variable: string;             // Dotted scene path, e.g. 'camera.fov'
+  current: number | boolean | string;   // Strings are hex colors
+  min?: number;                 // Numbers only
+  max?: number;
+  description?: string;
+}
+
+// Downscaled pixels of an uploaded image, decoded in the browser and sent with it to
+// /api/ai/analyze-image so providers without an image decoder can read real colors
+export interface ImageSample {
+  width: number;                // At most IMAGE_SAMPLE_MAX_SIZE (utils/imageSample.ts)
+  height: number;
+  pixels: string;               // Base64 RGBA, width * height * 4 bytes
+}
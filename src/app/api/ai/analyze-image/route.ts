@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAIProvider } from '@/lib/aiProvider';
+import { requireRole } from '@/lib/auth';
+import { RateLimiter, enforceRateLimit } from '@/lib/rateLimit';
+import { TtlCache, hashKey } from '@/lib/ttlCache';
+import { upstreamErrorResponse } from '@/lib/upstream';
+import { IMAGE_SAMPLE_MAX_SIZE } from '@/utils/imageSample';
+import type { ImageSample } from '@/ai-system/types/AITypes';
+
+// ~7.5MB of image data once decoded
+const MAX_IMAGE_LENGTH = 10 * 1024 * 1024;
+
+const limiter = new RateLimiter(10, 60 * 1000);
+// Re-analysing the same image under the same weather returns the earlier result
+const cache = new TtlCache<any>(60 * 60 * 1000, 50);
+
+const isDimension = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 1 && (value as number) <= IMAGE_SAMPLE_MAX_SIZE;
+
+// The optional browser-decoded thumbnail must be small and hold exactly width * height RGBA pixels
+function isImageSample(value: any): value is ImageSample {
+  return isDimension(value?.width) && isDimension(value?.height) && typeof value.pixels === 'string' &&
+    Buffer.from(value.pixels, 'base64').length === value.width * value.height * 4;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const limited = enforceRateLimit(limiter, request);
+    if (limited) return limited;
+
+    const auth = await requireRole(request, 'viewer');
+    if (auth.response) return auth.response;
+
+    const body = await request.json();
+    if (typeof body?.image !== 'string' || body.image.length === 0) {
+      return NextResponse.json(
+        { error: 'Image is required' },
+        { status: 400 }
+      );
+    }
+    if (body.image.length > MAX_IMAGE_LENGTH) {
+      return NextResponse.json(
+        { error: 'Image is too large' },
+        { status: 413 }
+      );
+    }
+
+    if (body.sample != null && !isImageSample(body.sample)) {
+      return NextResponse.json(
+        { error: `Image sample must be at most ${IMAGE_SAMPLE_MAX_SIZE}x${IMAGE_SAMPLE_MAX_SIZE} RGBA pixels` },
+        { status: 400 }
+      );
+    }
+
+    const key = hashKey({ image: body.image, weather: body.weather ?? null });
+    const cached = cache.get(key);
+    if (cached) {
+      return NextResponse.json(cached);
+    }
+
+    const analysis = await getAIProvider().analyzeImage(body.image, body.weather, body.sample ?? undefined);
+    cache.set(key, analysis);
+    return NextResponse.json(analysis);
+  } catch (error) {
+    console.error('Error analyzing image:', error);
+    return upstreamErrorResponse(error, 'Failed to analyze image');
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAIProvider } from '@/lib/aiProvider';
+import { requireRole } from '@/lib/auth';
+import { RateLimiter, enforceRateLimit } from '@/lib/rateLimit';
+import { TtlCache, hashKey } from '@/lib/ttlCache';
+import { upstreamErrorResponse } from '@/lib/upstream';
+
+const limiter = new RateLimiter(20, 60 * 1000);
+const cache = new TtlCache<any>(60 * 60 * 1000, 200);
+
+export async function POST(request: NextRequest) {
+  try {
+    const limited = enforceRateLimit(limiter, request);
+    if (limited) return limited;
+
+    const auth = await requireRole(request, 'viewer');
+    if (auth.response) return auth.response;
+
+    const body = await request.json();
+    if (typeof body?.basePalette?.primary !== 'string') {
+      return NextResponse.json(
+        { error: 'Base palette is required' },
+        { status: 400 }
+      );
+    }
+
+    const key = hashKey({ basePalette: body.basePalette, weather: body.weather ?? null });
+    const cached = cache.get(key);
+    if (cached) {
+      return NextResponse.json(cached);
+    }
+
+    const palette = await getAIProvider().generateColorHarmony(body.basePalette, body.weather);
+    cache.set(key, palette);
+    return NextResponse.json(palette);
+  } catch (error) {
+    console.error('Error generating color harmony:', error);
+    return upstreamErrorResponse(error, 'Failed to generate color harmony');
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAIProvider } from '@/lib/aiProvider';
+import { requireRole } from '@/lib/auth';
+import { buildParameterMappingPrompt, validateParameterMappingRequest } from '@/lib/parameterMappingPrompt';
+import { RateLimiter, enforceRateLimit } from '@/lib/rateLimit';
+import { upstreamErrorResponse } from '@/lib/upstream';
+import type { ParameterMappingRequest } from '@/ai-system/types/AITypes';
+
+// Not cached: requests carry the live scene values, so repeats are rare
+const limiter = new RateLimiter(20, 60 * 1000);
+
+export async function POST(request: NextRequest) {
+  try {
+    const limited = enforceRateLimit(limiter, request);
+    if (limited) return limited;
+
+    const auth = await requireRole(request, 'viewer');
+    if (auth.response) return auth.response;
+
+    const body = await request.json();
+    const validation = validateParameterMappingRequest(body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid parameter mapping request', details: validation.errors },
+        { status: 422 }
+      );
+    }
+
+    const provider = getAIProvider();
+    if (!provider.suggestParameterMapping) {
+      return NextResponse.json(
+        { error: `The ${provider.kind} AI provider does not support parameter suggestions` },
+        { status: 501 }
+      );
+    }
+
+    const prompt = buildParameterMappingPrompt(body as ParameterMappingRequest);
+    const suggestions = await provider.suggestParameterMapping(prompt);
+    return NextResponse.json(suggestions);
+  } catch (error) {
+    console.error('Error suggesting parameter mapping:', error);
+    return upstreamErrorResponse(error, 'Failed to suggest parameter mapping');
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getAIProvider } from '@/lib/aiProvider';
+import { getWeatherSource } from '@/lib/weatherProxy';
+
+// Reads the environment at request time
+export const dynamic = 'force-dynamic';
+
+// Which server-side integrations are available; never reveals the keys themselves
+export async function GET() {
+  const provider = getAIProvider();
+  return NextResponse.json({
+    ai: provider.isConfigured(),
+    provider: provider.kind,
+    parameterMapping: provider.isConfigured() && Boolean(provider.suggestParameterMapping),
+    weather: getWeatherSource()
+  });
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserService } from '@/lib/userService';
+import { createSessionToken, setSessionCookie } from '@/lib/auth';
+import { AuthCredentials } from '@/types/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: AuthCredentials = await request.json();
+
+    const userService = UserService.getInstance();
+    const user = await userService.authenticate(body);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid username or password' },
+        { status: 401 }
+      );
+    }
+
+    const token = createSessionToken(user.id);
+    return setSessionCookie(NextResponse.json({ user, token }), token);
+  } catch (error) {
+    console.error('Error logging in:', error);
+    return NextResponse.json(
+      { error: 'Failed to log in' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { clearSessionCookie } from '@/lib/auth';
+
+// Tokens are stateless: logging out only drops the session cookie
+export async function POST() {
+  return clearSessionCookie(NextResponse.json({ message: 'Logged out' }));
+}
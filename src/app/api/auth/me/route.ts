@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error('Error resolving current user:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve current user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserService } from '@/lib/userService';
+import { createSessionToken, setSessionCookie } from '@/lib/auth';
+import { AuthCredentials } from '@/types/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: AuthCredentials = await request.json();
+
+    const userService = UserService.getInstance();
+    const user = await userService.register(body);
+    const token = createSessionToken(user.id);
+
+    return setSessionCookie(NextResponse.json({ user, token }, { status: 201 }), token);
+  } catch (error) {
+    console.error('Error registering user:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('must')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      if (error.message.includes('disabled')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
+      if (error.message.includes('already exists')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to register user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserService } from '@/lib/userService';
+import { requireRole } from '@/lib/auth';
+import { UserRole } from '@/types/auth';
+
+// Change a user's role: { role: 'viewer' | 'editor' | 'admin' }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, 'admin');
+    if (auth.response) return auth.response;
+
+    const { id } = params;
+    const body: { role: UserRole } = await request.json();
+
+    if (id === auth.user.id && body.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admins cannot remove their own admin role' },
+        { status: 400 }
+      );
+    }
+
+    const userService = UserService.getInstance();
+    const user = await userService.setRole(id, body.role);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(user);
+  } catch (error) {
+    console.error('Error updating user role:', error);
+
+    if (error instanceof Error && error.message.includes('must be')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update user role' },
+      { status: 500 }
+    );
+  }
+}
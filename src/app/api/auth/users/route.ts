@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserService } from '@/lib/userService';
+import { requireRole } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireRole(request, 'admin');
+    if (auth.response) return auth.response;
+
+    const userService = UserService.getInstance();
+    const users = await userService.listUsers();
+
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    );
+  }
+}
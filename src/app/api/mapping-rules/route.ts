@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { getMappingRuleStorage } from '@/lib/mappingRuleStorage';
+import { validateMappingRules } from '@/utils/mappingRules';
+
+// The caller's own mapping rules. They only change how that user's canvas maps
+// AI and weather inputs, so any signed-in user may keep a set.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireRole(request, 'viewer');
+    if (auth.response) return auth.response;
+
+    const ruleSet = await getMappingRuleStorage().get(auth.user.id);
+    return NextResponse.json(ruleSet || { ownerId: auth.user.id, rules: [], updatedAt: null });
+  } catch (error) {
+    console.error('Error fetching mapping rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch mapping rules' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await requireRole(request, 'viewer');
+    if (auth.response) return auth.response;
+
+    const body = await request.json();
+
+    const validation = validateMappingRules(body?.rules);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid mapping rules', details: validation.errors },
+        { status: 422 }
+      );
+    }
+
+    const saved = await getMappingRuleStorage().put(auth.user.id, body.rules);
+    return NextResponse.json(saved);
+  } catch (error) {
+    console.error('Error saving mapping rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to save mapping rules' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PlaylistService } from '@/lib/playlistService';
+import { UpdatePlaylistRequest } from '@/types/playlist';
+import { validatePlaylist } from '@/lib/playlistValidation';
+import { requireRole } from '@/lib/auth';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const playlistService = PlaylistService.getInstance();
+    const playlist = await playlistService.getPlaylistById(params.id);
+
+    if (!playlist) {
+      return NextResponse.json(
+        { error: 'Playlist not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(playlist);
+  } catch (error) {
+    console.error('Error fetching playlist:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch playlist' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, 'editor');
+    if (auth.response) return auth.response;
+
+    const body: UpdatePlaylistRequest = await request.json();
+
+    // Partial updates are allowed, but every field sent must be valid
+    const validation = validatePlaylist(body, { partial: true });
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid playlist', details: validation.errors },
+        { status: 422 }
+      );
+    }
+
+    const playlistService = PlaylistService.getInstance();
+    const updated = await playlistService.updatePlaylist(params.id, body, auth.user);
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Playlist not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error updating playlist:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('permission')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.includes('already exists')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update playlist' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, 'editor');
+    if (auth.response) return auth.response;
+
+    const playlistService = PlaylistService.getInstance();
+    const deleted = await playlistService.deletePlaylist(params.id, auth.user);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Playlist not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Playlist deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting playlist:', error);
+
+    if (error instanceof Error && error.message.includes('permission')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to delete playlist' },
+      { status: 500 }
+    );
+  }
+}
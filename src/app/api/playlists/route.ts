@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PlaylistService } from '@/lib/playlistService';
+import { CreatePlaylistRequest } from '@/types/playlist';
+import { validatePlaylist } from '@/lib/playlistValidation';
+import { requireRole } from '@/lib/auth';
+
+// The list reads no request data; keep Next from caching it at build time
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const playlistService = PlaylistService.getInstance();
+    const response = await playlistService.getPlaylists();
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching playlists:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch playlists' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireRole(request, 'editor');
+    if (auth.response) return auth.response;
+
+    const body: CreatePlaylistRequest = await request.json();
+
+    if (!body.name || !body.items) {
+      return NextResponse.json(
+        { error: 'Name and items are required' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validatePlaylist(body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid playlist', details: validation.errors },
+        { status: 422 }
+      );
+    }
+
+    const playlistService = PlaylistService.getInstance();
+    const created = await playlistService.createPlaylist(body, auth.user);
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error('Error creating playlist:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('permission')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
+      if (error.message.includes('already exists')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create playlist' },
+      { status: 500 }
+    );
+  }
+}
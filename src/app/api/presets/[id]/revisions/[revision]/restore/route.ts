@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PresetService } from '@/lib/presetService';
+import { requireRole } from '@/lib/auth';
+
+// Roll a preset back to an earlier revision. The restore is recorded as a new revision.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; revision: string } }
+) {
+  try {
+    const auth = await requireRole(request, 'editor');
+    if (auth.response) return auth.response;
+
+    const { id } = params;
+    const revision = parseInt(params.revision);
+
+    if (!Number.isInteger(revision) || revision < 1) {
+      return NextResponse.json(
+        { error: 'Revision must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    // Body is optional: { message?: string }
+    const body = await request.json().catch(() => ({}));
+
+    const presetService = PresetService.getInstance();
+    const restoredPreset = await presetService.restoreRevision(
+      id,
+      revision,
+      auth.user,
+      typeof body.message === 'string' ? body.message : undefined
+    );
+
+    return NextResponse.json(restoredPreset);
+  } catch (error) {
+    console.error('Error restoring preset revision:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('permission')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to restore preset revision' },
+      { status: 500 }
+    );
+  }
+}
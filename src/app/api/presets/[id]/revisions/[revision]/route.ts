@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PresetService } from '@/lib/presetService';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; revision: string } }
+) {
+  try {
+    const { id } = params;
+    const revision = parseInt(params.revision);
+
+    if (!Number.isInteger(revision) || revision < 1) {
+      return NextResponse.json(
+        { error: 'Revision must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const presetService = PresetService.getInstance();
+    const entry = await presetService.getRevision(id, revision);
+
+    if (!entry) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(entry);
+  } catch (error) {
+    console.error('Error fetching preset revision:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch preset revision' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PresetService } from '@/lib/presetService';
+
+// GET /api/presets/:id/revisions/diff?from=2&to=5
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const { searchParams } = new URL(request.url);
+    const from = parseInt(searchParams.get('from') || '');
+    const to = parseInt(searchParams.get('to') || '');
+
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < 1) {
+      return NextResponse.json(
+        { error: 'Query parameters "from" and "to" must be revision numbers' },
+        { status: 400 }
+      );
+    }
+
+    const presetService = PresetService.getInstance();
+    const diff = await presetService.diffRevisions(id, from, to);
+
+    if (!diff) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(diff);
+  } catch (error) {
+    console.error('Error diffing preset revisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to diff preset revisions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PresetService } from '@/lib/presetService';
+
+// List a preset's revisions, newest first (summaries without data)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    const presetService = PresetService.getInstance();
+    const revisions = await presetService.getRevisions(id);
+
+    if (!revisions) {
+      return NextResponse.json(
+        { error: 'Preset not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(revisions);
+  } catch (error) {
+    console.error('Error fetching preset revisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch preset revisions' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PresetService } from '@/lib/presetService';
 import { UpdatePresetRequest } from '@/types/preset';
+import { validatePresetData } from '@/lib/presetValidation';
+import { requireRole } from '@/lib/auth';
 
 export async function GET(
   request: NextRequest,
@@ -34,11 +36,25 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    const auth = await requireRole(request, 'editor');
+    if (auth.response) return auth.response;
+
     const { id } = params;
     const body: UpdatePresetRequest = await request.json();
+
+    // Data is optional on update (metadata-only edits), but must be valid when sent
+    if (body.data !== undefined) {
+      const validation = validatePresetData(body.data);
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: 'Invalid preset data', details: validation.errors },
+          { status: 422 }
+        );
+      }
+    }
     
     const presetService = PresetService.getInstance();
-    const updatedPreset = await presetService.updatePreset(id, body);
+    const updatedPreset = await presetService.updatePreset(id, body, auth.user);
     
     if (!updatedPreset) {
       return NextResponse.json(
@@ -52,6 +68,12 @@ export async function PUT(
     console.error('Error updating preset:', error);
     
     if (error instanceof Error) {
+      if (error.message.includes('permission')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
       if (error.message.includes('not found')) {
         return NextResponse.json(
           { error: error.message },
@@ -78,10 +100,13 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    const auth = await requireRole(request, 'editor');
+    if (auth.response) return auth.response;
+
     const { id } = params;
     
     const presetService = PresetService.getInstance();
-    const deleted = await presetService.deletePreset(id);
+    const deleted = await presetService.deletePreset(id, auth.user);
     
     if (!deleted) {
       return NextResponse.json(
@@ -93,6 +118,14 @@ export async function DELETE(
     return NextResponse.json({ message: 'Preset deleted successfully' });
   } catch (error) {
     console.error('Error deleting preset:', error);
+
+    if (error instanceof Error && error.message.includes('permission')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Failed to delete preset' },
       { status: 500 }
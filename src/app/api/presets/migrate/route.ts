@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PresetService } from '@/lib/presetService';
+import { CURRENT_PRESET_VERSION } from '@/lib/presetMigrations';
+import { requireRole } from '@/lib/auth';
+
+// Bulk-upgrade stored presets to the current schema version.
+// POST /api/presets/migrate?dryRun=true reports what would change without writing. Admin only.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireRole(request, 'admin');
+    if (auth.response) return auth.response;
+
+    const { searchParams } = new URL(request.url);
+    const dryRun = searchParams.get('dryRun') === 'true';
+
+    const presetService = PresetService.getInstance();
+    const result = await presetService.migrateStoredPresets({ dryRun });
+
+    return NextResponse.json({
+      targetVersion: CURRENT_PRESET_VERSION,
+      dryRun,
+      ...result
+    });
+  } catch (error) {
+    console.error('Error migrating presets:', error);
+    return NextResponse.json(
+      { error: 'Failed to migrate presets' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PresetService } from '@/lib/presetService';
 import { CreatePresetRequest } from '@/types/preset';
+import { validatePresetData } from '@/lib/presetValidation';
+import { requireRole } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
   try {
@@ -32,6 +34,9 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requireRole(request, 'editor');
+    if (auth.response) return auth.response;
+
     const body: CreatePresetRequest = await request.json();
     
     // Validate required fields
@@ -42,14 +47,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Reject malformed data before it can reach the database or the canvas
+    const validation = validatePresetData(body.data);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid preset data', details: validation.errors },
+        { status: 422 }
+      );
+    }
+
     const presetService = PresetService.getInstance();
-    const createdPreset = await presetService.createPreset(body);
+    const createdPreset = await presetService.createPreset(body, auth.user);
     
     return NextResponse.json(createdPreset, { status: 201 });
   } catch (error) {
     console.error('Error creating preset:', error);
     
     if (error instanceof Error) {
+      if (error.message.includes('permission')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
       if (error.message.includes('already exists')) {
         return NextResponse.json(
           { error: error.message },
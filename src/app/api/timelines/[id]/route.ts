@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TimelineService } from '@/lib/timelineService';
+import { UpdateTimelineRequest } from '@/types/timeline';
+import { validateTimelineData } from '@/lib/timelineValidation';
+import { requireRole } from '@/lib/auth';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const timelineService = TimelineService.getInstance();
+    const timeline = await timelineService.getTimelineById(params.id);
+
+    if (!timeline) {
+      return NextResponse.json(
+        { error: 'Timeline not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(timeline);
+  } catch (error) {
+    console.error('Error fetching timeline:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch timeline' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, 'editor');
+    if (auth.response) return auth.response;
+
+    const body: UpdateTimelineRequest = await request.json();
+
+    if (body.data !== undefined) {
+      const validation = validateTimelineData(body.data);
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: 'Invalid timeline data', details: validation.errors },
+          { status: 422 }
+        );
+      }
+    }
+
+    const timelineService = TimelineService.getInstance();
+    const updated = await timelineService.updateTimeline(params.id, body, auth.user);
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Timeline not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error updating timeline:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('permission')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.includes('already exists')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update timeline' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, 'editor');
+    if (auth.response) return auth.response;
+
+    const timelineService = TimelineService.getInstance();
+    const deleted = await timelineService.deleteTimeline(params.id, auth.user);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Timeline not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Timeline deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting timeline:', error);
+
+    if (error instanceof Error && error.message.includes('permission')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to delete timeline' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TimelineService } from '@/lib/timelineService';
+import { CreateTimelineRequest } from '@/types/timeline';
+import { validateTimelineData } from '@/lib/timelineValidation';
+import { requireRole } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const presetId = searchParams.get('presetId') || undefined;
+
+    const timelineService = TimelineService.getInstance();
+    const response = await timelineService.getTimelines({ presetId });
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching timelines:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch timelines' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireRole(request, 'editor');
+    if (auth.response) return auth.response;
+
+    const body: CreateTimelineRequest = await request.json();
+
+    if (!body.name || !body.data) {
+      return NextResponse.json(
+        { error: 'Name and data are required' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateTimelineData(body.data);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid timeline data', details: validation.errors },
+        { status: 422 }
+      );
+    }
+
+    const timelineService = TimelineService.getInstance();
+    const created = await timelineService.createTimeline(body, auth.user);
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error('Error creating timeline:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('permission')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
+      if (error.message.includes('already exists')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create timeline' },
+      { status: 500 }
+    );
+  }
+}
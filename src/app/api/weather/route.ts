@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWeather } from '@/lib/weatherProxy';
+import { RateLimiter, enforceRateLimit } from '@/lib/rateLimit';
+import { TtlCache } from '@/lib/ttlCache';
+import { upstreamErrorResponse } from '@/lib/upstream';
+import type { WeatherData } from '@/ai-system/types/AITypes';
+
+const limiter = new RateLimiter(30, 60 * 1000);
+// Weather changes slowly; one upstream call per location every ten minutes is plenty
+const cache = new TtlCache<WeatherData>(10 * 60 * 1000, 500);
+
+export async function GET(request: NextRequest) {
+  try {
+    const limited = enforceRateLimit(limiter, request);
+    if (limited) return limited;
+
+    const { searchParams } = new URL(request.url);
+    const location = (searchParams.get('location') || '').trim();
+    if (!location || location.length > 100) {
+      return NextResponse.json(
+        { error: 'A location of at most 100 characters is required' },
+        { status: 400 }
+      );
+    }
+
+    const key = location.toLowerCase().replace(/\s+/g, ' ');
+    const cached = cache.get(key);
+    if (cached) {
+      return NextResponse.json(cached);
+    }
+
+    const weather = await getWeather(location);
+    cache.set(key, weather);
+    return NextResponse.json(weather);
+  } catch (error) {
+    console.error('Error fetching weather:', error);
+    return upstreamErrorResponse(error, 'Failed to fetch weather');
+  }
+}
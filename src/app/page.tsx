@@ -3,7 +3,7 @@
 import React, { useState, useEffect, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
 import EnhancedVisualCanvas from '../components/EnhancedVisualCanvas';
-import { usePresetFromURL } from '../hooks/usePresetFromURL';
+import { usePresetFromURL, usePlaylistFromURL } from '../hooks/usePresetFromURL';
 import { URLPresetIndicator } from '../components/URLPresetIndicator';
 import { QuickPresetShare } from '../components/QuickPresetShare';
 import { GlobalEffectsDashboard } from '../components/GlobalEffectsDashboard';
@@ -15,6 +15,7 @@ import { AITestDashboard } from '../ai-system/components/AITestDashboard';
 import { AIIntegrationDashboard } from '../components/AIIntegrationDashboard';
 import GlobalDefaultsPanel from '../components/GlobalDefaultsManager';
 import { TrailControlPanel } from '../components/TrailControlPanel';
+import { TimelinePanel } from '../components/TimelinePanel';
 import { useVisualStore } from '../store/visualStore';
 import { PresetClient } from '../lib/presetClient';
 import styles from './page.module.css';
@@ -26,6 +27,7 @@ function HomeContent() {
   const [showAITest, setShowAITest] = useState(false);
   const [showAINew, setShowAINew] = useState(false);
   const [showTrailControls, setShowTrailControls] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
   const [showPerformance, setShowPerformance] = useState(false);
   const [showShare, setShowShare] = useState(false);
   const [isPresetLoaded, setIsPresetLoaded] = useState(false);
@@ -33,10 +35,13 @@ function HomeContent() {
   
   // Load preset from URL if provided
   const urlPresetState = usePresetFromURL();
+
+  // Auto-cycle a preset playlist if ?playlist=<id> is set
+  const urlPlaylistState = usePlaylistFromURL();
   
   // Enable default preset loading for production (skip if URL preset is loading or if URL params exist)
   const searchParams = useSearchParams();
-  const hasURLPreset = searchParams.get('preset') || searchParams.get('p');
+  const hasURLPreset = searchParams.get('preset') || searchParams.get('p') || searchParams.get('playlist');
   const skipDefaultPreset = hasURLPreset || urlPresetState.isLoading || urlPresetState.presetId !== null || urlPresetState.presetName !== null;
 
   // Keyboard event handler to toggle UI visibility with "1" key
@@ -54,6 +59,34 @@ function HomeContent() {
     return () => window.removeEventListener('keydown', handleKeyPress);
   }, [showUI]);
 
+  // Undo/redo: Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), Ctrl+Y as an alternative redo
+  useEffect(() => {
+    const handleHistoryKeys = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      // Leave native undo to text fields
+      const target = event.target as HTMLElement | null;
+      const isTextField = target && (
+        target.isContentEditable ||
+        target.tagName === 'TEXTAREA' ||
+        (target.tagName === 'INPUT' && !['range', 'checkbox', 'radio', 'color', 'button'].includes((target as HTMLInputElement).type))
+      );
+      if (isTextField) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        useVisualStore.getState().undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        useVisualStore.getState().redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleHistoryKeys);
+    return () => window.removeEventListener('keydown', handleHistoryKeys);
+  }, []);
+
   // Load LANDING - Basic preset from cloud by default on first app load
   useEffect(() => {
     const loadLandingPresetFromCloud = async () => {
@@ -148,7 +181,20 @@ function HomeContent() {
 
   return (
     <main className="min-h-screen bg-black text-white relative overflow-hidden">
-      <URLPresetIndicator urlState={urlPresetState} showUI={showUI} />
+      {urlPlaylistState.isLoading || urlPlaylistState.playlistId || urlPlaylistState.error ? (
+        <URLPresetIndicator
+          urlState={{
+            isLoading: urlPlaylistState.isLoading,
+            error: urlPlaylistState.error,
+            presetId: urlPlaylistState.playlistId,
+            presetName: urlPlaylistState.playlistName
+          }}
+          showUI={showUI}
+          subject="playlist"
+        />
+      ) : (
+        <URLPresetIndicator urlState={urlPresetState} showUI={showUI} />
+      )}
       {/* Loading Screen - Show until preset is loaded */}
       {!isPresetLoaded && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black">
@@ -191,6 +237,8 @@ function HomeContent() {
           onAutoPanToggle={toggleAutoPan}
           isTrailControlsOpen={showTrailControls}
           onTrailControlsToggle={() => setShowTrailControls(!showTrailControls)}
+          isTimelineOpen={showTimeline}
+          onTimelineToggle={() => setShowTimeline(!showTimeline)}
           isPerformanceOpen={showPerformance}
           onPerformanceToggle={() => setShowPerformance((v) => !v)}
           isShareOpen={showShare}
@@ -232,6 +280,12 @@ function HomeContent() {
         onClose={() => setShowTrailControls(false)} 
       />
 
+      {/* Keyframe Timeline */}
+      <TimelinePanel
+        isOpen={showTimeline}
+        onClose={() => setShowTimeline(false)}
+      />
+
       {/* Share Panel */}
       {showShare && (
         <div style={{
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback } from 'react';
 import { useVisualStore } from '../store/visualStore';
 import { AIStoreAdapter } from '../ai-system/adapters/StoreAdapter';
 import { AIService } from '../ai-system/services/AIService';
@@ -54,117 +54,18 @@ export const AIWorkflowWizard: React.FC = () => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showApiSetup, setShowApiSetup] = useState(false);
-  const [openaiApiKey, setOpenaiApiKey] = useState('');
-  const [weatherApiKey, setWeatherApiKey] = useState('');
-  const [testingApiKey, setTestingApiKey] = useState(false);
-  const [apiKeyStatus, setApiKeyStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
-  const [testingWeatherKey, setTestingWeatherKey] = useState(false);
-  const [weatherKeyStatus, setWeatherKeyStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
   const [presetCreated, setPresetCreated] = useState(false);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const aiService = AIService.getInstance();
   const weatherService = WeatherService.getInstance();
 
-  // Initialize API keys from localStorage if available
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const storedOpenAI = localStorage.getItem('openai-api-key') || '';
-      const storedWeather = localStorage.getItem('openweather-api-key') || '';
-      setOpenaiApiKey(storedOpenAI);
-      setWeatherApiKey(storedWeather);
-    }
-  }, []);
-
-  // API Setup
-  const setupApiKeys = () => {
-    if (openaiApiKey.trim()) {
-      aiService.setApiKey(openaiApiKey.trim());
-      localStorage.setItem('openai-api-key', openaiApiKey.trim());
-      console.log('🔑 OpenAI API key configured');
-    }
-    if (weatherApiKey.trim()) {
-      weatherService.setApiKey(weatherApiKey.trim());
-      localStorage.setItem('openweather-api-key', weatherApiKey.trim());
-      console.log('🌤️ Weather API key configured');
-    }
-    setShowApiSetup(false);
-    setError(null);
-  };
-
-  const checkApiKeys = () => {
-    const hasOpenAI = aiService.getApiKey();
-    const hasWeather = weatherService.getApiKey();
-    
-    if (!hasOpenAI || !hasWeather) {
-      setShowApiSetup(true);
-      return false;
-    }
-    return true;
-  };
-
-  const testOpenAIKey = async () => {
-    if (!openaiApiKey.trim()) {
-      setError('Please enter an OpenAI API key first');
-      return;
-    }
-
-    setTestingApiKey(true);
-    setApiKeyStatus('testing');
-    setError(null);
-
-    try {
-      // Temporarily set the API key for testing
-      aiService.setApiKey(openaiApiKey.trim());
-      
-      // Test the API key
-      const isValid = await aiService.testApiKey();
-      
-      if (isValid) {
-        setApiKeyStatus('success');
-        console.log('✅ OpenAI API key is valid and working');
-      } else {
-        setApiKeyStatus('error');
-        setError('OpenAI API key test failed. Please check your key and try again.');
-      }
-    } catch (err) {
-      setApiKeyStatus('error');
-      setError(`API key test failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
-    } finally {
-      setTestingApiKey(false);
-    }
-  };
-
-  const testWeatherKey = async () => {
-    if (!weatherApiKey.trim()) {
-      setError('Please enter a Weather API key first');
-      return;
-    }
-
-    setTestingWeatherKey(true);
-    setWeatherKeyStatus('testing');
-    setError(null);
-
-    try {
-      // Temporarily set the API key for testing
-      weatherService.setApiKey(weatherApiKey.trim());
-      
-      // Test the API key
-      const isValid = await weatherService.testApiKey();
-      
-      if (isValid) {
-        setWeatherKeyStatus('success');
-        console.log('✅ Weather API key is valid and working');
-      } else {
-        setWeatherKeyStatus('error');
-        setError('Weather API key test failed. Please check your key and try again.');
-      }
-    } catch (err) {
-      setWeatherKeyStatus('error');
-      setError(`Weather API key test failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
-    } finally {
-      setTestingWeatherKey(false);
-    }
+  // AI runs behind /api/ai with the provider the server is configured for. Weather needs
+  // no setup: the server falls back to wttr.in and the client to mock data.
+  const checkAIAvailable = async (refresh = false) => {
+    const status = await aiService.getStatus(refresh);
+    setShowApiSetup(!status.ai);
+    return status.ai;
   };
 
   const steps: WorkflowStep[] = [
@@ -227,7 +128,6 @@ export const AIWorkflowWizard: React.FC = () => {
 
     try {
       console.log('🌤️ Fetching weather data for:', weatherLocation);
-      console.log('🌤️ Weather API key status:', weatherService.getApiKey() ? 'Configured' : 'Not configured');
       
       const data = await weatherService.getWeatherData(weatherLocation);
       console.log('🌤️ Weather data received:', data);
@@ -252,8 +152,7 @@ export const AIWorkflowWizard: React.FC = () => {
       return;
     }
 
-    if (!aiService.getApiKey()) {
-      setError('Please configure your OpenAI API key');
+    if (!(await checkAIAvailable())) {
       return;
     }
 
@@ -300,7 +199,7 @@ export const AIWorkflowWizard: React.FC = () => {
       return;
     }
 
-    if (!checkApiKeys()) {
+    if (!(await checkAIAvailable())) {
       return;
     }
 
@@ -856,14 +755,6 @@ export const AIWorkflowWizard: React.FC = () => {
     }
   };
 
-  const clearApiKeys = () => {
-    setOpenaiApiKey('');
-    setWeatherApiKey('');
-    localStorage.removeItem('openai-api-key');
-    localStorage.removeItem('openweather-api-key');
-    setError('✅ API keys cleared');
-  };
-
   // Calculate actual store changes that will be applied
   const getStoreChanges = () => {
     if (!aiAnalysis || !colorHarmony) return null;
@@ -883,76 +774,29 @@ export const AIWorkflowWizard: React.FC = () => {
 
   return (
     <div className={styles.workflowWizard}>
-      {/* API Setup Modal */}
+      {/* AI Setup Notice */}
       {showApiSetup && (
         <div className={styles.apiSetupModal}>
           <div className={styles.apiSetupContent}>
-            <h3>🔑 API Setup Required</h3>
-            <p>To use real AI and weather data, please configure your API keys:</p>
-            
+            <h3>🔑 AI Not Configured</h3>
+            <p>AI analysis runs on the server, which has no AI provider configured.</p>
+
             <div className={styles.troubleshooting}>
-              <h4>Common Issues:</h4>
+              <h4>To enable it (see <code>env.example</code>):</h4>
               <ul>
-                <li>🔑 OpenAI key starts with "sk-", OpenWeather key is different format</li>
-                <li>⚠️ Don't use OpenAI key for weather service - they're different APIs</li>
-                <li>👁️ OpenAI account needs access to GPT-4o models</li>
-                <li>💰 Ensure you have sufficient API credits</li>
-                <li>🌐 Check your internet connection</li>
+                <li>🔑 Set <code>OPENAI_API_KEY</code> in the server environment, or</li>
+                <li>🖥️ Set <code>AI_PROVIDER=openai-compatible</code> with <code>AI_BASE_URL</code> and <code>AI_MODEL</code> for a self-hosted model, or</li>
+                <li>📴 Set <code>AI_PROVIDER=offline</code> for built-in analysis with no network</li>
+                <li>🔄 Restart the server, then check again</li>
               </ul>
             </div>
-            
-            <div className={styles.formGroup}>
-              <label>OpenAI API Key</label>
-              <div className={styles.apiKeyInput}>
-                <input
-                  type="password"
-                  value={openaiApiKey}
-                  onChange={(e) => setOpenaiApiKey(e.target.value)}
-                  placeholder="sk-..."
-                  className={styles.textInput}
-                />
-                <button 
-                  onClick={testOpenAIKey}
-                  disabled={testingApiKey || !openaiApiKey.trim()}
-                  className={`${styles.testButton} ${apiKeyStatus === 'success' ? styles.success : ''} ${apiKeyStatus === 'error' ? styles.error : ''}`}
-                >
-                  {testingApiKey ? 'Testing...' : apiKeyStatus === 'success' ? '✅ Valid' : apiKeyStatus === 'error' ? '❌ Invalid' : 'Test'}
-                </button>
-              </div>
-              <small>
-                Get your key from <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer">OpenAI Platform</a>
-              </small>
-            </div>
-            
-            <div className={styles.formGroup}>
-              <label>OpenWeather API Key</label>
-              <div className={styles.apiKeyInput}>
-                <input
-                  type="password"
-                  value={weatherApiKey}
-                  onChange={(e) => setWeatherApiKey(e.target.value)}
-                  placeholder="your-api-key"
-                  className={styles.textInput}
-                />
-                <button 
-                  onClick={testWeatherKey}
-                  disabled={testingWeatherKey || !weatherApiKey.trim()}
-                  className={`${styles.testButton} ${weatherKeyStatus === 'success' ? styles.success : ''} ${weatherKeyStatus === 'error' ? styles.error : ''}`}
-                >
-                  {testingWeatherKey ? 'Testing...' : weatherKeyStatus === 'success' ? '✅ Valid' : weatherKeyStatus === 'error' ? '❌ Invalid' : 'Test'}
-                </button>
-              </div>
-              <small>
-                Get your key from <a href="https://openweathermap.org/api" target="_blank" rel="noopener noreferrer">OpenWeather</a>
-              </small>
-            </div>
-            
+
             <div className={styles.buttonGroup}>
-              <button onClick={setupApiKeys} className={styles.primaryButton}>
-                Save API Keys
+              <button onClick={() => checkAIAvailable(true)} className={styles.primaryButton}>
+                Check Again
               </button>
               <button onClick={() => setShowApiSetup(false)} className={styles.secondaryButton}>
-                Cancel
+                Close
               </button>
             </div>
           </div>
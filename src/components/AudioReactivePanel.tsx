@@ -0,0 +1,246 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useVisualStore } from '../store/visualStore';
+import { audioAnalyzer, useAudioAnalyzer } from '../utils/audioAnalyzer';
+import { AUDIO_FEATURE_NAMES, audioReactive, useAudioBindings } from '../utils/audioReactive';
+import { SILENT_FEATURES } from '../utils/audioFeatures';
+import { getPathValue, listAnimatablePaths } from '../utils/timeline';
+import type { AudioFeatureName, AudioFeatures } from '../types/audio';
+
+// Meter refresh while audio is running; the canvas itself reads features every frame
+const METER_INTERVAL_MS = 100;
+
+const inputClass = 'w-14 px-1 py-0.5 bg-gray-800 border border-gray-600 rounded text-white text-xs';
+const selectClass = 'px-1 py-1 bg-gray-800 border border-gray-600 rounded text-white text-xs';
+
+const useAudioFeatures = (running: boolean): AudioFeatures => {
+  const [features, setFeatures] = useState<AudioFeatures>(SILENT_FEATURES);
+
+  useEffect(() => {
+    if (!running) {
+      setFeatures(SILENT_FEATURES);
+      return;
+    }
+    const interval = setInterval(() => setFeatures(audioAnalyzer.getFeatures()), METER_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  return features;
+};
+
+const SettingSlider: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step, onChange }) => (
+  <label className="flex items-center gap-2 text-xs text-gray-300">
+    <span className="w-20 shrink-0">{label}</span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="flex-1"
+    />
+    <span className="w-8 text-right font-mono">{value.toFixed(2)}</span>
+  </label>
+);
+
+// Drive parameters from a microphone or audio file: live band meters plus feature → parameter bindings
+export const AudioReactivePanel: React.FC = () => {
+  const analyzer = useAudioAnalyzer();
+  const bindings = useAudioBindings();
+  const features = useAudioFeatures(analyzer.status === 'running');
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [path, setPath] = useState('');
+  const [feature, setFeature] = useState<AudioFeatureName>('bass');
+
+  // Bindings drive numbers only; read without subscribing so bound values changing every frame don't re-render the panel
+  const state = useVisualStore.getState();
+  const paths = listAnimatablePaths(state).filter((candidate) => {
+    const value = getPathValue(state, candidate);
+    return candidate !== 'seed' && typeof value === 'number' && isFinite(value);
+  });
+
+  const addBinding = () => {
+    if (!path) return;
+    const value = getPathValue(useVisualStore.getState(), path) as number;
+    // Start from the current value and let the feature push it up to double
+    audioReactive.addBinding(path, feature, value, value === 0 ? 1 : value * 2);
+  };
+
+  const running = analyzer.status === 'running';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => audioAnalyzer.startMicrophone()}
+          disabled={analyzer.status === 'starting'}
+          className="px-2 py-1 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded text-xs transition-colors"
+        >
+          🎤 Microphone
+        </button>
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={analyzer.status === 'starting'}
+          className="px-2 py-1 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded text-xs transition-colors"
+        >
+          🎵 Audio file
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="audio/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) audioAnalyzer.startFile(file);
+            e.target.value = '';
+          }}
+        />
+        {analyzer.status !== 'idle' && (
+          <button
+            onClick={() => audioAnalyzer.stop()}
+            className="px-2 py-1 bg-red-600/70 hover:bg-red-600 text-white rounded text-xs"
+          >
+            Stop
+          </button>
+        )}
+      </div>
+
+      {running && (
+        <div className="text-xs text-gray-400 truncate" title={analyzer.sourceName ?? undefined}>
+          Listening to {analyzer.sourceName}
+        </div>
+      )}
+      {analyzer.status === 'error' && <div className="text-xs text-red-300">{analyzer.error}</div>}
+
+      <div className="space-y-0.5">
+        {AUDIO_FEATURE_NAMES.map((name) => (
+          <div key={name} className="flex items-center gap-2 text-xs text-gray-300">
+            <span className="w-14 shrink-0">{name}</span>
+            <div className="flex-1 h-1.5 bg-gray-700 rounded overflow-hidden">
+              <div className="h-full bg-purple-500" style={{ width: `${Math.round(features[name] * 100)}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <SettingSlider
+        label="Smoothing"
+        value={analyzer.settings.smoothing}
+        min={0}
+        max={0.95}
+        step={0.05}
+        onChange={(smoothing) => audioAnalyzer.updateSettings({ smoothing })}
+      />
+      <SettingSlider
+        label="Gain"
+        value={analyzer.settings.gain}
+        min={0.25}
+        max={4}
+        step={0.05}
+        onChange={(gain) => audioAnalyzer.updateSettings({ gain })}
+      />
+      <SettingSlider
+        label="Beat threshold"
+        value={analyzer.settings.beatSensitivity}
+        min={1}
+        max={3}
+        step={0.1}
+        onChange={(beatSensitivity) => audioAnalyzer.updateSettings({ beatSensitivity })}
+      />
+
+      <div className="flex items-center gap-1 pt-1">
+        <select value={feature} onChange={(e) => setFeature(e.target.value as AudioFeatureName)} className={selectClass}>
+          {AUDIO_FEATURE_NAMES.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-400">→</span>
+        <select value={path} onChange={(e) => setPath(e.target.value)} className={`flex-1 min-w-0 ${selectClass}`}>
+          <option value="">Choose a parameter…</option>
+          {paths.map((candidate) => (
+            <option key={candidate} value={candidate}>{candidate}</option>
+          ))}
+        </select>
+        <button
+          onClick={addBinding}
+          disabled={!path}
+          className="px-2 py-1 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded text-xs transition-colors"
+        >
+          Bind
+        </button>
+      </div>
+
+      {bindings.length === 0 && <div className="text-xs text-gray-500">No bindings</div>}
+
+      {bindings.map((binding) => (
+        <div key={binding.id} className="p-2 bg-gray-800/60 rounded space-y-1">
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={binding.enabled}
+              onChange={(e) => audioReactive.updateBinding(binding.id, { enabled: e.target.checked })}
+              title="Enabled"
+            />
+            <span className="flex-1 min-w-0 truncate text-xs text-white font-mono" title={binding.path}>
+              {binding.path}
+            </span>
+            <button
+              onClick={() => audioReactive.removeBinding(binding.id)}
+              className="px-1.5 py-0.5 bg-red-600/70 hover:bg-red-600 text-white rounded text-xs"
+              title="Remove"
+            >
+              ✕
+            </button>
+          </div>
+          <div className="flex items-center gap-2 text-xs text-gray-300">
+            <select
+              value={binding.feature}
+              onChange={(e) => audioReactive.updateBinding(binding.id, { feature: e.target.value as AudioFeatureName })}
+              className={selectClass}
+            >
+              {AUDIO_FEATURE_NAMES.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1" title="Value when the feature is silent">
+              From
+              <input
+                type="number"
+                step={0.1}
+                value={binding.min}
+                onChange={(e) => {
+                  const min = parseFloat(e.target.value);
+                  if (isFinite(min)) audioReactive.updateBinding(binding.id, { min });
+                }}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex items-center gap-1" title="Value when the feature peaks">
+              To
+              <input
+                type="number"
+                step={0.1}
+                value={binding.max}
+                onChange={(e) => {
+                  const max = parseFloat(e.target.value);
+                  if (isFinite(max)) audioReactive.updateBinding(binding.id, { max });
+                }}
+                className={inputClass}
+              />
+            </label>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AudioReactivePanel;
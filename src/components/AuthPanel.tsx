@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useAuthStore } from '@/store/authStore';
+
+// Compact sign-in / account box for the cloud preset panels
+export const AuthPanel: React.FC = () => {
+  const { user, status, error, refreshUser, login, register, logout, clearError } = useAuthStore();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  useEffect(() => {
+    if (status === 'unknown') {
+      refreshUser();
+    }
+  }, [status, refreshUser]);
+
+  const submit = async (action: 'login' | 'register') => {
+    const success = await (action === 'login' ? login : register)({ username, password });
+    if (success) {
+      setPassword('');
+    }
+  };
+
+  if (user) {
+    return (
+      <div className="flex justify-between items-center mb-3 text-xs text-gray-300">
+        <span>
+          Signed in as <span className="text-white font-medium">{user.username}</span> ({user.role})
+        </span>
+        <button
+          onClick={logout}
+          className="px-2 py-0.5 bg-gray-600 hover:bg-gray-700 text-white rounded transition-colors"
+        >
+          Sign out
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-3 p-2 bg-gray-800/50 rounded-md border border-white/10">
+      <p className="text-xs text-gray-400 mb-2">Sign in to save, edit or delete cloud presets</p>
+      {error && (
+        <div className="mb-2 text-xs text-red-300">{error}</div>
+      )}
+      <div className="flex gap-1">
+        <input
+          type="text"
+          placeholder="Username"
+          value={username}
+          onChange={(e) => { setUsername(e.target.value); clearError(); }}
+          className="flex-1 min-w-0 px-2 py-1 bg-gray-700/50 border border-white/20 rounded text-white text-xs placeholder-gray-400"
+        />
+        <input
+          type="password"
+          placeholder="Password"
+          value={password}
+          onChange={(e) => { setPassword(e.target.value); clearError(); }}
+          onKeyDown={(e) => e.key === 'Enter' && submit('login')}
+          className="flex-1 min-w-0 px-2 py-1 bg-gray-700/50 border border-white/20 rounded text-white text-xs placeholder-gray-400"
+        />
+      </div>
+      <div className="flex gap-1 mt-1">
+        <button
+          onClick={() => submit('login')}
+          className="px-2 py-0.5 bg-blue-600 hover:bg-blue-700 text-white text-xs rounded transition-colors"
+          disabled={status === 'loading' || !username || !password}
+        >
+          Sign in
+        </button>
+        <button
+          onClick={() => submit('register')}
+          className="px-2 py-0.5 bg-gray-600 hover:bg-gray-700 text-white text-xs rounded transition-colors"
+          disabled={status === 'loading' || !username || !password}
+        >
+          Create account
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,37 +1,22 @@
 import React, { useRef, useMemo, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { useVisualStore } from '../store/visualStore';
+import { useSceneState } from '../utils/sceneOverlay';
 import { getLayerConfig, constrainToViewport, getMovementSpeed } from '../utils/backgroundLayout';
 import { TrailObject } from './TrailObject';
-
-// Simple seeded random generator
-function mulberry32(seed: number) {
-  return function() {
-    let t = seed += 0x6D2B79F5;
-    t = Math.imul(t ^ t >>> 15, t | 1);
-    t ^= t + Math.imul(t ^ t >>> 7, t | 61);
-    return ((t ^ t >>> 14) >>> 0) / 4294967296;
-  };
-}
+import { createSceneRandom, deriveSeed, mulberry32 } from '../utils/seededRandom';
 
 export const Blobs: React.FC = () => {
   // ALL HOOKS MUST BE CALLED FIRST, BEFORE ANY CONDITIONAL LOGIC
   const groupRef = useRef<THREE.Group>(null);
-  const { geometric, globalEffects, backgroundConfig, globalAnimationSpeed } = useVisualStore();
+  const { geometric, globalEffects, backgroundConfig, globalAnimationSpeed, seed } = useSceneState();
   const { blobs } = geometric;
   const { shapeGlow } = globalEffects;
 
-  // Store stable random seeds for each blob
-  const seedsRef = useRef<number[]>([]);
-  
   // Frame counter for performance optimization
   const frameCountRef = useRef(0);
   const pulseTimeRef = useRef(0);
 
-  // Stable positions for each blob
-  const positionsRef = useRef<THREE.Vector3[]>([]);
-
   // Get layer configuration for background mode - with proper fallbacks
   const layerConfig = backgroundConfig.enabled ? 
     backgroundConfig.artisticLayout?.layers?.nearBackground : null;
@@ -46,11 +31,11 @@ export const Blobs: React.FC = () => {
   const safeOpacity = isNaN(blobs.opacity) || blobs.opacity < 0 ? 1.0 : blobs.opacity;
   const safeSpeed = isNaN(blobs.speed) || blobs.speed < 0 ? 1.0 : blobs.speed;
 
-  // Update seeds if count changes
-  if (seedsRef.current.length !== safeCount) {
-    // Regenerate seeds if count changes
-    seedsRef.current = Array.from({ length: safeCount }, (_, i) => Math.floor(Math.random() * 1000000) + i * 1000);
-  }
+  // Stable per-blob seeds derived from the scene seed
+  const seeds = useMemo(
+    () => Array.from({ length: safeCount }, (_, i) => deriveSeed(seed, 'blobs', i)),
+    [safeCount, seed]
+  );
 
   // PERFORMANCE OPTIMIZATION: Use a single shared geometry instead of individual geometries
   const sharedGeometry = useMemo(() => {
@@ -61,6 +46,7 @@ export const Blobs: React.FC = () => {
     );
     
     if (safeOrganicness > 0) {
+      const random = createSceneRandom(seed, 'blobs', 'geometry');
       const positions = geometry.attributes.position;
       for (let j = 0; j < positions.count; j++) {
         const x = positions.getX(j);
@@ -69,16 +55,16 @@ export const Blobs: React.FC = () => {
         const distortion = safeOrganicness * 0.3;
         positions.setXYZ(
           j,
-          x + (Math.random() - 0.5) * distortion,
-          y + (Math.random() - 0.5) * distortion,
-          z + (Math.random() - 0.5) * distortion
+          x + random.centered(distortion),
+          y + random.centered(distortion),
+          z + random.centered(distortion)
         );
       }
       positions.needsUpdate = true;
       geometry.computeVertexNormals();
     }
     return geometry;
-  }, [safeSize, safeOrganicness]);
+  }, [safeSize, safeOrganicness, seed]);
 
   // Enhanced glow effect for blobs with safety checks
   const glowColor = shapeGlow?.useObjectColor ? blobs.color : (shapeGlow?.customColor || blobs.color);
@@ -103,18 +89,17 @@ export const Blobs: React.FC = () => {
     });
   }, [safeCount, blobs.color, blobs.opacity, glowColor, glowIntensity]);
 
-  // Update positions if count changes
-  if (positionsRef.current.length !== safeCount) {
-    // Regenerate positions if count changes
-    positionsRef.current = seedsRef.current.map((seed) => {
-      const rand = mulberry32(seed + 9999);
+  // Stable positions for each blob
+  const positions = useMemo(() => {
+    return seeds.map((blobSeed) => {
+      const rand = mulberry32(blobSeed + 9999);
       return new THREE.Vector3(
         (rand() - 0.5) * 50,
         (rand() - 0.5) * 30,
         (rand() - 0.5) * 40
       );
     });
-  }
+  }, [seeds]);
 
   // ALWAYS call useFrame, but make it conditional inside
   useFrame((state) => {
@@ -155,7 +140,7 @@ export const Blobs: React.FC = () => {
         const trailObjectGroup = child as THREE.Group;
         const mesh = trailObjectGroup.children[0] as THREE.Mesh;
       const material = blobMaterials[i]; // Use individual material
-        const pos = positionsRef.current[i];
+        const pos = positions[i];
         if (!pos) return;
         
       // Individual blob speed and rotation
@@ -178,9 +163,10 @@ export const Blobs: React.FC = () => {
       } else if (movementPattern === 'verticalSine') {
         y = pos.y + Math.sin(scaledTime + i) * 2 * individualSpeed * safeDistance;
       } else if (movementPattern === 'random') {
-        x = pos.x + (Math.random() - 0.5) * 0.5 * individualSpeed * safeDistance;
-        y = pos.y + (Math.random() - 0.5) * 0.5 * individualSpeed * safeDistance;
-        z = pos.z + (Math.random() - 0.5) * 0.5 * individualSpeed * safeDistance;
+        const jitter = createSceneRandom(seed, 'blobs', 'jitter', i, time);
+        x = pos.x + jitter.centered(0.5 * individualSpeed * safeDistance);
+        y = pos.y + jitter.centered(0.5 * individualSpeed * safeDistance);
+        z = pos.z + jitter.centered(0.5 * individualSpeed * safeDistance);
         }
       // 'static' does nothing
       
@@ -228,7 +214,7 @@ export const Blobs: React.FC = () => {
 
   return (
     <group ref={groupRef} key={`blobs-${backgroundConfig.enabled}-${safeCount}`}>
-      {positionsRef.current.map((position, i) => (
+      {positions.map((position, i) => (
         <TrailObject 
           key={`blob-${i}-${safeCount}`}
           id={`blob-${i}`}
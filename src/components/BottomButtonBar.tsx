@@ -3,6 +3,7 @@ import { DashboardToggle } from './DashboardToggle';
 import { GlobalDefaultsToggle } from './GlobalDefaultsToggle';
 import { AIToggle } from './AIToggle';
 import { TrailToggle } from './TrailToggle';
+import { TimelineToggle } from './TimelineToggle';
 import { PerformanceMonitor } from './PerformanceMonitor';
 import { ShareToggle } from './ShareToggle';
 
@@ -21,6 +22,8 @@ interface BottomButtonBarProps {
   onAutoPanToggle: () => void;
   isTrailControlsOpen: boolean;
   onTrailControlsToggle: () => void;
+  isTimelineOpen: boolean;
+  onTimelineToggle: () => void;
   isPerformanceOpen: boolean;
   onPerformanceToggle: () => void;
   isShareOpen: boolean;
@@ -42,6 +45,8 @@ export const BottomButtonBar: React.FC<BottomButtonBarProps> = ({
   onAutoPanToggle,
   isTrailControlsOpen,
   onTrailControlsToggle,
+  isTimelineOpen,
+  onTimelineToggle,
   isPerformanceOpen,
   onPerformanceToggle,
   isShareOpen,
@@ -68,6 +73,9 @@ export const BottomButtonBar: React.FC<BottomButtonBarProps> = ({
       <div style={{ pointerEvents: 'auto' }}>
         <TrailToggle isOpen={isTrailControlsOpen} onToggle={onTrailControlsToggle} />
       </div>
+      <div style={{ pointerEvents: 'auto' }}>
+        <TimelineToggle isOpen={isTimelineOpen} onToggle={onTimelineToggle} />
+      </div>
         
         {/* Camera Positioning Mode Button */}
       <div style={{ pointerEvents: 'auto' }}>
@@ -1,12 +1,12 @@
 import React, { useMemo } from 'react';
-import { useVisualStore } from '../store/visualStore';
+import { useSceneState } from '../utils/sceneOverlay';
 
 interface CompanyLogoProps {
   className?: string;
 }
 
 const CompanyLogo: React.FC<CompanyLogoProps> = ({ className }) => {
-  const { logo } = useVisualStore();
+  const { logo } = useSceneState();
   
   // Calculate position styles - ALWAYS call this hook
   const positionStyles = useMemo(() => {
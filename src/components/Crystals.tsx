@@ -0,0 +1,208 @@
+import React, { useRef, useMemo, useEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useSceneState } from '../utils/sceneOverlay';
+import { constrainToViewport } from '../utils/backgroundLayout';
+import { createCrystalGeometry } from '../utils/crystalGeometry';
+import { calculateDistortion } from './DistortionFix';
+import { TrailObject } from './TrailObject';
+import { deriveSeed, mulberry32 } from '../utils/seededRandom';
+
+export const Crystals: React.FC = () => {
+  // ALL HOOKS MUST BE CALLED FIRST, BEFORE ANY CONDITIONAL LOGIC
+  const groupRef = useRef<THREE.Group>(null);
+  const { geometric, globalEffects, backgroundConfig, globalAnimationSpeed, seed: sceneSeed } = useSceneState();
+  const { crystals } = geometric;
+  const { shapeGlow } = globalEffects;
+
+  const pulseTimeRef = useRef(0);
+
+  // Get layer configuration for background mode
+  const layerConfig = backgroundConfig.enabled ?
+    backgroundConfig.artisticLayout?.layers?.midBackground : null;
+  const layerZ = layerConfig?.zPosition || 0;
+
+  // Safety checks
+  const safeCount = isNaN(crystals.count) || crystals.count < 0 ? 0 : Math.floor(crystals.count);
+  const safeSize = isNaN(crystals.size) || crystals.size <= 0 ? 1.0 : crystals.size;
+  const safeComplexity = isNaN(crystals.complexity) || crystals.complexity < 0 ? 0 : crystals.complexity;
+  const safeOrganicness = isNaN(crystals.organicness) || crystals.organicness < 0 ? 0 : crystals.organicness;
+  const safeSpeed = isNaN(crystals.speed) || crystals.speed < 0 ? 0.6 : crystals.speed;
+  const safeRotation = isNaN(crystals.rotation) ? 0 : crystals.rotation;
+
+  // Stable per-crystal seeds derived from the scene seed
+  const seeds = useMemo(
+    () => Array.from({ length: safeCount }, (_, i) => deriveSeed(sceneSeed, 'crystals', i)),
+    [safeCount, sceneSeed]
+  );
+
+  // Stable start positions and orientations derived from each crystal's seed
+  const layout = useMemo(() => {
+    return seeds.map((seed) => {
+      const rand = mulberry32(seed + 4242);
+      return {
+        position: new THREE.Vector3(
+          (rand() - 0.5) * 50,
+          (rand() - 0.5) * 30,
+          (rand() - 0.5) * 40
+        ),
+        tilt: new THREE.Euler((rand() - 0.5) * 0.8, rand() * Math.PI * 2, (rand() - 0.5) * 0.8)
+      };
+    });
+  }, [seeds]);
+
+  // Each crystal gets its own cluster so shard layouts differ
+  const geometries = useMemo(() => {
+    return seeds.map((seed) => createCrystalGeometry({
+      size: safeSize,
+      complexity: safeComplexity,
+      organicness: safeOrganicness,
+      seed
+    }));
+  }, [seeds, safeSize, safeComplexity, safeOrganicness]);
+
+  useEffect(() => {
+    return () => geometries.forEach((geometry) => geometry.dispose());
+  }, [geometries]);
+
+  // Enhanced glow effect for crystals with safety checks
+  const glowColor = shapeGlow?.useObjectColor ? crystals.color : (shapeGlow?.customColor || crystals.color);
+  const glowIntensity = shapeGlow?.enabled ? (shapeGlow?.intensity ?? 0) : 0;
+
+  // Individual materials so pulsing can vary per crystal
+  const crystalMaterials = useMemo(() => {
+    return Array.from({ length: safeCount }, () => new THREE.MeshStandardMaterial({
+      color: crystals.color,
+      emissive: new THREE.Color(glowColor),
+      emissiveIntensity: glowIntensity * 2.0,
+      transparent: true,
+      opacity: crystals.opacity,
+      flatShading: true,
+      blending: glowIntensity > 0 ? THREE.AdditiveBlending : THREE.NormalBlending,
+      // Crystals stay glossy even without glow
+      metalness: glowIntensity > 0 ? 0.8 : 0.4,
+      roughness: glowIntensity > 0 ? 0.1 : 0.25
+    }));
+  }, [safeCount, crystals.color, crystals.opacity, glowColor, glowIntensity]);
+
+  useEffect(() => {
+    return () => crystalMaterials.forEach((material) => material.dispose());
+  }, [crystalMaterials]);
+
+  // ALWAYS call useFrame, but make it conditional inside
+  useFrame((state, delta) => {
+    if (!groupRef.current || safeCount === 0) return;
+
+    const time = state.clock.elapsedTime;
+    const timeScale = backgroundConfig.timeScale;
+    const safeAnimationSpeed = Math.max(0.01, Math.min(5.0, globalAnimationSpeed));
+    const scaledTime = time * timeScale * safeAnimationSpeed;
+    const individualSpeed = safeSpeed * safeAnimationSpeed;
+    const rotationStep = safeRotation * safeAnimationSpeed * 0.01 * timeScale;
+    const movementPattern = crystals.movementPattern || 'orbit';
+    const safeDistance = isNaN(crystals.distance) || crystals.distance < 0 ? 2.0 : crystals.distance;
+    const pulseEnabled = crystals.pulseEnabled || false;
+    const pulseSize = isNaN(crystals.pulseSize) || crystals.pulseSize < 0 ? 1.0 : crystals.pulseSize;
+
+    if (pulseEnabled) {
+      pulseTimeRef.current += delta * safeAnimationSpeed;
+    }
+
+    groupRef.current.children.forEach((child, i) => {
+      // TrailObject group > positioned group > [crystal mesh, optional glow mesh]
+      const crystalGroup = child.children[0] as THREE.Group;
+      const mesh = crystalGroup?.children[0] as THREE.Mesh;
+      const glowMesh = crystalGroup?.children[1] as THREE.Mesh | undefined;
+      const entry = layout[i];
+      if (!entry || !mesh) return;
+
+      // Spin around the crystal's long axis, with a slow precession
+      mesh.rotation.y += rotationStep;
+      mesh.rotation.x = entry.tilt.x + Math.sin(scaledTime * 0.3 + i) * 0.1;
+      glowMesh?.rotation.copy(mesh.rotation);
+
+      const pos = entry.position;
+      let x = pos.x;
+      let y = pos.y;
+      let z = pos.z;
+
+      if (movementPattern === 'orbit') {
+        x = pos.x + Math.sin(scaledTime + i) * 2 * individualSpeed * safeDistance;
+        y = pos.y + Math.cos(scaledTime + i * 0.5) * 1.5 * individualSpeed * safeDistance;
+        z = pos.z + Math.sin(scaledTime * 0.7 + i) * 1 * individualSpeed * safeDistance;
+      } else if (movementPattern === 'verticalSine') {
+        y = pos.y + Math.sin(scaledTime + i) * 2 * individualSpeed * safeDistance;
+      } else if (movementPattern === 'random') {
+        x = pos.x + (Math.random() - 0.5) * 0.5 * individualSpeed * safeDistance;
+        y = pos.y + (Math.random() - 0.5) * 0.5 * individualSpeed * safeDistance;
+        z = pos.z + (Math.random() - 0.5) * 0.5 * individualSpeed * safeDistance;
+      }
+      // 'static' does nothing
+
+      const distorted = calculateDistortion({ x, y, z }, scaledTime, i, globalEffects?.distortion);
+      if (backgroundConfig.enabled) {
+        const constrained = constrainToViewport(distorted, layerZ);
+        crystalGroup.position.set(constrained.x, constrained.y, constrained.z);
+      } else {
+        crystalGroup.position.set(distorted.x, distorted.y, distorted.z);
+      }
+
+      if (pulseEnabled) {
+        const pulsePhase = pulseTimeRef.current + i * 0.4;
+        const pulseIntensity = 0.5 + 0.5 * Math.sin(pulsePhase);
+        const material = crystalMaterials[i];
+        if (material) {
+          material.emissiveIntensity = glowIntensity * 2.0 * pulseIntensity * pulseSize;
+        }
+
+        // Also animate the pulsing glow mesh if it exists
+        if (glowMesh) {
+          (glowMesh.material as THREE.MeshBasicMaterial).opacity = glowIntensity * 0.3 * pulseIntensity * pulseSize;
+        }
+      }
+    });
+  });
+
+  // NOW we can have conditional returns after all hooks are called
+  if (safeCount === 0) {
+    return null;
+  }
+
+  return (
+    <group ref={groupRef} key={`crystals-${backgroundConfig.enabled}-${safeCount}`}>
+      {layout.map((entry, i) => (
+        <TrailObject
+          key={`crystal-${i}-${safeCount}`}
+          id={`crystal-${i}`}
+          color={new THREE.Color(crystals.color)}
+          size={safeSize * 0.5}
+          velocityThreshold={0.05}
+          trailType='crystalTrails'
+          geometry={geometries[i]}
+          material={crystalMaterials[i]}
+        >
+          <group position={entry.position}>
+            <mesh
+              geometry={geometries[i]}
+              material={crystalMaterials[i]}
+              rotation={entry.tilt}
+            />
+
+            {/* Add pulsing glow effect when enabled */}
+            {shapeGlow?.enabled && shapeGlow?.pulsing && (
+              <mesh geometry={geometries[i]} rotation={entry.tilt} scale={1.15}>
+                <meshBasicMaterial
+                  color={glowColor}
+                  transparent={true}
+                  opacity={glowIntensity * 0.3}
+                  blending={THREE.AdditiveBlending}
+                  side={THREE.BackSide}
+                />
+              </mesh>
+            )}
+          </group>
+        </TrailObject>
+      ))}
+    </group>
+  );
+};
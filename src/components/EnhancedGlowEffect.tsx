@@ -47,7 +47,7 @@ extend({ GlowMaterial });
 export const calculateGlowSettings = (
   baseColor: string,
   glowConfig: any,
-  objectType: 'sphere' | 'cube' | 'torus' | 'particle'
+  objectType: 'sphere' | 'cube' | 'torus' | 'crystal' | 'particle'
 ) => {
   const glowEnabled = glowConfig?.enabled || false;
   const baseIntensity = glowConfig?.intensity || 0;
@@ -57,6 +57,7 @@ export const calculateGlowSettings = (
     sphere: 3.0,
     cube: 2.5,
     torus: 2.8,
+    crystal: 3.2,
     particle: 2.0
   };
   
@@ -10,6 +10,7 @@ import * as THREE from 'three';
 import { TrailObject, trailManager } from './TrailObject';
 import styles from './EnhancedVisualCanvas.module.css';
 import { Blobs } from './Blobs';
+import { Crystals } from './Crystals';
 import { ObjectTrails } from './ObjectTrails';
 import { WaveInterference } from './WaveInterference';
 import { Metamorphosis } from './Metamorphosis';
@@ -29,9 +30,18 @@ import CompanyLogo from './CompanyLogo';
 import { memoryManager } from '../utils/MemoryManager';
 import { OptimizedCameraControls, CameraPerformanceMonitor } from './OptimizedCameraSystem';
 import { WorkingAutoPan, AutoPanStatus } from './WorkingAutoPan';
-import { InstancedSpheres, InstancedCubes } from './InstancedShapes';
+import { InstancedSpheres, InstancedCubes, InstancedCrystals } from './InstancedShapes';
 import { SafeInstancedSpheres } from './SafeInstancedShapes';
 import { DistortionEffectFix } from './DistortionFix';
+import { PostProcessingEffects } from './PostProcessingEffects';
+import { createSceneRandom, SeededRandom } from '../utils/seededRandom';
+import { sceneExporter } from '../utils/imageExport';
+import { canvasRecorder, useRecorderStatus } from '../utils/canvasRecorder';
+import { timelinePlayer } from '../utils/timelinePlayer';
+import { liveMapping } from '../utils/liveMapping';
+import { modulationEngine } from '../utils/modulationEngine';
+import { audioReactive } from '../utils/audioReactive';
+import { useSceneState } from '../utils/sceneOverlay';
 
 // Trail renderer component with performance optimizations
 const TrailRenderer = () => {
@@ -63,16 +73,6 @@ const TrailRenderer = () => {
   );
 };
 
-// Utility function to convert hex color to RGB
-const hexToRgb = (hex: string): { r: number; g: number; b: number } => {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return result ? {
-    r: parseInt(result[1], 16),
-    g: parseInt(result[2], 16),
-    b: parseInt(result[3], 16)
-  } : { r: 255, g: 255, b: 255 };
-};
-
 // Add client-side only rendering wrapper
 const ClientOnly = React.memo(({ children }: { children: React.ReactNode }) => {
   const [mounted, setMounted] = useState(false);
@@ -87,7 +87,7 @@ const ClientOnly = React.memo(({ children }: { children: React.ReactNode }) => {
 
 const Spheres = () => {
   // Helper to create unique organic geometry for each sphere - MUST BE FIRST
-  const createOrganicSphereGeometry = (size: number, organicness: number) => {
+  const createOrganicSphereGeometry = (size: number, organicness: number, random: SeededRandom) => {
     // Safety checks to prevent NaN values
     const safeSize = isNaN(size) || size <= 0 ? 1.0 : size;
     const safeOrganicness = isNaN(organicness) || organicness < 0 ? 0 : organicness;
@@ -95,7 +95,7 @@ const Spheres = () => {
     const geometry = new THREE.SphereGeometry(safeSize, 16, 16);
     const positions = geometry.attributes.position.array;
     for (let i = 0; i < positions.length; i += 3) {
-      const noise = (Math.random() - 0.5) * safeOrganicness;
+      const noise = random.centered(safeOrganicness);
       positions[i] += noise;
       positions[i + 1] += noise;
       positions[i + 2] += noise;
@@ -106,11 +106,11 @@ const Spheres = () => {
   };
 
   // ALL HOOKS MUST BE CALLED FIRST, BEFORE ANY CONDITIONAL LOGIC
-  const { globalEffects, backgroundConfig, globalAnimationSpeed } = useVisualStore();
-  const spheres = useVisualStore(state => state.geometric.spheres);
-  const spheresCount = useVisualStore(state => state.geometric.spheres.count);
-  const spheresColor = useVisualStore(state => state.geometric.spheres.color);
-  const spheresSize = useVisualStore(state => state.geometric.spheres.size);
+  const { globalEffects, backgroundConfig, globalAnimationSpeed, seed } = useSceneState();
+  const spheres = useSceneState(state => state.geometric.spheres);
+  const spheresCount = useSceneState(state => state.geometric.spheres.count);
+  const spheresColor = useSceneState(state => state.geometric.spheres.color);
+  const spheresSize = useSceneState(state => state.geometric.spheres.size);
   const { shapeGlow } = globalEffects;
   
   const groupRef = useRef<THREE.Group>(null);
@@ -128,15 +128,16 @@ const Spheres = () => {
   const generatedPositions = useMemo(() => {
     const newPositions: THREE.Vector3[] = [];
     const safeCount = isNaN(spheresCount) || spheresCount < 0 ? 0 : spheresCount;
+    const random = createSceneRandom(seed, 'spheres', 'layout');
     for (let i = 0; i < safeCount; i++) {
       newPositions.push(new THREE.Vector3(
-        (Math.random() - 0.5) * 50,
-        (Math.random() - 0.5) * 30,
-        (Math.random() - 0.5) * 40,
+        random.centered(50),
+        random.centered(30),
+        random.centered(40),
       ));
     }
     return newPositions;
-  }, [spheresCount, spheresSize]);
+  }, [spheresCount, spheresSize, seed]);
 
   // FIX: Memoize all geometries at once, BEFORE any conditional returns
   const geometries = useMemo(
@@ -145,11 +146,12 @@ const Spheres = () => {
       const safeSize = isNaN(spheresSize) || spheresSize <= 0 ? 1.0 : spheresSize;
       const safeOrganicness = isNaN(spheres.organicness) || spheres.organicness < 0 ? 0 : spheres.organicness;
       
+      const random = createSceneRandom(seed, 'spheres', 'geometry');
       return Array.from({ length: safeCount }, () => 
-        createOrganicSphereGeometry(safeSize, safeOrganicness)
+        createOrganicSphereGeometry(safeSize, safeOrganicness, random)
       );
     },
-    [spheresCount, spheresSize, spheres.organicness]
+    [spheresCount, spheresSize, spheres.organicness, seed]
   );
 
   // Update positions state when generated positions change
@@ -206,9 +208,10 @@ const Spheres = () => {
       } else if (movementPattern === 'verticalSine') {
         y = pos.y + Math.sin(scaledTime + i) * 2 * finalSpeed * safeDistance;
       } else if (movementPattern === 'random') {
-        x = pos.x + (Math.random() - 0.5) * 0.5 * finalSpeed * safeDistance;
-        y = pos.y + (Math.random() - 0.5) * 0.5 * finalSpeed * safeDistance;
-        z = pos.z + (Math.random() - 0.5) * 0.5 * finalSpeed * safeDistance;
+        const jitter = createSceneRandom(seed, 'spheres', 'jitter', i, time);
+        x = pos.x + jitter.centered(0.5 * finalSpeed * safeDistance);
+        y = pos.y + jitter.centered(0.5 * finalSpeed * safeDistance);
+        z = pos.z + jitter.centered(0.5 * finalSpeed * safeDistance);
       }
       // 'static' does nothing - spheres stay at base position
       
@@ -361,7 +364,7 @@ const Spheres = () => {
 
 const Cubes = () => {
   // Helper to create unique organic geometry for each cube
-  const createOrganicCubeGeometry = (size: number, organicness: number) => {
+  const createOrganicCubeGeometry = (size: number, organicness: number, random: SeededRandom) => {
     // Safety checks to prevent NaN values
     const safeSize = isNaN(size) || size <= 0 ? 1.0 : size;
     const safeOrganicness = isNaN(organicness) || organicness < 0 ? 0 : organicness;
@@ -369,7 +372,7 @@ const Cubes = () => {
     const geometry = new THREE.BoxGeometry(safeSize, safeSize, safeSize);
     const positions = geometry.attributes.position.array;
     for (let i = 0; i < positions.length; i += 3) {
-      const noise = (Math.random() - 0.5) * safeOrganicness;
+      const noise = random.centered(safeOrganicness);
       positions[i] += noise;
       positions[i + 1] += noise;
       positions[i + 2] += noise;
@@ -380,11 +383,11 @@ const Cubes = () => {
   };
 
   // ALL HOOKS MUST BE CALLED FIRST, BEFORE ANY CONDITIONAL LOGIC
-  const { globalEffects, backgroundConfig, globalAnimationSpeed } = useVisualStore();
-  const cubes = useVisualStore(state => state.geometric.cubes);
-  const cubesCount = useVisualStore(state => state.geometric.cubes.count);
-  const cubesColor = useVisualStore(state => state.geometric.cubes.color);
-  const cubesSize = useVisualStore(state => state.geometric.cubes.size);
+  const { globalEffects, backgroundConfig, globalAnimationSpeed, seed } = useSceneState();
+  const cubes = useSceneState(state => state.geometric.cubes);
+  const cubesCount = useSceneState(state => state.geometric.cubes.count);
+  const cubesColor = useSceneState(state => state.geometric.cubes.color);
+  const cubesSize = useSceneState(state => state.geometric.cubes.size);
   const { shapeGlow } = globalEffects;
   
   const groupRef = useRef<THREE.Group>(null);
@@ -402,15 +405,16 @@ const Cubes = () => {
   const generatedPositions = useMemo(() => {
     const newPositions: THREE.Vector3[] = [];
     const safeCount = isNaN(cubesCount) || cubesCount < 0 ? 0 : cubesCount;
+    const random = createSceneRandom(seed, 'cubes', 'layout');
     for (let i = 0; i < safeCount; i++) {
       newPositions.push(new THREE.Vector3(
-        (Math.random() - 0.5) * 50,
-        (Math.random() - 0.5) * 30,
-        (Math.random() - 0.5) * 40,
+        random.centered(50),
+        random.centered(30),
+        random.centered(40),
       ));
     }
     return newPositions;
-  }, [cubesCount, cubesSize]);
+  }, [cubesCount, cubesSize, seed]);
 
   // FIX: Memoize all geometries at once, BEFORE any conditional returns
   const geometries = useMemo(
@@ -419,11 +423,12 @@ const Cubes = () => {
       const safeSize = isNaN(cubesSize) || cubesSize <= 0 ? 1.0 : cubesSize;
       const safeOrganicness = isNaN(cubes.organicness) || cubes.organicness < 0 ? 0 : cubes.organicness;
       
+      const random = createSceneRandom(seed, 'cubes', 'geometry');
       return Array.from({ length: safeCount }, () => 
-        createOrganicCubeGeometry(safeSize, safeOrganicness)
+        createOrganicCubeGeometry(safeSize, safeOrganicness, random)
       );
     },
-    [cubesCount, cubesSize, cubes.organicness]
+    [cubesCount, cubesSize, cubes.organicness, seed]
   );
 
   // Update positions state when generated positions change
@@ -584,7 +589,7 @@ const Cubes = () => {
 
 const Toruses = () => {
   // Helper to create unique organic geometry for each torus - MUST BE FIRST
-  const createOrganicTorusGeometry = (size: number, organicness: number) => {
+  const createOrganicTorusGeometry = (size: number, organicness: number, random: SeededRandom) => {
     // Safety checks to prevent NaN values
     const safeSize = isNaN(size) || size <= 0 ? 1.0 : size;
     const safeOrganicness = isNaN(organicness) || organicness < 0 ? 0 : organicness;
@@ -592,7 +597,7 @@ const Toruses = () => {
     const geometry = new THREE.TorusGeometry(safeSize, safeSize * 0.3, 8, 16);
     const positions = geometry.attributes.position.array;
     for (let i = 0; i < positions.length; i += 3) {
-      const noise = (Math.random() - 0.5) * safeOrganicness;
+      const noise = random.centered(safeOrganicness);
       positions[i] += noise;
       positions[i + 1] += noise;
       positions[i + 2] += noise;
@@ -603,7 +608,7 @@ const Toruses = () => {
   };
 
   // ALL HOOKS MUST BE CALLED FIRST, BEFORE ANY CONDITIONAL LOGIC
-  const { geometric, globalEffects, backgroundConfig, globalAnimationSpeed } = useVisualStore();
+  const { geometric, globalEffects, backgroundConfig, globalAnimationSpeed, seed } = useSceneState();
   const { toruses } = geometric;
   const { shapeGlow } = globalEffects;
   const groupRef = useRef<THREE.Group>(null);
@@ -620,15 +625,16 @@ const Toruses = () => {
   const generatedPositions = useMemo(() => {
     const newPositions: THREE.Vector3[] = [];
     const safeCount = isNaN(toruses.count) || toruses.count < 0 ? 0 : toruses.count;
+    const random = createSceneRandom(seed, 'toruses', 'layout');
     for (let i = 0; i < safeCount; i++) {
       newPositions.push(new THREE.Vector3(
-        (Math.random() - 0.5) * 50,
-        (Math.random() - 0.5) * 30,
-        (Math.random() - 0.5) * 40,
+        random.centered(50),
+        random.centered(30),
+        random.centered(40),
       ));
     }
     return newPositions;
-  }, [toruses.count, toruses.size]);
+  }, [toruses.count, toruses.size, seed]);
 
   // FIX: Memoize all geometries at once, BEFORE any conditional returns
   const geometries = useMemo(
@@ -637,11 +643,12 @@ const Toruses = () => {
       const safeSize = isNaN(toruses.size) || toruses.size <= 0 ? 1.0 : toruses.size;
       const safeOrganicness = isNaN(toruses.organicness) || toruses.organicness < 0 ? 0 : toruses.organicness;
       
+      const random = createSceneRandom(seed, 'toruses', 'geometry');
       return Array.from({ length: safeCount }, () => 
-        createOrganicTorusGeometry(safeSize, safeOrganicness)
+        createOrganicTorusGeometry(safeSize, safeOrganicness, random)
       );
     },
-    [toruses.count, toruses.size, toruses.organicness]
+    [toruses.count, toruses.size, toruses.organicness, seed]
   );
 
   // Update positions state when generated positions change
@@ -781,7 +788,7 @@ const Toruses = () => {
 };
 
 const Particles = () => {
-  const { particles, globalEffects, backgroundConfig, globalAnimationSpeed } = useVisualStore();
+  const { particles, globalEffects, backgroundConfig, globalAnimationSpeed, seed } = useSceneState();
   const { particleInteraction, shapeGlow } = globalEffects;
   const [positions, setPositions] = useState<Array<{x: number, y: number, z: number}>>([]);
   const particleRefs = useRef<THREE.Mesh[]>([]);
@@ -803,15 +810,16 @@ const Particles = () => {
   // Generate particle positions using useMemo
   const generatedPositions = useMemo(() => {
     const positions = [];
+    const random = createSceneRandom(seed, 'particles', 'layout');
     for (let i = 0; i < safeCount; i++) {
       positions.push({
-        x: (Math.random() - 0.5) * safeSpread * 2,
-        y: (Math.random() - 0.5) * safeSpread * 1.5,
-        z: (Math.random() - 0.5) * safeSpread * 2,
+        x: random.centered(safeSpread * 2),
+        y: random.centered(safeSpread * 1.5),
+        z: random.centered(safeSpread * 2),
       });
     }
     return positions;
-  }, [safeCount, safeSpread]);
+  }, [safeCount, safeSpread, seed]);
 
   // Frame counter for performance optimization
   const frameCountRef = useRef(0);
@@ -859,17 +867,19 @@ const Particles = () => {
         } else if (movementPattern === 'verticalSine') {
           y = basePos.y + Math.sin(scaledTime + i) * 2 * finalSpeed * safeDistance;
         } else if (movementPattern === 'random') {
-          x = basePos.x + (Math.random() - 0.5) * 0.5 * finalSpeed * safeDistance;
-          y = basePos.y + (Math.random() - 0.5) * 0.5 * finalSpeed * safeDistance;
-          z = basePos.z + (Math.random() - 0.5) * 0.5 * finalSpeed * safeDistance;
+          const jitter = createSceneRandom(seed, 'particles', 'jitter', i, time);
+          x = basePos.x + jitter.centered(0.5 * finalSpeed * safeDistance);
+          y = basePos.y + jitter.centered(0.5 * finalSpeed * safeDistance);
+          z = basePos.z + jitter.centered(0.5 * finalSpeed * safeDistance);
         }
         // 'static' does nothing - particles stay at base position
         
         // Add turbulence with individual speed * global animation speed
         if (turbulence > 0) {
-          x += (Math.random() - 0.5) * turbulence * 0.1 * finalSpeed;
-          y += (Math.random() - 0.5) * turbulence * 0.1 * finalSpeed;
-          z += (Math.random() - 0.5) * turbulence * 0.1 * finalSpeed;
+          const swirl = createSceneRandom(seed, 'particles', 'turbulence', i, time);
+          x += swirl.centered(turbulence * 0.1 * finalSpeed);
+          y += swirl.centered(turbulence * 0.1 * finalSpeed);
+          z += swirl.centered(turbulence * 0.1 * finalSpeed);
         }
         
         // Set final position
@@ -952,7 +962,7 @@ const Particles = () => {
 };
 
 const VolumetricFog = () => {
-  const { globalEffects } = useVisualStore();
+  const { globalEffects } = useSceneState();
   const volumetric = globalEffects?.volumetric;
 
   if (!volumetric?.enabled || (volumetric?.fog ?? 0) <= 0) {
@@ -981,7 +991,7 @@ const VolumetricFog = () => {
 };
 
 const Scene = () => {
-  const { effects, globalEffects, background, globalAnimationSpeed, geometric } = useVisualStore();
+  const { effects, globalEffects, background, globalAnimationSpeed, geometric } = useSceneState();
   
   // Performance monitoring - only in development mode, throttled to every 30 frames
   useFrame((state) => {
@@ -1007,6 +1017,7 @@ const Scene = () => {
   // Use instanced rendering when object count is high
   const useInstancedSpheres = geometric.spheres.count > 30;
   const useInstancedCubes = geometric.cubes.count > 30;
+  const useInstancedCrystals = geometric.crystals.count > 30;
   
   return (
     <>
@@ -1026,6 +1037,7 @@ const Scene = () => {
       {useInstancedCubes ? <InstancedCubes /> : <Cubes />}
       <Toruses />
       <Blobs />
+      {useInstancedCrystals ? <InstancedCrystals /> : <Crystals />}
       
       {/* Particles */}
       <Particles />
@@ -1043,9 +1055,62 @@ const Scene = () => {
   );
 };
 
+// Hands the renderer, scene and camera to the still-image exporter and the recorder
+const CaptureBridge = () => {
+  const { gl, scene, camera, get } = useThree();
+
+  useEffect(() => {
+    sceneExporter.attach({ gl, scene, camera });
+    return () => sceneExporter.detach(gl);
+  }, [gl, scene, camera]);
+
+  useEffect(() => {
+    canvasRecorder.attach(get);
+    return () => canvasRecorder.detach(get);
+  }, [get]);
+
+  return null;
+};
+
+// Runs live AI/weather mapping and eases its results in; before the timeline, so keyframes win
+const LiveMappingDriver = () => {
+  useFrame((_, delta) => {
+    liveMapping.tick(delta);
+  });
+
+  return null;
+};
+
+// Advances the keyframe timeline on the render clock (fixed-step while rendering frames)
+const TimelineDriver = () => {
+  useFrame((_, delta) => {
+    timelinePlayer.tick(delta);
+  });
+
+  return null;
+};
+
+// Applies LFOs and envelopes after the timeline, so modulators swing around keyframed values
+const ModulationDriver = () => {
+  useFrame((_, delta) => {
+    modulationEngine.tick(delta);
+  });
+
+  return null;
+};
+
+// Samples the audio input and drives its bound parameters on the render clock
+const AudioReactiveDriver = () => {
+  useFrame((_, delta) => {
+    audioReactive.tick(delta);
+  });
+
+  return null;
+};
+
 // Move the camera sync logic into a separate component
 const CameraSync = () => {
-  const { camera, backgroundConfig, ui } = useVisualStore();
+  const { camera, backgroundConfig, ui } = useSceneState();
   const three = useThree();
   
   useEffect(() => {
@@ -1326,12 +1391,14 @@ const AutoPanIndicator = ({ showUI }: { showUI: boolean }) => {
 };
 
 const EnhancedVisualCanvas = ({ showUI = false }: { showUI?: boolean }) => {
-  const visualStore = useVisualStore();
+  const visualStore = useSceneState();
   const [error, setError] = useState<string | null>(null);
   const [isWebGLOptimized, setIsWebGLOptimized] = useState(false);
   const [performanceMode, setPerformanceMode] = useState<'high' | 'medium' | 'low'>('high');
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const lastPerformanceCheck = useRef(0);
+  // Offline frame rendering drives the clock itself via advance()
+  const recorderStatus = useRecorderStatus();
   const frameCountRef = useRef(0);
   const lastFpsCheck = useRef(0);
   const fpsHistory = useRef<number[]>([]);
@@ -1378,49 +1445,14 @@ const EnhancedVisualCanvas = ({ showUI = false }: { showUI?: boolean }) => {
     );
   }
   
-  const { globalEffects, effects, camera, backgroundConfig, ui, globalBlendMode } = visualStore || {};
+  const { globalEffects, camera, backgroundConfig, ui } = visualStore || {};
   
   // Add safety checks for potentially undefined properties
-  const chromatic = globalEffects?.chromatic || {
-    enabled: false,
-    aberration: 0,
-    aberrationColors: { red: '#ff0000', green: '#00ff00', blue: '#0000ff' },
-    rainbow: { enabled: false, intensity: 0, speed: 1, rotation: 0, blendMode: 'normal', colors: [], opacity: 0 },
-    prism: 0
-  };
-  const volumetric = globalEffects?.volumetric || {
-    enabled: false,
-    fog: 0,
-    lightShafts: 0,
-    density: 0,
-    color: '#ffffff'
-  };
-  const atmosphericBlur = globalEffects?.atmosphericBlur || {
-    enabled: false,
-    intensity: 0,
-    layers: 1
-  };
   const colorBlending = globalEffects?.colorBlending || {
     enabled: false,
     mode: 'screen',
     intensity: 0
   };
-  const distortion = globalEffects?.distortion || {
-    enabled: false,
-    wave: 0,
-    ripple: 0,
-    noise: 0,
-    frequency: 1
-  };
-  
-  // Add safety checks for other properties
-  const safeEffects = effects || {
-    brightness: 1,
-    contrast: 1,
-    saturation: 1,
-    glow: 0,
-    vignette: 0
-  };
   
   // Use actual camera state from store, with proper fallback for depthOfField
   const safeCamera = {
@@ -1437,11 +1469,6 @@ const EnhancedVisualCanvas = ({ showUI = false }: { showUI?: boolean }) => {
     cameraPositioningMode: false
   };
   
-  const safeGlobalBlendMode = globalBlendMode || {
-    mode: 'normal',
-    opacity: 0
-  };
-  
   const [canvasReady, setCanvasReady] = useState(false);
   
   // WebGL context event handlers
@@ -1486,397 +1513,17 @@ const EnhancedVisualCanvas = ({ showUI = false }: { showUI?: boolean }) => {
     }
   }, [safeUI.cameraPositioningMode]);
 
-  // Create depth of field layer - MOVED INSIDE COMPONENT
-  const depthOfFieldLayer = useMemo(() => {
-    if (!safeCamera.depthOfField?.enabled) {
-      return null;
-    }
-
-    const { focusDistance, focalLength, bokehScale, blur } = safeCamera.depthOfField;
-    
-    // Debug logging to verify values are updating - only log occasionally to reduce performance impact
-    if (process.env.NODE_ENV === 'development' && Math.random() < 0.001) { // 0.1% chance per frame
-      console.log('🎯 Depth of Field Update:', { focusDistance, focalLength, bokehScale, blur });
-    }
-    
-    // Calculate blur intensity based on depth of field settings
-    const blurIntensity = blur * bokehScale * 20; // Increased from 10 to 20 for more visibility
-    const focusRange = focalLength * 0.5; // Increased from 0.3 to 0.5 for larger focus range
-    
-    // Create multiple layers for more dramatic effect
-    return (
-      <>
-        {/* Primary depth of field layer */}
-        <div style={{
-          position: 'absolute',
-          inset: 0,
-          background: 'transparent',
-          backdropFilter: `blur(${blurIntensity}px)`,
-          opacity: 0.95, // Increased from 0.8 to 0.95 for more visibility
-          pointerEvents: 'none',
-          zIndex: 5,
-          // Create a radial gradient that simulates depth of field
-          mask: `radial-gradient(circle at center, 
-            transparent ${Math.max(5, 100 - focusDistance * 4)}%, 
-            rgba(0, 0, 0, 0.95) ${Math.min(100, 100 - focusDistance * 4 + focusRange)}%
-          )`,
-          WebkitMask: `radial-gradient(circle at center, 
-            transparent ${Math.max(5, 100 - focusDistance * 4)}%, 
-            rgba(0, 0, 0, 0.95) ${Math.min(100, 100 - focusDistance * 4 + focusRange)}%
-          )`
-        }} />
-        
-        {/* Secondary bokeh layer for enhanced effect */}
-        <div style={{
-          position: 'absolute',
-          inset: 0,
-          background: 'transparent',
-          backdropFilter: `blur(${blurIntensity * 0.5}px)`,
-          opacity: 0.7, // Increased from 0.4 to 0.7 for more visibility
-          pointerEvents: 'none',
-          zIndex: 6,
-          mixBlendMode: 'overlay',
-          mask: `radial-gradient(circle at center, 
-            transparent ${Math.max(10, 100 - focusDistance * 3)}%, 
-            rgba(0, 0, 0, 0.7) ${Math.min(100, 100 - focusDistance * 3 + focusRange * 1.5)}%
-          )`,
-          WebkitMask: `radial-gradient(circle at center, 
-            transparent ${Math.max(10, 100 - focusDistance * 3)}%, 
-            rgba(0, 0, 0, 0.7) ${Math.min(100, 100 - focusDistance * 3 + focusRange * 1.5)}%
-          )`
-        }} />
-      </>
-    );
-  }, [safeCamera.depthOfField]);
-
-  // Create atmospheric blur layers
-  const atmosphericBlurLayers = useMemo(() => {
-    if (!atmosphericBlur.enabled || atmosphericBlur.intensity <= 0) return null;
-    
-    const layers = [];
-    const baseIntensity = atmosphericBlur.intensity;
-    const layerCount = atmosphericBlur.layers;
-    
-    for (let i = 0; i < layerCount; i++) {
-      // Progressive blur intensity for bokeh effect
-      const intensity = baseIntensity * (i + 1) * 0.5;
-      // Decreasing opacity for each layer
-      const opacity = 0.3 / (i + 1);
-      
-      layers.push(
-        <div
-          key={i}
-          style={{
-            position: 'absolute',
-            inset: 0,
-            pointerEvents: 'none',
-            backdropFilter: `blur(${intensity}px)`,
-            opacity,
-            zIndex: 50 + i,
-            mixBlendMode: 'normal',
-            willChange: 'backdrop-filter',
-            isolation: 'isolate'
-          }}
-        />
-      );
-    }
-    
-    return layers;
-  }, [atmosphericBlur]);
-
-  // Create chromatic aberration layers with RGB separation
-  const aberrationLayers = useMemo(() => {
-    if (!chromatic.enabled || chromatic.aberration <= 0) return null;
-    
-    return (
-      <>
-        {/* Red channel - top right */}
-        <div
-          style={{
-            position: 'absolute',
-            inset: 0,
-            background: 'transparent',
-            filter: `blur(${chromatic.aberration * 0.8}px)`,
-            mixBlendMode: 'screen',
-            transform: `translate(${chromatic.aberration * 0.5}px, -${chromatic.aberration * 0.3}px)`,
-            pointerEvents: 'none',
-            zIndex: 201,
-          }}
-        >
-          <div
-            style={{
-              position: 'absolute',
-              inset: 0,
-              background: `radial-gradient(circle at 70% 30%, 
-                ${chromatic.aberrationColors.red}${Math.floor(chromatic.aberration * 25).toString(16).padStart(2, '0')} 0%,
-                transparent 60%
-              )`,
-              mixBlendMode: 'screen',
-            }}
-          />
-        </div>
-        
-        {/* Green channel - center */}
-        <div
-          style={{
-            position: 'absolute',
-            inset: 0,
-            background: 'transparent',
-            filter: `blur(${chromatic.aberration * 0.6}px)`,
-            mixBlendMode: 'screen',
-            pointerEvents: 'none',
-            zIndex: 202,
-          }}
-        >
-          <div
-            style={{
-              position: 'absolute',
-              inset: 0,
-              background: `radial-gradient(circle at 50% 50%, 
-                ${chromatic.aberrationColors.green}${Math.floor(chromatic.aberration * 20).toString(16).padStart(2, '0')} 0%,
-                transparent 60%
-              )`,
-              mixBlendMode: 'screen',
-            }}
-          />
-        </div>
-        
-        {/* Blue channel - bottom left */}
-        <div
-          style={{
-            position: 'absolute',
-            inset: 0,
-            background: 'transparent',
-            filter: `blur(${chromatic.aberration * 1.0}px)`,
-            mixBlendMode: 'screen',
-            transform: `translate(-${chromatic.aberration * 0.5}px, ${chromatic.aberration * 0.3}px)`,
-            pointerEvents: 'none',
-            zIndex: 203,
-          }}
-        >
-          <div
-            style={{
-              position: 'absolute',
-              inset: 0,
-              background: `radial-gradient(circle at 30% 70%, 
-                ${chromatic.aberrationColors.blue}${Math.floor(chromatic.aberration * 22).toString(16).padStart(2, '0')} 0%,
-                transparent 60%
-              )`,
-              mixBlendMode: 'screen',
-            }}
-          />
-        </div>
-
-        {/* Additional color blending overlay for enhanced effect */}
-        <div
-          style={{
-            position: 'absolute',
-            inset: 0,
-            filter: `blur(${chromatic.aberration * 1.5}px)`,
-            mixBlendMode: 'overlay',
-            opacity: 0.15,
-            pointerEvents: 'none',
-            zIndex: 204,
-            background: `radial-gradient(circle at 50% 50%, 
-              ${chromatic.aberrationColors.red}22 0%,
-              ${chromatic.aberrationColors.green}22 33%,
-              ${chromatic.aberrationColors.blue}22 66%,
-              transparent 100%
-            )`,
-          }}
-        />
-      </>
-    );
-  }, [chromatic]);
-
-  // Create rainbow effect layer
-  const rainbowLayer = useMemo(() => {
-    if (!chromatic.enabled || !chromatic.rainbow.enabled || chromatic.rainbow.intensity <= 0) return null;
-    return (
-      <div style={{
-        position: 'absolute',
-        inset: 0,
-        background: `linear-gradient(${chromatic.rainbow.rotation}deg, ${chromatic.rainbow.colors.join(', ')})`,
-        mixBlendMode: chromatic.rainbow.blendMode,
-        opacity: chromatic.rainbow.opacity * chromatic.rainbow.intensity,
-        pointerEvents: 'none',
-        zIndex: 3,
-        filter: `blur(${chromatic.rainbow.intensity * 5}px)`
-      }} />
-    );
-  }, [chromatic]);
-
-  // Create volumetric fog layer
-  const fogLayer = useMemo(() => {
-    if (!volumetric.enabled || volumetric.fog <= 0) return null;
-    
-    const rgb = hexToRgb(volumetric.color);
-    
-    // Calculate CSS fog opacity based on fog and density
-    const cssOpacity = Math.min(0.8, volumetric.fog * 0.8 + volumetric.density * 0.2);
-    const blurAmount = volumetric.density * 15; // 0 to 30px blur
-    
-    return (
-      <div style={{
-        position: 'absolute',
-        inset: 0,
-        background: `radial-gradient(circle at center, 
-          rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${cssOpacity * 0.3}) 0%,
-          rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${cssOpacity * 0.1}) 50%,
-          transparent 100%
-        )`,
-        backdropFilter: `blur(${blurAmount}px)`,
-        opacity: cssOpacity,
-        pointerEvents: 'none',
-        zIndex: 4
-      }} />
-    );
-  }, [volumetric]);
-
-  // Post-processing overlay for brightness and vignette
-  const postProcessingOverlay = useMemo(() => {
-    if (safeEffects.vignette <= 0) {
-      return null;
-    }
-    
-    const gradientStart = Math.max(20, 100 - (safeEffects.vignette * 60));
-    const gradientEnd = 100;
-    const opacity = Math.min(1, safeEffects.vignette * 1.5);
-    
-    return (
-      <div
-        style={{
-          position: 'absolute',
-          inset: 0,
-          background: `radial-gradient(circle at center, transparent ${gradientStart}%, rgba(0, 0, 0, ${opacity}) ${gradientEnd}%)`,
-          mixBlendMode: 'multiply',
-          pointerEvents: 'none',
-          zIndex: 9998,
-        }}
-      />
-    );
-  }, [safeEffects.vignette]);
-
-  // Create bloom effect using CSS layers
-  const bloomLayer = useMemo(() => {
-    const bloom = GLOBAL_DEFAULTS?.visual?.bloom;
-    if (!bloom) {
-      return null;
-    }
-    
-    return (
-      <>
-        {/* Primary bloom layer */}
-        <div
-          style={{
-            position: 'absolute',
-            inset: 0,
-            background: 'radial-gradient(circle at center, rgba(255,255,255,0.1) 0%, transparent 70%)',
-            filter: 'blur(20px)',
-            mixBlendMode: 'screen',
-            pointerEvents: 'none',
-            zIndex: 10
-          }}
-        />
-        {/* Secondary bloom layer for enhanced effect */}
-        <div
-          style={{
-            position: 'absolute',
-            inset: 0,
-            background: 'radial-gradient(circle at center, rgba(255,255,255,0.05) 0%, transparent 50%)',
-            filter: 'blur(40px)',
-            mixBlendMode: 'screen',
-            pointerEvents: 'none',
-            zIndex: 11
-          }}
-        />
-      </>
-    );
-  }, [GLOBAL_DEFAULTS?.visual?.bloom]);
-
-  // Global blend mode overlay - FIXED IMPLEMENTATION
-  const blendModeOverlay = useMemo(() => {
-    if (!safeGlobalBlendMode || safeGlobalBlendMode.mode === 'normal' || safeGlobalBlendMode.opacity <= 0) {
-      return null;
-    }
-    
-    // Create a colored overlay for blend modes
-    let overlayColor = 'white';
-    if (safeGlobalBlendMode.mode === 'multiply') {
-      overlayColor = '#808080'; // Gray for multiply
-    } else if (safeGlobalBlendMode.mode === 'screen') {
-      overlayColor = '#404040'; // Dark gray for screen
-    } else if (safeGlobalBlendMode.mode === 'overlay') {
-      overlayColor = '#606060'; // Medium gray for overlay
-    } else if (safeGlobalBlendMode.mode === 'color-dodge') {
-      overlayColor = '#202020'; // Very dark for color dodge
-    } else if (safeGlobalBlendMode.mode === 'color-burn') {
-      overlayColor = '#a0a0a0'; // Light gray for color burn
-    }
-    
-    return (
-      <div
-        style={{
-          position: 'absolute',
-          inset: 0,
-          pointerEvents: 'none',
-          zIndex: 9999,
-          background: overlayColor,
-          mixBlendMode: safeGlobalBlendMode.mode as any,
-          opacity: safeGlobalBlendMode.opacity,
-          transition: 'opacity 0.3s',
-        }}
-      />
-    );
-  }, [safeGlobalBlendMode]);
-
-  // Optimize Canvas style calculation
+  // Color grading, glow, blur and chromatic effects now run in-canvas (PostProcessingEffects).
+  // colorBlending stays a CSS blend because it composites the canvas with the page behind it.
   const canvasStyle: React.CSSProperties = useMemo(() => {
-    const filters = [];
-    
-    // Add brightness filter (should always work)
-    if (safeEffects.brightness !== 1) {
-      filters.push(`brightness(${safeEffects.brightness})`);
-    }
-    
-    // Add contrast filter
-    if (safeEffects.contrast !== 1) {
-      filters.push(`contrast(${safeEffects.contrast})`);
-    }
-    
-    // Add saturation filter
-    if (safeEffects.saturation !== 1) {
-      filters.push(`saturate(${safeEffects.saturation})`);
-    }
-    
-    // Add glow filter
-    if (safeEffects.glow > 0) {
-      // Glow effect using drop-shadow filter
-      const glowIntensity = safeEffects.glow * 2; // Scale up for visibility
-      filters.push(`drop-shadow(0 0 ${glowIntensity}px rgba(255, 255, 255, ${safeEffects.glow * 0.5}))`);
-    }
-    
-    // Add atmospheric blur filter
-    if (atmosphericBlur.enabled) {
-      filters.push(`blur(${atmosphericBlur.intensity * 0.8}px)`);
-    }
-    
-    // Add chromatic prism filter
-    if (chromatic.enabled && chromatic.prism > 0) {
-      filters.push(`saturate(${1 + chromatic.prism * 0.3})`);
-    }
-    
-    // Note: Distortion effects are now only applied at the object level, not canvas level
-    // This prevents the entire viewport from being twisted
-    
     return {
-      filter: filters.length > 0 ? filters.join(' ') : undefined,
-      mixBlendMode: colorBlending.enabled ? colorBlending.mode : 'normal',
+      // CSS has no 'add'; plus-lighter is its additive blend
+      mixBlendMode: colorBlending.enabled ? (colorBlending.mode === 'add' ? 'plus-lighter' : colorBlending.mode) : 'normal',
       opacity: colorBlending.enabled ? 0.5 + (colorBlending.intensity * 0.5) : 1,
-      willChange: 'filter, opacity',
+      willChange: 'opacity',
       isolation: 'isolate'
     };
-  }, [safeEffects.brightness, safeEffects.contrast, safeEffects.saturation, safeEffects.glow, atmosphericBlur.enabled, atmosphericBlur.intensity, chromatic.enabled, chromatic.prism, colorBlending.enabled, colorBlending.mode, colorBlending.intensity]);
+  }, [colorBlending.enabled, colorBlending.mode, colorBlending.intensity]);
   
   if (!canvasReady) {
     return <div>Initializing Canvas...</div>;
@@ -1894,15 +1541,6 @@ const EnhancedVisualCanvas = ({ showUI = false }: { showUI?: boolean }) => {
         <WebGLContextManager>
           <DistortionEffectFix />
           <div className={styles.canvasContainer}>
-            {aberrationLayers}
-            {rainbowLayer}
-            {fogLayer}
-            {atmosphericBlurLayers}
-            {depthOfFieldLayer}
-            {postProcessingOverlay}
-            {bloomLayer}
-            {blendModeOverlay}
-            
             {/* Company Logo Overlay */}
             <CompanyLogo />
             
@@ -1948,6 +1586,7 @@ const EnhancedVisualCanvas = ({ showUI = false }: { showUI?: boolean }) => {
             <AutoPanIndicator showUI={showUI} />
             
             <Canvas
+              frameloop={recorderStatus === 'rendering' ? 'never' : 'always'}
               camera={{ 
                 position: [0, 0, 25], // Default position - CameraSync will override this
                 fov: 60, // Default FOV - CameraSync will override this
@@ -2040,6 +1679,12 @@ const EnhancedVisualCanvas = ({ showUI = false }: { showUI?: boolean }) => {
                 </>
               )}
               <Scene />
+              <PostProcessingEffects />
+              <CaptureBridge />
+              <LiveMappingDriver />
+              <TimelineDriver />
+              <ModulationDriver />
+              <AudioReactiveDriver />
             </Canvas>
           </div>
         </WebGLContextManager>
@@ -1,7 +1,8 @@
 import React, { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { useVisualStore } from '../store/visualStore';
+import { useSceneState } from '../utils/sceneOverlay';
 import * as THREE from 'three';
+import { createSceneRandom } from '../utils/seededRandom';
 
 interface Firefly {
   position: THREE.Vector3;
@@ -16,7 +17,7 @@ interface Firefly {
 
 export const Fireflies = () => {
   // ALL HOOKS MUST BE CALLED FIRST, BEFORE ANY CONDITIONAL LOGIC
-  const { globalEffects, geometric, globalAnimationSpeed } = useVisualStore();
+  const { globalEffects, geometric, globalAnimationSpeed, seed } = useSceneState();
   const { fireflies } = globalEffects;
   const instancedMeshRef = useRef<THREE.InstancedMesh>(null);
   const firefliesRef = useRef<Firefly[]>([]);
@@ -27,25 +28,26 @@ export const Fireflies = () => {
   const initializeFireflies = () => {
     const count = fireflies?.count || 50;
     const flies: Firefly[] = [];
+    const random = createSceneRandom(seed, 'fireflies');
     
     for (let i = 0; i < count; i++) {
       flies.push({
         position: new THREE.Vector3(
-          (Math.random() - 0.5) * 60,
-          (Math.random() - 0.5) * 40,
-          (Math.random() - 0.5) * 60
+          random.centered(60),
+          random.centered(40),
+          random.centered(60)
         ),
         velocity: new THREE.Vector3(
-          (Math.random() - 0.5) * 0.02,
-          (Math.random() - 0.5) * 0.01,
-          (Math.random() - 0.5) * 0.02
+          random.centered(0.02),
+          random.centered(0.01),
+          random.centered(0.02)
         ),
-        glowPhase: Math.random() * Math.PI * 2,
-        glowSpeed: 0.02 + Math.random() * 0.03,
+        glowPhase: random.range(0, Math.PI * 2),
+        glowSpeed: random.range(0.02, 0.05),
         brightness: 0,
-        maxBrightness: 0.3 + Math.random() * 0.7,
-        size: 0.1 + Math.random() * 0.2,
-        wanderAngle: Math.random() * Math.PI * 2,
+        maxBrightness: random.range(0.3, 1.0),
+        size: random.range(0.1, 0.3),
+        wanderAngle: random.range(0, Math.PI * 2),
       });
     }
     
@@ -68,7 +70,7 @@ export const Fireflies = () => {
     if (fireflies?.enabled) {
       initializeFireflies();
     }
-  }, [fireflies?.count, fireflies?.enabled]);
+  }, [fireflies?.count, fireflies?.enabled, seed]);
 
   // ALWAYS call useFrame, but make it conditional inside
   useFrame((state, delta) => {
@@ -92,7 +94,7 @@ export const Fireflies = () => {
       firefly.brightness = firefly.maxBrightness * (0.3 + 0.7 * Math.sin(firefly.glowPhase)) * glowIntensity;
 
       // Wandering behavior with individual speed * global animation speed
-      firefly.wanderAngle += (Math.random() - 0.5) * 0.1 * finalSpeed;
+      firefly.wanderAngle += createSceneRandom(seed, 'fireflies', 'wander', i, time).centered(0.1 * finalSpeed);
       
       // Apply wandering force with individual speed * global animation speed
       const wanderForce = new THREE.Vector3(
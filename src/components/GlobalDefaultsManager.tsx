@@ -1,8 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useVisualStore } from '../store/visualStore';
 import { GlobalDefaultsManager, CameraPresets, GLOBAL_DEFAULTS } from '../utils/globalDefaults';
-import { AIService } from '../ai-system/services/AIService';
-import { WeatherService } from '../ai-system/services/WeatherService';
+import { AIService, AIServiceStatus } from '../ai-system/services/AIService';
+
+const AI_PROVIDER_LABELS: Record<AIServiceStatus['provider'], string> = {
+  openai: 'OpenAI',
+  'openai-compatible': 'Self-hosted',
+  offline: 'Offline'
+};
 
 interface GlobalDefaultsPanelProps {
   isOpen: boolean;
@@ -16,13 +21,8 @@ export default function GlobalDefaultsPanel({ isOpen, onClose }: GlobalDefaultsP
   const [feedbackMessage, setFeedbackMessage] = useState<string>('');
   const [feedbackType, setFeedbackType] = useState<'success' | 'error'>('success');
   
-  // API Key Management
-  const [openaiApiKey, setOpenaiApiKey] = useState('');
-  const [weatherApiKey, setWeatherApiKey] = useState('');
-  const [testingOpenAI, setTestingOpenAI] = useState(false);
-  const [testingWeather, setTestingWeather] = useState(false);
-  const [openAIStatus, setOpenAIStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
-  const [weatherStatus, setWeatherStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
+  // Server-side API configuration
+  const [serviceStatus, setServiceStatus] = useState<AIServiceStatus | null>(null);
   
   const visualStore = useVisualStore();
   // Use the store's getGlobalDefaults function to get reactive defaults
@@ -117,99 +117,17 @@ export default function GlobalDefaultsPanel({ isOpen, onClose }: GlobalDefaultsP
     setTimeout(() => setFeedbackMessage(''), 3000);
   };
 
-  // API Key Management Functions
-  const aiService = AIService.getInstance();
-  const weatherService = WeatherService.getInstance();
-
-  // Load API keys on mount
-  useEffect(() => {
-    // Check if we're in production (environment variables should be used)
-    const isProduction = typeof process !== 'undefined' && process.env.NODE_ENV === 'production';
-    
-    if (!isProduction) {
-      // Development: Load from localStorage
-      const storedOpenAI = localStorage.getItem('openai-api-key') || '';
-      const storedWeather = localStorage.getItem('openweather-api-key') || '';
-      setOpenaiApiKey(storedOpenAI);
-      setWeatherApiKey(storedWeather);
-    }
-  }, []);
-
-  const testOpenAIKey = async () => {
-    if (!openaiApiKey.trim()) {
-      showFeedback('Please enter an OpenAI API key first', 'error');
-      return;
-    }
-
-    setTestingOpenAI(true);
-    setOpenAIStatus('testing');
-
-    try {
-      aiService.setApiKey(openaiApiKey.trim());
-      const isValid = await aiService.testApiKey();
-      
-      if (isValid) {
-        setOpenAIStatus('success');
-        showFeedback('✅ OpenAI API key is valid and working');
-      } else {
-        setOpenAIStatus('error');
-        showFeedback('❌ OpenAI API key test failed', 'error');
-      }
-    } catch (err) {
-      setOpenAIStatus('error');
-      showFeedback(`OpenAI API key test failed: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
-    } finally {
-      setTestingOpenAI(false);
-    }
-  };
-
-  const testWeatherKey = async () => {
-    if (!weatherApiKey.trim()) {
-      showFeedback('Please enter a Weather API key first', 'error');
-      return;
-    }
-
-    setTestingWeather(true);
-    setWeatherStatus('testing');
-
-    try {
-      weatherService.setApiKey(weatherApiKey.trim());
-      const isValid = await weatherService.testApiKey();
-      
-      if (isValid) {
-        setWeatherStatus('success');
-        showFeedback('✅ Weather API key is valid and working');
-      } else {
-        setWeatherStatus('error');
-        showFeedback('❌ Weather API key test failed', 'error');
-      }
-    } catch (err) {
-      setWeatherStatus('error');
-      showFeedback(`Weather API key test failed: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
-    } finally {
-      setTestingWeather(false);
-    }
+  // Keys live in the server environment; this tab only reports what is configured
+  const refreshServiceStatus = async (refresh = false) => {
+    setServiceStatus(null);
+    setServiceStatus(await AIService.getInstance().getStatus(refresh));
   };
 
-  const saveApiKeys = () => {
-    if (openaiApiKey.trim()) {
-      aiService.setApiKey(openaiApiKey.trim());
-      localStorage.setItem('openai-api-key', openaiApiKey.trim());
-    }
-    if (weatherApiKey.trim()) {
-      weatherService.setApiKey(weatherApiKey.trim());
-      localStorage.setItem('openweather-api-key', weatherApiKey.trim());
+  useEffect(() => {
+    if (isOpen && activeTab === 'apikeys') {
+      AIService.getInstance().getStatus().then(setServiceStatus);
     }
-    showFeedback('✅ API keys saved successfully');
-  };
-
-  const clearApiKeys = () => {
-    setOpenaiApiKey('');
-    setWeatherApiKey('');
-    localStorage.removeItem('openai-api-key');
-    localStorage.removeItem('openweather-api-key');
-    showFeedback('✅ API keys cleared');
-  };
+  }, [isOpen, activeTab]);
 
   if (!isOpen) return null;
 
@@ -1259,190 +1177,69 @@ export default function GlobalDefaultsPanel({ isOpen, onClose }: GlobalDefaultsP
             {activeTab === 'apikeys' && (
               <div className="space-y-6">
                 <div className="flex items-center justify-between">
-                  <h3 className="text-lg font-semibold text-white">API Key Management</h3>
-                  <div className="flex items-center space-x-2">
-                    <span className="text-xs text-gray-400">
-                      {typeof process !== 'undefined' && process.env.NODE_ENV === 'production' 
-                        ? '🔒 Production Mode (Use Railway Environment Variables)' 
-                        : '🛠️ Development Mode (localStorage)'
-                      }
-                    </span>
-                  </div>
+                  <h3 className="text-lg font-semibold text-white">API Configuration</h3>
+                  <button
+                    onClick={() => refreshServiceStatus(true)}
+                    className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-all duration-200 text-sm"
+                  >
+                    🔄 Refresh
+                  </button>
                 </div>
 
-                {/* Production Warning */}
-                {typeof process !== 'undefined' && process.env.NODE_ENV === 'production' && (
-                  <div className="p-4 bg-yellow-900/20 border border-yellow-500/30 rounded-lg">
-                    <div className="flex items-center space-x-2 mb-2">
-                      <span className="text-yellow-400">⚠️</span>
-                      <span className="text-yellow-300 font-medium">Production Environment</span>
-                    </div>
-                    <p className="text-sm text-yellow-200">
-                      In production, API keys should be configured via Railway environment variables, not through this interface.
-                      Contact your administrator to set up the required environment variables.
-                    </p>
-                  </div>
-                )}
-
-                {/* Development API Key Management */}
-                {(!process || process.env.NODE_ENV !== 'production') && (
-                  <div className="space-y-6">
-                    {/* OpenAI API Key */}
-                    <div className="bg-gray-800/60 backdrop-blur-sm rounded-lg border border-gray-700/50 p-6">
-                      <div className="flex items-center justify-between mb-4">
-                        <div className="flex items-center space-x-3">
-                          <span className="text-blue-400 text-xl">🤖</span>
-                          <div>
-                            <h4 className="text-lg font-semibold text-white">OpenAI API Key</h4>
-                            <p className="text-sm text-gray-400">For AI analysis and theme generation</p>
-                          </div>
-                        </div>
-                        <span className={`text-sm px-3 py-1 rounded-full ${
-                          openAIStatus === 'success' 
-                            ? 'bg-green-900/60 text-green-400' 
-                            : openAIStatus === 'error'
-                            ? 'bg-red-900/60 text-red-400'
-                            : openAIStatus === 'testing'
-                            ? 'bg-yellow-900/60 text-yellow-400'
-                            : 'bg-gray-700/60 text-gray-400'
-                        }`}>
-                          {openAIStatus === 'success' ? '✅ Valid' : 
-                           openAIStatus === 'error' ? '❌ Invalid' : 
-                           openAIStatus === 'testing' ? '🔄 Testing' : '⚪ Not Tested'}
-                        </span>
-                      </div>
-                      
-                      <div className="space-y-3">
-                        <input
-                          type="password"
-                          value={openaiApiKey}
-                          onChange={(e) => setOpenaiApiKey(e.target.value)}
-                          placeholder="sk-..."
-                          className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                        />
-                        <div className="flex items-center space-x-3">
-                          <button
-                            onClick={testOpenAIKey}
-                            disabled={testingOpenAI || !openaiApiKey.trim()}
-                            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-all duration-200 flex items-center space-x-2"
-                          >
-                            {testingOpenAI ? (
-                              <>
-                                <span className="animate-spin">🔄</span>
-                                <span>Testing...</span>
-                              </>
-                            ) : (
-                              <>
-                                <span>🧪</span>
-                                <span>Test Key</span>
-                              </>
-                            )}
-                          </button>
-                          <a 
-                            href="https://platform.openai.com/api-keys" 
-                            target="_blank" 
-                            rel="noopener noreferrer"
-                            className="text-blue-400 hover:text-blue-300 text-sm underline"
-                          >
-                            Get API Key →
-                          </a>
-                        </div>
+                {/* AI Provider */}
+                <div className="bg-gray-800/60 backdrop-blur-sm rounded-lg border border-gray-700/50 p-6">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <span className="text-blue-400 text-xl">🤖</span>
+                      <div>
+                        <h4 className="text-lg font-semibold text-white">AI Provider</h4>
+                        <p className="text-sm text-gray-400">For AI analysis and theme generation</p>
                       </div>
                     </div>
+                    <span className={`text-sm px-3 py-1 rounded-full ${
+                      !serviceStatus
+                        ? 'bg-gray-700/60 text-gray-400'
+                        : serviceStatus.ai
+                        ? 'bg-green-900/60 text-green-400'
+                        : 'bg-red-900/60 text-red-400'
+                    }`}>
+                      {!serviceStatus ? '🔄 Checking' : serviceStatus.ai ? `✅ ${AI_PROVIDER_LABELS[serviceStatus.provider]}` : '❌ Not configured'}
+                    </span>
+                  </div>
+                </div>
 
-                    {/* Weather API Key */}
-                    <div className="bg-gray-800/60 backdrop-blur-sm rounded-lg border border-gray-700/50 p-6">
-                      <div className="flex items-center justify-between mb-4">
-                        <div className="flex items-center space-x-3">
-                          <span className="text-green-400 text-xl">🌤️</span>
-                          <div>
-                            <h4 className="text-lg font-semibold text-white">OpenWeather API Key</h4>
-                            <p className="text-sm text-gray-400">For weather-based visual effects</p>
-                          </div>
-                        </div>
-                        <span className={`text-sm px-3 py-1 rounded-full ${
-                          weatherStatus === 'success' 
-                            ? 'bg-green-900/60 text-green-400' 
-                            : weatherStatus === 'error'
-                            ? 'bg-red-900/60 text-red-400'
-                            : weatherStatus === 'testing'
-                            ? 'bg-yellow-900/60 text-yellow-400'
-                            : 'bg-gray-700/60 text-gray-400'
-                        }`}>
-                          {weatherStatus === 'success' ? '✅ Valid' : 
-                           weatherStatus === 'error' ? '❌ Invalid' : 
-                           weatherStatus === 'testing' ? '🔄 Testing' : '⚪ Not Tested'}
-                        </span>
-                      </div>
-                      
-                      <div className="space-y-3">
-                        <input
-                          type="password"
-                          value={weatherApiKey}
-                          onChange={(e) => setWeatherApiKey(e.target.value)}
-                          placeholder="your-openweather-api-key"
-                          className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-green-500 focus:border-transparent transition-all"
-                        />
-                        <div className="flex items-center space-x-3">
-                          <button
-                            onClick={testWeatherKey}
-                            disabled={testingWeather || !weatherApiKey.trim()}
-                            className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-all duration-200 flex items-center space-x-2"
-                          >
-                            {testingWeather ? (
-                              <>
-                                <span className="animate-spin">🔄</span>
-                                <span>Testing...</span>
-                              </>
-                            ) : (
-                              <>
-                                <span>🧪</span>
-                                <span>Test Key</span>
-                              </>
-                            )}
-                          </button>
-                          <a 
-                            href="https://openweathermap.org/api" 
-                            target="_blank" 
-                            rel="noopener noreferrer"
-                            className="text-green-400 hover:text-green-300 text-sm underline"
-                          >
-                            Get API Key →
-                          </a>
-                        </div>
+                {/* Weather */}
+                <div className="bg-gray-800/60 backdrop-blur-sm rounded-lg border border-gray-700/50 p-6">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <span className="text-green-400 text-xl">🌤️</span>
+                      <div>
+                        <h4 className="text-lg font-semibold text-white">Weather</h4>
+                        <p className="text-sm text-gray-400">For weather-based visual effects</p>
                       </div>
                     </div>
+                    <span className={`text-sm px-3 py-1 rounded-full ${
+                      !serviceStatus
+                        ? 'bg-gray-700/60 text-gray-400'
+                        : serviceStatus.weather === 'openweather'
+                        ? 'bg-green-900/60 text-green-400'
+                        : 'bg-yellow-900/60 text-yellow-400'
+                    }`}>
+                      {!serviceStatus ? '🔄 Checking' : serviceStatus.weather === 'openweather' ? '✅ OpenWeather' : '⚪ wttr.in (no key)'}
+                    </span>
+                  </div>
+                </div>
 
-                    {/* Action Buttons */}
-                    <div className="flex items-center space-x-4">
-                      <button
-                        onClick={saveApiKeys}
-                        className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-all duration-200 flex items-center space-x-2"
-                      >
-                        <span>💾</span>
-                        <span>Save All Keys</span>
-                      </button>
-                      <button
-                        onClick={clearApiKeys}
-                        className="px-6 py-3 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-all duration-200 flex items-center space-x-2"
-                      >
-                        <span>🗑️</span>
-                        <span>Clear All Keys</span>
-                      </button>
-                    </div>
-
-                    {/* Help Information */}
-                    <div className="bg-blue-900/20 border border-blue-500/30 rounded-lg p-4">
-                      <h4 className="text-sm font-semibold text-blue-300 mb-3">💡 API Key Help</h4>
-                      <div className="space-y-2 text-sm text-blue-200">
-                        <p><strong>OpenAI API Key:</strong> Starts with "sk-", used for AI image analysis and theme generation</p>
-                        <p><strong>OpenWeather API Key:</strong> Different format, used for weather-based visual effects</p>
-                        <p><strong>Security:</strong> Keys are stored in localStorage for development only. Production uses environment variables.</p>
-                        <p><strong>Testing:</strong> Use the test buttons to verify your API keys work correctly before saving.</p>
-                      </div>
-                    </div>
+                {/* Help Information */}
+                <div className="bg-blue-900/20 border border-blue-500/30 rounded-lg p-4">
+                  <h4 className="text-sm font-semibold text-blue-300 mb-3">💡 Configuring API Keys</h4>
+                  <div className="space-y-2 text-sm text-blue-200">
+                    <p><strong>AI_PROVIDER:</strong> <code>openai</code> (default, needs OPENAI_API_KEY), <code>openai-compatible</code> (a self-hosted model at AI_BASE_URL) or <code>offline</code> (built-in analysis, no network)</p>
+                    <p><strong>OPENAI_API_KEY:</strong> Enables AI image analysis, color harmony and parameter suggestions with OpenAI</p>
+                    <p><strong>OPENWEATHER_API_KEY:</strong> Optional; without it weather comes from the free wttr.in service</p>
+                    <p><strong>Security:</strong> Keys are set in the server environment and never sent to the browser. Restart the server after changing them.</p>
                   </div>
-                )}
+                </div>
               </div>
             )}
           </div>
@@ -5,6 +5,10 @@ import SliderControl from './SliderControl';
 import ToggleControl from './ToggleControl';
 import PresetControls from './PresetControls';
 import CollapsibleSection from './CollapsibleSection';
+import SceneSeedControl from './SceneSeedControl';
+import ModulationPanel from './ModulationPanel';
+import AudioReactivePanel from './AudioReactivePanel';
+import MappingRulesPanel from './MappingRulesPanel';
 
 const SelectControl = React.memo(({ 
   label, 
@@ -125,6 +129,13 @@ export const GlobalEffectsDashboard = () => {
         width: 2,
         fadeRate: 0.95
       },
+      crystalTrails: {
+        enabled: false,
+        length: 10,
+        opacity: 0.3,
+        width: 2,
+        fadeRate: 0.95
+      },
       particleTrails: {
         enabled: false,
         length: 10,
@@ -222,7 +233,8 @@ export const GlobalEffectsDashboard = () => {
     { value: 'color-dodge', label: 'Color Dodge' },
     { value: 'color-burn', label: 'Color Burn' },
     { value: 'difference', label: 'Difference' },
-    { value: 'exclusion', label: 'Exclusion' }
+    { value: 'exclusion', label: 'Exclusion' },
+    { value: 'add', label: 'Add' }
   ], []);
 
   // Safe update function that ensures all required properties exist
@@ -257,6 +269,26 @@ export const GlobalEffectsDashboard = () => {
         />
       </CollapsibleSection>
 
+      {/* Scene Seed */}
+      <CollapsibleSection title="Scene Seed" defaultExpanded={false}>
+        <SceneSeedControl />
+      </CollapsibleSection>
+
+      {/* Modulation */}
+      <CollapsibleSection title="Modulation" defaultExpanded={false}>
+        <ModulationPanel />
+      </CollapsibleSection>
+
+      {/* Audio Reactive */}
+      <CollapsibleSection title="Audio Reactive" defaultExpanded={false}>
+        <AudioReactivePanel />
+      </CollapsibleSection>
+
+      {/* Mapping Rules */}
+      <CollapsibleSection title="Mapping Rules" defaultExpanded={false}>
+        <MappingRulesPanel />
+      </CollapsibleSection>
+
       {/* Atmospheric Blur */}
       <CollapsibleSection title="Atmospheric Blur" defaultExpanded={false}>
         <ToggleControl
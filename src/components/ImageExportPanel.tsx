@@ -0,0 +1,154 @@
+// ImageExportPanel.tsx
+// Print-quality still export of the current scene
+
+import React, { useState } from 'react';
+import { useVisualStore } from '../store/visualStore';
+import {
+  sceneExporter,
+  downloadBlob,
+  getExportFileName,
+  ImageExportFormat,
+  MAX_EXPORT_DIMENSION
+} from '../utils/imageExport';
+
+const RESOLUTION_PRESETS = [
+  { label: '1080p (1920×1080)', width: 1920, height: 1080 },
+  { label: '4K (3840×2160)', width: 3840, height: 2160 },
+  { label: '8K (7680×4320)', width: 7680, height: 4320 },
+  { label: 'Square (4096×4096)', width: 4096, height: 4096 },
+  { label: 'Poster (7016×9933)', width: 7016, height: 9933 }
+];
+
+const inputStyle: React.CSSProperties = {
+  backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  color: 'white',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '4px',
+  padding: '4px 6px',
+  fontSize: '12px'
+};
+
+export const ImageExportPanel: React.FC = () => {
+  const { seed, logo, background } = useVisualStore();
+  const [name, setName] = useState('');
+  const [width, setWidth] = useState(3840);
+  const [height, setHeight] = useState(2160);
+  const [format, setFormat] = useState<ImageExportFormat>('png');
+  const [transparent, setTransparent] = useState(false);
+  const [backgroundColor, setBackgroundColor] = useState<string | null>(null);
+  const [includeLogo, setIncludeLogo] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const solidColor = backgroundColor ?? background.color;
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const metadata = { name: name.trim() || 'Untitled', seed };
+      const blob = await sceneExporter.exportImage({
+        width,
+        height,
+        format,
+        transparent,
+        backgroundColor: solidColor,
+        quality: 0.95,
+        logo: includeLogo ? logo : undefined,
+        metadata
+      });
+      downloadBlob(blob, getExportFileName(metadata, width, height, format));
+    } catch (err) {
+      console.error('Image export failed:', err);
+      setError(err instanceof Error ? err.message : 'Image export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const clampSize = (value: string) => Math.max(1, Math.min(MAX_EXPORT_DIMENSION, parseInt(value, 10) || 1));
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', fontSize: '12px' }}>
+      <input
+        type="text"
+        placeholder="Preset name (embedded in metadata)"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        style={inputStyle}
+      />
+
+      <select
+        value={`${width}x${height}`}
+        onChange={(e) => {
+          const preset = RESOLUTION_PRESETS.find((p) => `${p.width}x${p.height}` === e.target.value);
+          if (preset) {
+            setWidth(preset.width);
+            setHeight(preset.height);
+          }
+        }}
+        style={inputStyle}
+      >
+        {RESOLUTION_PRESETS.map((preset) => (
+          <option key={preset.label} value={`${preset.width}x${preset.height}`}>{preset.label}</option>
+        ))}
+        {!RESOLUTION_PRESETS.some((p) => p.width === width && p.height === height) && (
+          <option value={`${width}x${height}`}>Custom ({width}×{height})</option>
+        )}
+      </select>
+
+      <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+        <input type="number" min={1} max={MAX_EXPORT_DIMENSION} value={width} onChange={(e) => setWidth(clampSize(e.target.value))} style={{ ...inputStyle, width: '80px' }} />
+        <span style={{ opacity: 0.6 }}>×</span>
+        <input type="number" min={1} max={MAX_EXPORT_DIMENSION} value={height} onChange={(e) => setHeight(clampSize(e.target.value))} style={{ ...inputStyle, width: '80px' }} />
+        <select value={format} onChange={(e) => setFormat(e.target.value as ImageExportFormat)} style={inputStyle}>
+          <option value="png">PNG</option>
+          <option value="jpeg">JPEG</option>
+        </select>
+      </div>
+
+      <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+        <label style={{ display: 'flex', gap: '4px', alignItems: 'center', opacity: format === 'png' ? 1 : 0.5 }}>
+          <input
+            type="checkbox"
+            checked={transparent && format === 'png'}
+            disabled={format !== 'png'}
+            onChange={(e) => setTransparent(e.target.checked)}
+          />
+          Transparent
+        </label>
+        {!(transparent && format === 'png') && (
+          <input type="color" value={solidColor} onChange={(e) => setBackgroundColor(e.target.value)} title="Background color" />
+        )}
+        <label style={{ display: 'flex', gap: '4px', alignItems: 'center', opacity: logo.enabled ? 1 : 0.5 }}>
+          <input type="checkbox" checked={includeLogo && logo.enabled} disabled={!logo.enabled} onChange={(e) => setIncludeLogo(e.target.checked)} />
+          Logo
+        </label>
+      </div>
+
+      {error && (
+        <div style={{ color: '#fca5a5' }}>{error}</div>
+      )}
+
+      <button
+        onClick={handleExport}
+        disabled={exporting}
+        style={{
+          backgroundColor: exporting ? 'rgba(107, 114, 128, 0.8)' : 'rgba(16, 185, 129, 0.8)',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          padding: '6px 12px',
+          fontSize: '12px',
+          cursor: exporting ? 'wait' : 'pointer'
+        }}
+      >
+        {exporting ? 'Rendering…' : `🖼️ Export ${format.toUpperCase()} · seed ${seed}`}
+      </button>
+      <div style={{ fontSize: '11px', opacity: 0.6 }}>
+        Renders the 3D scene with its post-processing effects, plus the logo. Exports larger
+        than the view are rendered in tiles, so glow and blur can show faint seams at tile edges.
+      </div>
+    </div>
+  );
+};
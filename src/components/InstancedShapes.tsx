@@ -1,9 +1,11 @@
 import React, { useRef, useMemo, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { useVisualStore } from '../store/visualStore';
+import { useSceneState } from '../utils/sceneOverlay';
 import { constrainToViewport } from '../utils/backgroundLayout';
 import { resourceManager } from '../utils/ResourceManager';
+import { createCrystalGeometry } from '../utils/crystalGeometry';
+import { createSceneRandom, deriveSeed } from '../utils/seededRandom';
 import { calculateDistortion } from './DistortionFix';
 import { calculateGlowSettings } from './EnhancedGlowEffect';
 
@@ -18,7 +20,7 @@ const tempColor = new THREE.Color();
 
 // Instanced Spheres Component
 export const InstancedSpheres = () => {
-  const { globalEffects, backgroundConfig, globalAnimationSpeed, geometric } = useVisualStore();
+  const { globalEffects, backgroundConfig, globalAnimationSpeed, geometric, seed } = useSceneState();
   const { spheres } = geometric;
   const { shapeGlow } = globalEffects;
   
@@ -29,14 +31,15 @@ export const InstancedSpheres = () => {
   
   // Use ResourceManager for geometry
   const geometry = useMemo(() => {
-    const key = `sphere-geo-${spheres.organicness}`;
+    const key = `sphere-geo-${spheres.organicness}-${seed}`;
     return resourceManager.getOrCreateGeometry(key, () => {
       const geo = new THREE.SphereGeometry(1, 16, 16);
       // Apply organicness deformation once
       if (spheres.organicness > 0) {
+        const random = createSceneRandom(seed, 'spheres', 'instancedGeometry');
         const positions = geo.attributes.position.array;
         for (let i = 0; i < positions.length; i += 3) {
-          const noise = (Math.random() - 0.5) * spheres.organicness;
+          const noise = random.centered(spheres.organicness);
           positions[i] += noise;
           positions[i + 1] += noise;
           positions[i + 2] += noise;
@@ -46,7 +49,7 @@ export const InstancedSpheres = () => {
       }
       return geo;
     });
-  }, [spheres.organicness]);
+  }, [spheres.organicness, seed]);
   
   // Calculate enhanced glow settings
   const glowSettings = useMemo(() => {
@@ -68,16 +71,17 @@ export const InstancedSpheres = () => {
   // Initialize positions
   const positions = useMemo(() => {
     const pos = [];
+    const random = createSceneRandom(seed, 'spheres', 'layout');
     for (let i = 0; i < spheres.count; i++) {
       pos.push({
-        x: (Math.random() - 0.5) * 50,
-        y: (Math.random() - 0.5) * 30,
-        z: (Math.random() - 0.5) * 40,
-        phase: Math.random() * Math.PI * 2
+        x: random.centered(50),
+        y: random.centered(30),
+        z: random.centered(40),
+        phase: random.range(0, Math.PI * 2)
       });
     }
     return pos;
-  }, [spheres.count]);
+  }, [spheres.count, seed]);
   
   // Set initial matrices
   useEffect(() => {
@@ -140,9 +144,10 @@ export const InstancedSpheres = () => {
       } else if (movementPattern === 'verticalSine') {
         y = pos.y + Math.sin(scaledTime + i) * 2 * finalSpeed * safeDistance;
       } else if (movementPattern === 'random') {
-        x = pos.x + (Math.random() - 0.5) * 0.5 * finalSpeed * safeDistance;
-        y = pos.y + (Math.random() - 0.5) * 0.5 * finalSpeed * safeDistance;
-        z = pos.z + (Math.random() - 0.5) * 0.5 * finalSpeed * safeDistance;
+        const jitter = createSceneRandom(seed, 'spheres', 'jitter', i, time);
+        x = pos.x + jitter.centered(0.5 * finalSpeed * safeDistance);
+        y = pos.y + jitter.centered(0.5 * finalSpeed * safeDistance);
+        z = pos.z + jitter.centered(0.5 * finalSpeed * safeDistance);
       }
       
       // Apply enhanced distortion effects
@@ -221,7 +226,7 @@ export const InstancedSpheres = () => {
 // Similar implementations for Cubes and Toruses...
 export const InstancedCubes = () => {
   // Implementation similar to InstancedSpheres but with BoxGeometry
-  const { globalEffects, backgroundConfig, globalAnimationSpeed, geometric } = useVisualStore();
+  const { globalEffects, backgroundConfig, globalAnimationSpeed, geometric, seed } = useSceneState();
   const { cubes } = geometric;
   const { shapeGlow } = globalEffects;
   
@@ -231,9 +236,10 @@ export const InstancedCubes = () => {
   const geometry = useMemo(() => {
     const geo = new THREE.BoxGeometry(1, 1, 1);
     if (cubes.organicness > 0) {
+      const random = createSceneRandom(seed, 'cubes', 'instancedGeometry');
       const positions = geo.attributes.position.array;
       for (let i = 0; i < positions.length; i += 3) {
-        const noise = (Math.random() - 0.5) * cubes.organicness;
+        const noise = random.centered(cubes.organicness);
         positions[i] += noise;
         positions[i + 1] += noise;
         positions[i + 2] += noise;
@@ -242,7 +248,7 @@ export const InstancedCubes = () => {
       geo.computeVertexNormals();
     }
     return geo;
-  }, [cubes.organicness]);
+  }, [cubes.organicness, seed]);
   
   const material = useMemo(() => {
     const glowColor = shapeGlow?.useObjectColor ? cubes.color : (shapeGlow?.customColor || cubes.color);
@@ -261,15 +267,17 @@ export const InstancedCubes = () => {
   
   const positions = useMemo(() => {
     const pos = [];
+    const random = createSceneRandom(seed, 'cubes', 'layout');
     for (let i = 0; i < cubes.count; i++) {
       pos.push({
-        x: (Math.random() - 0.5) * 50,
-        y: (Math.random() - 0.5) * 30,
-        z: (Math.random() - 0.5) * 40,
+        x: random.centered(50),
+        y: random.centered(30),
+        z: random.centered(40),
+        rotation: [random.range(0, Math.PI), random.range(0, Math.PI), random.range(0, Math.PI)] as const
       });
     }
     return pos;
-  }, [cubes.count]);
+  }, [cubes.count, seed]);
   
   useEffect(() => {
     if (!meshRef.current) return;
@@ -278,11 +286,7 @@ export const InstancedCubes = () => {
       const pos = positions[i];
       tempObject.position.set(pos.x, pos.y, pos.z);
       tempObject.scale.setScalar(cubes.size);
-      tempObject.rotation.set(
-        Math.random() * Math.PI,
-        Math.random() * Math.PI,
-        Math.random() * Math.PI
-      );
+      tempObject.rotation.set(...pos.rotation);
       tempObject.updateMatrix();
       meshRef.current.setMatrixAt(i, tempObject.matrix);
     }
@@ -332,4 +336,171 @@ export const InstancedCubes = () => {
       frustumCulled={false}
     />
   );
-};
\ No newline at end of file
+};
+
+// Instanced Crystals: one shared cluster geometry, per-instance orientation and spin
+export const InstancedCrystals = () => {
+  const { globalEffects, backgroundConfig, globalAnimationSpeed, geometric, seed } = useSceneState();
+  const { crystals } = geometric;
+  const { shapeGlow } = globalEffects;
+
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const glowMeshRef = useRef<THREE.InstancedMesh>(null);
+  const frameCount = useRef(0);
+  const pulseTimeRef = useRef(0);
+
+  const instanceCount = Math.min(Math.max(0, Math.floor(crystals.count || 0)), MAX_INSTANCES);
+
+  // Built at unit size; instances are scaled by crystals.size
+  const geometry = useMemo(() => {
+    const key = `crystal-geo-${crystals.complexity}-${crystals.organicness}-${seed}`;
+    return resourceManager.getOrCreateGeometry(key, () => createCrystalGeometry({
+      size: 1,
+      complexity: crystals.complexity,
+      organicness: crystals.organicness,
+      seed: deriveSeed(seed, 'crystals', 'instanced')
+    }));
+  }, [crystals.complexity, crystals.organicness, seed]);
+
+  const glowSettings = useMemo(() => {
+    return calculateGlowSettings(crystals.color, shapeGlow, 'crystal');
+  }, [crystals.color, shapeGlow]);
+
+  const material = useMemo(() => {
+    const key = `crystal-mat-${crystals.color}-${crystals.opacity}-${glowSettings.intensity}`;
+
+    return resourceManager.getOrCreateMaterial(key, () => {
+      return new THREE.MeshStandardMaterial({
+        color: crystals.color,
+        ...glowSettings.materialSettings,
+        opacity: crystals.opacity,
+        flatShading: true
+      });
+    });
+  }, [crystals.color, crystals.opacity, glowSettings]);
+
+  const glowMaterial = useMemo(() => {
+    return new THREE.MeshBasicMaterial({
+      color: glowSettings.outerGlowSettings.color,
+      transparent: true,
+      opacity: glowSettings.outerGlowSettings.opacity,
+      blending: THREE.AdditiveBlending,
+      side: THREE.BackSide,
+      depthWrite: false
+    });
+  }, [glowSettings]);
+
+  useEffect(() => {
+    return () => glowMaterial.dispose();
+  }, [glowMaterial]);
+
+  const instances = useMemo(() => {
+    const data = [];
+    const random = createSceneRandom(seed, 'crystals', 'layout');
+    for (let i = 0; i < instanceCount; i++) {
+      data.push({
+        x: random.centered(50),
+        y: random.centered(30),
+        z: random.centered(40),
+        tiltX: random.centered(0.8),
+        tiltZ: random.centered(0.8),
+        spin: random.range(0, Math.PI * 2),
+        phase: random.range(0, Math.PI * 2)
+      });
+    }
+    return data;
+  }, [instanceCount, seed]);
+
+  useFrame((state, delta) => {
+    if (!meshRef.current || instanceCount === 0) return;
+
+    frameCount.current++;
+    if (frameCount.current % UPDATE_FREQUENCY !== 0) return;
+
+    const time = state.clock.elapsedTime;
+    const timeScale = backgroundConfig.timeScale;
+    const safeAnimationSpeed = Math.max(0.01, Math.min(5.0, globalAnimationSpeed));
+    const scaledTime = time * timeScale * safeAnimationSpeed;
+
+    const movementPattern = crystals.movementPattern || 'orbit';
+    const safeDistance = crystals.distance || 2.0;
+    const finalSpeed = (crystals.speed ?? 0.6) * safeAnimationSpeed;
+    const spinStep = crystals.rotation * safeAnimationSpeed * 0.01 * timeScale * UPDATE_FREQUENCY;
+    const pulsing = !!crystals.pulseEnabled || !!(shapeGlow?.enabled && shapeGlow?.pulsing);
+    const layerZ = backgroundConfig.enabled
+      ? backgroundConfig.artisticLayout?.layers?.midBackground?.zPosition || 0
+      : 0;
+
+    if (pulsing) {
+      pulseTimeRef.current += delta * UPDATE_FREQUENCY * (shapeGlow?.pulseSpeed ?? 1.0) * safeAnimationSpeed;
+    }
+
+    for (let i = 0; i < instanceCount; i++) {
+      const instance = instances[i];
+      if (!instance) continue;
+
+      let x = instance.x;
+      let y = instance.y;
+      let z = instance.z;
+
+      if (movementPattern === 'orbit') {
+        x = instance.x + Math.sin(scaledTime + i) * 2 * finalSpeed * safeDistance;
+        y = instance.y + Math.cos(scaledTime + i * 0.5) * 1.5 * finalSpeed * safeDistance;
+        z = instance.z + Math.sin(scaledTime * 0.7 + i) * 1 * finalSpeed * safeDistance;
+      } else if (movementPattern === 'verticalSine') {
+        y = instance.y + Math.sin(scaledTime + i) * 2 * finalSpeed * safeDistance;
+      } else if (movementPattern === 'random') {
+        const jitter = createSceneRandom(seed, 'crystals', 'jitter', i, time);
+        x = instance.x + jitter.centered(0.5 * finalSpeed * safeDistance);
+        y = instance.y + jitter.centered(0.5 * finalSpeed * safeDistance);
+        z = instance.z + jitter.centered(0.5 * finalSpeed * safeDistance);
+      }
+
+      const distorted = calculateDistortion({ x, y, z }, scaledTime, i, globalEffects?.distortion);
+      const position = backgroundConfig.enabled ? constrainToViewport(distorted, layerZ) : distorted;
+
+      instance.spin += spinStep;
+      tempObject.position.set(position.x, position.y, position.z);
+      tempObject.rotation.set(instance.tiltX, instance.spin, instance.tiltZ);
+      tempObject.scale.setScalar(crystals.size);
+
+      if (pulsing) {
+        const pulseScale = 1 + 0.1 * (crystals.pulseSize || 1.0) * Math.sin(pulseTimeRef.current + instance.phase);
+        tempObject.scale.multiplyScalar(pulseScale);
+      }
+
+      tempObject.updateMatrix();
+      meshRef.current.setMatrixAt(i, tempObject.matrix);
+
+      if (glowMeshRef.current && glowSettings.enabled) {
+        tempObject.scale.multiplyScalar(glowSettings.outerGlowSettings.scale);
+        tempObject.updateMatrix();
+        glowMeshRef.current.setMatrixAt(i, tempObject.matrix);
+      }
+    }
+
+    meshRef.current.instanceMatrix.needsUpdate = true;
+    if (glowMeshRef.current) {
+      glowMeshRef.current.instanceMatrix.needsUpdate = true;
+    }
+  });
+
+  if (instanceCount === 0) return null;
+
+  return (
+    <group key={`crystals-${instanceCount}`}>
+      <instancedMesh
+        ref={meshRef}
+        args={[geometry, material, instanceCount]}
+        frustumCulled={false}
+      />
+      {glowSettings.enabled && (
+        <instancedMesh
+          ref={glowMeshRef}
+          args={[geometry, glowMaterial, instanceCount]}
+          frustumCulled={false}
+        />
+      )}
+    </group>
+  );
+};
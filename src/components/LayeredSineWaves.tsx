@@ -1,11 +1,11 @@
 import React, { useRef, useMemo, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { useVisualStore } from '../store/visualStore';
+import { useSceneState } from '../utils/sceneOverlay';
 import * as THREE from 'three';
 
 export const LayeredSineWaves = () => {
   // ALL HOOKS MUST BE CALLED FIRST, BEFORE ANY CONDITIONAL LOGIC
-  const { globalEffects, geometric, globalAnimationSpeed } = useVisualStore();
+  const { globalEffects, geometric, globalAnimationSpeed } = useSceneState();
   const { layeredSineWaves } = globalEffects;
   const groupRef = useRef<THREE.Group>(null);
   const materialRef = useRef<THREE.LineBasicMaterial | null>(null);
@@ -0,0 +1,376 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useVisualStore } from '../store/visualStore';
+import { userMappingRules, useUserMappingRules } from '../utils/userMappingRules';
+import {
+  CONFLICT_STRATEGIES,
+  MAPPING_CURVE_SHAPES,
+  MAPPING_INPUTS,
+  MAPPING_RULE_SOURCES,
+  createMappingRule,
+  parseMappingRules,
+  serializeMappingRules,
+  validateMappingRule
+} from '../utils/mappingRules';
+import { getPathValue, listAnimatablePaths } from '../utils/timeline';
+import { downloadBlob } from '../utils/imageExport';
+import type { ConflictStrategy, MappingCurveShape, MappingRuleDefinition, MappingRuleSource } from '../types/mappingRule';
+
+const inputClass = 'w-16 px-1 py-0.5 bg-gray-800 border border-gray-600 rounded text-white text-xs';
+const selectClass = 'px-1 py-0.5 bg-gray-800 border border-gray-600 rounded text-white text-xs';
+
+const NumberField: React.FC<{
+  label: string;
+  value: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  title?: string;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step = 0.1, title, onChange }) => (
+  <label className="flex items-center gap-1 text-xs text-gray-300" title={title}>
+    {label}
+    <input
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      step={step}
+      onChange={(e) => {
+        const next = parseFloat(e.target.value);
+        if (!isFinite(next)) return;
+        onChange(Math.min(max ?? Infinity, Math.max(min ?? -Infinity, next)));
+      }}
+      className={inputClass}
+    />
+  </label>
+);
+
+type RuleScope = 'preset' | 'user';
+
+const INPUT_HELP = Object.entries(MAPPING_INPUTS).map(([name, hint]) => `${name}: ${hint}`).join('\n');
+
+// Author declarative mapping rules for live mode, saved with the preset or to the signed-in account
+export const MappingRulesPanel: React.FC = () => {
+  const presetRules = useVisualStore((state) => state.mappingRules);
+  const setMappingRules = useVisualStore((state) => state.setMappingRules);
+  const userRules = useUserMappingRules();
+  const [scope, setScope] = useState<RuleScope>('preset');
+  const [path, setPath] = useState('');
+  const [draft, setDraft] = useState<MappingRuleDefinition | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (userMappingRules.getSnapshot().status === 'idle') {
+      userMappingRules.load();
+    }
+  }, []);
+
+  const rules = scope === 'preset' ? presetRules : userRules.rules;
+  const userReadOnly = scope === 'user' && userRules.status !== 'ready' && userRules.status !== 'error';
+
+  const commit = (next: MappingRuleDefinition[]) => {
+    if (scope === 'preset') {
+      setMappingRules(next);
+    } else {
+      userMappingRules.save(next);
+    }
+  };
+
+  // Read without subscribing, as in ModulationPanel: only numeric parameters can be mapped
+  const state = useVisualStore.getState();
+  const paths = listAnimatablePaths(state).filter((candidate) => candidate !== 'seed' && typeof getPathValue(state, candidate) === 'number');
+
+  const add = () => {
+    if (!path) return;
+    const current = getPathValue(useVisualStore.getState(), path) as number;
+    setDraft(createMappingRule(path, [0, current > 0 ? current * 2 : 1]));
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const exists = rules.some((rule) => rule.id === draft.id);
+    commit(exists ? rules.map((rule) => (rule.id === draft.id ? draft : rule)) : [...rules, draft]);
+    setDraft(null);
+  };
+
+  const exportRules = () => {
+    const blob = new Blob([serializeMappingRules(rules)], { type: 'application/json' });
+    downloadBlob(blob, `mapping-rules-${scope}.json`);
+  };
+
+  const importRules = async (file: File) => {
+    try {
+      const imported = parseMappingRules(await file.text());
+      // Rules with an id already in the list replace it; the rest are appended
+      const importedIds = new Set(imported.map((rule) => rule.id));
+      commit([...rules.filter((rule) => !importedIds.has(rule.id)), ...imported]);
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        {(['preset', 'user'] as RuleScope[]).map((option) => (
+          <button
+            key={option}
+            onClick={() => {
+              setScope(option);
+              setDraft(null);
+            }}
+            className={`flex-1 px-2 py-1 rounded text-xs transition-colors ${
+              scope === option ? 'bg-purple-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            {option === 'preset' ? 'This preset' : 'My rules'}
+          </button>
+        ))}
+      </div>
+
+      {scope === 'user' && userRules.status === 'signed-out' && (
+        <div className="text-xs text-gray-500">Sign in to keep rules with your account</div>
+      )}
+      {scope === 'user' && userRules.status === 'loading' && <div className="text-xs text-gray-500">Loading…</div>}
+      {scope === 'user' && userRules.error && <div className="text-xs text-red-400">{userRules.error}</div>}
+
+      {!userReadOnly && (
+        <div className="flex items-center gap-1">
+          <select
+            value={path}
+            onChange={(e) => setPath(e.target.value)}
+            className="flex-1 min-w-0 px-1 py-1 bg-gray-800 border border-gray-600 rounded text-white text-xs"
+          >
+            <option value="">Choose a parameter…</option>
+            {paths.map((candidate) => (
+              <option key={candidate} value={candidate}>{candidate}</option>
+            ))}
+          </select>
+          <button
+            onClick={add}
+            disabled={!path}
+            className="px-2 py-1 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded text-xs transition-colors"
+          >
+            Add
+          </button>
+        </div>
+      )}
+
+      {draft && (
+        <RuleEditor
+          draft={draft}
+          onChange={(changes) => setDraft({ ...draft, ...changes })}
+          onSave={saveDraft}
+          onCancel={() => setDraft(null)}
+        />
+      )}
+
+      {rules.length === 0 && <div className="text-xs text-gray-500">No mapping rules</div>}
+
+      {rules.map((rule) => (
+        <div key={rule.id} className="flex items-center gap-2 p-2 bg-gray-800/60 rounded">
+          <input
+            type="checkbox"
+            checked={rule.enabled}
+            disabled={userReadOnly}
+            onChange={(e) => commit(rules.map((other) => (other.id === rule.id ? { ...other, enabled: e.target.checked } : other)))}
+            title="Enabled"
+          />
+          <span className="flex-1 min-w-0 truncate text-xs text-white font-mono" title={rule.description || rule.variable}>
+            {rule.variable}
+          </span>
+          <span className="text-xs text-gray-400" title={rule.strategy ? `Source · priority · combined by ${rule.strategy}` : 'Source · priority'}>
+            {rule.source} · {rule.priority}{rule.strategy ? ' · ⊕' : ''}
+          </span>
+          <button
+            onClick={() => setDraft(rule)}
+            disabled={userReadOnly}
+            className="px-1.5 py-0.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded text-xs"
+            title="Edit"
+          >
+            ✎
+          </button>
+          <button
+            onClick={() => commit(rules.filter((other) => other.id !== rule.id))}
+            disabled={userReadOnly}
+            className="px-1.5 py-0.5 bg-red-600/70 hover:bg-red-600 disabled:opacity-50 text-white rounded text-xs"
+            title="Remove"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-1">
+        <button
+          onClick={exportRules}
+          disabled={rules.length === 0}
+          className="flex-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded text-xs transition-colors"
+        >
+          Export JSON
+        </button>
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={userReadOnly}
+          className="flex-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded text-xs transition-colors"
+        >
+          Import JSON
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) importRules(file);
+          }}
+        />
+      </div>
+      {importError && <div className="text-xs text-red-400">{importError}</div>}
+    </div>
+  );
+};
+
+const RuleEditor: React.FC<{
+  draft: MappingRuleDefinition;
+  onChange: (changes: Partial<MappingRuleDefinition>) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}> = ({ draft, onChange, onSave, onCancel }) => {
+  const errors = validateMappingRule(draft);
+  const usesExpression = draft.expression !== undefined;
+  const curve = draft.curve ?? { shape: 'linear' as MappingCurveShape, inputRange: [0, 1] as [number, number], outputRange: [draft.constraints.min, draft.constraints.max] as [number, number] };
+
+  return (
+    <div className="p-2 bg-gray-800/60 rounded space-y-1 border border-purple-600/50">
+      <div className="text-xs text-white font-mono truncate" title={draft.variable}>{draft.variable}</div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={draft.source}
+          onChange={(e) => onChange({ source: e.target.value as MappingRuleSource })}
+          className={selectClass}
+          title="Source"
+        >
+          {MAPPING_RULE_SOURCES.map((source) => (
+            <option key={source} value={source}>{source}</option>
+          ))}
+        </select>
+        <label className="flex flex-1 items-center gap-1 text-xs text-gray-300" title={INPUT_HELP}>
+          Inputs
+          <input
+            type="text"
+            value={draft.inputs.join(', ')}
+            onChange={(e) => onChange({ inputs: e.target.value.split(',').map((input) => input.trim()).filter(Boolean) })}
+            className="flex-1 min-w-0 px-1 py-0.5 bg-gray-800 border border-gray-600 rounded text-white text-xs font-mono"
+          />
+        </label>
+      </div>
+
+      <label className="flex items-center gap-1 text-xs text-gray-300" title="Replace the variable's other rules, or combine with them">
+        Rules on this variable
+        <select
+          value={draft.strategy ?? ''}
+          onChange={(e) => onChange({ strategy: (e.target.value || undefined) as ConflictStrategy | undefined })}
+          className={selectClass}
+        >
+          <option value="">Replace them</option>
+          {CONFLICT_STRATEGIES.map((strategy) => (
+            <option key={strategy} value={strategy}>Combine: {strategy}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-1 text-xs text-gray-300">
+        <input
+          type="checkbox"
+          checked={usesExpression}
+          onChange={(e) => onChange(e.target.checked
+            ? { expression: `lerp(${draft.constraints.min}, ${draft.constraints.max}, ${draft.inputs[0] ?? 'evolution.intensity'})`, curve: undefined }
+            : { expression: undefined, curve })}
+        />
+        Expression
+      </label>
+
+      {usesExpression ? (
+        <textarea
+          value={draft.expression}
+          onChange={(e) => onChange({ expression: e.target.value })}
+          rows={2}
+          className="w-full px-1 py-0.5 bg-gray-800 border border-gray-600 rounded text-white text-xs font-mono"
+          placeholder="clamp(weather.windSpeed / 40, 0, 1) * 0.8"
+        />
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={curve.shape}
+            onChange={(e) => onChange({ curve: { ...curve, shape: e.target.value as MappingCurveShape, steps: e.target.value === 'step' ? curve.steps ?? 4 : undefined } })}
+            className={selectClass}
+            title="Curve"
+          >
+            {MAPPING_CURVE_SHAPES.map((shape) => (
+              <option key={shape} value={shape}>{shape}</option>
+            ))}
+          </select>
+          <NumberField label="In" value={curve.inputRange[0]} onChange={(value) => onChange({ curve: { ...curve, inputRange: [value, curve.inputRange[1]] } })} />
+          <NumberField label="→" value={curve.inputRange[1]} onChange={(value) => onChange({ curve: { ...curve, inputRange: [curve.inputRange[0], value] } })} />
+          <NumberField label="Out" value={curve.outputRange[0]} onChange={(value) => onChange({ curve: { ...curve, outputRange: [value, curve.outputRange[1]] } })} />
+          <NumberField label="→" value={curve.outputRange[1]} onChange={(value) => onChange({ curve: { ...curve, outputRange: [curve.outputRange[0], value] } })} />
+          {curve.shape === 'step' && (
+            <NumberField label="Steps" value={curve.steps ?? 4} min={2} max={100} step={1} onChange={(steps) => onChange({ curve: { ...curve, steps } })} />
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <NumberField label="Min" value={draft.constraints.min} onChange={(min) => onChange({ constraints: { ...draft.constraints, min } })} />
+        <NumberField label="Max" value={draft.constraints.max} onChange={(max) => onChange({ constraints: { ...draft.constraints, max } })} />
+        <NumberField label="Priority" value={draft.priority} min={1} max={10} step={1} title="Higher wins conflicts" onChange={(priority) => onChange({ priority })} />
+        <NumberField
+          label="Sensitivity"
+          value={draft.sensitivity}
+          min={0}
+          max={1}
+          step={0.05}
+          title="Higher applies smaller changes"
+          onChange={(sensitivity) => onChange({ sensitivity })}
+        />
+      </div>
+
+      <input
+        type="text"
+        value={draft.description ?? ''}
+        maxLength={200}
+        onChange={(e) => onChange({ description: e.target.value || undefined })}
+        placeholder="Description"
+        className="w-full px-1 py-0.5 bg-gray-800 border border-gray-600 rounded text-white text-xs"
+      />
+
+      {errors.length > 0 && (
+        <div className="text-xs text-red-400">{errors[0].path.replace(/^rule\./, '')}: {errors[0].message}</div>
+      )}
+
+      <div className="flex items-center gap-1">
+        <button
+          onClick={onSave}
+          disabled={errors.length > 0}
+          className="flex-1 px-2 py-1 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded text-xs transition-colors"
+        >
+          Save Rule
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded text-xs transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MappingRulesPanel;
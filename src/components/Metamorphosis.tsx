@@ -1,6 +1,6 @@
 import React, { useRef, useMemo, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { useVisualStore } from '../store/visualStore';
+import { useSceneState } from '../utils/sceneOverlay';
 import * as THREE from 'three';
 
 interface FormFunction {
@@ -9,7 +9,7 @@ interface FormFunction {
 
 export const Metamorphosis = () => {
   // ALL HOOKS MUST BE CALLED FIRST, BEFORE ANY CONDITIONAL LOGIC
-  const { globalEffects, geometric, globalAnimationSpeed } = useVisualStore();
+  const { globalEffects, geometric, globalAnimationSpeed } = useSceneState();
   const { metamorphosis } = globalEffects;
   const groupRef = useRef<THREE.Group>(null);
   const materialRef = useRef<THREE.LineBasicMaterial | null>(null);
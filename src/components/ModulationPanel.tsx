@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { useVisualStore } from '../store/visualStore';
+import { modulationEngine } from '../utils/modulationEngine';
+import { LFO_SHAPES, createEnvelope, createLfo, defaultDepth, isModulatable } from '../utils/modulation';
+import { getPathValue, listAnimatablePaths } from '../utils/timeline';
+import type { EnvelopeModulator, LfoShape, Modulator } from '../types/modulation';
+
+const inputClass = 'w-16 px-1 py-0.5 bg-gray-800 border border-gray-600 rounded text-white text-xs';
+
+const NumberField: React.FC<{
+  label: string;
+  value: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  title?: string;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step = 0.1, title, onChange }) => (
+  <label className="flex items-center gap-1 text-xs text-gray-300" title={title}>
+    {label}
+    <input
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      step={step}
+      onChange={(e) => {
+        const next = parseFloat(e.target.value);
+        if (!isFinite(next)) return;
+        onChange(Math.min(max ?? Infinity, Math.max(min ?? -Infinity, next)));
+      }}
+      className={inputClass}
+    />
+  </label>
+);
+
+// Attach LFOs and ADSR envelopes to numeric and color parameters; saved with presets
+export const ModulationPanel: React.FC = () => {
+  const modulators = useVisualStore((state) => state.modulators);
+  const addModulator = useVisualStore((state) => state.addModulator);
+  const updateModulator = useVisualStore((state) => state.updateModulator);
+  const removeModulator = useVisualStore((state) => state.removeModulator);
+  const [path, setPath] = useState('');
+  const [kind, setKind] = useState<Modulator['kind']>('lfo');
+
+  // Read without subscribing: the panel only re-renders when the modulator list changes, not every modulated frame
+  const state = useVisualStore.getState();
+  const paths = listAnimatablePaths(state).filter((candidate) => candidate !== 'seed' && isModulatable(getPathValue(state, candidate)));
+
+  const add = () => {
+    if (!path) return;
+    const depth = defaultDepth(getPathValue(useVisualStore.getState(), path));
+    addModulator(kind === 'lfo' ? createLfo(path, depth) : createEnvelope(path, depth));
+  };
+
+  const update = (id: string, changes: Partial<Modulator>) => updateModulator(id, changes);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        <select
+          value={path}
+          onChange={(e) => setPath(e.target.value)}
+          className="flex-1 min-w-0 px-1 py-1 bg-gray-800 border border-gray-600 rounded text-white text-xs"
+        >
+          <option value="">Choose a parameter…</option>
+          {paths.map((candidate) => (
+            <option key={candidate} value={candidate}>{candidate}</option>
+          ))}
+        </select>
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as Modulator['kind'])}
+          className="px-1 py-1 bg-gray-800 border border-gray-600 rounded text-white text-xs"
+        >
+          <option value="lfo">LFO</option>
+          <option value="envelope">Envelope</option>
+        </select>
+        <button
+          onClick={add}
+          disabled={!path}
+          className="px-2 py-1 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded text-xs transition-colors"
+        >
+          Add
+        </button>
+      </div>
+
+      {modulators.length === 0 && <div className="text-xs text-gray-500">No modulators</div>}
+
+      {modulators.map((modulator) => (
+        <div key={modulator.id} className="p-2 bg-gray-800/60 rounded space-y-1">
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={modulator.enabled}
+              onChange={(e) => update(modulator.id, { enabled: e.target.checked })}
+              title="Enabled"
+            />
+            <span className="flex-1 min-w-0 truncate text-xs text-white font-mono" title={modulator.path}>
+              {modulator.path}
+            </span>
+            <span className="text-xs text-gray-400">{modulator.kind === 'lfo' ? 'LFO' : 'ENV'}</span>
+            <button
+              onClick={() => removeModulator(modulator.id)}
+              className="px-1.5 py-0.5 bg-red-600/70 hover:bg-red-600 text-white rounded text-xs"
+              title="Remove"
+            >
+              ✕
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {modulator.kind === 'lfo' && (
+              <select
+                value={modulator.shape}
+                onChange={(e) => update(modulator.id, { shape: e.target.value as LfoShape })}
+                className="px-1 py-0.5 bg-gray-800 border border-gray-600 rounded text-white text-xs"
+              >
+                {LFO_SHAPES.map((shape) => (
+                  <option key={shape} value={shape}>{shape}</option>
+                ))}
+              </select>
+            )}
+            <NumberField
+              label="Depth"
+              value={modulator.depth}
+              min={-1000}
+              max={1000}
+              title="Swing in the parameter's units (hue degrees for colors)"
+              onChange={(depth) => update(modulator.id, { depth })}
+            />
+            <NumberField
+              label="Rate"
+              value={modulator.rate}
+              min={0}
+              max={20}
+              step={0.05}
+              title={modulator.kind === 'lfo' ? 'Cycles per second' : 'Retriggers per second when looping'}
+              onChange={(rate) => update(modulator.id, { rate })}
+            />
+            <NumberField
+              label="Phase"
+              value={modulator.phase}
+              min={0}
+              max={1}
+              step={0.05}
+              onChange={(phase) => update(modulator.id, { phase })}
+            />
+            <label className="flex items-center gap-1 text-xs text-gray-300" title="Follow the global animation speed">
+              <input
+                type="checkbox"
+                checked={modulator.sync}
+                onChange={(e) => update(modulator.id, { sync: e.target.checked })}
+              />
+              Sync
+            </label>
+          </div>
+
+          {modulator.kind === 'envelope' && (
+            <EnvelopeFields envelope={modulator} onChange={(changes) => update(modulator.id, changes)} />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const EnvelopeFields: React.FC<{
+  envelope: EnvelopeModulator;
+  onChange: (changes: Partial<EnvelopeModulator>) => void;
+}> = ({ envelope, onChange }) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <NumberField label="A" value={envelope.attack} min={0} max={60} title="Attack seconds" onChange={(attack) => onChange({ attack })} />
+    <NumberField label="D" value={envelope.decay} min={0} max={60} title="Decay seconds" onChange={(decay) => onChange({ decay })} />
+    <NumberField label="S" value={envelope.sustain} min={0} max={1} step={0.05} title="Sustain level" onChange={(sustain) => onChange({ sustain })} />
+    <NumberField label="H" value={envelope.hold} min={0} max={60} title="Hold seconds at sustain" onChange={(hold) => onChange({ hold })} />
+    <NumberField label="R" value={envelope.release} min={0} max={60} title="Release seconds" onChange={(release) => onChange({ release })} />
+    <select
+      value={envelope.trigger}
+      onChange={(e) => onChange({ trigger: e.target.value as EnvelopeModulator['trigger'] })}
+      className="px-1 py-0.5 bg-gray-800 border border-gray-600 rounded text-white text-xs"
+    >
+      <option value="loop">Loop</option>
+      <option value="manual">Manual</option>
+    </select>
+    {envelope.trigger === 'manual' && (
+      <button
+        onClick={() => modulationEngine.trigger(envelope.id)}
+        className="px-2 py-0.5 bg-purple-600 hover:bg-purple-700 text-white rounded text-xs transition-colors"
+      >
+        Trigger
+      </button>
+    )}
+  </div>
+);
+
+export default ModulationPanel;
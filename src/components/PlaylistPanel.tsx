@@ -0,0 +1,287 @@
+// PlaylistPanel.tsx
+// Build, play and share preset playlists for kiosk/background auto-cycling
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuthStore } from '../store/authStore';
+import { PlaylistClient } from '../lib/playlistClient';
+import { PresetClient } from '../lib/presetClient';
+import { canCreatePreset, canModifyPreset } from '../lib/presetPermissions';
+import { generatePlaylistURL } from '../hooks/usePresetFromURL';
+import { playlistPlayer, usePlaylistPlayer } from '../utils/playlistPlayer';
+import type { Playlist, PlaylistItem, PlaylistOrder } from '../types/playlist';
+import type { Preset } from '../types/preset';
+
+interface PlaylistDraft {
+  id: string | null;
+  name: string;
+  order: PlaylistOrder;
+  dwell: number;
+  transition: number;
+  items: PlaylistItem[];
+}
+
+const EMPTY_DRAFT: PlaylistDraft = { id: null, name: '', order: 'ordered', dwell: 60, transition: 5, items: [] };
+
+const inputStyle: React.CSSProperties = {
+  backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  color: 'white',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '4px',
+  padding: '3px 5px',
+  fontSize: '12px'
+};
+
+const buttonStyle = (color: string): React.CSSProperties => ({
+  backgroundColor: color,
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  padding: '4px 8px',
+  fontSize: '12px',
+  cursor: 'pointer'
+});
+
+const parseSeconds = (value: string) => {
+  const seconds = parseFloat(value);
+  return isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+};
+
+export const PlaylistPanel: React.FC = () => {
+  const currentUser = useAuthStore((state) => state.user);
+  const playback = usePlaylistPlayer();
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [draft, setDraft] = useState<PlaylistDraft | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPlaylists = useCallback(async () => {
+    try {
+      const response = await PlaylistClient.getPlaylists();
+      setPlaylists(response.playlists);
+    } catch (err) {
+      console.error('Failed to load playlists:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPlaylists();
+  }, [loadPlaylists]);
+
+  // The preset picker is only needed while editing
+  useEffect(() => {
+    if (!draft || presets.length > 0) return;
+    PresetClient.getPresets({ limit: 100 })
+      .then((response) => setPresets(response.presets))
+      .catch((err) => console.error('Failed to load cloud presets:', err));
+  }, [draft, presets.length]);
+
+  const updateItem = (index: number, changes: Partial<PlaylistItem>) => {
+    setDraft((current) => current && {
+      ...current,
+      items: current.items.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    });
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    setDraft((current) => {
+      if (!current) return current;
+      const target = index + offset;
+      if (target < 0 || target >= current.items.length) return current;
+      const items = [...current.items];
+      [items[index], items[target]] = [items[target], items[index]];
+      return { ...current, items };
+    });
+  };
+
+  const addPreset = (presetId: string) => {
+    const preset = presets.find((p) => String(p._id) === presetId);
+    if (!preset) return;
+    setDraft((current) => current && {
+      ...current,
+      items: [...current.items, { presetId, presetName: preset.name }]
+    });
+  };
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    setError(null);
+    try {
+      const payload = {
+        name: draft.name.trim(),
+        order: draft.order,
+        dwell: draft.dwell,
+        transition: draft.transition,
+        items: draft.items
+      };
+      if (draft.id) {
+        await PlaylistClient.updatePlaylist(draft.id, payload);
+      } else {
+        await PlaylistClient.createPlaylist(payload);
+      }
+      setDraft(null);
+      await loadPlaylists();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save playlist');
+    }
+  };
+
+  const deletePlaylist = async (playlist: Playlist) => {
+    if (!window.confirm(`Delete playlist "${playlist.name}"?`)) return;
+    setError(null);
+    try {
+      await PlaylistClient.deletePlaylist(String(playlist._id));
+      await loadPlaylists();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete playlist');
+    }
+  };
+
+  const copyURL = async (playlist: Playlist) => {
+    try {
+      await navigator.clipboard.writeText(generatePlaylistURL(String(playlist._id)));
+      setCopied(String(playlist._id));
+      setTimeout(() => setCopied(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy URL:', err);
+    }
+  };
+
+  if (draft) {
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', fontSize: '12px' }}>
+        <input style={inputStyle} placeholder="Playlist name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+        <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+          <select style={inputStyle} value={draft.order} onChange={(e) => setDraft({ ...draft, order: e.target.value as PlaylistOrder })}>
+            <option value="ordered">Ordered</option>
+            <option value="shuffled">Shuffled</option>
+          </select>
+          <label>Dwell</label>
+          <input type="number" min={1} style={{ ...inputStyle, width: '52px' }} value={draft.dwell} onChange={(e) => setDraft({ ...draft, dwell: Math.max(1, parseSeconds(e.target.value) ?? 1) })} />
+          <label>Fade</label>
+          <input type="number" min={0} style={{ ...inputStyle, width: '44px' }} value={draft.transition} onChange={(e) => setDraft({ ...draft, transition: parseSeconds(e.target.value) ?? 0 })} />
+          <span style={{ opacity: 0.6 }}>s</span>
+        </div>
+
+        {draft.items.map((item, index) => (
+          <div key={`${item.presetId}-${index}`} style={{ display: 'flex', gap: '4px', alignItems: 'center', backgroundColor: 'rgba(255,255,255,0.05)', padding: '4px', borderRadius: '4px' }}>
+            <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={item.presetName}>{item.presetName || item.presetId}</span>
+            <input
+              type="number"
+              min={1}
+              placeholder={String(draft.dwell)}
+              title="Dwell seconds (blank uses the playlist default)"
+              style={{ ...inputStyle, width: '44px' }}
+              value={item.dwell ?? ''}
+              onChange={(e) => updateItem(index, { dwell: parseSeconds(e.target.value) })}
+            />
+            <input
+              type="number"
+              min={0}
+              placeholder={String(draft.transition)}
+              title="Transition seconds (blank uses the playlist default)"
+              style={{ ...inputStyle, width: '36px' }}
+              value={item.transition ?? ''}
+              onChange={(e) => updateItem(index, { transition: parseSeconds(e.target.value) })}
+            />
+            <input
+              type="time"
+              title="Only play from (optional)"
+              style={inputStyle}
+              value={item.window?.start ?? ''}
+              onChange={(e) => updateItem(index, { window: e.target.value ? { start: e.target.value, end: item.window?.end ?? e.target.value } : undefined })}
+            />
+            {item.window && (
+              <input
+                type="time"
+                title="Until"
+                style={inputStyle}
+                value={item.window.end}
+                onChange={(e) => updateItem(index, { window: { start: item.window!.start, end: e.target.value || item.window!.start } })}
+              />
+            )}
+            <button style={buttonStyle('rgba(255,255,255,0.1)')} onClick={() => moveItem(index, -1)} title="Move up">↑</button>
+            <button
+              style={buttonStyle('rgba(239, 68, 68, 0.7)')}
+              onClick={() => setDraft({ ...draft, items: draft.items.filter((_, i) => i !== index) })}
+              title="Remove"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+
+        <select style={inputStyle} value="" onChange={(e) => addPreset(e.target.value)}>
+          <option value="">+ Add cloud preset…</option>
+          {presets.map((preset) => (
+            <option key={String(preset._id)} value={String(preset._id)}>{preset.name}</option>
+          ))}
+        </select>
+        <div style={{ fontSize: '11px', opacity: 0.6 }}>
+          Presets with hours set only play in that window, and replace the rest of the rotation while it is open.
+        </div>
+
+        {error && <div style={{ color: '#fca5a5' }}>{error}</div>}
+        <div style={{ display: 'flex', gap: '6px' }}>
+          <button style={{ ...buttonStyle('rgba(16, 185, 129, 0.8)'), flex: 1 }} disabled={!draft.name.trim() || draft.items.length === 0} onClick={saveDraft}>
+            Save playlist
+          </button>
+          <button style={buttonStyle('rgba(255,255,255,0.1)')} onClick={() => { setDraft(null); setError(null); }}>Cancel</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', fontSize: '12px' }}>
+      {playback.status !== 'stopped' && (
+        <div style={{ display: 'flex', gap: '6px', alignItems: 'center', backgroundColor: 'rgba(59, 130, 246, 0.2)', padding: '6px', borderRadius: '4px' }}>
+          <span style={{ flex: 1 }}>
+            ▶ {playback.playlistName}
+            {playback.status === 'waiting' ? ' · nothing scheduled now' : playback.current ? ` · ${playback.current.presetName || playback.current.presetId}` : ''}
+          </span>
+          <button style={buttonStyle('rgba(255,255,255,0.15)')} onClick={() => playlistPlayer.skip()}>⏭</button>
+          <button style={buttonStyle('rgba(239, 68, 68, 0.8)')} onClick={() => playlistPlayer.stop()}>⏹</button>
+        </div>
+      )}
+
+      {playlists.length === 0 && <div style={{ opacity: 0.6 }}>No playlists yet</div>}
+      {playlists.map((playlist) => (
+        <div key={String(playlist._id)} style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+          <span style={{ flex: 1 }}>
+            {playlist.name}
+            <span style={{ opacity: 0.5 }}> · {playlist.items.length} · {playlist.order}</span>
+          </span>
+          <button style={buttonStyle('rgba(59, 130, 246, 0.8)')} onClick={() => playlistPlayer.start(playlist)} title="Play here">▶</button>
+          <button style={buttonStyle('rgba(16, 185, 129, 0.8)')} onClick={() => copyURL(playlist)} title="Copy kiosk URL">
+            {copied === String(playlist._id) ? '✓' : '🔗'}
+          </button>
+          {canModifyPreset(currentUser, playlist) && (
+            <>
+              <button
+                style={buttonStyle('rgba(255,255,255,0.1)')}
+                title="Edit"
+                onClick={() => setDraft({
+                  id: String(playlist._id),
+                  name: playlist.name,
+                  order: playlist.order,
+                  dwell: playlist.dwell,
+                  transition: playlist.transition,
+                  items: playlist.items
+                })}
+              >
+                ✎
+              </button>
+              <button style={buttonStyle('rgba(239, 68, 68, 0.7)')} title="Delete" onClick={() => deletePlaylist(playlist)}>✕</button>
+            </>
+          )}
+        </div>
+      ))}
+
+      {error && <div style={{ color: '#fca5a5' }}>{error}</div>}
+      {canCreatePreset(currentUser) && (
+        <button style={buttonStyle('rgba(255,255,255,0.1)')} onClick={() => setDraft(EMPTY_DRAFT)}>+ New playlist</button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,276 @@
+import React, { useMemo, useEffect } from 'react';
+import * as THREE from 'three';
+import { EffectComposer, Bloom, BrightnessContrast, HueSaturation, Vignette, DepthOfField } from '@react-three/postprocessing';
+import { Effect, EffectAttribute, BlendFunction } from 'postprocessing';
+import { GLOBAL_DEFAULTS } from '../store/visualStore';
+import { useSceneState } from '../utils/sceneOverlay';
+import { sceneExporter } from '../utils/imageExport';
+
+// Up to this many rainbow gradient stops are passed to the shader
+const MAX_GRADIENT_COLORS = 8;
+
+// CSS mix-blend-mode names used in the store, mapped to postprocessing blend functions
+const BLEND_FUNCTIONS: Record<string, BlendFunction> = {
+  'normal': BlendFunction.NORMAL,
+  'multiply': BlendFunction.MULTIPLY,
+  'screen': BlendFunction.SCREEN,
+  'overlay': BlendFunction.OVERLAY,
+  'soft-light': BlendFunction.SOFT_LIGHT,
+  'hard-light': BlendFunction.HARD_LIGHT,
+  'color-dodge': BlendFunction.COLOR_DODGE,
+  'color-burn': BlendFunction.COLOR_BURN,
+  'difference': BlendFunction.DIFFERENCE,
+  'exclusion': BlendFunction.EXCLUSION,
+  'darken': BlendFunction.DARKEN,
+  'lighten': BlendFunction.LIGHTEN,
+  'add': BlendFunction.ADD
+};
+
+export const getBlendFunction = (mode: string): BlendFunction => BLEND_FUNCTIONS[mode] ?? BlendFunction.NORMAL;
+
+// Chromatic aberration that tints each shifted channel with the configured colors
+class ChromaticSplitEffect extends Effect {
+  constructor() {
+    super('ChromaticSplitEffect', `
+      uniform vec2 offset;
+      uniform vec3 redColor;
+      uniform vec3 greenColor;
+      uniform vec3 blueColor;
+
+      void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+        vec4 shiftedRed = texture2D(inputBuffer, uv + offset);
+        vec4 shiftedBlue = texture2D(inputBuffer, uv - offset);
+        vec3 color = shiftedRed.r * redColor + inputColor.g * greenColor + shiftedBlue.b * blueColor;
+        outputColor = vec4(color, max(inputColor.a, max(shiftedRed.a, shiftedBlue.a)));
+      }
+    `, {
+      attributes: EffectAttribute.CONVOLUTION,
+      uniforms: new Map<string, THREE.Uniform>([
+        ['offset', new THREE.Uniform(new THREE.Vector2())],
+        ['redColor', new THREE.Uniform(new THREE.Color('#ff0000'))],
+        ['greenColor', new THREE.Uniform(new THREE.Color('#00ff00'))],
+        ['blueColor', new THREE.Uniform(new THREE.Color('#0000ff'))]
+      ])
+    });
+  }
+}
+
+// Soft full-frame blur; more layers take more (wider) sample rings
+class AtmosphericBlurEffect extends Effect {
+  constructor() {
+    super('AtmosphericBlurEffect', `
+      uniform float radius;
+      uniform float rings;
+
+      void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+        vec4 sum = inputColor;
+        float weight = 1.0;
+        for (int ring = 1; ring <= 5; ring++) {
+          if (float(ring) > rings) break;
+          float ringDistance = radius * float(ring) / rings;
+          for (int tap = 0; tap < 8; tap++) {
+            float angle = float(tap) * 0.785398 + float(ring) * 0.3927;
+            vec2 sampleUv = uv + vec2(cos(angle), sin(angle)) * ringDistance * texelSize;
+            float sampleWeight = 1.0 / float(ring);
+            sum += texture2D(inputBuffer, sampleUv) * sampleWeight;
+            weight += sampleWeight;
+          }
+        }
+        outputColor = sum / weight;
+      }
+    `, {
+      attributes: EffectAttribute.CONVOLUTION,
+      uniforms: new Map<string, THREE.Uniform>([
+        ['radius', new THREE.Uniform(0)],
+        ['rings', new THREE.Uniform(1)]
+      ])
+    });
+  }
+}
+
+// Rotating linear color gradient blended over the frame
+class GradientOverlayEffect extends Effect {
+  constructor() {
+    super('GradientOverlayEffect', `
+      uniform vec3 colors[${MAX_GRADIENT_COLORS}];
+      uniform float colorCount;
+      uniform float angle;
+      uniform float speed;
+
+      void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+        vec2 direction = vec2(sin(angle), -cos(angle));
+        float gradientPosition = fract(dot(uv - 0.5, direction) + 0.5 + time * speed * 0.05);
+        float scaled = gradientPosition * max(colorCount - 1.0, 0.0);
+        vec3 color = colors[0];
+        for (int i = 1; i < ${MAX_GRADIENT_COLORS}; i++) {
+          if (float(i) >= colorCount) break;
+          color = mix(color, colors[i], clamp(scaled - float(i - 1), 0.0, 1.0));
+        }
+        outputColor = vec4(color, inputColor.a);
+      }
+    `, {
+      blendFunction: BlendFunction.SCREEN,
+      uniforms: new Map<string, THREE.Uniform>([
+        ['colors', new THREE.Uniform(Array.from({ length: MAX_GRADIENT_COLORS }, () => new THREE.Color('#ffffff')))],
+        ['colorCount', new THREE.Uniform(0)],
+        ['angle', new THREE.Uniform(0)],
+        ['speed', new THREE.Uniform(0)]
+      ])
+    });
+  }
+}
+
+// Flat color blended over the frame (global blend mode)
+class ColorOverlayEffect extends Effect {
+  constructor() {
+    super('ColorOverlayEffect', `
+      uniform vec3 color;
+
+      void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+        outputColor = vec4(color, inputColor.a);
+      }
+    `, {
+      blendFunction: BlendFunction.NORMAL,
+      uniforms: new Map<string, THREE.Uniform>([
+        ['color', new THREE.Uniform(new THREE.Color('#808080'))]
+      ])
+    });
+  }
+}
+
+// Overlay tint per global blend mode, matching the previous CSS overlay
+const getBlendOverlayColor = (mode: string): string => {
+  switch (mode) {
+    case 'multiply': return '#808080';
+    case 'screen': return '#404040';
+    case 'overlay': return '#606060';
+    case 'color-dodge': return '#202020';
+    case 'color-burn': return '#a0a0a0';
+    default: return '#ffffff';
+  }
+};
+
+/**
+ * In-canvas effect chain driven by `effects`, `globalEffects` and `camera.depthOfField`.
+ * Renders nothing when every effect is neutral so the plain render path is kept.
+ */
+export const PostProcessingEffects: React.FC = () => {
+  const { effects, globalEffects, camera, globalBlendMode } = useSceneState();
+
+  const chromatic = globalEffects?.chromatic;
+  const atmosphericBlur = globalEffects?.atmosphericBlur;
+  const depthOfField = camera?.depthOfField;
+
+  const brightness = (effects?.brightness ?? 1) - 1;
+  const contrast = (effects?.contrast ?? 1) - 1;
+  const saturation = Math.max(-1, Math.min(1,
+    (effects?.saturation ?? 1) - 1 + (chromatic?.enabled ? (chromatic.prism ?? 0) * 0.3 : 0)
+  ));
+  const hue = THREE.MathUtils.degToRad(effects?.hue ?? 0);
+  const glow = effects?.glow ?? 0;
+  const vignette = effects?.vignette ?? 0;
+
+  const bloomEnabled = !!GLOBAL_DEFAULTS.visual.bloom && glow > 0;
+  const colorEnabled = brightness !== 0 || contrast !== 0 || saturation !== 0 || hue !== 0;
+  const aberrationEnabled = !!chromatic?.enabled && (chromatic.aberration ?? 0) > 0;
+  const rainbowEnabled = !!chromatic?.enabled && !!chromatic.rainbow?.enabled &&
+    (chromatic.rainbow.intensity ?? 0) > 0 && (chromatic.rainbow.colors?.length ?? 0) > 0;
+  const blurEnabled = !!atmosphericBlur?.enabled && (atmosphericBlur.intensity ?? 0) > 0;
+  const dofEnabled = !!depthOfField?.enabled;
+  const blendEnabled = !!globalBlendMode && globalBlendMode.mode !== 'normal' && globalBlendMode.opacity > 0;
+
+  const chromaticEffect = useMemo(() => new ChromaticSplitEffect(), []);
+  const blurEffect = useMemo(() => new AtmosphericBlurEffect(), []);
+  const gradientEffect = useMemo(() => new GradientOverlayEffect(), []);
+  const overlayEffect = useMemo(() => new ColorOverlayEffect(), []);
+
+  useEffect(() => {
+    return () => {
+      chromaticEffect.dispose();
+      blurEffect.dispose();
+      gradientEffect.dispose();
+      overlayEffect.dispose();
+    };
+  }, [chromaticEffect, blurEffect, gradientEffect, overlayEffect]);
+
+  // Keep custom effect uniforms in sync with the store
+  useEffect(() => {
+    if (!chromatic) return;
+    const aberration = chromatic.aberration ?? 0;
+    chromaticEffect.uniforms.get('offset')!.value.set(aberration * 0.0008, -aberration * 0.0005);
+    chromaticEffect.uniforms.get('redColor')!.value.set(chromatic.aberrationColors?.red || '#ff0000');
+    chromaticEffect.uniforms.get('greenColor')!.value.set(chromatic.aberrationColors?.green || '#00ff00');
+    chromaticEffect.uniforms.get('blueColor')!.value.set(chromatic.aberrationColors?.blue || '#0000ff');
+  }, [chromaticEffect, chromatic]);
+
+  useEffect(() => {
+    if (!atmosphericBlur) return;
+    blurEffect.uniforms.get('radius')!.value = atmosphericBlur.intensity * 4;
+    blurEffect.uniforms.get('rings')!.value = Math.max(1, Math.min(5, Math.round(atmosphericBlur.layers || 1)));
+  }, [blurEffect, atmosphericBlur]);
+
+  useEffect(() => {
+    const rainbow = chromatic?.rainbow;
+    if (!rainbow) return;
+    const colors = (rainbow.colors || []).slice(0, MAX_GRADIENT_COLORS);
+    const colorUniforms = gradientEffect.uniforms.get('colors')!.value as THREE.Color[];
+    colors.forEach((color, i) => colorUniforms[i].set(color));
+    gradientEffect.uniforms.get('colorCount')!.value = colors.length;
+    gradientEffect.uniforms.get('angle')!.value = THREE.MathUtils.degToRad(rainbow.rotation ?? 0);
+    gradientEffect.uniforms.get('speed')!.value = rainbow.speed ?? 0;
+    gradientEffect.blendMode.blendFunction = getBlendFunction(rainbow.blendMode);
+    gradientEffect.blendMode.opacity.value = Math.min(1, (rainbow.opacity ?? 1) * rainbow.intensity);
+  }, [gradientEffect, chromatic?.rainbow]);
+
+  useEffect(() => {
+    if (!globalBlendMode) return;
+    overlayEffect.uniforms.get('color')!.value.set(getBlendOverlayColor(globalBlendMode.mode));
+    overlayEffect.blendMode.blendFunction = getBlendFunction(globalBlendMode.mode);
+    overlayEffect.blendMode.opacity.value = globalBlendMode.opacity;
+  }, [overlayEffect, globalBlendMode]);
+
+  if (!bloomEnabled && !colorEnabled && !aberrationEnabled && !rainbowEnabled &&
+      !blurEnabled && !dofEnabled && !blendEnabled && vignette <= 0) {
+    return null;
+  }
+
+  // EffectComposer only accepts elements as children, so the enabled passes are collected in order
+  const passes: JSX.Element[] = [];
+  if (dofEnabled) {
+    passes.push(
+      <DepthOfField
+        key="dof"
+        worldFocusDistance={depthOfField.focusDistance}
+        // Longer lenses give a shallower in-focus band
+        worldFocusRange={Math.max(1, 400 / Math.max(1, depthOfField.focalLength))}
+        bokehScale={depthOfField.bokehScale * (1 + depthOfField.blur * 4)}
+      />
+    );
+  }
+  if (blurEnabled) passes.push(<primitive key="blur" object={blurEffect} />);
+  if (bloomEnabled) {
+    passes.push(
+      <Bloom
+        key="bloom"
+        intensity={glow * 2}
+        luminanceThreshold={0.2}
+        luminanceSmoothing={0.6}
+        mipmapBlur
+      />
+    );
+  }
+  if (aberrationEnabled) passes.push(<primitive key="chromatic" object={chromaticEffect} />);
+  if (rainbowEnabled) passes.push(<primitive key="rainbow" object={gradientEffect} />);
+  if (colorEnabled) {
+    passes.push(<BrightnessContrast key="brightness-contrast" brightness={brightness} contrast={contrast} />);
+    passes.push(<HueSaturation key="hue-saturation" hue={hue} saturation={saturation} />);
+  }
+  if (vignette > 0) passes.push(<Vignette key="vignette" offset={0.3} darkness={Math.min(1, vignette * 1.5)} />);
+  if (blendEnabled) passes.push(<primitive key="blend" object={overlayEffect} />);
+
+  return (
+    <EffectComposer ref={sceneExporter.setComposer} multisampling={0}>
+      {passes}
+    </EffectComposer>
+  );
+};
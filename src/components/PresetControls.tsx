@@ -3,6 +3,9 @@ import { useVisualStore } from '../store/visualStore';
 import { PresetClient } from '../lib/presetClient';
 import { Preset } from '../types/preset';
 import { PresetShareButton } from './PresetShareButton';
+import { AuthPanel } from './AuthPanel';
+import { useAuthStore } from '../store/authStore';
+import { canCreatePreset, canModifyPreset } from '../lib/presetPermissions';
 import styles from './GlobalEffectsDashboard.module.css';
 
 const PresetControls: React.FC = React.memo(() => {
@@ -17,6 +20,7 @@ const PresetControls: React.FC = React.memo(() => {
   const [isLoading, setIsLoading] = useState(false);
   const [storageMode, setStorageMode] = useState<'local' | 'cloud'>('local');
   const [isLoadingCloud, setIsLoadingCloud] = useState(false);
+  const currentUser = useAuthStore((state) => state.user);
 
   // Refresh available presets when component mounts or after operations
   const refreshPresets = useCallback(() => {
@@ -70,7 +74,10 @@ const PresetControls: React.FC = React.memo(() => {
             background: currentState.background,
             backgroundConfig: currentState.backgroundConfig,
             ui: {}, // Empty UI state
-            globalAnimationSpeed: currentState.globalAnimationSpeed || 1
+            globalAnimationSpeed: currentState.globalAnimationSpeed || 1,
+            seed: currentState.seed,
+            modulators: currentState.modulators,
+            mappingRules: currentState.mappingRules
           }
         };
         
@@ -128,6 +135,15 @@ const PresetControls: React.FC = React.memo(() => {
           if (typeof preset.data.globalAnimationSpeed === 'number') {
             currentState.updateGlobalAnimationSpeed(preset.data.globalAnimationSpeed);
           }
+          if (typeof preset.data.seed === 'number') {
+            currentState.setSeed(preset.data.seed);
+          }
+          if (Array.isArray(preset.data.modulators)) {
+            currentState.setModulators(preset.data.modulators);
+          }
+          if (Array.isArray(preset.data.mappingRules)) {
+            currentState.setMappingRules(preset.data.mappingRules);
+          }
         }
       }
     } catch (error) {
@@ -204,6 +220,8 @@ const PresetControls: React.FC = React.memo(() => {
         </p>
       </div>
 
+      {storageMode === 'cloud' && <AuthPanel />}
+
       {/* Save New Preset */}
       <div className="bg-black/20 rounded-lg p-3 mb-4">
         <h4 className="text-white font-medium mb-3">Save Current Settings</h4>
@@ -228,7 +246,7 @@ const PresetControls: React.FC = React.memo(() => {
           )}
           <button 
             onClick={handleSave}
-            disabled={!presetName.trim() || isSaving}
+            disabled={!presetName.trim() || isSaving || (storageMode === 'cloud' && !canCreatePreset(currentUser))}
             className={styles.saveButton}
           >
             {isSaving ? 'Saving...' : 'Save'}
@@ -311,7 +329,10 @@ const PresetControls: React.FC = React.memo(() => {
                 </button>
                 <button 
                   onClick={handleDelete}
-                  disabled={!selectedCloudPreset || isLoading}
+                  disabled={!selectedCloudPreset || isLoading || !canModifyPreset(
+                    currentUser,
+                    availableCloudPresets.find(p => p._id?.toString() === selectedCloudPreset) || {}
+                  )}
                   className={`${styles.buttonDanger} ${isLoading ? styles.buttonDisabled : ''}`}
                 >
                   Delete
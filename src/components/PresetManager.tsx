@@ -4,6 +4,10 @@ import React, { useState, useEffect } from 'react';
 import { PresetClient } from '@/lib/presetClient';
 import { Preset } from '@/types/preset';
 import { useVisualStore } from '@/store/visualStore';
+import { PresetRevisionHistory } from './PresetRevisionHistory';
+import { AuthPanel } from './AuthPanel';
+import { useAuthStore } from '@/store/authStore';
+import { canCreatePreset, canModifyPreset } from '@/lib/presetPermissions';
 
 export const PresetManager: React.FC = () => {
   const [presets, setPresets] = useState<Preset[]>([]);
@@ -13,8 +17,10 @@ export const PresetManager: React.FC = () => {
   const [presetDescription, setPresetDescription] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [historyPresetId, setHistoryPresetId] = useState<string | null>(null);
 
   const visualStore = useVisualStore();
+  const currentUser = useAuthStore((state) => state.user);
 
   useEffect(() => {
     loadPresets();
@@ -53,7 +59,10 @@ export const PresetManager: React.FC = () => {
         effects: visualStore.effects,
         background: visualStore.background,
         ui: visualStore.ui,
-        globalAnimationSpeed: visualStore.globalAnimationSpeed
+        globalAnimationSpeed: visualStore.globalAnimationSpeed,
+        seed: visualStore.seed,
+        modulators: visualStore.modulators,
+        mappingRules: visualStore.mappingRules
       };
 
       await PresetClient.createPreset({
@@ -95,6 +104,9 @@ export const PresetManager: React.FC = () => {
       if (preset.data.backgroundConfig) visualStore.updateBackgroundConfig(preset.data.backgroundConfig);
       if (preset.data.effects) visualStore.updateEffects(preset.data.effects);
       if (preset.data.background) visualStore.updateBackground(preset.data.background);
+      if (typeof preset.data.seed === 'number') visualStore.setSeed(preset.data.seed);
+      if (Array.isArray(preset.data.modulators)) visualStore.setModulators(preset.data.modulators);
+      if (Array.isArray(preset.data.mappingRules)) visualStore.setMappingRules(preset.data.mappingRules);
 
       setSuccess(`Preset "${preset.name}" loaded successfully!`);
     } catch (err) {
@@ -124,6 +136,11 @@ export const PresetManager: React.FC = () => {
     }
   };
 
+  const handleRestored = (preset: Preset) => {
+    setSuccess(`Preset "${preset.name}" restored`);
+    loadPresets(); // Refresh the list
+  };
+
   return (
     <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4 border border-white/20">
       <div className="flex justify-between items-center mb-4">
@@ -131,12 +148,14 @@ export const PresetManager: React.FC = () => {
         <button
           onClick={() => setSaveDialogOpen(true)}
           className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors"
-          disabled={loading}
+          disabled={loading || !canCreatePreset(currentUser)}
         >
           Save Current
         </button>
       </div>
 
+      <AuthPanel />
+
       {error && (
         <div className="mb-4 p-3 bg-red-500/20 border border-red-500/50 rounded-md text-red-200">
           {error}
@@ -196,33 +215,58 @@ export const PresetManager: React.FC = () => {
           presets.map((preset) => (
             <div
               key={preset._id?.toString()}
-              className="flex justify-between items-center p-3 bg-gray-800/30 rounded-md border border-white/10"
+              className="p-3 bg-gray-800/30 rounded-md border border-white/10"
             >
-              <div className="flex-1">
-                <h4 className="text-white font-medium">{preset.name}</h4>
-                {preset.description && (
-                  <p className="text-gray-400 text-sm">{preset.description}</p>
-                )}
-                <p className="text-gray-500 text-xs">
-                  {new Date(preset.updatedAt).toLocaleDateString()}
-                </p>
+              <div className="flex justify-between items-center">
+                <div className="flex-1">
+                  <h4 className="text-white font-medium">
+                    {preset.name}
+                    {preset.isSystem && <span className="ml-2 text-xs text-amber-300">system</span>}
+                  </h4>
+                  {preset.description && (
+                    <p className="text-gray-400 text-sm">{preset.description}</p>
+                  )}
+                  <p className="text-gray-500 text-xs">
+                    {new Date(preset.updatedAt).toLocaleDateString()}
+                    {preset.createdBy && ` · ${preset.createdBy}`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => loadPreset(preset)}
+                    className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded transition-colors"
+                    disabled={loading}
+                  >
+                    Load
+                  </button>
+                  <button
+                    onClick={() => setHistoryPresetId(
+                      historyPresetId === preset._id?.toString() ? null : preset._id?.toString() ?? null
+                    )}
+                    className="px-3 py-1 bg-gray-600 hover:bg-gray-700 text-white text-sm rounded transition-colors"
+                    disabled={loading}
+                  >
+                    History
+                  </button>
+                  {canModifyPreset(currentUser, preset) && (
+                    <button
+                      onClick={() => deletePreset(preset)}
+                      className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white text-sm rounded transition-colors"
+                      disabled={loading}
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
               </div>
-              <div className="flex gap-2">
-                <button
-                  onClick={() => loadPreset(preset)}
-                  className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded transition-colors"
+              {historyPresetId === preset._id?.toString() && (
+                <PresetRevisionHistory
+                  preset={preset}
+                  onRestored={handleRestored}
+                  canRestore={canModifyPreset(currentUser, preset)}
                   disabled={loading}
-                >
-                  Load
-                </button>
-                <button
-                  onClick={() => deletePreset(preset)}
-                  className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white text-sm rounded transition-colors"
-                  disabled={loading}
-                >
-                  Delete
-                </button>
-              </div>
+                />
+              )}
             </div>
           ))
         )}
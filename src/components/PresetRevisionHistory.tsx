@@ -0,0 +1,166 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { PresetClient } from '@/lib/presetClient';
+import { Preset, PresetRevisionDiff, PresetRevisionSummary } from '@/types/preset';
+import { useVisualStore } from '@/store/visualStore';
+
+interface PresetRevisionHistoryProps {
+  preset: Preset;
+  onRestored: (preset: Preset) => void;
+  canRestore?: boolean;
+  disabled?: boolean;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return '—';
+  const text = JSON.stringify(value);
+  return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+};
+
+export const PresetRevisionHistory: React.FC<PresetRevisionHistoryProps> = ({ preset, onRestored, canRestore, disabled }) => {
+  const [revisions, setRevisions] = useState<PresetRevisionSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [diff, setDiff] = useState<PresetRevisionDiff | null>(null);
+
+  const loadPresetData = useVisualStore((state) => state.loadPresetData);
+  const presetId = preset._id?.toString() || '';
+
+  const loadRevisions = useCallback(async () => {
+    if (!presetId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await PresetClient.getRevisions(presetId);
+      setRevisions(response.revisions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load revisions');
+    } finally {
+      setLoading(false);
+    }
+  }, [presetId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions, preset.updatedAt]);
+
+  const previewRevision = async (revision: number) => {
+    try {
+      setError(null);
+      const entry = await PresetClient.getRevision(presetId, revision);
+      loadPresetData(entry.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load revision');
+    }
+  };
+
+  // Show what a revision changed relative to the one before it
+  const showChanges = async (revision: number) => {
+    if (diff?.to === revision) {
+      setDiff(null);
+      return;
+    }
+    try {
+      setError(null);
+      setDiff(await PresetClient.diffRevisions(presetId, revision - 1, revision));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to diff revisions');
+    }
+  };
+
+  const restoreRevision = async (revision: number) => {
+    if (!confirm(`Restore "${preset.name}" to revision ${revision}? This is saved as a new revision.`)) {
+      return;
+    }
+    try {
+      setLoading(true);
+      setError(null);
+      const restored = await PresetClient.restoreRevision(presetId, revision);
+      setDiff(null);
+      onRestored(restored);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const latestRevision = revisions[0]?.revision;
+
+  return (
+    <div className="mt-2 p-2 bg-gray-900/40 rounded-md border border-white/10">
+      {error && (
+        <div className="mb-2 p-2 bg-red-500/20 border border-red-500/50 rounded text-red-200 text-xs">
+          {error}
+        </div>
+      )}
+
+      {loading && revisions.length === 0 ? (
+        <div className="text-center text-gray-400 text-xs py-2">Loading history...</div>
+      ) : revisions.length === 0 ? (
+        <div className="text-center text-gray-400 text-xs py-2">No revisions recorded yet</div>
+      ) : (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {revisions.map((entry) => (
+            <div key={entry.revision}>
+              <div className="flex justify-between items-center gap-2 text-xs">
+                <div className="flex-1 min-w-0">
+                  <span className="text-white font-medium">#{entry.revision}</span>
+                  <span className="text-gray-300 ml-2 truncate">{entry.message}</span>
+                  <div className="text-gray-500">
+                    {new Date(entry.createdAt).toLocaleString()} · {entry.author}
+                  </div>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    onClick={() => previewRevision(entry.revision)}
+                    className="px-2 py-0.5 bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors"
+                    disabled={disabled || loading}
+                  >
+                    Preview
+                  </button>
+                  {entry.revision > 1 && (
+                    <button
+                      onClick={() => showChanges(entry.revision)}
+                      className="px-2 py-0.5 bg-gray-600 hover:bg-gray-700 text-white rounded transition-colors"
+                      disabled={disabled || loading}
+                    >
+                      {diff?.to === entry.revision ? 'Hide' : 'Changes'}
+                    </button>
+                  )}
+                  {canRestore && entry.revision !== latestRevision && (
+                    <button
+                      onClick={() => restoreRevision(entry.revision)}
+                      className="px-2 py-0.5 bg-amber-600 hover:bg-amber-700 text-white rounded transition-colors"
+                      disabled={disabled || loading}
+                    >
+                      Restore
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {diff?.to === entry.revision && (
+                <div className="mt-1 mb-2 p-2 bg-black/30 rounded text-xs font-mono">
+                  {diff.changes.length === 0 ? (
+                    <div className="text-gray-400">No changes</div>
+                  ) : (
+                    diff.changes.map((change) => (
+                      <div key={change.path} className="flex gap-2">
+                        <span className="text-gray-300 truncate">{change.path}</span>
+                        <span className="text-red-300">{formatValue(change.from)}</span>
+                        <span className="text-gray-500">→</span>
+                        <span className="text-green-300">{formatValue(change.to)}</span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -5,6 +5,9 @@ import React, { useState, useEffect } from 'react';
 import { useVisualStore } from '../store/visualStore';
 import { PresetClient } from '../lib/presetClient';
 import { generatePresetURL, copyPresetURL } from '../hooks/usePresetFromURL';
+import { ImageExportPanel } from './ImageExportPanel';
+import { RecordingPanel } from './RecordingPanel';
+import { PlaylistPanel } from './PlaylistPanel';
 
 interface QuickPresetShareProps {
   onClose?: () => void;
@@ -176,6 +179,24 @@ export const QuickPresetShare: React.FC<QuickPresetShareProps> = ({ onClose }) =
       <div style={{ marginTop: '12px', fontSize: '11px', opacity: 0.6, textAlign: 'center' }}>
         Click 🔗 to copy shareable URL
       </div>
+
+      {/* Auto-cycling playlists (kiosk URLs) */}
+      <div style={{ marginTop: '16px', paddingTop: '12px', borderTop: '1px solid rgba(255,255,255,0.2)' }}>
+        <h4 style={{ margin: '0 0 8px 0', fontSize: '14px', opacity: 0.8 }}>Playlists</h4>
+        <PlaylistPanel />
+      </div>
+
+      {/* High-resolution still export */}
+      <div style={{ marginTop: '16px', paddingTop: '12px', borderTop: '1px solid rgba(255,255,255,0.2)' }}>
+        <h4 style={{ margin: '0 0 8px 0', fontSize: '14px', opacity: 0.8 }}>Export Image</h4>
+        <ImageExportPanel />
+      </div>
+
+      {/* Video and frame-sequence recording */}
+      <div style={{ marginTop: '16px', paddingTop: '12px', borderTop: '1px solid rgba(255,255,255,0.2)' }}>
+        <h4 style={{ margin: '0 0 8px 0', fontSize: '14px', opacity: 0.8 }}>Record</h4>
+        <RecordingPanel />
+      </div>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,149 @@
+// RecordingPanel.tsx
+// Real-time WebM recording and deterministic PNG-sequence rendering of the canvas
+
+import React, { useEffect, useState } from 'react';
+import { useVisualStore } from '../store/visualStore';
+import { canvasRecorder, getSupportedVideoType, MAX_ZIP_BYTES, useRecorderStatus } from '../utils/canvasRecorder';
+import { downloadBlob } from '../utils/imageExport';
+
+const inputStyle: React.CSSProperties = {
+  backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  color: 'white',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '4px',
+  padding: '4px 6px',
+  fontSize: '12px',
+  width: '64px'
+};
+
+const buttonStyle = (color: string): React.CSSProperties => ({
+  backgroundColor: color,
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  padding: '6px 12px',
+  fontSize: '12px',
+  cursor: 'pointer',
+  flex: 1
+});
+
+export const RecordingPanel: React.FC = () => {
+  const seed = useVisualStore((state) => state.seed);
+  const status = useRecorderStatus();
+  const [fps, setFps] = useState(30);
+  const [duration, setDuration] = useState(10);
+  const [progress, setProgress] = useState<{ frame: number; total: number } | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const canRecordVideo = typeof window !== 'undefined' && getSupportedVideoType() !== null;
+
+  // Recording timer
+  useEffect(() => {
+    if (status !== 'recording') return;
+    const startedAt = Date.now();
+    setElapsed(0);
+    const interval = setInterval(() => setElapsed(Math.floor((Date.now() - startedAt) / 1000)), 500);
+    return () => clearInterval(interval);
+  }, [status]);
+
+  const toggleVideo = async () => {
+    setError(null);
+    try {
+      if (status === 'recording') {
+        const blob = await canvasRecorder.stopVideo();
+        downloadBlob(blob, `canvas_${seed}_${new Date().toISOString().replace(/[:.]/g, '-')}.webm`);
+      } else {
+        canvasRecorder.startVideo(fps);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Recording failed');
+    }
+  };
+
+  const renderFrames = async () => {
+    setError(null);
+    setNotice(null);
+    setProgress(null);
+    try {
+      const result = await canvasRecorder.renderFrames({
+        fps,
+        duration,
+        baseName: `canvas_${seed}`,
+        onProgress: (frame, total) => setProgress({ frame, total })
+      });
+      if (result.truncated) {
+        setNotice(
+          `The ZIP reached its ${MAX_ZIP_BYTES / 1024 ** 3} GB limit after ${result.written} of ${result.total} frames. ` +
+          'Render a shorter clip or use a browser that can save to a folder (Chrome, Edge).'
+        );
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Frame rendering failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', fontSize: '12px' }}>
+      <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+        <label>FPS</label>
+        <input
+          type="number"
+          min={1}
+          max={60}
+          value={fps}
+          disabled={status !== 'idle'}
+          onChange={(e) => setFps(Math.max(1, Math.min(60, parseInt(e.target.value, 10) || 1)))}
+          style={inputStyle}
+        />
+        <label>Seconds</label>
+        <input
+          type="number"
+          min={1}
+          max={300}
+          value={duration}
+          disabled={status !== 'idle'}
+          onChange={(e) => setDuration(Math.max(1, Math.min(300, parseFloat(e.target.value) || 1)))}
+          style={inputStyle}
+        />
+      </div>
+
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <button
+          onClick={toggleVideo}
+          disabled={!canRecordVideo || status === 'rendering'}
+          style={buttonStyle(status === 'recording' ? 'rgba(239, 68, 68, 0.9)' : 'rgba(59, 130, 246, 0.8)')}
+          title={canRecordVideo ? 'Record the live canvas to WebM' : 'WebM recording is not supported in this browser'}
+        >
+          {status === 'recording' ? `⏹ Stop (${elapsed}s)` : '⏺ Record WebM'}
+        </button>
+        {status === 'rendering' ? (
+          <button onClick={() => canvasRecorder.cancelFrames()} style={buttonStyle('rgba(239, 68, 68, 0.9)')}>
+            Cancel {progress ? `${progress.frame}/${progress.total}` : ''}
+          </button>
+        ) : (
+          <button
+            onClick={renderFrames}
+            disabled={status !== 'idle'}
+            style={buttonStyle('rgba(16, 185, 129, 0.8)')}
+            title="Step the clock at a fixed rate and save every frame as PNG"
+          >
+            🎞️ Render {Math.round(fps * duration)} frames
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div style={{ color: '#fca5a5' }}>{error}</div>
+      )}
+      {notice && (
+        <div style={{ color: '#fcd34d' }}>{notice}</div>
+      )}
+      <div style={{ fontSize: '11px', opacity: 0.6 }}>
+        Frame sequences render at a fixed {fps} fps regardless of actual frame rate; the live view pauses while rendering.
+      </div>
+    </div>
+  );
+};
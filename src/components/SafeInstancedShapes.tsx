@@ -1,8 +1,9 @@
 import React, { useRef, useMemo, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { useVisualStore } from '../store/visualStore';
+import { useSceneState } from '../utils/sceneOverlay';
 import { resourceManager } from '../utils/ResourceManager';
+import { createSceneRandom } from '../utils/seededRandom';
 
 // EMERGENCY SAFE VERSION - Addresses browser crash issues
 const UPDATE_FREQUENCY = 4; // Reduced from 2 for safety
@@ -62,7 +63,7 @@ const calculateSafeDistortion = (
 };
 
 export const SafeInstancedSpheres = () => {
-  const { globalEffects, backgroundConfig, globalAnimationSpeed, geometric } = useVisualStore();
+  const { globalEffects, backgroundConfig, globalAnimationSpeed, geometric, seed } = useSceneState();
   const { spheres } = geometric;
   const { shapeGlow } = globalEffects;
   
@@ -73,15 +74,16 @@ export const SafeInstancedSpheres = () => {
   
   // Safe geometry with bounds checking
   const geometry = useMemo(() => {
-    const key = `safe-sphere-geo-${Math.min(0.5, spheres.organicness || 0)}`;
+    const key = `safe-sphere-geo-${Math.min(0.5, spheres.organicness || 0)}-${seed}`;
     return resourceManager.getOrCreateGeometry(key, () => {
       const geo = new THREE.SphereGeometry(1, 12, 12); // Reduced quality for performance
       const safeOrganicness = Math.max(0, Math.min(0.3, spheres.organicness || 0));
       
       if (safeOrganicness > 0) {
+        const random = createSceneRandom(seed, 'spheres', 'instancedGeometry');
         const positions = geo.attributes.position.array;
         for (let i = 0; i < positions.length; i += 3) {
-          const noise = (Math.random() - 0.5) * safeOrganicness;
+          const noise = random.centered(safeOrganicness);
           positions[i] = safeAdd(positions[i], noise);
           positions[i + 1] = safeAdd(positions[i + 1], noise);
           positions[i + 2] = safeAdd(positions[i + 2], noise);
@@ -91,7 +93,7 @@ export const SafeInstancedSpheres = () => {
       }
       return geo;
     });
-  }, [spheres.organicness]);
+  }, [spheres.organicness, seed]);
   
   // Safe material
   const material = useMemo(() => {
@@ -115,16 +117,17 @@ export const SafeInstancedSpheres = () => {
   const positions = useMemo(() => {
     const pos = [];
     const safeCount = Math.max(0, Math.min(MAX_INSTANCES, spheres.count || 0));
+    const random = createSceneRandom(seed, 'spheres', 'layout');
     for (let i = 0; i < safeCount; i++) {
       pos.push({
-        x: (Math.random() - 0.5) * 40, // Reduced spread
-        y: (Math.random() - 0.5) * 25,
-        z: (Math.random() - 0.5) * 30,
-        phase: Math.random() * Math.PI * 2
+        x: random.centered(40), // Reduced spread
+        y: random.centered(25),
+        z: random.centered(30),
+        phase: random.range(0, Math.PI * 2)
       });
     }
     return pos;
-  }, [spheres.count]);
+  }, [spheres.count, seed]);
   
   // Initialize with safety checks
   useEffect(() => {
@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import { useVisualStore } from '../store/visualStore';
+import { MAX_SEED } from '../utils/seededRandom';
+
+// Shows the scene seed with a reshuffle button; typing a seed reproduces a shared layout
+export const SceneSeedControl: React.FC = () => {
+  const seed = useVisualStore((state) => state.seed);
+  const setSeed = useVisualStore((state) => state.setSeed);
+  const reshuffleSeed = useVisualStore((state) => state.reshuffleSeed);
+  const [draft, setDraft] = useState(String(seed));
+
+  useEffect(() => {
+    setDraft(String(seed));
+  }, [seed]);
+
+  const commitDraft = () => {
+    const value = Number(draft);
+    if (draft.trim() !== '' && Number.isInteger(value) && value >= 0 && value <= MAX_SEED) {
+      setSeed(value);
+    } else {
+      setDraft(String(seed));
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 mb-2">
+      <label className="text-sm text-gray-300 shrink-0">Seed</label>
+      <input
+        type="text"
+        inputMode="numeric"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commitDraft}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commitDraft();
+        }}
+        className="flex-1 min-w-0 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-white text-sm font-mono"
+      />
+      <button
+        onClick={() => reshuffleSeed()}
+        className="px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white rounded text-sm transition-colors"
+        title="Pick a new seed and regenerate every layout"
+      >
+        Reshuffle
+      </button>
+    </div>
+  );
+};
+
+export default SceneSeedControl;
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useVisualStore } from '../store/visualStore';
 import styles from './ShapeParticleDashboard.module.css';
 import CollapsibleSection from './CollapsibleSection';
+import SceneSeedControl from './SceneSeedControl';
 
 interface SliderControlProps {
   label: string;
@@ -229,6 +230,13 @@ export const ShapeParticleDashboard = React.memo(() => {
         width: 0.6,
         fadeRate: 0.5,
       },
+      crystalTrails: {
+        enabled: true,
+        length: 120,
+        opacity: 0.6,
+        width: 0.7,
+        fadeRate: 0.35,
+      },
       particleTrails: {
         enabled: true,
         length: 300,
@@ -318,6 +326,9 @@ export const ShapeParticleDashboard = React.memo(() => {
       </div>
 
       <div className={styles.tabContent}>
+        {/* Scene seed drives every shape and particle layout */}
+        <SceneSeedControl />
+
         {/* Particles Controls */}
         <CollapsibleSection title="Particles" defaultExpanded={false}>
           <SliderControl
@@ -733,6 +744,99 @@ export const ShapeParticleDashboard = React.memo(() => {
           />
         </CollapsibleSection>
 
+        {/* Crystals Controls */}
+        <CollapsibleSection title="Crystals" defaultExpanded={false}>
+          <SliderControl
+            label="Count"
+            value={geometric.crystals.count || 0}
+            min={0}
+            max={60}
+            step={1}
+            onChange={(value) => updateGeometric('crystals', { count: value })}
+          />
+          <SliderControl
+            label="Size"
+            value={geometric.crystals.size || 1.0}
+            min={0.2}
+            max={10}
+            onChange={(value) => updateGeometric('crystals', { size: value })}
+          />
+          <SliderControl
+            label="Complexity"
+            value={geometric.crystals.complexity ?? 16}
+            min={0}
+            max={64}
+            step={1}
+            onChange={(value) => updateGeometric('crystals', { complexity: value })}
+          />
+          <SliderControl
+            label="Organicness"
+            value={geometric.crystals.organicness ?? 0.2}
+            min={0}
+            max={2}
+            onChange={(value) => updateGeometric('crystals', { organicness: value })}
+          />
+          <SliderControl
+            label="Rotation"
+            value={geometric.crystals.rotation ?? 2.0}
+            min={-5}
+            max={5}
+            onChange={(value) => updateGeometric('crystals', { rotation: value })}
+          />
+          <SliderControl
+            label="Speed"
+            value={geometric.crystals.speed ?? 0.6}
+            min={0}
+            max={3}
+            onChange={(value) => updateGeometric('crystals', { speed: value })}
+          />
+          <SliderControl
+            label="Opacity"
+            value={geometric.crystals.opacity ?? 0.9}
+            min={0}
+            max={1}
+            onChange={(value) => updateGeometric('crystals', { opacity: value })}
+          />
+          <ColorControl
+            label="Color"
+            value={geometric.crystals.color || '#4ecdc4'}
+            onChange={(value) => updateGeometric('crystals', { color: value })}
+          />
+          <SliderControl
+            label="Distance"
+            value={geometric.crystals.distance || 2.0}
+            min={0.1}
+            max={10}
+            step={0.1}
+            onChange={(value) => updateGeometric('crystals', { distance: value })}
+          />
+          <ToggleControl
+            label="Pulse"
+            value={geometric.crystals.pulseEnabled}
+            onChange={(value) => updateGeometric('crystals', { pulseEnabled: value })}
+          />
+          {geometric.crystals.pulseEnabled && (
+            <SliderControl
+              label="Pulse Size"
+              value={geometric.crystals.pulseSize}
+              min={0.1}
+              max={3}
+              onChange={(value) => updateGeometric('crystals', { pulseSize: value })}
+            />
+          )}
+          <SelectControl
+            label="Movement Pattern"
+            value={geometric.crystals.movementPattern}
+            options={[
+              { value: 'orbit', label: 'Orbit' },
+              { value: 'verticalSine', label: 'Vertical Sine' },
+              { value: 'static', label: 'Static' },
+              { value: 'random', label: 'Random' }
+            ]}
+            onChange={value => updateGeometric('crystals', { movementPattern: value as any })}
+          />
+        </CollapsibleSection>
+
         {/* Fireflies Controls */}
         <CollapsibleSection title="Fireflies" defaultExpanded={false}>
           <ToggleControl
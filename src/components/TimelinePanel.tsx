@@ -0,0 +1,416 @@
+// TimelinePanel.tsx
+// Keyframe timeline editor: tracks on any state path, scrubbing, playback and cloud save/load
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useVisualStore } from '../store/visualStore';
+import { useAuthStore } from '../store/authStore';
+import { TimelineClient } from '../lib/timelineClient';
+import { PresetClient } from '../lib/presetClient';
+import { canCreatePreset, canModifyPreset } from '../lib/presetPermissions';
+import type { Timeline, TimelineData, TimelineEasing, TimelineKeyframe } from '../types/timeline';
+import type { Preset } from '../types/preset';
+import {
+  TIMELINE_EASINGS,
+  createEmptyTimeline,
+  createTrack,
+  formatTimelineValue,
+  getPathValue,
+  isTimelineValue,
+  listAnimatablePaths,
+  removeKeyframe,
+  updateKeyframe,
+  upsertKeyframe
+} from '../utils/timeline';
+import { timelinePlayer, useTimelinePlayer } from '../utils/timelinePlayer';
+
+interface TimelinePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface KeySelection {
+  trackId: string;
+  index: number;
+}
+
+const inputClass = 'bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white';
+const buttonClass = 'px-2 py-1 rounded text-xs text-white disabled:opacity-40';
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(2).padStart(5, '0')}`;
+};
+
+export const TimelinePanel: React.FC<TimelinePanelProps> = ({ isOpen, onClose }) => {
+  const loadPresetData = useVisualStore((state) => state.loadPresetData);
+  const currentUser = useAuthStore((state) => state.user);
+  const playback = useTimelinePlayer();
+
+  const [data, setData] = useState<TimelineData>(() => timelinePlayer.getData() ?? createEmptyTimeline());
+  const [saved, setSaved] = useState<Timeline | null>(null);
+  const [name, setName] = useState('');
+  const [presetId, setPresetId] = useState('');
+  const [timelines, setTimelines] = useState<Timeline[]>([]);
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [newTrackPath, setNewTrackPath] = useState('');
+  const [selection, setSelection] = useState<KeySelection | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Edits apply to the running show immediately
+  useEffect(() => {
+    timelinePlayer.load(data);
+  }, [data]);
+
+  const refreshLists = useCallback(async () => {
+    try {
+      const [timelineList, presetList] = await Promise.all([
+        TimelineClient.getTimelines(),
+        PresetClient.getPresets({ limit: 100 })
+      ]);
+      setTimelines(timelineList.timelines);
+      setPresets(presetList.presets);
+    } catch (err) {
+      console.error('Failed to load timelines:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) refreshLists();
+  }, [isOpen, refreshLists]);
+
+  const animatablePaths = useMemo(
+    () => (isOpen ? listAnimatablePaths(useVisualStore.getState()) : []),
+    [isOpen]
+  );
+  const usedPaths = new Set(data.tracks.map((track) => track.path));
+
+  const updateTrack = (trackId: string, update: (track: TimelineData['tracks'][number]) => TimelineData['tracks'][number]) => {
+    setData((current) => ({
+      ...current,
+      tracks: current.tracks.map((track) => (track.id === trackId ? update(track) : track))
+    }));
+  };
+
+  const readStoreValue = (path: string) => {
+    const value = getPathValue(useVisualStore.getState(), path);
+    return isTimelineValue(value) ? value : undefined;
+  };
+
+  const addTrack = () => {
+    const value = readStoreValue(newTrackPath);
+    if (value === undefined) return;
+    setData((current) => ({ ...current, tracks: [...current.tracks, createTrack(newTrackPath, value, playback.time)] }));
+    setNewTrackPath('');
+  };
+
+  // Record the live value of the track's path at the playhead
+  const captureKey = (trackId: string, path: string) => {
+    const value = readStoreValue(path);
+    if (value === undefined) return;
+    updateTrack(trackId, (track) => upsertKeyframe(track, { time: playback.time, value }));
+  };
+
+  const selectedTrack = selection ? data.tracks.find((track) => track.id === selection.trackId) : undefined;
+  const selectedKey = selectedTrack?.keyframes[selection!.index];
+
+  const editSelectedKey = (changes: Partial<TimelineKeyframe>) => {
+    if (!selection || !selectedTrack) return;
+    const next = updateKeyframe(selectedTrack, selection.index, changes);
+    const edited = next.keyframes.find((key) => !selectedTrack.keyframes.includes(key));
+    updateTrack(selection.trackId, () => next);
+    // Keep the selection on the edited key after re-sorting
+    setSelection({ trackId: selection.trackId, index: edited ? next.keyframes.indexOf(edited) : selection.index });
+  };
+
+  const deleteSelectedKey = () => {
+    if (!selection) return;
+    updateTrack(selection.trackId, (track) => removeKeyframe(track, selection.index));
+    setSelection(null);
+  };
+
+  const newTimeline = () => {
+    timelinePlayer.stop();
+    setData(createEmptyTimeline());
+    setSaved(null);
+    setName('');
+    setPresetId('');
+    setSelection(null);
+  };
+
+  const openTimeline = async (id: string) => {
+    if (!id) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const timeline = await TimelineClient.getTimelineById(id);
+      timelinePlayer.stop();
+      if (timeline.presetId) {
+        const preset = await PresetClient.getPresetById(timeline.presetId);
+        loadPresetData(preset.data);
+      }
+      setData(timeline.data);
+      setSaved(timeline);
+      setName(timeline.name);
+      setPresetId(timeline.presetId || '');
+      setSelection(null);
+      timelinePlayer.load(timeline.data);
+      timelinePlayer.seek(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load timeline');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveTimeline = async () => {
+    if (!name.trim()) {
+      setError('Give the timeline a name first');
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      const payload = { name: name.trim(), presetId: presetId || undefined, data };
+      const result = saved
+        ? await TimelineClient.updateTimeline(String(saved._id), payload)
+        : await TimelineClient.createTimeline(payload);
+      setSaved(result);
+      await refreshLists();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save timeline');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const deleteTimeline = async () => {
+    if (!saved || !window.confirm(`Delete timeline "${saved.name}"?`)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await TimelineClient.deleteTimeline(String(saved._id));
+      setSaved(null);
+      await refreshLists();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete timeline');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const canSave = saved ? canModifyPreset(currentUser, saved) : canCreatePreset(currentUser);
+  const percent = (time: number) => `${(time / data.duration) * 100}%`;
+  const loopStart = data.loopStart ?? 0;
+  const loopEnd = data.loopEnd ?? data.duration;
+
+  return (
+    <div className="fixed left-1/2 bottom-24 z-50 -translate-x-1/2 w-[900px] max-w-[95vw] max-h-[60vh] overflow-y-auto bg-gray-900/95 border border-gray-700 rounded-lg p-4 shadow-2xl text-gray-200">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-bold text-amber-400">Timeline</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">✕</button>
+      </div>
+
+      {/* Library */}
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <input className={`${inputClass} w-48`} placeholder="Timeline name" value={name} onChange={(e) => setName(e.target.value)} />
+        <select className={inputClass} value={presetId} onChange={(e) => setPresetId(e.target.value)} title="Cloud preset loaded before this timeline plays">
+          <option value="">No start preset</option>
+          {presets.map((preset) => (
+            <option key={String(preset._id)} value={String(preset._id)}>{preset.name}</option>
+          ))}
+        </select>
+        <button className={`${buttonClass} bg-emerald-600`} disabled={busy || !canSave} onClick={saveTimeline}>
+          {saved ? 'Save' : 'Save new'}
+        </button>
+        <select className={inputClass} value={saved ? String(saved._id) : ''} disabled={busy} onChange={(e) => openTimeline(e.target.value)}>
+          <option value="">Open…</option>
+          {timelines.map((timeline) => (
+            <option key={String(timeline._id)} value={String(timeline._id)}>{timeline.name}</option>
+          ))}
+        </select>
+        <button className={`${buttonClass} bg-gray-700`} onClick={newTimeline}>New</button>
+        {saved && (
+          <button className={`${buttonClass} bg-red-700`} disabled={busy || !canModifyPreset(currentUser, saved)} onClick={deleteTimeline}>Delete</button>
+        )}
+      </div>
+
+      {/* Transport */}
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+        <button
+          className={`${buttonClass} bg-amber-600 w-16`}
+          disabled={data.tracks.length === 0}
+          onClick={() => (playback.status === 'playing' ? timelinePlayer.pause() : timelinePlayer.play())}
+        >
+          {playback.status === 'playing' ? '⏸ Pause' : '▶ Play'}
+        </button>
+        <button className={`${buttonClass} bg-gray-700`} onClick={() => timelinePlayer.stop()}>⏹ Stop</button>
+        <span className="font-mono w-28">{formatTime(playback.time)} / {formatTime(data.duration)}</span>
+        <label className="flex items-center gap-1">
+          Length
+          <input
+            type="number"
+            className={`${inputClass} w-16`}
+            min={1}
+            max={3600}
+            value={data.duration}
+            onChange={(e) => {
+              const duration = Math.max(1, Math.min(3600, parseFloat(e.target.value) || 1));
+              setData((current) => ({ ...current, duration }));
+            }}
+          />
+          s
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={data.loop} onChange={(e) => setData((current) => ({ ...current, loop: e.target.checked }))} />
+          Loop
+        </label>
+        {data.loop && (
+          <>
+            <input
+              type="number"
+              className={`${inputClass} w-16`}
+              min={0}
+              max={loopEnd}
+              step={0.1}
+              value={loopStart}
+              title="Loop start (s)"
+              onChange={(e) => setData((current) => ({ ...current, loopStart: Math.max(0, Math.min(loopEnd, parseFloat(e.target.value) || 0)) }))}
+            />
+            <span>→</span>
+            <input
+              type="number"
+              className={`${inputClass} w-16`}
+              min={loopStart}
+              max={data.duration}
+              step={0.1}
+              value={loopEnd}
+              title="Loop end (s)"
+              onChange={(e) => setData((current) => ({ ...current, loopEnd: Math.max(loopStart, Math.min(current.duration, parseFloat(e.target.value) || 0)) }))}
+            />
+          </>
+        )}
+      </div>
+
+      {/* Scrubber */}
+      <input
+        type="range"
+        className="w-full mb-3"
+        min={0}
+        max={data.duration}
+        step={0.01}
+        value={playback.time}
+        onChange={(e) => timelinePlayer.seek(parseFloat(e.target.value))}
+      />
+
+      {/* Tracks */}
+      <div className="space-y-1 mb-3">
+        {data.tracks.length === 0 && (
+          <div className="text-xs text-gray-500">No tracks yet. Add a parameter below, then move the playhead and press ◆ to key its current value.</div>
+        )}
+        {data.tracks.map((track) => (
+          <div key={track.id} className="flex items-center gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={!track.muted}
+              title={track.muted ? 'Unmute track' : 'Mute track'}
+              onChange={(e) => updateTrack(track.id, (current) => ({ ...current, muted: !e.target.checked }))}
+            />
+            <span className={`w-52 truncate font-mono ${track.muted ? 'text-gray-500' : ''}`} title={track.path}>{track.path}</span>
+            <div className="relative flex-1 h-5 bg-gray-800 rounded">
+              {data.loop && (
+                <div className="absolute top-0 bottom-0 bg-amber-500/10" style={{ left: percent(loopStart), width: percent(loopEnd - loopStart) }} />
+              )}
+              <div className="absolute top-0 bottom-0 w-px bg-amber-400" style={{ left: percent(playback.time) }} />
+              {track.keyframes.map((keyframe, index) => {
+                const isSelected = selection?.trackId === track.id && selection.index === index;
+                return (
+                  <button
+                    key={`${keyframe.time}-${index}`}
+                    className={`absolute top-1 w-3 h-3 -ml-1.5 rotate-45 ${isSelected ? 'bg-amber-300' : 'bg-sky-400'}`}
+                    style={{ left: percent(keyframe.time) }}
+                    title={`${keyframe.time.toFixed(2)}s · ${formatTimelineValue(keyframe.value)}`}
+                    onClick={() => {
+                      setSelection({ trackId: track.id, index });
+                      timelinePlayer.seek(keyframe.time);
+                    }}
+                  />
+                );
+              })}
+            </div>
+            <button className={`${buttonClass} bg-sky-700`} title="Key the current value at the playhead" onClick={() => captureKey(track.id, track.path)}>◆</button>
+            <button
+              className={`${buttonClass} bg-gray-700`}
+              title="Remove track"
+              onClick={() => {
+                setData((current) => ({ ...current, tracks: current.tracks.filter((t) => t.id !== track.id) }));
+                if (selection?.trackId === track.id) setSelection(null);
+              }}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Add track */}
+      <div className="flex items-center gap-2 mb-3">
+        <select className={`${inputClass} flex-1`} value={newTrackPath} onChange={(e) => setNewTrackPath(e.target.value)}>
+          <option value="">Add parameter track…</option>
+          {animatablePaths.filter((path) => !usedPaths.has(path)).map((path) => (
+            <option key={path} value={path}>{path}</option>
+          ))}
+        </select>
+        <button className={`${buttonClass} bg-sky-700`} disabled={!newTrackPath} onClick={addTrack}>Add track</button>
+      </div>
+
+      {/* Selected keyframe */}
+      {selectedTrack && selectedKey && (
+        <div className="flex flex-wrap items-center gap-2 p-2 bg-gray-800 rounded text-xs">
+          <span className="font-mono text-amber-300">{selectedTrack.path}</span>
+          <span>= {formatTimelineValue(selectedKey.value)}</span>
+          <label className="flex items-center gap-1">
+            Time
+            <input
+              type="number"
+              className={`${inputClass} w-20`}
+              min={0}
+              max={data.duration}
+              step={0.1}
+              value={selectedKey.time}
+              onChange={(e) => editSelectedKey({ time: Math.max(0, Math.min(data.duration, parseFloat(e.target.value) || 0)) })}
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            Hold
+            <input
+              type="number"
+              className={`${inputClass} w-16`}
+              min={0}
+              step={0.1}
+              value={selectedKey.hold ?? 0}
+              onChange={(e) => editSelectedKey({ hold: Math.max(0, parseFloat(e.target.value) || 0) })}
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            Easing
+            <select
+              className={inputClass}
+              value={selectedKey.easing ?? 'linear'}
+              onChange={(e) => editSelectedKey({ easing: e.target.value as TimelineEasing })}
+            >
+              {TIMELINE_EASINGS.map((easing) => (
+                <option key={easing} value={easing}>{easing}</option>
+              ))}
+            </select>
+          </label>
+          <button className={`${buttonClass} bg-red-700`} onClick={deleteSelectedKey}>Delete key</button>
+        </div>
+      )}
+
+      {error && <div className="mt-2 text-xs text-red-400">{error}</div>}
+    </div>
+  );
+};
@@ -109,6 +109,7 @@ export const TrailControlPanel: React.FC<TrailControlPanelProps> = ({ isOpen, on
     cubeTrails: { enabled: false, length: 40, opacity: 0.5, width: 0.7, fadeRate: 0.4 },
     blobTrails: { enabled: false, length: 60, opacity: 0.7, width: 0.9, fadeRate: 0.2 },
     torusTrails: { enabled: false, length: 35, opacity: 0.5, width: 0.6, fadeRate: 0.5 },
+    crystalTrails: { enabled: false, length: 40, opacity: 0.6, width: 0.7, fadeRate: 0.35 },
     particleTrails: { enabled: false, length: 100, opacity: 0.8, width: 0.3, fadeRate: 0.1 }
   };
 
@@ -418,6 +419,76 @@ export const TrailControlPanel: React.FC<TrailControlPanelProps> = ({ isOpen, on
           />
         </ControlSection>
 
+        {/* Crystal Trails */}
+        <ControlSection title="Crystal Trails">
+          <ToggleControl
+            label="Enable Crystal Trails"
+            value={safeTrails.crystalTrails.enabled}
+            onChange={(value) => updateGlobalEffects({ 
+              trails: { 
+                ...safeTrails, 
+                crystalTrails: { ...safeTrails.crystalTrails, enabled: value } 
+              } 
+            })}
+          />
+          <SliderControl
+            label="Trail Length"
+            value={safeTrails.crystalTrails.length}
+            min={5}
+            max={1000}
+            step={1}
+            onChange={(value) => updateGlobalEffects({ 
+              trails: { 
+                ...safeTrails, 
+                crystalTrails: { ...safeTrails.crystalTrails, length: value } 
+              } 
+            })}
+            disabled={!safeTrails.crystalTrails.enabled}
+          />
+          <SliderControl
+            label="Trail Opacity"
+            value={safeTrails.crystalTrails.opacity}
+            min={0.1}
+            max={1}
+            step={0.1}
+            onChange={(value) => updateGlobalEffects({ 
+              trails: { 
+                ...safeTrails, 
+                crystalTrails: { ...safeTrails.crystalTrails, opacity: value } 
+              } 
+            })}
+            disabled={!safeTrails.crystalTrails.enabled}
+          />
+          <SliderControl
+            label="Trail Width"
+            value={safeTrails.crystalTrails.width}
+            min={0.1}
+            max={1.0}
+            step={0.05}
+            onChange={(value) => updateGlobalEffects({ 
+              trails: { 
+                ...safeTrails, 
+                crystalTrails: { ...safeTrails.crystalTrails, width: value } 
+              } 
+            })}
+            disabled={!safeTrails.crystalTrails.enabled}
+          />
+          <SliderControl
+            label="Fade Rate"
+            value={safeTrails.crystalTrails.fadeRate}
+            min={0.1}
+            max={0.9}
+            step={0.05}
+            onChange={(value) => updateGlobalEffects({ 
+              trails: { 
+                ...safeTrails, 
+                crystalTrails: { ...safeTrails.crystalTrails, fadeRate: value } 
+              } 
+            })}
+            disabled={!safeTrails.crystalTrails.enabled}
+          />
+        </ControlSection>
+
         {/* Particle Trails */}
         <ControlSection title="Particle Trails">
           <ToggleControl
@@ -1,7 +1,7 @@
 import React, { useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { useVisualStore } from '../store/visualStore';
+import { useSceneState } from '../utils/sceneOverlay';
 
 // Global trail manager instance (will be shared)
 let trailManager: any = null;
@@ -236,9 +236,9 @@ export const TrailObject = ({
   velocityThreshold?: number;
   geometry?: THREE.BufferGeometry;
   material?: THREE.Material;
-  trailType?: 'sphereTrails' | 'cubeTrails' | 'blobTrails' | 'torusTrails' | 'particleTrails';
+  trailType?: 'sphereTrails' | 'cubeTrails' | 'blobTrails' | 'torusTrails' | 'crystalTrails' | 'particleTrails';
 }) => {
-  const { globalEffects } = useVisualStore();
+  const { globalEffects } = useSceneState();
   const { trails } = globalEffects;
   const groupRef = useRef<THREE.Group>(null);
   const lastPosition = useRef<THREE.Vector3>(new THREE.Vector3());
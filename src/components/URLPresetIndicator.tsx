@@ -8,9 +8,10 @@ import styles from './GlobalEffectsDashboard.module.css';
 interface URLPresetIndicatorProps {
   urlState: URLPresetState;
   showUI?: boolean;
+  subject?: string;   // What is being loaded, e.g. 'playlist'
 }
 
-export const URLPresetIndicator: React.FC<URLPresetIndicatorProps> = ({ urlState, showUI = false }) => {
+export const URLPresetIndicator: React.FC<URLPresetIndicatorProps> = ({ urlState, showUI = false, subject = 'preset' }) => {
   if (!urlState.isLoading && !urlState.presetId && !urlState.presetName && !urlState.error) {
     return null;
   }
@@ -50,7 +51,7 @@ export const URLPresetIndicator: React.FC<URLPresetIndicatorProps> = ({ urlState
             borderTopColor: 'white',
             animation: 'spin 1s linear infinite'
           }} />
-          Loading preset from URL...
+          Loading {subject} from URL...
         </>
       )}
       
@@ -1,7 +1,8 @@
 import React, { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { useVisualStore } from '../store/visualStore';
+import { useSceneState } from '../utils/sceneOverlay';
 import * as THREE from 'three';
+import { createSceneRandom } from '../utils/seededRandom';
 
 interface WaveSource {
   position: THREE.Vector2;
@@ -71,7 +72,7 @@ const arePropsEqual = (prevProps: {}, nextProps: {}) => {
 
 const WaveInterferenceComponent = () => {
   // ALL HOOKS MUST BE CALLED FIRST, BEFORE ANY CONDITIONAL LOGIC
-  const { globalEffects, geometric, globalAnimationSpeed } = useVisualStore();
+  const { globalEffects, geometric, globalAnimationSpeed, seed } = useSceneState();
   const { waveInterference } = globalEffects;
   const meshRef = useRef<THREE.Mesh>(null);
   const timeRef = useRef(0);
@@ -111,6 +112,7 @@ const WaveInterferenceComponent = () => {
   const waveSources = useMemo((): WaveSource[] => {
     const sources: WaveSource[] = [];
     const size = 80;
+    const random = createSceneRandom(seed, 'waveInterference', currentPreset);
     
     if (safePreset.spiral) {
       // Spiral pattern
@@ -122,8 +124,8 @@ const WaveInterferenceComponent = () => {
             Math.cos(angle) * radius,
             Math.sin(angle) * radius
           ),
-          wavelength: safePreset.wavelengthRange[0] + Math.random() * (safePreset.wavelengthRange[1] - safePreset.wavelengthRange[0]),
-          phase: Math.random() * Math.PI * 2
+          wavelength: random.range(safePreset.wavelengthRange[0], safePreset.wavelengthRange[1]),
+          phase: random.range(0, Math.PI * 2)
         });
       }
     } else if (safePreset.random) {
@@ -131,11 +133,11 @@ const WaveInterferenceComponent = () => {
       for (let i = 0; i < safePreset.sources; i++) {
         sources.push({
           position: new THREE.Vector2(
-            (Math.random() - 0.5) * size * 0.8,
-            (Math.random() - 0.5) * size * 0.8
+            random.centered(size * 0.8),
+            random.centered(size * 0.8)
           ),
-          wavelength: safePreset.wavelengthRange[0] + Math.random() * (safePreset.wavelengthRange[1] - safePreset.wavelengthRange[0]),
-          phase: Math.random() * Math.PI * 2
+          wavelength: random.range(safePreset.wavelengthRange[0], safePreset.wavelengthRange[1]),
+          phase: random.range(0, Math.PI * 2)
         });
       }
     } else if (safePreset.harmonic) {
@@ -163,8 +165,8 @@ const WaveInterferenceComponent = () => {
             (i + 0.5) / gridSize * size - size/2,
             (j + 0.5) / gridSize * size - size/2
           ),
-            wavelength: safePreset.wavelengthRange[0] + Math.random() * (safePreset.wavelengthRange[1] - safePreset.wavelengthRange[0]),
-          phase: Math.random() * Math.PI * 2
+            wavelength: random.range(safePreset.wavelengthRange[0], safePreset.wavelengthRange[1]),
+          phase: random.range(0, Math.PI * 2)
         });
       }
     }
@@ -187,7 +189,9 @@ const WaveInterferenceComponent = () => {
     safePreset.random,
     safePreset.harmonic,
     safePreset.gridSize,
-    safePreset.wavelengthRange
+    safePreset.wavelengthRange,
+    currentPreset,
+    seed
   ]);
 
   // Create geometry for the wave surface
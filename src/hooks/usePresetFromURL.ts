@@ -5,6 +5,9 @@ import { useEffect, useState } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { useVisualStore } from '../store/visualStore';
 import { PresetClient } from '../lib/presetClient';
+import { migratePreset } from '../lib/presetMigrations';
+import { PlaylistClient } from '../lib/playlistClient';
+import { playlistPlayer } from '../utils/playlistPlayer';
 
 export interface URLPresetState {
   isLoading: boolean;
@@ -15,7 +18,7 @@ export interface URLPresetState {
 
 export function usePresetFromURL() {
   const searchParams = useSearchParams();
-  const { loadPreset, loadPresetData, getAvailablePresets } = useVisualStore();
+  const { loadPreset, loadPresetData, getAvailablePresets, setSeed } = useVisualStore();
   const [state, setState] = useState<URLPresetState>({
     isLoading: false,
     error: null,
@@ -28,8 +31,13 @@ export function usePresetFromURL() {
       // Check for preset in URL parameters
       const presetId = searchParams.get('preset');
       const presetName = searchParams.get('p'); // Short version
+      const seedParam = searchParams.get('seed'); // Overrides the preset's own seed
+      const seed = seedParam !== null && seedParam.trim() !== '' ? Number(seedParam) : NaN;
       
-      if (!presetId && !presetName) return;
+      if (!presetId && !presetName) {
+        if (isFinite(seed)) setSeed(seed);
+        return;
+      }
 
       setState(prev => ({ ...prev, isLoading: true, error: null }));
 
@@ -37,10 +45,12 @@ export function usePresetFromURL() {
         if (presetId) {
           // Load cloud preset by ID
           console.log(`📥 Loading preset from URL: ${presetId}`);
-          const preset = await PresetClient.getPresetById(presetId);
+          const fetchedPreset = await PresetClient.getPresetById(presetId);
+          const preset = fetchedPreset ? migratePreset(fetchedPreset) : fetchedPreset;
           
           if (preset && preset.data) {
             loadPresetData(preset.data);
+            if (isFinite(seed)) setSeed(seed);
             setState({
               isLoading: false,
               error: null,
@@ -56,6 +66,7 @@ export function usePresetFromURL() {
           const availablePresets = getAvailablePresets();
           if (availablePresets.includes(presetName)) {
             loadPreset(presetName);
+            if (isFinite(seed)) setSeed(seed);
             setState({
               isLoading: false,
               error: null,
@@ -79,26 +90,92 @@ export function usePresetFromURL() {
     };
 
     loadFromURL();
-  }, [searchParams, loadPreset, loadPresetData, getAvailablePresets]);
+  }, [searchParams, loadPreset, loadPresetData, getAvailablePresets, setSeed]);
+
+  return state;
+}
+
+export interface URLPlaylistState {
+  isLoading: boolean;
+  error: string | null;
+  playlistId: string | null;
+  playlistName: string | null;
+}
+
+/**
+ * Start auto-cycling the playlist named by `?playlist=<id>`. Cycling stops when the
+ * page unmounts or the parameter goes away.
+ */
+export function usePlaylistFromURL() {
+  const searchParams = useSearchParams();
+  const playlistId = searchParams.get('playlist');
+  const [state, setState] = useState<URLPlaylistState>({
+    isLoading: false,
+    error: null,
+    playlistId: null,
+    playlistName: null
+  });
+
+  useEffect(() => {
+    if (!playlistId) return;
+    let cancelled = false;
+
+    const loadPlaylist = async () => {
+      setState({ isLoading: true, error: null, playlistId, playlistName: null });
+      try {
+        console.log(`📥 Loading playlist from URL: ${playlistId}`);
+        const playlist = await PlaylistClient.getPlaylistById(playlistId);
+        if (cancelled) return;
+        playlistPlayer.start(playlist);
+        setState({ isLoading: false, error: null, playlistId, playlistName: playlist.name });
+        console.log(`✅ Playing playlist: ${playlist.name}`);
+      } catch (error) {
+        console.error('Error loading playlist from URL:', error);
+        if (!cancelled) {
+          setState({
+            isLoading: false,
+            error: error instanceof Error ? error.message : 'Failed to load playlist',
+            playlistId: null,
+            playlistName: null
+          });
+        }
+      }
+    };
+
+    loadPlaylist();
+    return () => {
+      cancelled = true;
+      playlistPlayer.stop();
+    };
+  }, [playlistId]);
 
   return state;
 }
 
 /**
- * Generate shareable URL for a preset
+ * Generate shareable URL for a playlist
+ */
+export function generatePlaylistURL(playlistId: string): string {
+  const baseURL = typeof window !== 'undefined' ? window.location.origin : '';
+  return `${baseURL}?playlist=${encodeURIComponent(playlistId)}`;
+}
+
+/**
+ * Generate shareable URL for a preset, optionally pinning the scene seed
  */
-export function generatePresetURL(presetIdOrName: string, isCloudPreset: boolean = false): string {
+export function generatePresetURL(presetIdOrName: string, isCloudPreset: boolean = false, seed?: number): string {
   const baseURL = typeof window !== 'undefined' ? window.location.origin : '';
   const param = isCloudPreset ? 'preset' : 'p';
-  return `${baseURL}?${param}=${encodeURIComponent(presetIdOrName)}`;
+  const seedParam = typeof seed === 'number' ? `&seed=${seed}` : '';
+  return `${baseURL}?${param}=${encodeURIComponent(presetIdOrName)}${seedParam}`;
 }
 
 /**
  * Copy preset URL to clipboard
  */
-export async function copyPresetURL(presetIdOrName: string, isCloudPreset: boolean = false): Promise<boolean> {
+export async function copyPresetURL(presetIdOrName: string, isCloudPreset: boolean = false, seed?: number): Promise<boolean> {
   try {
-    const url = generatePresetURL(presetIdOrName, isCloudPreset);
+    const url = generatePresetURL(presetIdOrName, isCloudPreset, seed);
     await navigator.clipboard.writeText(url);
     return true;
   } catch (error) {
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FilePresetStorage } from '../filePresetStorage';
+import type { Preset } from '@/types/preset';
+
+let directory: string;
+let storage: FilePresetStorage;
+
+const preset = (name: string, fields: Partial<Preset> = {}) => ({
+  name,
+  description: '',
+  tags: [],
+  category: 'custom',
+  isPublic: true,
+  data: {},
+  version: '1.6.0',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...fields
+}) as unknown as Omit<Preset, '_id'>;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'presets-'));
+  storage = new FilePresetStorage(path.join(directory, 'presets.json'));
+  await storage.insert(preset('Neon (v2)', { tags: ['city'] }));
+  await storage.insert(preset('Calm sea', { description: 'Slow waves' }));
+});
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+const search = async (text: string) =>
+  (await storage.find({ search: text }, { skip: 0, limit: 0 })).map((found) => found.name).sort();
+
+describe('FilePresetStorage search', () => {
+  it('matches text case-insensitively across name, description and tags', async () => {
+    expect(await search('NEON')).toEqual(['Neon (v2)']);
+    expect(await search('waves')).toEqual(['Calm sea']);
+    expect(await search('cit')).toEqual(['Neon (v2)']);
+  });
+
+  it('treats regex syntax as plain text', async () => {
+    expect(await search('(v2)')).toEqual(['Neon (v2)']);
+    expect(await search('(')).toEqual(['Neon (v2)']);
+    expect(await search('.*')).toEqual([]);
+    expect(await search('(a+)+$')).toEqual([]);
+  });
+});
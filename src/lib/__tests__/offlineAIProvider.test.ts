@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { OfflineAIProvider } from '../offlineAIProvider';
+import { ContextAnalyzer } from '@/ai-enhanced/services/ContextAnalyzer';
+import type { ImageSample } from '@/ai-system/types/AITypes';
+
+// 4x2 thumbnail: left half pure red, right half pure blue
+function splitSample(): ImageSample {
+  const pixels = Buffer.alloc(4 * 2 * 4);
+  for (let i = 0; i < 8; i++) {
+    const red = i % 4 < 2;
+    pixels.set([red ? 255 : 0, 0, red ? 0 : 255, 255], i * 4);
+  }
+  return { width: 4, height: 2, pixels: pixels.toString('base64') };
+}
+
+const image = Buffer.from('not really an image').toString('base64');
+
+describe('ContextAnalyzer color analysis', () => {
+  it('measures colors from the pixels when they are present', () => {
+    const sample = splitSample();
+    const imageData = {
+      width: sample.width,
+      height: sample.height,
+      data: new Uint8ClampedArray(Buffer.from(sample.pixels, 'base64')),
+      colorSpace: 'srgb'
+    } as ImageData;
+
+    const colors = new ContextAnalyzer({ enableDetailedLogging: false }).analyzeColors(imageData);
+    expect(colors.dominantColors.sort()).toEqual(['#0000ff', '#ff0000']);
+    expect(colors.saturationLevel).toBe(1);
+    expect(colors.warmth).toBe(0);
+    expect(colors.brightnessLevel).toBeCloseTo((0.2126 + 0.0722) / 2);
+  });
+});
+
+describe('OfflineAIProvider.analyzeImage', () => {
+  it('labels whether the colors were measured or estimated', async () => {
+    const provider = new OfflineAIProvider();
+    expect((await provider.analyzeImage(image, undefined, splitSample())).source).toContain('colors measured from the image');
+    expect((await provider.analyzeImage(image)).source).toContain('estimated; the image was not decoded');
+  });
+
+  it('gives the same image the same result when calls overlap', async () => {
+    const provider = new OfflineAIProvider();
+    const other = Buffer.from('a different image').toString('base64');
+    const [first, , second] = await Promise.all([
+      provider.analyzeImage(image),
+      provider.analyzeImage(other),
+      provider.analyzeImage(image)
+    ]);
+    expect({ ...second, timestamp: first.timestamp }).toEqual(first);
+  });
+});
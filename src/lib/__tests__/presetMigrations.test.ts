@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CURRENT_PRESET_VERSION,
+  PRESET_MIGRATIONS,
+  migratePreset,
+  migratePresetData,
+  needsMigration,
+  normalizePresetVersion
+} from '../presetMigrations';
+import type { Preset } from '@/types/preset';
+
+describe('normalizePresetVersion', () => {
+  it('treats missing and short versions as full semver strings', () => {
+    expect(normalizePresetVersion(undefined)).toBe('1.0.0');
+    expect(normalizePresetVersion(null)).toBe('1.0.0');
+    expect(normalizePresetVersion('1.0')).toBe('1.0.0');
+    expect(normalizePresetVersion('1.4.0.7')).toBe('1.4.0');
+  });
+
+  it('flags everything but the current version for migration', () => {
+    expect(needsMigration('1.0')).toBe(true);
+    expect(needsMigration(CURRENT_PRESET_VERSION)).toBe(false);
+  });
+});
+
+describe('PRESET_MIGRATIONS', () => {
+  it('forms one unbroken chain ending at the current version', () => {
+    PRESET_MIGRATIONS.slice(1).forEach((migration, index) => {
+      expect(migration.from).toBe(PRESET_MIGRATIONS[index].to);
+    });
+    expect(PRESET_MIGRATIONS[0].from).toBe('1.0.0');
+    expect(PRESET_MIGRATIONS[PRESET_MIGRATIONS.length - 1].to).toBe(CURRENT_PRESET_VERSION);
+  });
+});
+
+describe('migratePresetData', () => {
+  it('upgrades an unversioned preset through every step without touching the input', () => {
+    const original = {
+      geometric: { spheres: { count: 5, movementPattern: 'orbit' }, crystals: { count: 4 } },
+      particles: { count: 100 },
+      globalEffects: { trails: { sphereTrails: { length: 10 } } }
+    };
+    const result = migratePresetData(original);
+
+    expect(result.version).toBe(CURRENT_PRESET_VERSION);
+    expect(result.applied).toHaveLength(PRESET_MIGRATIONS.length);
+    expect(result.data.geometric.spheres).toMatchObject({ movementPattern: 'orbit', distance: 2.0, pulseEnabled: false });
+    expect(result.data.geometric.crystals).toMatchObject({ count: 0, speed: 0.6 });
+    expect((result.data.globalEffects.trails as any).sphereTrails).toMatchObject({ length: 10, opacity: 0.6 });
+    expect((result.data.globalEffects.trails as any).crystalTrails).toBeDefined();
+    expect((result.data as any).seed).toBe(20240601);
+    expect((result.data as any).modulators).toEqual([]);
+    expect((result.data as any).mappingRules).toEqual([]);
+    expect(original.geometric.crystals.count).toBe(4);
+    expect((original as any).seed).toBeUndefined();
+  });
+
+  it('only runs the steps after the stored version', () => {
+    const result = migratePresetData({ seed: 7, modulators: [{ id: 'lfo' }] }, '1.4.0');
+    expect(result.applied).toEqual(PRESET_MIGRATIONS.slice(-2).map((migration) => migration.description));
+    expect(result.data).toEqual({ seed: 7, modulators: [{ id: 'lfo' }], mappingRules: [] });
+  });
+
+  it('returns current and unknown versions untouched', () => {
+    const data = { seed: 1 };
+    expect(migratePresetData(data, CURRENT_PRESET_VERSION)).toEqual({ data, version: CURRENT_PRESET_VERSION, applied: [] });
+    const future = migratePresetData(data, '9.0.0');
+    expect(future.version).toBe('9.0.0');
+    expect(future.applied).toEqual([]);
+    expect(future.data).toEqual(data);
+  });
+});
+
+describe('migratePreset', () => {
+  it('upgrades the data and version of an old document and keeps current ones as they are', () => {
+    const preset = { name: 'Old', version: '1.5', data: { seed: 1 } } as unknown as Preset;
+    const migrated = migratePreset(preset);
+    expect(migrated.version).toBe(CURRENT_PRESET_VERSION);
+    expect((migrated.data as any).mappingRules).toEqual([]);
+    expect(migrated.name).toBe('Old');
+
+    const current = { ...preset, version: CURRENT_PRESET_VERSION };
+    expect(migratePreset(current)).toBe(current);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { getPresetNumberRange, validatePresetData } from '../presetValidation';
+import { SAFETY_LIMITS } from '../../utils/safetyLimits';
+import { ParameterMappingEngine } from '../../ai-system/services/ParameterMappingEngine';
+import { samplePresets } from '../../../scripts/seed-presets';
+
+describe('validatePresetData', () => {
+  it.each(samplePresets.map((preset: { name: string; data: unknown }) => [preset.name, preset.data]))(
+    'accepts the %s seed preset',
+    (_name, data) => {
+      expect(validatePresetData(data).errors).toEqual([]);
+    }
+  );
+
+  it('accepts an empty payload and unknown keys', () => {
+    expect(validatePresetData({}).valid).toBe(true);
+    expect(validatePresetData({ futureFeature: { enabled: true } }).valid).toBe(true);
+  });
+
+  it('accepts the top of every dashboard slider range', () => {
+    const result = validatePresetData({
+      geometric: { spheres: { count: 20 }, cubes: { count: 20 }, toruses: { count: 20 }, blobs: { count: 15 }, crystals: { count: 60 } },
+      particles: { count: 1000 },
+      globalEffects: {
+        fireflies: { count: 100 },
+        shapeGlow: { radius: 50 },
+        atmosphericBlur: { intensity: 25 },
+        waveInterference: { contourLevels: 20 },
+        colorBlending: { mode: 'add' }
+      }
+    });
+    expect(result.errors).toEqual([]);
+  });
+
+  it('holds engine-clamped paths to the shared safety limits', () => {
+    const result = validatePresetData({
+      geometric: { blobs: { count: SAFETY_LIMITS['geometric.blobs.count'][1] + 1 } },
+      particles: { count: 1500 },
+      camera: { fov: SAFETY_LIMITS['camera.fov'][0] - 1 }
+    });
+
+    expect(result.errors.map((error) => [error.path, error.message])).toEqual([
+      ['data.geometric.blobs.count', 'must be at most 15'],
+      ['data.particles.count', 'must be at most 1000'],
+      ['data.camera.fov', 'must be at least 20']
+    ]);
+    expect(getPresetNumberRange('camera.fov')).toEqual(new ParameterMappingEngine().getSafetyLimits().get('camera.fov'));
+  });
+
+  it('rejects a payload that is not an object', () => {
+    expect(validatePresetData(null).errors).toEqual([{ path: 'data', message: 'must be an object', value: null }]);
+  });
+
+  // Errors come back in schema order, not payload order
+  it('reports each failing field by path', () => {
+    const result = validatePresetData({
+      particles: { count: 12.5, color: 'orange', opacity: 2 },
+      geometric: { spheres: { movementPattern: 'zigzag' } },
+      camera: { position: [0, 1] }
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((error) => [error.path, error.message])).toEqual([
+      ['data.geometric.spheres.movementPattern', 'must be one of: orbit, verticalSine, static, random'],
+      ['data.particles.count', 'must be an integer'],
+      ['data.particles.color', 'must be a hex color like #ff00cc'],
+      ['data.particles.opacity', 'must be at most 1'],
+      ['data.camera.position', 'must be an array of 3 items']
+    ]);
+  });
+
+  it('checks array items and rejects non-finite numbers', () => {
+    const result = validatePresetData({
+      camera: { target: [0, Infinity, 0] },
+      globalEffects: { chromatic: { rainbow: { colors: ['#fff', 'red'] } } }
+    });
+
+    expect(result.errors.map((error) => error.path)).toEqual([
+      'data.globalEffects.chromatic.rainbow.colors.1',
+      'data.camera.target.1'
+    ]);
+  });
+
+  it('validates modulators and mapping rules', () => {
+    const result = validatePresetData({
+      modulators: [{ id: 'm1', path: 'camera.fov', kind: 'lfo', shape: 'sine', rate: 0.5 }],
+      mappingRules: [{ id: 'r1', variable: 'camera.fov', source: 'nope', priority: 11 }]
+    });
+
+    expect(result.errors.map((error) => error.path)).toEqual([
+      'data.mappingRules.0.source',
+      'data.mappingRules.0.priority'
+    ]);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { RateLimiter, getClientId } from '../rateLimit';
+
+const requestWith = (headers: Record<string, string>) => new NextRequest('http://localhost/api/weather', { headers });
+
+describe('getClientId', () => {
+  it('uses the right-most forwarded hop, not the client-supplied first entry', () => {
+    expect(getClientId(requestWith({ 'x-forwarded-for': '1.2.3.4, 10.0.0.7' }))).toBe('10.0.0.7');
+    expect(getClientId(requestWith({ 'x-forwarded-for': '203.0.113.9' }))).toBe('203.0.113.9');
+  });
+
+  it('ignores X-Real-IP and falls back to anonymous', () => {
+    expect(getClientId(requestWith({ 'x-real-ip': '1.2.3.4' }))).toBe('anonymous');
+  });
+});
+
+describe('RateLimiter', () => {
+  it('allows the limit per window, then reports when to retry', () => {
+    const limiter = new RateLimiter(2, 60 * 1000);
+    expect(limiter.check('a', 0).allowed).toBe(true);
+    expect(limiter.check('a', 1000)).toEqual({ allowed: true, remaining: 0, retryAfter: 0 });
+    expect(limiter.check('a', 2000)).toEqual({ allowed: false, remaining: 0, retryAfter: 58 });
+    expect(limiter.check('b', 2000).allowed).toBe(true);
+    expect(limiter.check('a', 60 * 1000).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,90 @@
+// aiProvider.ts
+// Server-side AI backends behind /api/ai/*, selected per environment.
+//
+// Replies are plain JSON. Anything that can't cross the wire (the weather mapping
+// functions) is rebuilt by AIService on the client.
+
+import type { ImageSample, WeatherData } from '@/ai-system/types/AITypes';
+import type { ColorPalette, EnhancedColorPalette, ThemeAnalysis } from '@/types/unified';
+import { OpenAIChatProvider } from './openAIProvider';
+import { OfflineAIProvider } from './offlineAIProvider';
+
+// ThemeAnalysis as sent to the client: weather mappings are rebuilt there
+export type ThemeAnalysisResult = Omit<ThemeAnalysis, 'weatherMappings'> & {
+  weatherMappings?: Record<string, unknown>;
+  source: string;
+  apiTokens: number | 'Unknown';
+  timestamp: string;
+};
+
+export type ColorHarmonyResult = Partial<EnhancedColorPalette> & ColorPalette & {
+  source: string;
+  apiTokens: number | 'Unknown';
+  timestamp: string;
+};
+
+export interface AIProvider {
+  readonly kind: AIProviderKind;
+  /** False when required settings (keys, URLs) are missing; calls would throw. */
+  isConfigured(): boolean;
+  /**
+   * `image` is a data URL or bare base64. `sample` is a browser-decoded thumbnail,
+   * for providers that can't decode the image themselves.
+   */
+  analyzeImage(image: string, weather?: WeatherData, sample?: ImageSample): Promise<ThemeAnalysisResult>;
+  generateColorHarmony(basePalette: ColorPalette, weather?: WeatherData): Promise<ColorHarmonyResult>;
+  /**
+   * Free-form JSON reply to a ParameterMappingEngine prompt; the caller validates it.
+   * Only language-model providers implement this.
+   */
+  suggestParameterMapping?(prompt: string): Promise<any>;
+}
+
+export type AIProviderKind = 'openai' | 'openai-compatible' | 'offline';
+
+// AI_PROVIDER=openai|openai-compatible|offline; OpenAI when unset
+export function resolveAIProviderKind(): AIProviderKind {
+  const configured = process.env.AI_PROVIDER;
+  if (configured === 'openai-compatible' || configured === 'offline') {
+    return configured;
+  }
+  return 'openai';
+}
+
+let provider: AIProvider | null = null;
+
+export function getAIProvider(): AIProvider {
+  if (!provider) {
+    const kind = resolveAIProviderKind();
+    switch (kind) {
+      case 'offline':
+        provider = new OfflineAIProvider();
+        break;
+      case 'openai-compatible':
+        // Self-hosted servers (Ollama, vLLM, LM Studio...) speaking the chat completions API
+        provider = new OpenAIChatProvider({
+          kind,
+          label: 'AI server',
+          baseUrl: process.env.AI_BASE_URL,
+          apiKey: process.env.AI_API_KEY,
+          textModel: process.env.AI_MODEL,
+          visionModel: process.env.AI_VISION_MODEL || process.env.AI_MODEL,
+          jsonMode: false
+        });
+        break;
+      default:
+        provider = new OpenAIChatProvider({
+          kind,
+          label: 'OpenAI',
+          baseUrl: 'https://api.openai.com/v1',
+          apiKey: process.env.OPENAI_API_KEY,
+          requireApiKey: true,
+          textModel: process.env.AI_MODEL || 'gpt-4o',
+          visionModel: process.env.AI_VISION_MODEL || 'gpt-4o',
+          jsonMode: true
+        });
+    }
+    console.log(`🤖 AI provider: ${kind}`);
+  }
+  return provider;
+}
@@ -0,0 +1,149 @@
+// auth.ts
+// Local credential provider: scrypt password hashes and HMAC-signed session tokens.
+//
+// Tokens are `<base64url payload>.<base64url signature>` with payload { sub, exp }.
+// The role is looked up on every request, so role changes apply immediately.
+
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicUser, UserRole } from '@/types/auth';
+import { hasRole } from './presetPermissions';
+import { UserService } from './userService';
+
+export const SESSION_COOKIE = 'rc_session';
+export const SESSION_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+let developmentSecret: string | null = null;
+
+function getAuthSecret(): string {
+  if (process.env.AUTH_SECRET) {
+    return process.env.AUTH_SECRET;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET environment variable is not set');
+  }
+  // Development fallback: sessions reset when the server restarts
+  if (!developmentSecret) {
+    developmentSecret = randomBytes(32).toString('hex');
+    console.warn('⚠️ AUTH_SECRET not set, using a temporary development secret');
+  }
+  return developmentSecret;
+}
+
+// --- Passwords ---
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, 64).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+// --- Session tokens ---
+
+function sign(payload: string): string {
+  return createHmac('sha256', getAuthSecret()).update(payload).digest('base64url');
+}
+
+export function createSessionToken(userId: string, ttlSeconds = SESSION_TTL_SECONDS): string {
+  const payload = Buffer.from(JSON.stringify({
+    sub: userId,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds
+  })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/** User id for a valid, unexpired token; null otherwise. */
+export function verifySessionToken(token: string): string | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const { sub, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof sub !== 'string' || typeof exp !== 'number' || exp * 1000 < Date.now()) {
+      return null;
+    }
+    return sub;
+  } catch (error) {
+    return null;
+  }
+}
+
+// --- Request helpers ---
+
+function getRequestToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim();
+  }
+  return request.cookies.get(SESSION_COOKIE)?.value || null;
+}
+
+export async function getRequestUser(request: NextRequest): Promise<PublicUser | null> {
+  const token = getRequestToken(request);
+  if (!token) return null;
+
+  const userId = verifySessionToken(token);
+  if (!userId) return null;
+
+  return UserService.getInstance().getUserById(userId);
+}
+
+/**
+ * Resolve the caller and check their role. Routes return `response` as-is when set:
+ *
+ *   const auth = await requireRole(request, 'editor');
+ *   if (auth.response) return auth.response;
+ */
+export async function requireRole(
+  request: NextRequest,
+  role: UserRole
+): Promise<{ user: PublicUser; response?: undefined } | { user?: undefined; response: NextResponse }> {
+  const user = await getRequestUser(request);
+  if (!user) {
+    return {
+      response: NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    };
+  }
+  if (!hasRole(user, role)) {
+    return {
+      response: NextResponse.json(
+        { error: `This action requires the ${role} role` },
+        { status: 403 }
+      )
+    };
+  }
+  return { user };
+}
+
+export function setSessionCookie(response: NextResponse, token: string): NextResponse {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS
+  });
+  return response;
+}
+
+export function clearSessionCookie(response: NextResponse): NextResponse {
+  response.cookies.set(SESSION_COOKIE, '', { path: '/', maxAge: 0 });
+  return response;
+}
@@ -0,0 +1,45 @@
+import { AuthCredentials, AuthResponse, PublicUser } from '@/types/auth';
+
+const API_BASE = '/api/auth';
+
+// The session lives in an httpOnly cookie, so same-origin preset requests are
+// authenticated automatically once logged in.
+export class AuthClient {
+  static async getCurrentUser(): Promise<PublicUser | null> {
+    const response = await fetch(`${API_BASE}/me`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch current user: ${response.statusText}`);
+    }
+    const { user } = await response.json();
+    return user;
+  }
+
+  static async login(credentials: AuthCredentials): Promise<AuthResponse> {
+    return this.postCredentials('login', credentials);
+  }
+
+  static async register(credentials: AuthCredentials): Promise<AuthResponse> {
+    return this.postCredentials('register', credentials);
+  }
+
+  static async logout(): Promise<void> {
+    await fetch(`${API_BASE}/logout`, { method: 'POST' });
+  }
+
+  private static async postCredentials(action: 'login' | 'register', credentials: AuthCredentials): Promise<AuthResponse> {
+    const response = await fetch(`${API_BASE}/${action}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(credentials),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || `Failed to ${action}: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+}
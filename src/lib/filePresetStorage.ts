@@ -0,0 +1,131 @@
+import path from 'path';
+import { ObjectId } from 'mongodb';
+import { Preset, PresetRevision, PresetRevisionSummary } from '@/types/preset';
+import { JsonFileCollection, getDataDirectory } from './jsonFileStore';
+import { literalPattern } from './textSearch';
+import type { PresetQuery, PresetRevisionStorage, PresetStorage } from './presetStorage';
+
+// JSON-file backend with the same query semantics as MongoPresetStorage:
+// case-insensitive literal text search, exact category/isPublic filters, updatedAt desc.
+export class FilePresetStorage implements PresetStorage {
+  private readonly presets: JsonFileCollection<Preset>;
+
+  constructor(filePath = process.env.PRESET_STORAGE_FILE || path.join(getDataDirectory(), 'presets.json')) {
+    this.presets = new JsonFileCollection<Preset>(filePath, ['createdAt', 'updatedAt']);
+  }
+
+  private matches(preset: Preset, { category, search, isPublic }: PresetQuery): boolean {
+    if (category && preset.category !== category) return false;
+    if (isPublic !== undefined && preset.isPublic !== isPublic) return false;
+    if (search) {
+      const pattern = literalPattern(search);
+      const matchesText = (value: unknown) => typeof value === 'string' && pattern.test(value);
+      return matchesText(preset.name) ||
+        matchesText(preset.description) ||
+        (preset.tags || []).some(matchesText);
+    }
+    return true;
+  }
+
+  async find(query: PresetQuery, { skip, limit }: { skip: number; limit: number }): Promise<Preset[]> {
+    const matching = (await this.presets.readAll())
+      .filter((preset) => this.matches(preset, query))
+      .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+    // Mongo treats limit 0 as "no limit"
+    return limit > 0 ? matching.slice(skip, skip + limit) : matching.slice(skip);
+  }
+
+  async count(query: PresetQuery): Promise<number> {
+    return (await this.presets.readAll()).filter((preset) => this.matches(preset, query)).length;
+  }
+
+  async findById(id: string): Promise<Preset | null> {
+    return (await this.presets.readAll()).find((preset) => String(preset._id) === id) || null;
+  }
+
+  async findByName(name: string, excludeId?: string): Promise<Preset | null> {
+    return (await this.presets.readAll())
+      .find((preset) => preset.name === name && String(preset._id) !== excludeId) || null;
+  }
+
+  async insert(preset: Omit<Preset, '_id'>): Promise<Preset> {
+    // ObjectId-shaped ids keep share URLs identical across backends
+    const created: Preset = { _id: new ObjectId().toHexString(), ...preset };
+    return this.presets.update((documents) => ({
+      documents: [...documents, created],
+      result: created
+    }));
+  }
+
+  async update(id: string, changes: Partial<Preset>): Promise<Preset | null> {
+    const { _id, ...fields } = changes;
+    return this.presets.update((documents) => {
+      const index = documents.findIndex((preset) => String(preset._id) === id);
+      if (index === -1) {
+        return { documents, result: null };
+      }
+      const updated = { ...documents[index], ...fields };
+      const next = [...documents];
+      next[index] = updated;
+      return { documents: next, result: updated };
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.presets.update((documents) => {
+      const remaining = documents.filter((preset) => String(preset._id) !== id);
+      return { documents: remaining, result: remaining.length !== documents.length };
+    });
+  }
+
+  async findOutdated(version: string): Promise<Preset[]> {
+    return (await this.presets.readAll()).filter((preset) => preset.version !== version);
+  }
+}
+
+export class FilePresetRevisionStorage implements PresetRevisionStorage {
+  private readonly revisions: JsonFileCollection<PresetRevision>;
+
+  constructor(filePath = path.join(getDataDirectory(), 'preset-revisions.json')) {
+    this.revisions = new JsonFileCollection<PresetRevision>(filePath, ['createdAt']);
+  }
+
+  private async forPreset(presetId: string): Promise<PresetRevision[]> {
+    return (await this.revisions.readAll())
+      .filter((revision) => revision.presetId === presetId)
+      .sort((a, b) => b.revision - a.revision);
+  }
+
+  async list(presetId: string): Promise<PresetRevisionSummary[]> {
+    return (await this.forPreset(presetId)).map(({ data, ...summary }) => summary);
+  }
+
+  async findOne(presetId: string, revision: number): Promise<PresetRevision | null> {
+    return (await this.forPreset(presetId)).find((entry) => entry.revision === revision) || null;
+  }
+
+  async latest(presetId: string): Promise<PresetRevision | null> {
+    return (await this.forPreset(presetId))[0] || null;
+  }
+
+  async append(revision: Omit<PresetRevision, '_id' | 'revision'>): Promise<PresetRevision> {
+    return this.revisions.update((documents) => {
+      const latest = documents
+        .filter((entry) => entry.presetId === revision.presetId)
+        .reduce((max, entry) => Math.max(max, entry.revision), 0);
+      const created: PresetRevision = {
+        _id: new ObjectId().toHexString(),
+        ...revision,
+        revision: latest + 1
+      };
+      return { documents: [...documents, created], result: created };
+    });
+  }
+
+  async deleteForPreset(presetId: string): Promise<number> {
+    return this.revisions.update((documents) => {
+      const remaining = documents.filter((entry) => entry.presetId !== presetId);
+      return { documents: remaining, result: documents.length - remaining.length };
+    });
+  }
+}
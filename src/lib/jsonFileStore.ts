@@ -0,0 +1,59 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Directory for file-backed storage (local development, offline kiosk installs)
+export function getDataDirectory(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), 'data');
+}
+
+/**
+ * A collection of documents persisted as a single JSON array on disk.
+ * Writes are serialized in-process and replaced atomically (write + rename),
+ * and the listed date fields are revived to Date objects on read.
+ */
+export class JsonFileCollection<T extends Record<string, any>> {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly dateFields: string[] = []
+  ) {}
+
+  async readAll(): Promise<T[]> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const documents = JSON.parse(raw) as T[];
+      return documents.map((document) => this.reviveDates(document));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /** Apply `mutator` to the current documents and persist the result. */
+  async update<R>(mutator: (documents: T[]) => { documents: T[]; result: R }): Promise<R> {
+    const run = this.writeQueue.then(async () => {
+      const { documents, result } = mutator(await this.readAll());
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(documents, null, 2), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+      return result;
+    });
+    // Keep the queue alive after a failed write
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private reviveDates(document: T): T {
+    const revived: Record<string, any> = { ...document };
+    this.dateFields.forEach((field) => {
+      if (typeof revived[field] === 'string') {
+        revived[field] = new Date(revived[field]);
+      }
+    });
+    return revived as T;
+  }
+}
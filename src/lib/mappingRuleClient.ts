@@ -0,0 +1,33 @@
+import type { MappingRuleDefinition, UserMappingRules } from '@/types/mappingRule';
+import { formatApiError } from './presetClient';
+
+const API_BASE = '/api/mapping-rules';
+
+export class MappingRuleClient {
+  /** The signed-in user's rules, or null when nobody is signed in. */
+  static async getMyRules(): Promise<UserMappingRules | null> {
+    const response = await fetch(API_BASE);
+    if (response.status === 401) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to fetch mapping rules: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  static async saveMyRules(rules: MappingRuleDefinition[]): Promise<UserMappingRules> {
+    const response = await fetch(API_BASE, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ rules }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(formatApiError(error) || `Failed to save mapping rules: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+}
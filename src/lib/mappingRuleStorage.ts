@@ -0,0 +1,58 @@
+import path from 'path';
+import getMongoClient from './mongodb';
+import { UserMappingRules } from '@/types/mappingRule';
+import { JsonFileCollection, getDataDirectory } from './jsonFileStore';
+import { resolvePresetStorageKind } from './presetStorage';
+
+// One rule set per user, stored next to the presets: same backend selection
+export interface MappingRuleStorage {
+  get(ownerId: string): Promise<UserMappingRules | null>;
+  put(ownerId: string, rules: UserMappingRules['rules']): Promise<UserMappingRules>;
+}
+
+class MongoMappingRuleStorage implements MappingRuleStorage {
+  private async collection() {
+    const client = await getMongoClient();
+    return client.db('visual-canvas').collection<UserMappingRules>('mappingRules');
+  }
+
+  async get(ownerId: string): Promise<UserMappingRules | null> {
+    const collection = await this.collection();
+    return collection.findOne({ ownerId }, { projection: { _id: 0 } });
+  }
+
+  async put(ownerId: string, rules: UserMappingRules['rules']): Promise<UserMappingRules> {
+    const collection = await this.collection();
+    const document: UserMappingRules = { ownerId, rules, updatedAt: new Date() };
+    await collection.updateOne({ ownerId }, { $set: document }, { upsert: true });
+    return document;
+  }
+}
+
+class FileMappingRuleStorage implements MappingRuleStorage {
+  private readonly ruleSets = new JsonFileCollection<UserMappingRules>(
+    path.join(getDataDirectory(), 'mapping-rules.json'),
+    ['updatedAt']
+  );
+
+  async get(ownerId: string): Promise<UserMappingRules | null> {
+    return (await this.ruleSets.readAll()).find((ruleSet) => ruleSet.ownerId === ownerId) || null;
+  }
+
+  async put(ownerId: string, rules: UserMappingRules['rules']): Promise<UserMappingRules> {
+    const document: UserMappingRules = { ownerId, rules, updatedAt: new Date() };
+    return this.ruleSets.update((documents) => ({
+      documents: [...documents.filter((ruleSet) => ruleSet.ownerId !== ownerId), document],
+      result: document
+    }));
+  }
+}
+
+let storage: MappingRuleStorage | null = null;
+
+export function getMappingRuleStorage(): MappingRuleStorage {
+  if (!storage) {
+    storage = resolvePresetStorageKind() === 'mongo' ? new MongoMappingRuleStorage() : new FileMappingRuleStorage();
+  }
+  return storage;
+}
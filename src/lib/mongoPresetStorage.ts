@@ -0,0 +1,153 @@
+import getMongoClient from './mongodb';
+import { Filter, ObjectId } from 'mongodb';
+import { Preset, PresetRevision, PresetRevisionSummary } from '@/types/preset';
+import type { PresetQuery, PresetRevisionStorage, PresetStorage } from './presetStorage';
+import { literalPattern } from './textSearch';
+
+export class MongoPresetStorage implements PresetStorage {
+  private async collection() {
+    const client = await getMongoClient();
+    return client.db('visual-canvas').collection<Preset>('presets');
+  }
+
+  private toObjectId(id: string): ObjectId | null {
+    try {
+      return new ObjectId(id);
+    } catch (error) {
+      console.error('Invalid ObjectId format:', id);
+      return null;
+    }
+  }
+
+  private buildFilter({ category, search, isPublic }: PresetQuery): Filter<Preset> {
+    const query: any = {};
+    if (category) query.category = category;
+    if (isPublic !== undefined) query.isPublic = isPublic;
+    if (search) {
+      const pattern = literalPattern(search);
+      query.$or = [
+        { name: { $regex: pattern } },
+        { description: { $regex: pattern } },
+        { tags: { $in: [pattern] } }
+      ];
+    }
+    return query;
+  }
+
+  async find(query: PresetQuery, { skip, limit }: { skip: number; limit: number }): Promise<Preset[]> {
+    const collection = await this.collection();
+    return collection
+      .find(this.buildFilter(query))
+      .sort({ updatedAt: -1 })
+      .skip(skip)
+      .limit(limit)
+      .toArray();
+  }
+
+  async count(query: PresetQuery): Promise<number> {
+    const collection = await this.collection();
+    return collection.countDocuments(this.buildFilter(query));
+  }
+
+  async findById(id: string): Promise<Preset | null> {
+    const objectId = this.toObjectId(id);
+    if (!objectId) return null;
+    const collection = await this.collection();
+    return collection.findOne({ _id: objectId });
+  }
+
+  async findByName(name: string, excludeId?: string): Promise<Preset | null> {
+    const collection = await this.collection();
+    const excluded = excludeId ? this.toObjectId(excludeId) : null;
+    return collection.findOne(excluded ? { name, _id: { $ne: excluded } } : { name });
+  }
+
+  async insert(preset: Omit<Preset, '_id'>): Promise<Preset> {
+    const collection = await this.collection();
+    const result = await collection.insertOne(preset);
+    const createdPreset = await collection.findOne({ _id: result.insertedId });
+    if (!createdPreset) {
+      throw new Error('Failed to create preset');
+    }
+    return createdPreset;
+  }
+
+  async update(id: string, changes: Partial<Preset>): Promise<Preset | null> {
+    const objectId = this.toObjectId(id);
+    if (!objectId) return null;
+    const collection = await this.collection();
+    const { _id, ...fields } = changes;
+    const result = await collection.updateOne({ _id: objectId }, { $set: fields });
+    if (result.matchedCount === 0) return null;
+    return collection.findOne({ _id: objectId });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const objectId = this.toObjectId(id);
+    if (!objectId) return false;
+    const collection = await this.collection();
+    const result = await collection.deleteOne({ _id: objectId });
+    return result.deletedCount > 0;
+  }
+
+  async findOutdated(version: string): Promise<Preset[]> {
+    const collection = await this.collection();
+    return collection.find({ version: { $ne: version } }).toArray();
+  }
+}
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+export class MongoPresetRevisionStorage implements PresetRevisionStorage {
+  private indexReady: Promise<string> | null = null;
+
+  private async collection() {
+    const client = await getMongoClient();
+    const collection = client.db('visual-canvas').collection<PresetRevision>('presetRevisions');
+    if (!this.indexReady) {
+      // The unique index turns concurrent appends into a retryable conflict
+      this.indexReady = collection.createIndex({ presetId: 1, revision: -1 }, { unique: true });
+    }
+    await this.indexReady;
+    return collection;
+  }
+
+  async list(presetId: string): Promise<PresetRevisionSummary[]> {
+    const collection = await this.collection();
+    return collection
+      .find({ presetId }, { projection: { data: 0 } })
+      .sort({ revision: -1 })
+      .toArray();
+  }
+
+  async findOne(presetId: string, revision: number): Promise<PresetRevision | null> {
+    const collection = await this.collection();
+    return collection.findOne({ presetId, revision });
+  }
+
+  async latest(presetId: string): Promise<PresetRevision | null> {
+    const collection = await this.collection();
+    return collection.findOne({ presetId }, { sort: { revision: -1 } });
+  }
+
+  async append(revision: Omit<PresetRevision, '_id' | 'revision'>): Promise<PresetRevision> {
+    const collection = await this.collection();
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const latest = await this.latest(revision.presetId);
+      const document: PresetRevision = { ...revision, revision: (latest?.revision ?? 0) + 1 };
+      try {
+        const result = await collection.insertOne(document);
+        return { ...document, _id: result.insertedId };
+      } catch (error) {
+        if ((error as { code?: number }).code !== DUPLICATE_KEY_ERROR) throw error;
+      }
+    }
+    throw new Error('Failed to record preset revision');
+  }
+
+  async deleteForPreset(presetId: string): Promise<number> {
+    const collection = await this.collection();
+    const result = await collection.deleteMany({ presetId });
+    return result.deletedCount;
+  }
+}
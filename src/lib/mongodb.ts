@@ -1,37 +1,45 @@
 import { MongoClient } from 'mongodb';
 
-if (!process.env.MONGODB_URI) {
-  console.error('MONGODB_URI environment variable is not set');
-  throw new Error('Please add your Mongo URI to .env.local');
-}
-
-const uri = process.env.MONGODB_URI;
 const options = {};
 
-let client;
-let clientPromise: Promise<MongoClient>;
+let clientPromise: Promise<MongoClient> | null = null;
 
-if (process.env.NODE_ENV === 'development') {
-  // In development mode, use a global variable so that the value
-  // is preserved across module reloads caused by HMR (Hot Module Replacement).
-  let globalWithMongo = global as typeof globalThis & {
-    _mongoClientPromise?: Promise<MongoClient>;
-  };
+export function isMongoConfigured(): boolean {
+  return !!process.env.MONGODB_URI;
+}
 
-  if (!globalWithMongo._mongoClientPromise) {
-    client = new MongoClient(uri, options);
-    globalWithMongo._mongoClientPromise = client.connect();
+// Connect lazily so routes can fall back to file storage when MONGODB_URI is
+// missing instead of failing at import time.
+export default function getMongoClient(): Promise<MongoClient> {
+  const uri = process.env.MONGODB_URI;
+  if (!uri) {
+    console.error('MONGODB_URI environment variable is not set');
+    throw new Error('Please add your Mongo URI to .env.local');
   }
-  clientPromise = globalWithMongo._mongoClientPromise;
-} else {
+
+  if (process.env.NODE_ENV === 'development') {
+    // In development mode, use a global variable so that the value
+    // is preserved across module reloads caused by HMR (Hot Module Replacement).
+    let globalWithMongo = global as typeof globalThis & {
+      _mongoClientPromise?: Promise<MongoClient>;
+    };
+
+    if (!globalWithMongo._mongoClientPromise) {
+      const client = new MongoClient(uri, options);
+      globalWithMongo._mongoClientPromise = client.connect();
+    }
+    return globalWithMongo._mongoClientPromise;
+  }
+
   // In production mode, it's best to not use a global variable.
-  client = new MongoClient(uri, options);
-  clientPromise = client.connect().catch(error => {
-    console.error('Failed to connect to MongoDB:', error);
-    throw error;
-  });
+  if (!clientPromise) {
+    const client = new MongoClient(uri, options);
+    clientPromise = client.connect().catch(error => {
+      console.error('Failed to connect to MongoDB:', error);
+      // Allow the next request to retry the connection
+      clientPromise = null;
+      throw error;
+    });
+  }
+  return clientPromise;
 }
-
-// Export a module-scoped MongoClient promise. By doing this in a
-// separate module, the client can be shared across functions.
-export default clientPromise; 
\ No newline at end of file
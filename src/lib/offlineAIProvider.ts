@@ -0,0 +1,128 @@
+// offlineAIProvider.ts
+// AI_PROVIDER=offline: no network at all. Image analysis comes from ContextAnalyzer
+// and palettes from ColorHarmonyEngine, so the AI workflow runs on an air-gapped
+// install. The server can't decode images, so colors, brightness and saturation are
+// measured from the thumbnail the browser sends; mood and composition are estimates
+// seeded from the image bytes (the same image always yields the same theme). The
+// result's source says which parts were measured.
+
+import { createHash } from 'crypto';
+import { ContextAnalyzer } from '@/ai-enhanced/services/ContextAnalyzer';
+import { colorHarmonyEngine } from '@/ai-enhanced/services/ColorHarmonyEngine';
+import type { ImageContext } from '@/ai-enhanced/types/ContextTypes';
+import type { ImageSample, WeatherData } from '@/ai-system/types/AITypes';
+import type { ColorPalette, VisualCharacteristics } from '@/types/unified';
+import type { AIProvider, AIProviderKind, ColorHarmonyResult, ThemeAnalysisResult } from './aiProvider';
+
+const ENERGETIC_MOODS = ['energetic', 'vibrant', 'dynamic', 'intense', 'dramatic', 'bold', 'striking'];
+const CALM_MOODS = ['calm', 'serene', 'peaceful', 'subtle', 'understated', 'harmonious'];
+
+// Width/height from a PNG or JPEG header; the analyzer only needs the dimensions
+function readImageSize(bytes: Buffer): { width: number; height: number } {
+  if (bytes.length > 24 && bytes.readUInt32BE(0) === 0x89504e47) {
+    return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+  }
+  if (bytes.length > 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      // SOF0-SOF15 carry the frame size; C4/C8/CC are other segments
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: bytes.readUInt16BE(offset + 7), height: bytes.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + bytes.readUInt16BE(offset + 2);
+    }
+  }
+  return { width: 1024, height: 768 };
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function characteristicsFor(context: ImageContext, palette: ColorHarmonyResult, weather?: WeatherData): VisualCharacteristics {
+  const energetic = context.mood.filter((mood) => ENERGETIC_MOODS.includes(mood)).length;
+  const calm = context.mood.filter((mood) => CALM_MOODS.includes(mood)).length;
+  let energy = clamp01(0.5 + 0.2 * (energetic - calm) + 0.2 * (context.complexity - 0.5));
+  let turbulence = clamp01(context.complexity * 0.8 + energetic * 0.05);
+
+  if (weather) {
+    const condition = weather.condition.toLowerCase();
+    if (condition.includes('storm')) {
+      turbulence = clamp01(turbulence + 0.3);
+      energy = clamp01(energy + 0.2);
+    } else if (condition.includes('rain') || condition.includes('snow') || condition.includes('fog')) {
+      energy = clamp01(energy - 0.1);
+    }
+    turbulence = clamp01(turbulence + Math.min(0.2, weather.windSpeed / 100));
+  }
+
+  return {
+    saturation: clamp01(palette.saturation ?? 0.6),
+    turbulence,
+    harmony: clamp01(palette.harmonyScore ?? 0.7),
+    energy,
+    speed: 0.4 + energy * 1.2,
+    density: 0.5 + context.complexity,
+    brightness: 0.5 + clamp01(palette.brightness ?? 0.5)
+  };
+}
+
+export class OfflineAIProvider implements AIProvider {
+  readonly kind: AIProviderKind = 'offline';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async analyzeImage(image: string, weather?: WeatherData, sample?: ImageSample): Promise<ThemeAnalysisResult> {
+    const bytes = Buffer.from(image.replace(/^data:[^,]*,/, ''), 'base64');
+    const seed = createHash('sha256').update(bytes).digest().readUInt32BE(0);
+
+    // Without a sample the analyzer gets no pixels and estimates the colors too
+    const imageData = (sample
+      ? { width: sample.width, height: sample.height, data: new Uint8ClampedArray(Buffer.from(sample.pixels, 'base64')), colorSpace: 'srgb' }
+      : { ...readImageSize(bytes), data: new Uint8ClampedArray(0), colorSpace: 'srgb' }) as ImageData;
+    // One analyzer per call: its seeded generator is per-instance state
+    const analyzer = new ContextAnalyzer({ enableDetailedLogging: false });
+    const context = await analyzer.analyzeImage(imageData, seed);
+    const palette = await this.generateColorHarmony({
+      primary: context.dominantColors[0],
+      secondary: context.dominantColors[1] || context.dominantColors[0],
+      accent: context.dominantColors[2] || context.dominantColors[0],
+      supporting: context.dominantColors.slice(3)
+    });
+
+    const mood = context.mood.length > 0 ? context.mood : ['balanced'];
+    const setting = [context.timeOfDay, context.weatherSuggestion].filter(Boolean).join(', ');
+
+    return {
+      theme: `${context.artStyle ?? 'abstract'} ${context.imageType}`,
+      colorPalette: {
+        primary: palette.primary,
+        secondary: palette.secondary,
+        accent: palette.accent,
+        supporting: palette.supporting
+      },
+      mood,
+      atmosphere: `A ${mood.slice(0, 2).join(', ')} ${context.imageType} scene${setting ? ` (${setting})` : ''}`,
+      visualCharacteristics: characteristicsFor(context, palette, weather),
+      confidence: context.confidence,
+      source: sample
+        ? 'Offline analysis (colors measured from the image; mood and composition estimated)'
+        : 'Offline analysis (estimated; the image was not decoded)',
+      apiTokens: 0,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  async generateColorHarmony(basePalette: ColorPalette): Promise<ColorHarmonyResult> {
+    const palette = colorHarmonyEngine.generatePalette(basePalette.primary);
+    return {
+      ...palette,
+      source: 'Offline Color Harmony',
+      apiTokens: 0,
+      timestamp: new Date().toISOString()
+    };
+  }
+}
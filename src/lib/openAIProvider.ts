@@ -0,0 +1,238 @@
+// openAIProvider.ts
+// Chat-completions provider: OpenAI itself, or any server exposing the same API
+// (AI_PROVIDER=openai-compatible with AI_BASE_URL). Keys stay on the server.
+
+import { fetchWithTimeout } from './upstream';
+import type { AIProvider, AIProviderKind, ColorHarmonyResult, ThemeAnalysisResult } from './aiProvider';
+import type { WeatherData } from '@/ai-system/types/AITypes';
+import type { ColorPalette } from '@/types/unified';
+
+const VISION_TIMEOUT_MS = 45000;
+const TEXT_TIMEOUT_MS = 30000;
+
+export interface OpenAIChatProviderOptions {
+  kind: AIProviderKind;
+  label: string;              // Provider name used in error messages
+  baseUrl?: string;           // Up to and including the version, e.g. http://localhost:11434/v1
+  apiKey?: string;
+  requireApiKey?: boolean;    // Self-hosted servers usually accept anonymous requests
+  textModel?: string;
+  visionModel?: string;
+  jsonMode: boolean;          // Send response_format: json_object (not every server supports it)
+}
+
+export class OpenAIChatProvider implements AIProvider {
+  readonly kind: AIProviderKind;
+
+  constructor(private readonly options: OpenAIChatProviderOptions) {
+    this.kind = options.kind;
+  }
+
+  isConfigured(): boolean {
+    const { baseUrl, apiKey, requireApiKey, textModel, visionModel } = this.options;
+    return Boolean(baseUrl && textModel && visionModel && (apiKey || !requireApiKey));
+  }
+
+  async analyzeImage(image: string, weatherData?: WeatherData): Promise<ThemeAnalysisResult> {
+    // Accept a data URL or bare base64; keep the declared image type when there is one
+    const match = image.match(/^data:(image\/[a-z0-9.+-]+);base64,/i);
+    const mimeType = match ? match[1] : 'image/jpeg';
+    const base64Data = match ? image.slice(match[0].length) : image;
+
+    const { content, tokens } = await this.chatCompletion({
+      model: this.options.visionModel,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: `Analyze this image and create a visual theme for a dynamic digital art canvas. Consider the following:
+
+1. **Theme Analysis**: What is the overall theme, mood, and atmosphere?
+2. **Color Palette**: Extract dominant colors and create a harmonious palette
+3. **Visual Characteristics**: Determine saturation, energy, speed, density, brightness levels
+4. **Weather Integration**: ${weatherData ? `Current weather: ${weatherData.condition}, ${weatherData.temperature}°F, ${weatherData.windSpeed}mph wind. How should this affect the visual theme?` : 'No weather data available'}
+
+Return your analysis as a JSON object with this exact structure:
+{
+  "theme": "string",
+  "colorPalette": {
+    "primary": "hex color",
+    "secondary": "hex color",
+    "accent": "hex color",
+    "supporting": ["hex colors"]
+  },
+  "mood": ["mood words"],
+  "atmosphere": "string",
+  "visualCharacteristics": {
+    "saturation": 0.0-1.0,
+    "turbulence": 0.0-1.0,
+    "harmony": 0.0-1.0,
+    "energy": 0.0-1.0,
+    "speed": 0.0-1.0,
+    "density": 0.0-1.0,
+    "brightness": 0.0-1.0
+  },
+  "weatherMappings": {
+    "temperature": {
+      "hueShift": "function description",
+      "speedMultiplier": "function description",
+      "energyModifier": "function description"
+    },
+    "wind": {
+      "turbulence": "function description",
+      "flowDirection": "function description",
+      "density": "function description"
+    },
+    "conditions": {}
+  },
+  "confidence": 0.0-1.0
+}`
+            },
+            {
+              type: 'image_url',
+              image_url: {
+                url: `data:${mimeType};base64,${base64Data}`
+              }
+            }
+          ]
+        }
+      ],
+      max_tokens: 1500,
+      temperature: 0.3
+    }, VISION_TIMEOUT_MS);
+
+    const aiAnalysis = this.parseJsonReply(content, 'image analysis');
+    return {
+      ...aiAnalysis,
+      confidence: aiAnalysis.confidence || 0.85,
+      source: `${this.options.label} Vision API`,
+      apiTokens: tokens,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  async generateColorHarmony(basePalette: ColorPalette, weatherData?: WeatherData): Promise<ColorHarmonyResult> {
+    const { content, tokens } = await this.chatCompletion({
+      model: this.options.textModel,
+      messages: [
+        {
+          role: 'user',
+          content: `Generate an enhanced color harmony palette based on this base palette: ${JSON.stringify(basePalette)}
+
+${weatherData ? `Current weather context: ${weatherData.condition}, ${weatherData.temperature}°F, ${weatherData.timeOfDay}` : ''}
+
+Create a sophisticated color palette with:
+- Primary, secondary, and accent colors
+- Supporting colors (4-6 colors)
+- Complementary and analogous variations
+- Weather-appropriate adjustments
+
+Return as JSON:
+{
+  "primary": "hex",
+  "secondary": "hex",
+  "accent": "hex",
+  "supporting": ["hex colors"],
+  "complementary": ["hex colors"],
+  "analogous": ["hex colors"],
+  "weatherAdjusted": ["hex colors"],
+  "harmonyType": "string",
+  "confidence": 0.0-1.0
+}`
+        }
+      ],
+      ...(this.options.jsonMode && { response_format: { type: 'json_object' } }),
+      max_tokens: 800,
+      temperature: 0.4
+    }, TEXT_TIMEOUT_MS);
+
+    return {
+      ...this.parseJsonReply(content, 'color harmony'),
+      source: `${this.options.label} Color Harmony`,
+      apiTokens: tokens,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  async suggestParameterMapping(prompt: string): Promise<any> {
+    const { content } = await this.chatCompletion({
+      model: this.options.textModel,
+      messages: [
+        {
+          role: 'system',
+          content: 'You tune parameters of a generative 3D art canvas. Reply with JSON only.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      ...(this.options.jsonMode && { response_format: { type: 'json_object' } }),
+      max_tokens: 1200,
+      temperature: 0.3
+    }, TEXT_TIMEOUT_MS);
+
+    return this.parseJsonReply(content, 'parameter mapping');
+  }
+
+  private async chatCompletion(payload: Record<string, unknown>, timeoutMs: number): Promise<{ content: string; tokens: number | 'Unknown' }> {
+    const { label, baseUrl, apiKey } = this.options;
+    if (!this.isConfigured()) {
+      throw new Error(this.kind === 'openai'
+        ? 'OpenAI API key not configured on the server'
+        : 'AI server not configured: set AI_BASE_URL and AI_MODEL');
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetchWithTimeout(`${baseUrl!.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(payload)
+    }, timeoutMs);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${label} API error response:`, response.status, errorText);
+
+      if (response.status === 401) {
+        throw new Error(`${label} rejected the server API key`);
+      }
+      if (response.status === 429) {
+        throw new Error(`${label} rate limit exceeded`);
+      }
+      let detail = response.statusText;
+      try {
+        detail = JSON.parse(errorText).error?.message || detail;
+      } catch (parseError) {
+        // Keep the status text
+      }
+      throw new Error(`${label} API error ${response.status}: ${detail}`);
+    }
+
+    const data = await response.json();
+    return {
+      content: String(data.choices?.[0]?.message?.content ?? ''),
+      tokens: data.usage?.total_tokens || 'Unknown'
+    };
+  }
+
+  private parseJsonReply(text: string, what: string): any {
+    let cleanedResponse = text.trim();
+    if (cleanedResponse.startsWith('```')) {
+      cleanedResponse = cleanedResponse.replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+    }
+    try {
+      const parsed = JSON.parse(cleanedResponse);
+      if (!parsed || typeof parsed !== 'object') throw new Error('not an object');
+      return parsed;
+    } catch (parseError) {
+      throw new Error(`AI returned invalid JSON format for ${what}`);
+    }
+  }
+}
@@ -0,0 +1,164 @@
+// parameterMappingPrompt.ts
+// Validates the structured body of /api/ai/parameter-mapping and writes the prompt
+// from it on the server. Only known fields are read and every string is bounded, so
+// callers can describe a scene but can't send their own text to the AI provider.
+
+import type { AdjustableParameter, ParameterMappingRequest } from '@/ai-system/types/AITypes';
+import type { PresetValidationError, PresetValidationResult } from './presetValidation';
+
+const MAX_PARAMETERS = 100;
+const MAX_LIST_ITEMS = 20;
+const MAX_SHORT_TEXT = 60;      // Theme, moods, effect names
+const MAX_LONG_TEXT = 200;      // Atmosphere, rule descriptions
+const PATH_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*$/;
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const CHARACTERISTICS = ['saturation', 'turbulence', 'harmony', 'energy', 'speed', 'density', 'brightness'] as const;
+const PERFORMANCE_MODES = ['quality', 'balanced', 'performance'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+/** Check a request body against ParameterMappingRequest; error paths are prefixed with `body.`. */
+export function validateParameterMappingRequest(body: unknown): PresetValidationResult {
+  const errors: PresetValidationError[] = [];
+  const fail = (path: string, message: string, value?: unknown) => errors.push({ path, message, value });
+
+  const text = (path: string, value: unknown, max: number) => {
+    if (typeof value !== 'string' || value.length > max) fail(path, `must be a string of at most ${max} characters`, value);
+  };
+  const textList = (path: string, value: unknown, max: number) => {
+    if (!Array.isArray(value) || value.length > MAX_LIST_ITEMS) {
+      fail(path, `must be an array of at most ${MAX_LIST_ITEMS} items`);
+      return;
+    }
+    value.forEach((item, index) => text(`${path}.${index}`, item, max));
+  };
+  const color = (path: string, value: unknown) => {
+    if (typeof value !== 'string' || !HEX_COLOR.test(value)) fail(path, 'must be a hex color like #ff00cc', value);
+  };
+
+  if (!isObject(body)) {
+    fail('body', 'must be an object', body);
+    return { valid: false, errors };
+  }
+
+  const { analysis } = body;
+  if (!isObject(analysis)) {
+    fail('body.analysis', 'must be an object');
+  } else {
+    text('body.analysis.theme', analysis.theme, MAX_SHORT_TEXT);
+    text('body.analysis.atmosphere', analysis.atmosphere, MAX_LONG_TEXT);
+    textList('body.analysis.mood', analysis.mood, MAX_SHORT_TEXT);
+    if (!isNumber(analysis.confidence)) fail('body.analysis.confidence', 'must be a number', analysis.confidence);
+
+    const palette = analysis.colorPalette;
+    if (!isObject(palette)) {
+      fail('body.analysis.colorPalette', 'must be an object');
+    } else {
+      (['primary', 'secondary', 'accent'] as const).forEach((key) => color(`body.analysis.colorPalette.${key}`, palette[key]));
+      if (!Array.isArray(palette.supporting) || palette.supporting.length > MAX_LIST_ITEMS) {
+        fail('body.analysis.colorPalette.supporting', `must be an array of at most ${MAX_LIST_ITEMS} colors`);
+      } else {
+        palette.supporting.forEach((item: unknown, index: number) => color(`body.analysis.colorPalette.supporting.${index}`, item));
+      }
+    }
+
+    const characteristics = analysis.visualCharacteristics;
+    if (!isObject(characteristics)) {
+      fail('body.analysis.visualCharacteristics', 'must be an object');
+    } else {
+      CHARACTERISTICS.forEach((key) => {
+        if (!isNumber(characteristics[key])) fail(`body.analysis.visualCharacteristics.${key}`, 'must be a number', characteristics[key]);
+      });
+    }
+  }
+
+  textList('body.activeEffects', body.activeEffects, MAX_SHORT_TEXT);
+
+  const { preferences } = body;
+  if (preferences !== undefined) {
+    if (!isObject(preferences)) {
+      fail('body.preferences', 'must be an object');
+    } else {
+      if (!PERFORMANCE_MODES.includes(preferences.performanceMode)) {
+        fail('body.preferences.performanceMode', `must be one of: ${PERFORMANCE_MODES.join(', ')}`, preferences.performanceMode);
+      }
+      textList('body.preferences.preferredMood', preferences.preferredMood, MAX_SHORT_TEXT);
+      if (!isNumber(preferences.sensitivityLevel)) fail('body.preferences.sensitivityLevel', 'must be a number', preferences.sensitivityLevel);
+    }
+  }
+
+  const { parameters } = body;
+  if (!Array.isArray(parameters) || parameters.length === 0 || parameters.length > MAX_PARAMETERS) {
+    fail('body.parameters', `must be an array of 1 to ${MAX_PARAMETERS} parameters`);
+  } else {
+    parameters.forEach((parameter: unknown, index: number) => {
+      const base = `body.parameters.${index}`;
+      if (!isObject(parameter)) {
+        fail(base, 'must be an object', parameter);
+        return;
+      }
+      if (typeof parameter.variable !== 'string' || parameter.variable.length > MAX_LONG_TEXT || !PATH_PATTERN.test(parameter.variable)) {
+        fail(`${base}.variable`, 'must be a dotted state path like camera.fov', parameter.variable);
+      }
+      const { current } = parameter;
+      if (typeof current === 'string') {
+        color(`${base}.current`, current);
+      } else if (typeof current !== 'boolean' && !isNumber(current)) {
+        fail(`${base}.current`, 'must be a number, boolean or hex color', current);
+      }
+      (['min', 'max'] as const).forEach((key) => {
+        if (parameter[key] !== undefined && !isNumber(parameter[key])) fail(`${base}.${key}`, 'must be a number', parameter[key]);
+      });
+      if (parameter.description !== undefined) text(`${base}.description`, parameter.description, MAX_LONG_TEXT);
+    });
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+function describeParameter({ variable, current, min, max, description }: AdjustableParameter): string {
+  const kind = typeof current === 'string' ? 'color' : typeof current;
+  const range = typeof current === 'number' && min !== undefined && max !== undefined ? ` range ${min}–${max}` : '';
+  return `- ${variable} (${kind}${range}): current ${JSON.stringify(current)}${description ? ` — ${description}` : ''}`;
+}
+
+/** The user message for a validated request. Rebuilds every object so unknown keys never reach the model. */
+export function buildParameterMappingPrompt(request: ParameterMappingRequest): string {
+  const { theme, colorPalette, mood, atmosphere, visualCharacteristics, confidence } = request.analysis;
+  const analysis = {
+    theme,
+    colorPalette: {
+      primary: colorPalette.primary,
+      secondary: colorPalette.secondary,
+      accent: colorPalette.accent,
+      supporting: colorPalette.supporting
+    },
+    mood,
+    atmosphere,
+    visualCharacteristics: Object.fromEntries(CHARACTERISTICS.map((key) => [key, visualCharacteristics[key]])),
+    confidence
+  };
+  const preferences = request.preferences
+    ? {
+        performanceMode: request.preferences.performanceMode,
+        preferredMood: request.preferences.preferredMood,
+        sensitivityLevel: request.preferences.sensitivityLevel
+      }
+    : {};
+
+  return `Analyze the following visual scene and suggest parameter adjustments:
+
+AI Analysis: ${JSON.stringify(analysis, null, 2)}
+Active Effects: ${JSON.stringify(request.activeEffects)}
+User Preferences: ${JSON.stringify(preferences, null, 2)}
+
+Adjustable parameters:
+${request.parameters.map(describeParameter).join('\n')}
+
+Suggest parameter updates that would enhance the visual experience while maintaining performance.
+Only use the parameters listed above; colors must be hex strings like "#1a2b3c".
+Return JSON: {"suggestions": [{"variable": "path", "value": number | boolean | "hex", "reason": "short why", "confidence": 0.0-1.0}], "confidence": 0.0-1.0}`;
+}
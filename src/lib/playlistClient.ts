@@ -0,0 +1,72 @@
+import {
+  Playlist,
+  CreatePlaylistRequest,
+  UpdatePlaylistRequest,
+  PlaylistListResponse
+} from '@/types/playlist';
+import { formatApiError } from './presetClient';
+
+const API_BASE = '/api/playlists';
+
+export class PlaylistClient {
+  static async getPlaylists(): Promise<PlaylistListResponse> {
+    const response = await fetch(API_BASE);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch playlists: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  static async getPlaylistById(id: string): Promise<Playlist> {
+    const response = await fetch(`${API_BASE}/${id}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch playlist: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  static async createPlaylist(playlist: CreatePlaylistRequest): Promise<Playlist> {
+    const response = await fetch(API_BASE, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(playlist),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(formatApiError(error) || `Failed to create playlist: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  static async updatePlaylist(id: string, updateData: Partial<UpdatePlaylistRequest>): Promise<Playlist> {
+    const response = await fetch(`${API_BASE}/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(updateData),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(formatApiError(error) || `Failed to update playlist: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  static async deletePlaylist(id: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/${id}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || `Failed to delete playlist: ${response.statusText}`);
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import {
+  Playlist,
+  CreatePlaylistRequest,
+  UpdatePlaylistRequest,
+  PlaylistListResponse
+} from '@/types/playlist';
+import { getPlaylistStorage, PlaylistStorage } from './playlistStorage';
+import { canCreatePreset, canModifyPreset } from './presetPermissions';
+import { PublicUser } from '@/types/auth';
+
+const UPDATABLE_FIELDS = ['name', 'description', 'order', 'dwell', 'transition', 'items', 'isPublic'] as const;
+
+// Playlists follow the preset rules: editors create and manage their own, admins manage all
+export class PlaylistService {
+  private static instance: PlaylistService;
+
+  public static getInstance(): PlaylistService {
+    if (!PlaylistService.instance) {
+      PlaylistService.instance = new PlaylistService();
+    }
+    return PlaylistService.instance;
+  }
+
+  private get storage(): PlaylistStorage {
+    return getPlaylistStorage();
+  }
+
+  async getPlaylists(): Promise<PlaylistListResponse> {
+    const playlists = await this.storage.list();
+    return {
+      playlists,
+      total: playlists.length
+    };
+  }
+
+  async getPlaylistById(id: string): Promise<Playlist | null> {
+    return this.storage.findById(id);
+  }
+
+  async createPlaylist(request: CreatePlaylistRequest, user: PublicUser): Promise<Playlist> {
+    if (!canCreatePreset(user)) {
+      throw new Error('You do not have permission to create playlists');
+    }
+
+    const existing = await this.storage.findByName(request.name);
+    if (existing) {
+      throw new Error('A playlist with this name already exists');
+    }
+
+    const now = new Date();
+    return this.storage.insert({
+      name: request.name,
+      description: request.description || '',
+      order: request.order,
+      dwell: request.dwell,
+      transition: request.transition,
+      items: request.items,
+      isPublic: request.isPublic || false,
+      createdBy: user.username,
+      ownerId: user.id,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  async updatePlaylist(id: string, updateData: Partial<UpdatePlaylistRequest>, user: PublicUser): Promise<Playlist | null> {
+    const changes = Object.fromEntries(
+      UPDATABLE_FIELDS
+        .filter((field) => updateData[field] !== undefined)
+        .map((field) => [field, updateData[field]])
+    ) as Partial<CreatePlaylistRequest>;
+
+    const existing = await this.storage.findById(id);
+    if (!existing) {
+      throw new Error('Playlist not found');
+    }
+    if (!canModifyPreset(user, existing)) {
+      throw new Error('You do not have permission to modify this playlist');
+    }
+
+    if (changes.name && changes.name !== existing.name) {
+      const conflict = await this.storage.findByName(changes.name, id);
+      if (conflict) {
+        throw new Error('A playlist with this name already exists');
+      }
+    }
+
+    return this.storage.update(id, { ...changes, updatedAt: new Date() });
+  }
+
+  async deletePlaylist(id: string, user: PublicUser): Promise<boolean> {
+    const existing = await this.storage.findById(id);
+    if (!existing) return false;
+    if (!canModifyPreset(user, existing)) {
+      throw new Error('You do not have permission to delete this playlist');
+    }
+    return this.storage.delete(id);
+  }
+}
@@ -0,0 +1,126 @@
+import path from 'path';
+import { ObjectId } from 'mongodb';
+import getMongoClient from './mongodb';
+import { Playlist } from '@/types/playlist';
+import { JsonFileCollection, getDataDirectory } from './jsonFileStore';
+import { resolvePresetStorageKind } from './presetStorage';
+
+// Playlists are stored next to the presets they rotate through: same backend selection
+export interface PlaylistStorage {
+  list(): Promise<Playlist[]>;
+  findById(id: string): Promise<Playlist | null>;
+  findByName(name: string, excludeId?: string): Promise<Playlist | null>;
+  insert(playlist: Omit<Playlist, '_id'>): Promise<Playlist>;
+  update(id: string, changes: Partial<Playlist>): Promise<Playlist | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+class MongoPlaylistStorage implements PlaylistStorage {
+  private async collection() {
+    const client = await getMongoClient();
+    return client.db('visual-canvas').collection<Playlist>('playlists');
+  }
+
+  private toObjectId(id: string): ObjectId | null {
+    return ObjectId.isValid(id) ? new ObjectId(id) : null;
+  }
+
+  async list(): Promise<Playlist[]> {
+    const collection = await this.collection();
+    return collection.find({}).sort({ name: 1 }).toArray();
+  }
+
+  async findById(id: string): Promise<Playlist | null> {
+    const objectId = this.toObjectId(id);
+    if (!objectId) return null;
+    const collection = await this.collection();
+    return collection.findOne({ _id: objectId });
+  }
+
+  async findByName(name: string, excludeId?: string): Promise<Playlist | null> {
+    const collection = await this.collection();
+    const excluded = excludeId ? this.toObjectId(excludeId) : null;
+    return collection.findOne(excluded ? { name, _id: { $ne: excluded } } : { name });
+  }
+
+  async insert(playlist: Omit<Playlist, '_id'>): Promise<Playlist> {
+    const collection = await this.collection();
+    const result = await collection.insertOne(playlist);
+    return { ...playlist, _id: result.insertedId };
+  }
+
+  async update(id: string, changes: Partial<Playlist>): Promise<Playlist | null> {
+    const objectId = this.toObjectId(id);
+    if (!objectId) return null;
+    const collection = await this.collection();
+    const { _id, ...fields } = changes;
+    const result = await collection.updateOne({ _id: objectId }, { $set: fields });
+    if (result.matchedCount === 0) return null;
+    return collection.findOne({ _id: objectId });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const objectId = this.toObjectId(id);
+    if (!objectId) return false;
+    const collection = await this.collection();
+    const result = await collection.deleteOne({ _id: objectId });
+    return result.deletedCount > 0;
+  }
+}
+
+class FilePlaylistStorage implements PlaylistStorage {
+  private readonly playlists = new JsonFileCollection<Playlist>(
+    path.join(getDataDirectory(), 'playlists.json'),
+    ['createdAt', 'updatedAt']
+  );
+
+  async list(): Promise<Playlist[]> {
+    return (await this.playlists.readAll()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async findById(id: string): Promise<Playlist | null> {
+    return (await this.playlists.readAll()).find((playlist) => String(playlist._id) === id) || null;
+  }
+
+  async findByName(name: string, excludeId?: string): Promise<Playlist | null> {
+    return (await this.playlists.readAll())
+      .find((playlist) => playlist.name === name && String(playlist._id) !== excludeId) || null;
+  }
+
+  async insert(playlist: Omit<Playlist, '_id'>): Promise<Playlist> {
+    const created: Playlist = { _id: new ObjectId().toHexString(), ...playlist };
+    return this.playlists.update((documents) => ({
+      documents: [...documents, created],
+      result: created
+    }));
+  }
+
+  async update(id: string, changes: Partial<Playlist>): Promise<Playlist | null> {
+    const { _id, ...fields } = changes;
+    return this.playlists.update((documents) => {
+      const index = documents.findIndex((playlist) => String(playlist._id) === id);
+      if (index === -1) {
+        return { documents, result: null };
+      }
+      const next = [...documents];
+      next[index] = { ...documents[index], ...fields };
+      return { documents: next, result: next[index] };
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.playlists.update((documents) => {
+      const next = documents.filter((playlist) => String(playlist._id) !== id);
+      return { documents: next, result: next.length !== documents.length };
+    });
+  }
+}
+
+let storage: PlaylistStorage | null = null;
+
+export function getPlaylistStorage(): PlaylistStorage {
+  if (!storage) {
+    storage = resolvePresetStorageKind() === 'mongo' ? new MongoPlaylistStorage() : new FilePlaylistStorage();
+  }
+  return storage;
+}
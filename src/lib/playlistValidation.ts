@@ -0,0 +1,82 @@
+// playlistValidation.ts
+// Runtime validation of playlist payloads before they are stored.
+
+import { parseClockTime } from '@/utils/playlistSchedule';
+import { PresetValidationError, PresetValidationResult } from './presetValidation';
+
+export const PLAYLIST_ORDERS = ['ordered', 'shuffled'] as const;
+const MAX_ITEMS = 500;
+const MAX_DWELL = 24 * 60 * 60;
+const MAX_TRANSITION = 600;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+function checkRange(value: unknown, path: string, min: number, max: number, errors: PresetValidationError[]) {
+  if (!isNumber(value) || value < min || value > max) {
+    errors.push({ path, message: `must be a number between ${min} and ${max}`, value });
+  }
+}
+
+function validateItem(item: unknown, path: string, errors: PresetValidationError[]) {
+  if (!isObject(item)) {
+    errors.push({ path, message: 'must be an object', value: item });
+    return;
+  }
+  if (typeof item.presetId !== 'string' || !item.presetId) {
+    errors.push({ path: `${path}.presetId`, message: 'must be a non-empty string', value: item.presetId });
+  }
+  if (item.presetName !== undefined && typeof item.presetName !== 'string') {
+    errors.push({ path: `${path}.presetName`, message: 'must be a string', value: item.presetName });
+  }
+  if (item.dwell !== undefined) checkRange(item.dwell, `${path}.dwell`, 1, MAX_DWELL, errors);
+  if (item.transition !== undefined) checkRange(item.transition, `${path}.transition`, 0, MAX_TRANSITION, errors);
+
+  if (item.window !== undefined) {
+    if (!isObject(item.window)) {
+      errors.push({ path: `${path}.window`, message: 'must be an object', value: item.window });
+      return;
+    }
+    (['start', 'end'] as const).forEach((field) => {
+      const value = item.window[field];
+      if (typeof value !== 'string' || parseClockTime(value) === null) {
+        errors.push({ path: `${path}.window.${field}`, message: 'must be a time like 22:00', value });
+      }
+    });
+  }
+}
+
+/**
+ * Validate a playlist body. With `partial`, omitted fields are allowed (updates);
+ * fields that are sent must still be valid.
+ */
+export function validatePlaylist(body: unknown, options: { partial?: boolean } = {}): PresetValidationResult {
+  const errors: PresetValidationError[] = [];
+  if (!isObject(body)) {
+    return { valid: false, errors: [{ path: '', message: 'must be an object', value: body }] };
+  }
+  const present = (field: string) => !options.partial || body[field] !== undefined;
+
+  if (present('name') && (typeof body.name !== 'string' || !body.name.trim())) {
+    errors.push({ path: 'name', message: 'must be a non-empty string', value: body.name });
+  }
+  if (present('order') && !PLAYLIST_ORDERS.includes(body.order)) {
+    errors.push({ path: 'order', message: `must be one of: ${PLAYLIST_ORDERS.join(', ')}`, value: body.order });
+  }
+  if (present('dwell')) checkRange(body.dwell, 'dwell', 1, MAX_DWELL, errors);
+  if (present('transition')) checkRange(body.transition, 'transition', 0, MAX_TRANSITION, errors);
+
+  if (present('items')) {
+    if (!Array.isArray(body.items) || body.items.length === 0) {
+      errors.push({ path: 'items', message: 'must be a non-empty array' });
+    } else if (body.items.length > MAX_ITEMS) {
+      errors.push({ path: 'items', message: `must have at most ${MAX_ITEMS} items` });
+    } else {
+      body.items.forEach((item, index) => validateItem(item, `items.${index}`, errors));
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
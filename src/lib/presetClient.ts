@@ -1,7 +1,22 @@
-import { Preset, CreatePresetRequest, UpdatePresetRequest, PresetListResponse } from '@/types/preset';
+import {
+  Preset,
+  CreatePresetRequest,
+  UpdatePresetRequest,
+  PresetListResponse,
+  PresetRevision,
+  PresetRevisionDiff,
+  PresetRevisionListResponse
+} from '@/types/preset';
 
 const API_BASE = '/api/presets';
 
+// Include per-field validation errors (422 responses) in the thrown message
+export function formatApiError(error: { error?: string; details?: { path: string; message: string }[] }): string | undefined {
+  if (!error.details?.length) return error.error;
+  const fields = error.details.map((detail) => `${detail.path} ${detail.message}`).join('; ');
+  return `${error.error}: ${fields}`;
+}
+
 export class PresetClient {
   static async getPresets(params: {
     page?: number;
@@ -43,7 +58,7 @@ export class PresetClient {
     
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(error.error || `Failed to create preset: ${response.statusText}`);
+      throw new Error(formatApiError(error) || `Failed to create preset: ${response.statusText}`);
     }
     
     return response.json();
@@ -60,7 +75,7 @@ export class PresetClient {
     
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(error.error || `Failed to update preset: ${response.statusText}`);
+      throw new Error(formatApiError(error) || `Failed to update preset: ${response.statusText}`);
     }
     
     return response.json();
@@ -77,6 +92,47 @@ export class PresetClient {
     }
   }
 
+  static async getRevisions(id: string): Promise<PresetRevisionListResponse> {
+    const response = await fetch(`${API_BASE}/${id}/revisions`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch revisions: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  static async getRevision(id: string, revision: number): Promise<PresetRevision> {
+    const response = await fetch(`${API_BASE}/${id}/revisions/${revision}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch revision: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  static async diffRevisions(id: string, from: number, to: number): Promise<PresetRevisionDiff> {
+    const response = await fetch(`${API_BASE}/${id}/revisions/diff?from=${from}&to=${to}`);
+    if (!response.ok) {
+      throw new Error(`Failed to diff revisions: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  static async restoreRevision(id: string, revision: number, message?: string): Promise<Preset> {
+    const response = await fetch(`${API_BASE}/${id}/revisions/${revision}/restore`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ message }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || `Failed to restore revision: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
   static async saveCurrentState(name: string, description?: string): Promise<Preset> {
     // This will be implemented to save the current visual state
     // We'll need to get the current state from the visual store
@@ -0,0 +1,36 @@
+// presetDiff.ts
+// Structural diff between two preset snapshots (revisions or live presets).
+//
+// Objects are walked key by key; arrays and other values are compared as a whole,
+// so a changed color palette is reported once rather than per element.
+
+import { PresetChange } from '@/types/preset';
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+const isEqual = (a: unknown, b: unknown): boolean =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+function walk(path: string, from: unknown, to: unknown, changes: PresetChange[]) {
+  if (isObject(from) && isObject(to)) {
+    const keys = Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).sort();
+    keys.forEach((key) => walk(path ? `${path}.${key}` : key, from[key], to[key], changes));
+    return;
+  }
+
+  if (from === undefined && to !== undefined) {
+    changes.push({ path, type: 'added', to });
+  } else if (from !== undefined && to === undefined) {
+    changes.push({ path, type: 'removed', from });
+  } else if (!isEqual(from, to)) {
+    changes.push({ path, type: 'changed', from, to });
+  }
+}
+
+/** Leaf-level changes needed to turn `from` into `to`, sorted by path. */
+export function diffPresetSnapshots(from: Record<string, unknown>, to: Record<string, unknown>): PresetChange[] {
+  const changes: PresetChange[] = [];
+  walk('', from, to, changes);
+  return changes;
+}
@@ -0,0 +1,223 @@
+// presetMigrations.ts
+// Versioned preset schema and the ordered chain of migrations that upgrades
+// stored preset data (localStorage, MongoDB, shared URLs) to the current shape.
+//
+// Migrations are frozen snapshots: each one fills in the values that were the
+// defaults when its fields were introduced, so they must never be edited to track
+// later default changes. Add a new migration instead.
+
+import type { Preset } from '@/types/preset';
+
+export const CURRENT_PRESET_VERSION = '1.6.0';
+
+// Presets written before versioning (and local presets saved as '1.0') start here
+const BASELINE_PRESET_VERSION = '1.0.0';
+
+export interface PresetMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (data: Record<string, any>) => Record<string, any>;
+}
+
+export interface PresetMigrationResult<T> {
+  data: T;
+  version: string;
+  applied: string[]; // Descriptions of the migrations that ran, in order
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Fill keys that are missing on an existing object; never creates the object itself
+const fillMissing = (target: unknown, defaults: Record<string, any>) => {
+  if (!isObject(target)) return;
+  Object.keys(defaults).forEach((key) => {
+    if (target[key] === undefined) {
+      target[key] = defaults[key];
+    }
+  });
+};
+
+export const PRESET_MIGRATIONS: PresetMigration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Add movement pattern, distance and pulse settings to shapes and particles',
+    migrate: (data) => {
+      const movementDefaults: Record<string, Record<string, any>> = {
+        spheres: { movementPattern: 'verticalSine', distance: 2.0 },
+        cubes: { movementPattern: 'orbit', distance: 2.5 },
+        toruses: { movementPattern: 'verticalSine', distance: 2.0 },
+        blobs: { movementPattern: 'orbit', distance: 3.0 }
+      };
+
+      Object.keys(movementDefaults).forEach((shape) => {
+        fillMissing(data.geometric?.[shape], {
+          ...movementDefaults[shape],
+          pulseEnabled: false,
+          pulseSize: 1.0
+        });
+      });
+
+      fillMissing(data.particles, {
+        movementPattern: 'random',
+        distance: 1.5,
+        pulseEnabled: false,
+        pulseSize: 1.0
+      });
+
+      return data;
+    }
+  },
+  {
+    from: '1.1.0',
+    to: '1.2.0',
+    description: 'Complete trail types and layered effect settings in globalEffects',
+    migrate: (data) => {
+      const effects = data.globalEffects;
+      if (!isObject(effects)) return data;
+
+      if (isObject(effects.trails)) {
+        const trailDefaults: Record<string, Record<string, any>> = {
+          sphereTrails: { enabled: true, length: 150, opacity: 0.6, width: 0.8, fadeRate: 0.3 },
+          cubeTrails: { enabled: true, length: 120, opacity: 0.5, width: 0.7, fadeRate: 0.4 },
+          blobTrails: { enabled: true, length: 200, opacity: 0.7, width: 0.9, fadeRate: 0.2 },
+          torusTrails: { enabled: true, length: 100, opacity: 0.5, width: 0.6, fadeRate: 0.5 },
+          particleTrails: { enabled: true, length: 300, opacity: 0.8, width: 0.3, fadeRate: 0.1 }
+        };
+        Object.keys(trailDefaults).forEach((trail) => {
+          if (effects.trails[trail] === undefined) {
+            effects.trails[trail] = { ...trailDefaults[trail] };
+          } else {
+            fillMissing(effects.trails[trail], trailDefaults[trail]);
+          }
+        });
+      }
+
+      fillMissing(effects.waveInterference, { preset: 1 });
+      fillMissing(effects.metamorphosis, { intensity: 1.0, layers: 1 });
+      fillMissing(effects.layeredSineWaves, { intensity: 1.0, layerCount: 1 });
+
+      return data;
+    }
+  },
+  {
+    from: '1.2.0',
+    to: '1.3.0',
+    description: 'Render the crystals layer: hide crystals in older presets and add crystal trails',
+    migrate: (data) => {
+      // Crystals were stored but never drawn before 1.3.0, so keep older scenes unchanged
+      if (isObject(data.geometric)) {
+        if (isObject(data.geometric.crystals)) {
+          data.geometric.crystals.count = 0;
+        } else {
+          data.geometric.crystals = { count: 0 };
+        }
+        fillMissing(data.geometric.crystals, {
+          speed: 0.6,
+          movementPattern: 'orbit',
+          distance: 2.0,
+          pulseEnabled: false,
+          pulseSize: 1.0
+        });
+      }
+
+      const trails = data.globalEffects?.trails;
+      if (isObject(trails)) {
+        const crystalTrailDefaults = { enabled: true, length: 120, opacity: 0.6, width: 0.7, fadeRate: 0.35 };
+        if (trails.crystalTrails === undefined) {
+          trails.crystalTrails = { ...crystalTrailDefaults };
+        } else {
+          fillMissing(trails.crystalTrails, crystalTrailDefaults);
+        }
+      }
+
+      return data;
+    }
+  },
+  {
+    from: '1.3.0',
+    to: '1.4.0',
+    description: 'Add a scene seed so layouts and organic geometry are reproducible',
+    migrate: (data) => {
+      if (data.seed === undefined) {
+        data.seed = 20240601; // DEFAULT_SCENE_SEED at the time seeding was introduced
+      }
+      return data;
+    }
+  },
+  {
+    from: '1.4.0',
+    to: '1.5.0',
+    description: 'Add an empty modulator list (LFOs and envelopes)',
+    migrate: (data) => {
+      if (!Array.isArray(data.modulators)) {
+        data.modulators = [];
+      }
+      return data;
+    }
+  },
+  {
+    from: '1.5.0',
+    to: '1.6.0',
+    description: 'Add an empty list of declarative mapping rules',
+    migrate: (data) => {
+      if (!Array.isArray(data.mappingRules)) {
+        data.mappingRules = [];
+      }
+      return data;
+    }
+  }
+];
+
+/** Normalise stored version strings ('1.0', undefined) to the migration chain's format. */
+export function normalizePresetVersion(version?: string | null): string {
+  if (!version) return BASELINE_PRESET_VERSION;
+  const parts = version.split('.').map((part) => parseInt(part, 10) || 0);
+  while (parts.length < 3) parts.push(0);
+  return parts.slice(0, 3).join('.');
+}
+
+export function needsMigration(version?: string | null): boolean {
+  return normalizePresetVersion(version) !== CURRENT_PRESET_VERSION;
+}
+
+/**
+ * Run every migration between `version` and CURRENT_PRESET_VERSION over a copy of `data`.
+ * Unknown versions (e.g. from a newer build) are returned untouched.
+ */
+export function migratePresetData<T extends Record<string, any>>(
+  data: T,
+  version?: string | null
+): PresetMigrationResult<T> {
+  let currentVersion = normalizePresetVersion(version);
+  const applied: string[] = [];
+
+  if (!isObject(data) || currentVersion === CURRENT_PRESET_VERSION) {
+    return { data, version: currentVersion, applied };
+  }
+
+  let migrated: Record<string, any> = JSON.parse(JSON.stringify(data));
+  let step = PRESET_MIGRATIONS.find((migration) => migration.from === currentVersion);
+
+  while (step) {
+    migrated = step.migrate(migrated);
+    applied.push(step.description);
+    currentVersion = step.to;
+    step = PRESET_MIGRATIONS.find((migration) => migration.from === currentVersion);
+  }
+
+  if (applied.length > 0 && process.env.NODE_ENV === 'development') {
+    console.log(`🔄 Migrated preset data to ${currentVersion}:`, applied);
+  }
+
+  return { data: migrated as T, version: currentVersion, applied };
+}
+
+/** Migrate a cloud preset document, returning a copy with upgraded data and version. */
+export function migratePreset(preset: Preset): Preset {
+  if (!needsMigration(preset.version)) return preset;
+  const { data, version } = migratePresetData(preset.data, preset.version);
+  return { ...preset, data, version };
+}
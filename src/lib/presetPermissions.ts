@@ -0,0 +1,31 @@
+// presetPermissions.ts
+// Role and ownership rules for cloud presets, shared by the API and the UI.
+//
+// viewer  - read only
+// editor  - create presets, modify/delete their own
+// admin   - everything, including system presets and presets without an owner
+
+import { Preset } from '@/types/preset';
+import { PublicUser, UserRole } from '@/types/auth';
+
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 0,
+  editor: 1,
+  admin: 2
+};
+
+export function hasRole(user: PublicUser | null | undefined, role: UserRole): boolean {
+  return !!user && ROLE_RANK[user.role] >= ROLE_RANK[role];
+}
+
+export function canCreatePreset(user: PublicUser | null | undefined): boolean {
+  return hasRole(user, 'editor');
+}
+
+export function canModifyPreset(user: PublicUser | null | undefined, preset: Pick<Preset, 'ownerId' | 'isSystem'>): boolean {
+  if (!user) return false;
+  if (user.role === 'admin') return true;
+  if (user.role !== 'editor' || preset.isSystem) return false;
+  // Legacy presets saved before ownership have no owner and stay admin-managed
+  return !!preset.ownerId && preset.ownerId === user.id;
+}
@@ -1,6 +1,19 @@
-import clientPromise from './mongodb';
-import { ObjectId } from 'mongodb';
-import { Preset, CreatePresetRequest, UpdatePresetRequest, PresetListResponse } from '@/types/preset';
+import {
+  Preset,
+  CreatePresetRequest,
+  UpdatePresetRequest,
+  PresetListResponse,
+  PresetRevision,
+  PresetRevisionDiff,
+  PresetRevisionListResponse
+} from '@/types/preset';
+import { CURRENT_PRESET_VERSION, migratePreset, migratePresetData, needsMigration } from './presetMigrations';
+import { getPresetRevisionStorage, getPresetStorage, PresetRevisionStorage, PresetStorage } from './presetStorage';
+import { diffPresetSnapshots } from './presetDiff';
+import { canCreatePreset, canModifyPreset } from './presetPermissions';
+import { PublicUser } from '@/types/auth';
+
+const UPDATABLE_FIELDS = ['name', 'description', 'category', 'tags', 'data', 'isPublic', 'isSystem'] as const;
 
 export class PresetService {
   private static instance: PresetService;
@@ -12,6 +25,29 @@ export class PresetService {
     return PresetService.instance;
   }
 
+  private get storage(): PresetStorage {
+    return getPresetStorage();
+  }
+
+  private get revisions(): PresetRevisionStorage {
+    return getPresetRevisionStorage();
+  }
+
+  private recordRevision(preset: Preset, author: string, message: string): Promise<PresetRevision> {
+    return this.revisions.append({
+      presetId: String(preset._id),
+      name: preset.name,
+      description: preset.description,
+      category: preset.category,
+      tags: preset.tags,
+      data: preset.data,
+      version: preset.version,
+      author,
+      message,
+      createdAt: new Date()
+    });
+  }
+
   async getPresets(params: {
     page?: number;
     limit?: number;
@@ -19,37 +55,20 @@ export class PresetService {
     search?: string;
     isPublic?: boolean;
   }): Promise<PresetListResponse> {
-    const client = await clientPromise;
-    const db = client.db('visual-canvas');
-    const collection = db.collection<Preset>('presets');
-
     const { page = 1, limit = 20, category, search, isPublic } = params;
-
-    // Build query
-    const query: any = {};
-    if (category) query.category = category;
-    if (isPublic !== undefined) query.isPublic = isPublic;
-    if (search) {
-      query.$or = [
-        { name: { $regex: search, $options: 'i' } },
-        { description: { $regex: search, $options: 'i' } },
-        { tags: { $in: [new RegExp(search, 'i')] } }
-      ];
-    }
+    const query = { category, search, isPublic };
 
     // Get total count
-    const total = await collection.countDocuments(query);
+    const total = await this.storage.count(query);
 
     // Get presets with pagination
-    const presets = await collection
-      .find(query)
-      .sort({ updatedAt: -1 })
-      .skip((page - 1) * limit)
-      .limit(limit)
-      .toArray();
+    const presets = await this.storage.find(query, {
+      skip: (page - 1) * limit,
+      limit
+    });
 
     return {
-      presets,
+      presets: presets.map(migratePreset),
       total,
       page,
       limit
@@ -57,26 +76,20 @@ export class PresetService {
   }
 
   async getPresetById(id: string): Promise<Preset | null> {
-    const client = await clientPromise;
-    const db = client.db('visual-canvas');
-    const collection = db.collection<Preset>('presets');
-
-    try {
-      const objectId = new ObjectId(id);
-      return await collection.findOne({ _id: objectId });
-    } catch (error) {
-      console.error('Invalid ObjectId format:', id);
-      return null;
-    }
+    const preset = await this.storage.findById(id);
+    return preset ? migratePreset(preset) : null;
   }
 
-  async createPreset(presetData: CreatePresetRequest): Promise<Preset> {
-    const client = await clientPromise;
-    const db = client.db('visual-canvas');
-    const collection = db.collection<Preset>('presets');
+  async createPreset(presetData: CreatePresetRequest, user: PublicUser): Promise<Preset> {
+    if (!canCreatePreset(user)) {
+      throw new Error('You do not have permission to create presets');
+    }
+    if (presetData.isSystem && user.role !== 'admin') {
+      throw new Error('Only admins have permission to create system presets');
+    }
 
     // Check if preset with same name already exists
-    const existingPreset = await collection.findOne({ name: presetData.name });
+    const existingPreset = await this.storage.findByName(presetData.name);
     if (existingPreset) {
       throw new Error('A preset with this name already exists');
     }
@@ -91,80 +104,179 @@ export class PresetService {
       updatedAt: now,
       data: presetData.data,
       isPublic: presetData.isPublic || false,
-      createdBy: 'user', // TODO: Add user authentication
-      version: '1.0.0'
+      isSystem: presetData.isSystem || false,
+      createdBy: user.username,
+      ownerId: user.id,
+      version: CURRENT_PRESET_VERSION
     };
 
-    const result = await collection.insertOne(preset);
-    const createdPreset = await collection.findOne({ _id: result.insertedId });
-    
-    if (!createdPreset) {
-      throw new Error('Failed to create preset');
-    }
-
+    const createdPreset = await this.storage.insert(preset);
+    await this.recordRevision(createdPreset, user.username, 'Created');
     return createdPreset;
   }
 
-  async updatePreset(id: string, updateData: Partial<UpdatePresetRequest>): Promise<Preset | null> {
-    const client = await clientPromise;
-    const db = client.db('visual-canvas');
-    const collection = db.collection<Preset>('presets');
-
-    try {
-      const objectId = new ObjectId(id);
-      
-      // Check if preset exists
-      const existingPreset = await collection.findOne({ _id: objectId });
-      if (!existingPreset) {
-        throw new Error('Preset not found');
-      }
+  async updatePreset(
+    id: string,
+    updateData: Partial<UpdatePresetRequest>,
+    user: PublicUser
+  ): Promise<Preset | null> {
+    // Only editable fields are written; ownership and timestamps are server-managed.
+    // `message` belongs to the revision.
+    const { message } = updateData;
+    const changes = Object.fromEntries(
+      UPDATABLE_FIELDS
+        .filter((field) => updateData[field] !== undefined)
+        .map((field) => [field, updateData[field]])
+    ) as Partial<CreatePresetRequest>;
+
+    // Check if preset exists
+    const existingPreset = await this.storage.findById(id);
+    if (!existingPreset) {
+      throw new Error('Preset not found');
+    }
+
+    if (!canModifyPreset(user, existingPreset)) {
+      throw new Error('You do not have permission to modify this preset');
+    }
+    if (changes.isSystem !== undefined && changes.isSystem !== !!existingPreset.isSystem && user.role !== 'admin') {
+      throw new Error('Only admins have permission to change system presets');
+    }
 
-      // Check if new name conflicts with another preset
-      if (updateData.name && updateData.name !== existingPreset.name) {
-        const nameConflict = await collection.findOne({ 
-          name: updateData.name,
-          _id: { $ne: objectId }
-        });
-        if (nameConflict) {
-          throw new Error('A preset with this name already exists');
-        }
+    // Check if new name conflicts with another preset
+    if (changes.name && changes.name !== existingPreset.name) {
+      const nameConflict = await this.storage.findByName(changes.name, id);
+      if (nameConflict) {
+        throw new Error('A preset with this name already exists');
       }
+    }
 
-      const dataToUpdate: Partial<Preset> = {
-        ...updateData,
-        updatedAt: new Date()
-      };
+    // Presets saved before revision tracking get their current state as a baseline
+    // so the first tracked edit can still be rolled back
+    if (!(await this.revisions.latest(id))) {
+      await this.recordRevision(existingPreset, existingPreset.createdBy || 'user', 'Baseline before revision tracking');
+    }
 
-      const result = await collection.updateOne(
-        { _id: objectId },
-        { $set: dataToUpdate }
-      );
+    const dataToUpdate: Partial<Preset> = {
+      ...changes,
+      updatedAt: new Date()
+    };
 
-      if (result.matchedCount === 0) {
-        throw new Error('Preset not found');
-      }
+    // New data is always written in the current schema
+    if (changes.data) {
+      dataToUpdate.version = CURRENT_PRESET_VERSION;
+    }
 
-      return await collection.findOne({ _id: objectId });
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('Invalid ObjectId')) {
-        throw new Error('Preset not found');
-      }
-      throw error;
+    const updated = await this.storage.update(id, dataToUpdate);
+    if (!updated) {
+      throw new Error('Preset not found');
     }
+
+    const changedFields = Object.keys(changes);
+    await this.recordRevision(
+      updated,
+      user.username,
+      message?.trim() || `Updated ${changedFields.join(', ') || 'preset'}`
+    );
+    return updated;
   }
 
-  async deletePreset(id: string): Promise<boolean> {
-    const client = await clientPromise;
-    const db = client.db('visual-canvas');
-    const collection = db.collection<Preset>('presets');
-
-    try {
-      const objectId = new ObjectId(id);
-      const result = await collection.deleteOne({ _id: objectId });
-      return result.deletedCount > 0;
-    } catch (error) {
-      console.error('Invalid ObjectId format:', id);
-      return false;
+  async deletePreset(id: string, user: PublicUser): Promise<boolean> {
+    const existingPreset = await this.storage.findById(id);
+    if (!existingPreset) return false;
+    if (!canModifyPreset(user, existingPreset)) {
+      throw new Error('You do not have permission to delete this preset');
     }
+
+    const deleted = await this.storage.delete(id);
+    if (deleted) {
+      await this.revisions.deleteForPreset(id);
+    }
+    return deleted;
+  }
+
+  async getRevisions(id: string): Promise<PresetRevisionListResponse | null> {
+    const preset = await this.storage.findById(id);
+    if (!preset) return null;
+
+    const revisions = await this.revisions.list(id);
+    return {
+      presetId: id,
+      revisions,
+      total: revisions.length
+    };
+  }
+
+  async getRevision(id: string, revision: number): Promise<PresetRevision | null> {
+    const entry = await this.revisions.findOne(id, revision);
+    if (!entry) return null;
+
+    const { data, version } = migratePresetData(entry.data, entry.version);
+    return { ...entry, data, version };
+  }
+
+  async diffRevisions(id: string, from: number, to: number): Promise<PresetRevisionDiff | null> {
+    const [before, after] = await Promise.all([this.getRevision(id, from), this.getRevision(id, to)]);
+    if (!before || !after) return null;
+
+    // Both sides are migrated first so schema upgrades don't show up as edits
+    const snapshot = ({ name, description, category, tags, data }: PresetRevision) =>
+      ({ name, description, category, tags, data });
+    return {
+      presetId: id,
+      from,
+      to,
+      changes: diffPresetSnapshots(snapshot(before), snapshot(after))
+    };
+  }
+
+  // Restoring writes a new revision; history is never rewritten. The name is kept
+  // so a rollback can't collide with another preset.
+  async restoreRevision(
+    id: string,
+    revision: number,
+    user: PublicUser,
+    message?: string
+  ): Promise<Preset | null> {
+    const entry = await this.getRevision(id, revision);
+    if (!entry) {
+      throw new Error('Revision not found');
+    }
+
+    return this.updatePreset(id, {
+      description: entry.description,
+      category: entry.category,
+      tags: entry.tags,
+      data: entry.data,
+      message: message || `Restored revision ${revision}`
+    }, user);
+  }
+
+  async migrateStoredPresets(options: { dryRun?: boolean } = {}): Promise<{
+    scanned: number;
+    migrated: { id: string; name: string; from: string; applied: string[] }[];
+  }> {
+    const presets = await this.storage.findOutdated(CURRENT_PRESET_VERSION);
+    const migrated: { id: string; name: string; from: string; applied: string[] }[] = [];
+
+    for (const preset of presets) {
+      if (!needsMigration(preset.version)) continue;
+
+      const { data, version, applied } = migratePresetData(preset.data, preset.version);
+      if (!options.dryRun) {
+        // Leave updatedAt alone: a schema upgrade is not a user edit
+        await this.storage.update(String(preset._id), { data, version });
+      }
+      migrated.push({
+        id: String(preset._id),
+        name: preset.name,
+        from: preset.version || 'unversioned',
+        applied
+      });
+    }
+
+    return {
+      scanned: presets.length,
+      migrated
+    };
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,64 @@
+import { Preset, PresetRevision, PresetRevisionSummary } from '@/types/preset';
+import { isMongoConfigured } from './mongodb';
+import { MongoPresetRevisionStorage, MongoPresetStorage } from './mongoPresetStorage';
+import { FilePresetRevisionStorage, FilePresetStorage } from './filePresetStorage';
+
+export interface PresetQuery {
+  category?: string;
+  search?: string;     // Case-insensitive text over name, description and tags, matched literally
+  isPublic?: boolean;
+}
+
+// Persistence backend for PresetService. Implementations must share the same
+// semantics: search/filter rules, newest-updated-first ordering and id format.
+export interface PresetStorage {
+  find(query: PresetQuery, options: { skip: number; limit: number }): Promise<Preset[]>;
+  count(query: PresetQuery): Promise<number>;
+  findById(id: string): Promise<Preset | null>;
+  findByName(name: string, excludeId?: string): Promise<Preset | null>;
+  insert(preset: Omit<Preset, '_id'>): Promise<Preset>;
+  update(id: string, changes: Partial<Preset>): Promise<Preset | null>;
+  delete(id: string): Promise<boolean>;
+  findOutdated(version: string): Promise<Preset[]>;
+}
+
+// Append-only revision log. `append` assigns the next revision number atomically.
+export interface PresetRevisionStorage {
+  list(presetId: string): Promise<PresetRevisionSummary[]>;
+  findOne(presetId: string, revision: number): Promise<PresetRevision | null>;
+  latest(presetId: string): Promise<PresetRevision | null>;
+  append(revision: Omit<PresetRevision, '_id' | 'revision'>): Promise<PresetRevision>;
+  deleteForPreset(presetId: string): Promise<number>;
+}
+
+export type PresetStorageKind = 'mongo' | 'file';
+
+// PRESET_STORAGE=mongo|file picks explicitly; otherwise Mongo when MONGODB_URI is set
+export function resolvePresetStorageKind(): PresetStorageKind {
+  const configured = process.env.PRESET_STORAGE;
+  if (configured === 'mongo' || configured === 'file') {
+    return configured;
+  }
+  return isMongoConfigured() ? 'mongo' : 'file';
+}
+
+let storage: PresetStorage | null = null;
+let revisionStorage: PresetRevisionStorage | null = null;
+
+export function getPresetStorage(): PresetStorage {
+  if (!storage) {
+    const kind = resolvePresetStorageKind();
+    storage = kind === 'mongo' ? new MongoPresetStorage() : new FilePresetStorage();
+    console.log(`📦 Preset storage: ${kind}`);
+  }
+  return storage;
+}
+
+export function getPresetRevisionStorage(): PresetRevisionStorage {
+  if (!revisionStorage) {
+    revisionStorage = resolvePresetStorageKind() === 'mongo'
+      ? new MongoPresetRevisionStorage()
+      : new FilePresetRevisionStorage();
+  }
+  return revisionStorage;
+}
@@ -0,0 +1,412 @@
+// presetValidation.ts
+// Runtime validation of Preset['data'] payloads before they reach the database.
+//
+// Every known field is checked for type, numeric range, hex color format or enum
+// membership. Fields may be omitted (older presets are filled in by the migration
+// chain on load) and unknown keys are allowed so newer clients stay compatible.
+// Ranges are a superset of what the dashboards can set. Paths in the shared safety
+// limits table use its bounds, so a saved preset never holds a value the mapping
+// engine would clamp.
+
+import { LFO_SHAPES } from '@/utils/modulation';
+import { CONFLICT_STRATEGIES, MAPPING_CURVE_SHAPES, MAPPING_RULE_SOURCES } from '@/utils/mappingRules';
+import { SAFETY_LIMITS } from '@/utils/safetyLimits';
+
+export interface PresetValidationError {
+  path: string;      // e.g. 'data.geometric.spheres.count'
+  message: string;
+  value?: unknown;
+}
+
+export interface PresetValidationResult {
+  valid: boolean;
+  errors: PresetValidationError[];
+}
+
+type FieldSchema =
+  | { kind: 'number'; min: number; max: number; integer?: boolean }
+  | { kind: 'boolean' }
+  | { kind: 'color' }
+  | { kind: 'string' }
+  | { kind: 'enum'; values: readonly string[] }
+  | { kind: 'tuple'; length: number; item: FieldSchema }
+  | { kind: 'array'; item: FieldSchema }
+  | { kind: 'object'; fields: Record<string, FieldSchema> }
+  | { kind: 'any' };
+
+// --- Schema builders ---
+const num = (min: number, max: number): FieldSchema => ({ kind: 'number', min, max });
+const int = (min: number, max: number): FieldSchema => ({ kind: 'number', min, max, integer: true });
+const bool: FieldSchema = { kind: 'boolean' };
+const color: FieldSchema = { kind: 'color' };
+const str: FieldSchema = { kind: 'string' };
+const any: FieldSchema = { kind: 'any' };
+const oneOf = (values: readonly string[]): FieldSchema => ({ kind: 'enum', values });
+const tuple = (length: number, item: FieldSchema = num(-10000, 10000)): FieldSchema => ({ kind: 'tuple', length, item });
+const arrayOf = (item: FieldSchema): FieldSchema => ({ kind: 'array', item });
+const obj = (fields: Record<string, FieldSchema>): FieldSchema => ({ kind: 'object', fields });
+// Paths the mapping engine also clamps take their range from the shared safety limits
+const limited = (path: string): FieldSchema => num(...SAFETY_LIMITS[path]);
+const limitedInt = (path: string): FieldSchema => int(...SAFETY_LIMITS[path]);
+
+export const MOVEMENT_PATTERNS = ['orbit', 'verticalSine', 'static', 'random'] as const;
+const BLEND_MODES = ['normal', 'screen', 'multiply', 'overlay', 'soft-light', 'hard-light', 'color-dodge', 'color-burn', 'difference', 'exclusion', 'darken', 'lighten', 'add'] as const;
+const LAYER_MOVEMENTS = ['minimal', 'slow', 'normal', 'active'] as const;
+
+const movement = {
+  movementPattern: oneOf(MOVEMENT_PATTERNS),
+  distance: num(0, 20),
+  pulseEnabled: bool,
+  pulseSize: num(0, 5)
+};
+
+const shape = (extra: Record<string, FieldSchema> = {}) => obj({
+  count: int(0, 100),
+  size: num(0, 20),
+  color,
+  speed: num(0, 10),
+  rotation: num(-10, 10),
+  opacity: num(0, 1),
+  organicness: num(0, 5),
+  ...movement,
+  ...extra
+});
+
+const trail = obj({
+  enabled: bool,
+  length: int(0, 2000),
+  opacity: num(0, 1),
+  width: num(0, 10),
+  fadeRate: num(0, 1)
+});
+
+const edgeFade = obj({
+  enabled: bool,
+  fadeStart: num(0, 1),
+  fadeEnd: num(0, 1)
+});
+
+const layoutLayer = obj({
+  zPosition: num(-1000, 1000),
+  objects: arrayOf(str),
+  opacity: num(0, 1),
+  movement: oneOf(LAYER_MOVEMENTS)
+});
+
+const bounds = obj({
+  x: tuple(2),
+  y: tuple(2),
+  z: tuple(2)
+});
+
+// LFO and envelope fields share one schema; each kind simply omits the other's fields
+const modulator = obj({
+  id: str,
+  path: str,
+  enabled: bool,
+  kind: oneOf(['lfo', 'envelope']),
+  shape: oneOf(LFO_SHAPES),
+  depth: num(-1000, 1000),
+  rate: num(0, 20),
+  phase: num(0, 1),
+  sync: bool,
+  attack: num(0, 60),
+  decay: num(0, 60),
+  sustain: num(0, 1),
+  hold: num(0, 60),
+  release: num(0, 60),
+  trigger: oneOf(['loop', 'manual'])
+});
+
+// Shape only; expressions are compiled (and rejected if broken) when the rules are applied
+const mappingRule = obj({
+  id: str,
+  variable: str,
+  enabled: bool,
+  source: oneOf(MAPPING_RULE_SOURCES),
+  inputs: arrayOf(str),
+  curve: obj({
+    shape: oneOf(MAPPING_CURVE_SHAPES),
+    inputRange: tuple(2, num(-1e6, 1e6)),
+    outputRange: tuple(2, num(-1e6, 1e6)),
+    steps: int(2, 100)
+  }),
+  expression: str,
+  constraints: obj({
+    min: num(-1e6, 1e6),
+    max: num(-1e6, 1e6),
+    safeZone: tuple(2, num(-1e6, 1e6))
+  }),
+  priority: int(1, 10),
+  sensitivity: num(0, 1),
+  description: str,
+  strategy: oneOf(CONFLICT_STRATEGIES)
+});
+
+const PRESET_DATA_SCHEMA = obj({
+  ui: any,
+  location: str,
+  globalAnimationSpeed: num(0.01, 5),
+  seed: int(0, 4294967295),
+  modulators: arrayOf(modulator),
+  mappingRules: arrayOf(mappingRule),
+  background: obj({
+    opacity: num(0, 1),
+    blur: num(0, 50),
+    color,
+    gradient: bool
+  }),
+  backgroundConfig: obj({
+    enabled: bool,
+    mode: oneOf(['full3D', 'modalFriendly']),
+    viewport: obj({ bounds, safeZone: num(0, 1) }),
+    timeScale: limited('backgroundConfig.timeScale'),
+    camera: obj({ fixed: bool, position: tuple(3), target: tuple(3) }),
+    artisticLayout: obj({
+      layers: obj({
+        deepBackground: layoutLayer,
+        farBackground: layoutLayer,
+        midBackground: layoutLayer,
+        nearBackground: layoutLayer,
+        foreground: layoutLayer
+      }),
+      camera: obj({ position: tuple(3), target: tuple(3), fov: num(1, 179) }),
+      viewport: obj({ bounds })
+    })
+  }),
+  logo: obj({
+    enabled: bool,
+    size: num(0, 4000),
+    position: obj({ x: oneOf(['left', 'center', 'right']), y: oneOf(['top', 'center', 'bottom']) }),
+    offset: obj({ x: num(-10000, 10000), y: num(-10000, 10000) }),
+    opacity: num(0, 1),
+    animation: obj({ enabled: bool, type: oneOf(['pulse', 'float', 'rotate', 'none']), speed: num(0, 10) })
+  }),
+  geometric: obj({
+    spheres: shape({ count: limitedInt('geometric.spheres.count') }),
+    cubes: shape({ count: limitedInt('geometric.cubes.count') }),
+    toruses: shape({ count: limitedInt('geometric.toruses.count') }),
+    blobs: shape({ count: limitedInt('geometric.blobs.count') }),
+    crystals: shape({ complexity: int(0, 64) }),
+    waveInterference: obj({ color }),
+    metamorphosis: obj({ color }),
+    fireflies: obj({ color }),
+    layeredSineWaves: obj({ color })
+  }),
+  particles: obj({
+    count: limitedInt('particles.count'),
+    size: num(0, 20),
+    color,
+    speed: num(0, 10),
+    opacity: num(0, 1),
+    spread: num(0, 500),
+    ...movement
+  }),
+  globalEffects: obj({
+    atmosphericBlur: obj({ enabled: bool, intensity: num(0, 50), layers: int(0, 50) }),
+    colorBlending: obj({ enabled: bool, mode: oneOf(BLEND_MODES), intensity: num(0, 5) }),
+    shapeGlow: obj({
+      enabled: bool,
+      intensity: num(0, 10),
+      radius: limited('globalEffects.shapeGlow.radius'),
+      useObjectColor: bool,
+      customColor: color,
+      pulsing: bool,
+      pulseSpeed: num(0, 10)
+    }),
+    chromatic: obj({
+      enabled: bool,
+      aberration: num(0, 20),
+      aberrationColors: obj({ red: color, green: color, blue: color }),
+      rainbow: obj({
+        enabled: bool,
+        intensity: num(0, 5),
+        speed: num(0, 10),
+        rotation: num(-360, 360),
+        blendMode: oneOf(BLEND_MODES),
+        colors: arrayOf(color),
+        opacity: num(0, 1)
+      }),
+      prism: num(0, 10)
+    }),
+    distortion: obj({ enabled: bool, wave: num(0, 5), ripple: num(0, 5), noise: num(0, 5), frequency: num(0, 20) }),
+    particleInteraction: obj({
+      enabled: bool,
+      magnetism: num(-5, 5),
+      repulsion: num(0, 5),
+      flowField: bool,
+      turbulence: num(0, 5)
+    }),
+    volumetric: obj({ enabled: bool, fog: num(0, 5), lightShafts: num(0, 5), density: num(0, 5), color }),
+    trails: obj({
+      enabled: bool,
+      sphereTrails: trail,
+      cubeTrails: trail,
+      blobTrails: trail,
+      torusTrails: trail,
+      crystalTrails: trail,
+      particleTrails: trail
+    }),
+    waveInterference: obj({
+      enabled: bool,
+      speed: num(0, 10),
+      amplitude: num(0, 10),
+      contourLevels: int(0, 50),
+      preset: int(1, 4),
+      edgeFade
+    }),
+    metamorphosis: obj({
+      enabled: bool,
+      morphSpeed: num(0, 10),
+      rotationSpeed: num(0, 10),
+      wireframeOpacity: num(0, 1),
+      size: num(0, 20),
+      blur: num(0, 20),
+      intensity: num(0, 5),
+      layers: int(0, 20)
+    }),
+    fireflies: obj({ enabled: bool, count: limitedInt('globalEffects.fireflies.count'), speed: num(0, 10), glowIntensity: num(0, 10), swarmRadius: num(0, 200) }),
+    layeredSineWaves: obj({
+      enabled: bool,
+      layers: int(0, 500),
+      points: int(0, 2000),
+      waveAmplitude: num(0, 500),
+      speed: num(0, 10),
+      opacity: num(0, 1),
+      lineWidth: num(0, 20),
+      size: num(0, 10),
+      width: num(0, 1000),
+      height: num(0, 1000),
+      intensity: num(0, 5),
+      layerCount: int(0, 20),
+      edgeFade
+    })
+  }),
+  effects: obj({
+    glow: num(0, 5),
+    contrast: num(0, 5),
+    saturation: num(0, 5),
+    hue: num(-360, 360),
+    brightness: num(0, 5),
+    vignette: num(0, 1)
+  }),
+  camera: obj({
+    distance: limited('camera.distance'),
+    height: num(-100, 100),
+    fov: limited('camera.fov'),
+    position: tuple(3),
+    target: tuple(3),
+    rotation: obj({ x: num(-360, 360), y: num(-360, 360), z: num(-360, 360) }),
+    autoRotate: bool,
+    autoRotateSpeed: num(-20, 20),
+    damping: num(0, 1),
+    enableZoom: bool,
+    enablePan: bool,
+    enableRotate: bool,
+    minDistance: num(0, 1000),
+    maxDistance: num(0, 1000),
+    minPolarAngle: num(0, Math.PI),
+    maxPolarAngle: num(0, Math.PI),
+    autoPan: obj({
+      enabled: bool,
+      speed: num(0, 10),
+      radius: num(0, 200),
+      height: num(-100, 100),
+      easing: num(0, 1),
+      currentAngle: num(-1e9, 1e9)
+    }),
+    depthOfField: obj({
+      enabled: bool,
+      focusDistance: num(0, 1000),
+      focalLength: num(0, 1000),
+      bokehScale: num(0, 20),
+      blur: num(0, 20)
+    })
+  }),
+  globalBlendMode: obj({ mode: str, opacity: num(0, 1) })
+});
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+function validateField(
+  schema: FieldSchema,
+  value: unknown,
+  path: string,
+  errors: PresetValidationError[]
+) {
+  const fail = (message: string) => errors.push({ path, message, value });
+
+  switch (schema.kind) {
+    case 'any':
+      return;
+    case 'number': {
+      if (typeof value !== 'number' || !isFinite(value)) {
+        fail('must be a finite number');
+        return;
+      }
+      if (schema.integer && !Number.isInteger(value)) fail('must be an integer');
+      if (value < schema.min) fail(`must be at least ${schema.min}`);
+      if (value > schema.max) fail(`must be at most ${schema.max}`);
+      return;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') fail('must be a boolean');
+      return;
+    case 'string':
+      if (typeof value !== 'string') fail('must be a string');
+      return;
+    case 'color':
+      if (typeof value !== 'string' || !HEX_COLOR.test(value)) fail('must be a hex color like #ff00cc');
+      return;
+    case 'enum':
+      if (typeof value !== 'string' || !schema.values.includes(value)) {
+        fail(`must be one of: ${schema.values.join(', ')}`);
+      }
+      return;
+    case 'tuple':
+      if (!Array.isArray(value) || value.length !== schema.length) {
+        fail(`must be an array of ${schema.length} items`);
+        return;
+      }
+      value.forEach((item, index) => validateField(schema.item, item, `${path}.${index}`, errors));
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        fail('must be an array');
+        return;
+      }
+      value.forEach((item, index) => validateField(schema.item, item, `${path}.${index}`, errors));
+      return;
+    case 'object':
+      if (!isObject(value)) {
+        fail('must be an object');
+        return;
+      }
+      Object.keys(schema.fields).forEach((key) => {
+        if (value[key] === undefined) return;
+        validateField(schema.fields[key], value[key], `${path}.${key}`, errors);
+      });
+      return;
+  }
+}
+
+/** Allowed [min, max] for a numeric state path such as 'camera.fov'; null for other paths. */
+export function getPresetNumberRange(path: string): [number, number] | null {
+  let schema: FieldSchema | undefined = PRESET_DATA_SCHEMA;
+  for (const key of path.split('.')) {
+    if (schema?.kind === 'object') schema = schema.fields[key];
+    else if (schema?.kind === 'tuple' || schema?.kind === 'array') schema = /^\d+$/.test(key) ? schema.item : undefined;
+    else return null;
+  }
+  return schema?.kind === 'number' ? [schema.min, schema.max] : null;
+}
+
+/** Validate a preset `data` payload; error paths are prefixed with `data.`. */
+export function validatePresetData(data: unknown): PresetValidationResult {
+  const errors: PresetValidationError[] = [];
+  validateField(PRESET_DATA_SCHEMA, data, 'data', errors);
+  return { valid: errors.length === 0, errors };
+}
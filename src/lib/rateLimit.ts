@@ -0,0 +1,76 @@
+// rateLimit.ts
+// Per-client request limits for the routes that spend third-party API quota.
+//
+// Fixed windows kept in process memory: enough to stop one browser tab hammering
+// OpenAI, not a distributed limiter. Counts reset when the server restarts.
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfter: number;   // Seconds until the window resets; 0 when allowed
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+export class RateLimiter {
+  private windows = new Map<string, Window>();
+
+  constructor(
+    private readonly limit: number,
+    private readonly windowMs: number
+  ) {}
+
+  check(clientId: string, now = Date.now()): RateLimitResult {
+    this.prune(now);
+
+    let window = this.windows.get(clientId);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(clientId, window);
+    }
+
+    if (window.count >= this.limit) {
+      return { allowed: false, remaining: 0, retryAfter: Math.ceil((window.resetAt - now) / 1000) };
+    }
+
+    window.count++;
+    return { allowed: true, remaining: this.limit - window.count, retryAfter: 0 };
+  }
+
+  // Drop expired windows so one-off clients don't accumulate
+  private prune(now: number) {
+    if (this.windows.size < 1000) return;
+    this.windows.forEach((window, clientId) => {
+      if (window.resetAt <= now) this.windows.delete(clientId);
+    });
+  }
+}
+
+/**
+ * Client identity for rate limits. Clients can put anything at the start of
+ * X-Forwarded-For, so only the platform's address or the right-most entry (added
+ * by the proxy in front of this server) is used.
+ */
+export function getClientId(request: NextRequest): string {
+  if (request.ip) return request.ip;
+
+  const forwarded = request.headers.get('x-forwarded-for');
+  const hops = forwarded?.split(',').map((hop) => hop.trim()).filter(Boolean) ?? [];
+  return hops[hops.length - 1] || 'anonymous';
+}
+
+/** Null when the request may proceed, otherwise the 429 to return. */
+export function enforceRateLimit(limiter: RateLimiter, request: NextRequest): NextResponse | null {
+  const result = limiter.check(getClientId(request));
+  if (result.allowed) return null;
+
+  return NextResponse.json(
+    { error: 'Too many requests, please try again later' },
+    { status: 429, headers: { 'Retry-After': String(result.retryAfter) } }
+  );
+}
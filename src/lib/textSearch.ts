@@ -0,0 +1,10 @@
+// textSearch.ts
+// User-typed search text as a case-insensitive pattern that matches it literally.
+// Regex syntax in the text is escaped, so '(' can't throw and no input can make a
+// storage backend backtrack for seconds on every document.
+
+const REGEX_SPECIAL = /[.*+?^${}()|[\]\\]/g;
+
+export function literalPattern(text: string): RegExp {
+  return new RegExp(text.replace(REGEX_SPECIAL, '\\$&'), 'i');
+}
@@ -0,0 +1,75 @@
+import {
+  Timeline,
+  CreateTimelineRequest,
+  UpdateTimelineRequest,
+  TimelineListResponse
+} from '@/types/timeline';
+import { formatApiError } from './presetClient';
+
+const API_BASE = '/api/timelines';
+
+export class TimelineClient {
+  static async getTimelines(params: { presetId?: string } = {}): Promise<TimelineListResponse> {
+    const searchParams = new URLSearchParams();
+    if (params.presetId) searchParams.append('presetId', params.presetId);
+
+    const response = await fetch(`${API_BASE}?${searchParams.toString()}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch timelines: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  static async getTimelineById(id: string): Promise<Timeline> {
+    const response = await fetch(`${API_BASE}/${id}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch timeline: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  static async createTimeline(timeline: CreateTimelineRequest): Promise<Timeline> {
+    const response = await fetch(API_BASE, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(timeline),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(formatApiError(error) || `Failed to create timeline: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  static async updateTimeline(id: string, updateData: Partial<UpdateTimelineRequest>): Promise<Timeline> {
+    const response = await fetch(`${API_BASE}/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(updateData),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(formatApiError(error) || `Failed to update timeline: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  static async deleteTimeline(id: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/${id}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || `Failed to delete timeline: ${response.statusText}`);
+    }
+  }
+}
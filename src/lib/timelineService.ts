@@ -0,0 +1,97 @@
+import {
+  Timeline,
+  CreateTimelineRequest,
+  UpdateTimelineRequest,
+  TimelineListResponse
+} from '@/types/timeline';
+import { getTimelineStorage, TimelineStorage } from './timelineStorage';
+import { canCreatePreset, canModifyPreset } from './presetPermissions';
+import { PublicUser } from '@/types/auth';
+
+const UPDATABLE_FIELDS = ['name', 'description', 'presetId', 'data', 'isPublic'] as const;
+
+// Timelines follow the preset rules: editors create and manage their own, admins manage all
+export class TimelineService {
+  private static instance: TimelineService;
+
+  public static getInstance(): TimelineService {
+    if (!TimelineService.instance) {
+      TimelineService.instance = new TimelineService();
+    }
+    return TimelineService.instance;
+  }
+
+  private get storage(): TimelineStorage {
+    return getTimelineStorage();
+  }
+
+  async getTimelines(params: { presetId?: string }): Promise<TimelineListResponse> {
+    const timelines = await this.storage.list(params);
+    return {
+      timelines,
+      total: timelines.length
+    };
+  }
+
+  async getTimelineById(id: string): Promise<Timeline | null> {
+    return this.storage.findById(id);
+  }
+
+  async createTimeline(request: CreateTimelineRequest, user: PublicUser): Promise<Timeline> {
+    if (!canCreatePreset(user)) {
+      throw new Error('You do not have permission to create timelines');
+    }
+
+    const existing = await this.storage.findByName(request.name);
+    if (existing) {
+      throw new Error('A timeline with this name already exists');
+    }
+
+    const now = new Date();
+    return this.storage.insert({
+      name: request.name,
+      description: request.description || '',
+      presetId: request.presetId || undefined,
+      data: request.data,
+      isPublic: request.isPublic || false,
+      createdBy: user.username,
+      ownerId: user.id,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  async updateTimeline(id: string, updateData: Partial<UpdateTimelineRequest>, user: PublicUser): Promise<Timeline | null> {
+    const changes = Object.fromEntries(
+      UPDATABLE_FIELDS
+        .filter((field) => updateData[field] !== undefined)
+        .map((field) => [field, updateData[field]])
+    ) as Partial<CreateTimelineRequest>;
+
+    const existing = await this.storage.findById(id);
+    if (!existing) {
+      throw new Error('Timeline not found');
+    }
+    if (!canModifyPreset(user, existing)) {
+      throw new Error('You do not have permission to modify this timeline');
+    }
+
+    if (changes.name && changes.name !== existing.name) {
+      const conflict = await this.storage.findByName(changes.name, id);
+      if (conflict) {
+        throw new Error('A timeline with this name already exists');
+      }
+    }
+
+    return this.storage.update(id, { ...changes, updatedAt: new Date() });
+  }
+
+  async deleteTimeline(id: string, user: PublicUser): Promise<boolean> {
+    const existing = await this.storage.findById(id);
+    if (!existing) return false;
+    if (!canModifyPreset(user, existing)) {
+      throw new Error('You do not have permission to delete this timeline');
+    }
+    return this.storage.delete(id);
+  }
+}
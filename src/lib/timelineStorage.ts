@@ -0,0 +1,129 @@
+import path from 'path';
+import { ObjectId } from 'mongodb';
+import getMongoClient from './mongodb';
+import { Timeline } from '@/types/timeline';
+import { JsonFileCollection, getDataDirectory } from './jsonFileStore';
+import { resolvePresetStorageKind } from './presetStorage';
+
+// Timelines are stored next to the presets they play over: same backend selection
+export interface TimelineStorage {
+  list(query: { presetId?: string }): Promise<Timeline[]>;
+  findById(id: string): Promise<Timeline | null>;
+  findByName(name: string, excludeId?: string): Promise<Timeline | null>;
+  insert(timeline: Omit<Timeline, '_id'>): Promise<Timeline>;
+  update(id: string, changes: Partial<Timeline>): Promise<Timeline | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+class MongoTimelineStorage implements TimelineStorage {
+  private async collection() {
+    const client = await getMongoClient();
+    return client.db('visual-canvas').collection<Timeline>('timelines');
+  }
+
+  private toObjectId(id: string): ObjectId | null {
+    return ObjectId.isValid(id) ? new ObjectId(id) : null;
+  }
+
+  async list(query: { presetId?: string }): Promise<Timeline[]> {
+    const collection = await this.collection();
+    const filter = query.presetId ? { presetId: query.presetId } : {};
+    return collection.find(filter).sort({ updatedAt: -1 }).toArray();
+  }
+
+  async findById(id: string): Promise<Timeline | null> {
+    const objectId = this.toObjectId(id);
+    if (!objectId) return null;
+    const collection = await this.collection();
+    return collection.findOne({ _id: objectId });
+  }
+
+  async findByName(name: string, excludeId?: string): Promise<Timeline | null> {
+    const collection = await this.collection();
+    const excluded = excludeId ? this.toObjectId(excludeId) : null;
+    return collection.findOne(excluded ? { name, _id: { $ne: excluded } } : { name });
+  }
+
+  async insert(timeline: Omit<Timeline, '_id'>): Promise<Timeline> {
+    const collection = await this.collection();
+    const result = await collection.insertOne(timeline);
+    return { ...timeline, _id: result.insertedId };
+  }
+
+  async update(id: string, changes: Partial<Timeline>): Promise<Timeline | null> {
+    const objectId = this.toObjectId(id);
+    if (!objectId) return null;
+    const collection = await this.collection();
+    const { _id, ...fields } = changes;
+    const result = await collection.updateOne({ _id: objectId }, { $set: fields });
+    if (result.matchedCount === 0) return null;
+    return collection.findOne({ _id: objectId });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const objectId = this.toObjectId(id);
+    if (!objectId) return false;
+    const collection = await this.collection();
+    const result = await collection.deleteOne({ _id: objectId });
+    return result.deletedCount > 0;
+  }
+}
+
+class FileTimelineStorage implements TimelineStorage {
+  private readonly timelines = new JsonFileCollection<Timeline>(
+    path.join(getDataDirectory(), 'timelines.json'),
+    ['createdAt', 'updatedAt']
+  );
+
+  async list(query: { presetId?: string }): Promise<Timeline[]> {
+    return (await this.timelines.readAll())
+      .filter((timeline) => !query.presetId || timeline.presetId === query.presetId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async findById(id: string): Promise<Timeline | null> {
+    return (await this.timelines.readAll()).find((timeline) => String(timeline._id) === id) || null;
+  }
+
+  async findByName(name: string, excludeId?: string): Promise<Timeline | null> {
+    return (await this.timelines.readAll())
+      .find((timeline) => timeline.name === name && String(timeline._id) !== excludeId) || null;
+  }
+
+  async insert(timeline: Omit<Timeline, '_id'>): Promise<Timeline> {
+    const created: Timeline = { _id: new ObjectId().toHexString(), ...timeline };
+    return this.timelines.update((documents) => ({
+      documents: [...documents, created],
+      result: created
+    }));
+  }
+
+  async update(id: string, changes: Partial<Timeline>): Promise<Timeline | null> {
+    const { _id, ...fields } = changes;
+    return this.timelines.update((documents) => {
+      const index = documents.findIndex((timeline) => String(timeline._id) === id);
+      if (index === -1) {
+        return { documents, result: null };
+      }
+      const next = [...documents];
+      next[index] = { ...documents[index], ...fields };
+      return { documents: next, result: next[index] };
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.timelines.update((documents) => {
+      const next = documents.filter((timeline) => String(timeline._id) !== id);
+      return { documents: next, result: next.length !== documents.length };
+    });
+  }
+}
+
+let storage: TimelineStorage | null = null;
+
+export function getTimelineStorage(): TimelineStorage {
+  if (!storage) {
+    storage = resolvePresetStorageKind() === 'mongo' ? new MongoTimelineStorage() : new FileTimelineStorage();
+  }
+  return storage;
+}
@@ -0,0 +1,118 @@
+// timelineValidation.ts
+// Runtime validation of Timeline['data'] payloads before they are stored.
+//
+// Structure (duration, loop region, tracks, keyframes) is checked here; every keyframe
+// value is then checked against the preset schema for its path, so a timeline can't
+// drive the canvas anywhere a preset isn't allowed to go.
+
+import { DEFAULT_SKIPPED_PATHS } from '@/utils/stateInterpolation';
+import { TIMELINE_EASINGS, isTimelineValue, setPathValue } from '@/utils/timeline';
+import { PresetValidationError, PresetValidationResult, validatePresetData } from './presetValidation';
+
+export const MAX_TIMELINE_DURATION = 3600;
+const MAX_TRACKS = 200;
+const MAX_KEYFRAMES_PER_TRACK = 1000;
+const PATH_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*$/;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+function validateTrack(track: unknown, index: number, duration: number, errors: PresetValidationError[]) {
+  const base = `data.tracks.${index}`;
+  const fail = (path: string, message: string, value?: unknown) => errors.push({ path, message, value });
+
+  if (!isObject(track)) {
+    fail(base, 'must be an object', track);
+    return;
+  }
+  if (typeof track.id !== 'string' || !track.id) fail(`${base}.id`, 'must be a non-empty string', track.id);
+  if (track.muted !== undefined && typeof track.muted !== 'boolean') fail(`${base}.muted`, 'must be a boolean', track.muted);
+
+  const trackPath = track.path;
+  if (typeof trackPath !== 'string' || !PATH_PATTERN.test(trackPath)) {
+    fail(`${base}.path`, 'must be a dotted state path like geometric.spheres.color', trackPath);
+    return;
+  }
+  if (DEFAULT_SKIPPED_PATHS.some((skipped) => trackPath === skipped || trackPath.startsWith(`${skipped}.`))) {
+    fail(`${base}.path`, 'is not an animatable path', trackPath);
+  }
+
+  if (!Array.isArray(track.keyframes) || track.keyframes.length === 0) {
+    fail(`${base}.keyframes`, 'must be a non-empty array');
+    return;
+  }
+  if (track.keyframes.length > MAX_KEYFRAMES_PER_TRACK) {
+    fail(`${base}.keyframes`, `must have at most ${MAX_KEYFRAMES_PER_TRACK} keyframes`);
+  }
+
+  let previousTime = -Infinity;
+  track.keyframes.forEach((keyframe: unknown, keyIndex: number) => {
+    const keyPath = `${base}.keyframes.${keyIndex}`;
+    if (!isObject(keyframe)) {
+      fail(keyPath, 'must be an object', keyframe);
+      return;
+    }
+    if (!isNumber(keyframe.time) || keyframe.time < 0 || keyframe.time > duration) {
+      fail(`${keyPath}.time`, `must be a number between 0 and ${duration}`, keyframe.time);
+    } else if (keyframe.time < previousTime) {
+      fail(`${keyPath}.time`, 'keyframes must be sorted by time', keyframe.time);
+    } else {
+      previousTime = keyframe.time;
+    }
+    if (keyframe.easing !== undefined && !TIMELINE_EASINGS.includes(keyframe.easing)) {
+      fail(`${keyPath}.easing`, `must be one of: ${TIMELINE_EASINGS.join(', ')}`, keyframe.easing);
+    }
+    if (keyframe.hold !== undefined && (!isNumber(keyframe.hold) || keyframe.hold < 0)) {
+      fail(`${keyPath}.hold`, 'must be a non-negative number', keyframe.hold);
+    }
+
+    if (!isTimelineValue(keyframe.value)) {
+      fail(`${keyPath}.value`, 'must be a number, string, boolean or array of numbers', keyframe.value);
+      return;
+    }
+    // Same ranges, colors and enums as a preset carrying this value
+    const partial: Record<string, any> = {};
+    setPathValue(partial, trackPath, keyframe.value);
+    validatePresetData(partial).errors.forEach((error) => {
+      fail(`${keyPath}.value`, error.message, error.value);
+    });
+  });
+}
+
+/** Validate a timeline `data` payload; error paths are prefixed with `data.`. */
+export function validateTimelineData(data: unknown): PresetValidationResult {
+  const errors: PresetValidationError[] = [];
+
+  if (!isObject(data)) {
+    return { valid: false, errors: [{ path: 'data', message: 'must be an object', value: data }] };
+  }
+
+  const duration = data.duration;
+  if (!isNumber(duration) || duration <= 0 || duration > MAX_TIMELINE_DURATION) {
+    errors.push({ path: 'data.duration', message: `must be a number between 0 and ${MAX_TIMELINE_DURATION}`, value: duration });
+  }
+  if (typeof data.loop !== 'boolean') {
+    errors.push({ path: 'data.loop', message: 'must be a boolean', value: data.loop });
+  }
+  (['loopStart', 'loopEnd'] as const).forEach((field) => {
+    if (data[field] !== undefined && (!isNumber(data[field]) || data[field] < 0)) {
+      errors.push({ path: `data.${field}`, message: 'must be a non-negative number', value: data[field] });
+    }
+  });
+  if (isNumber(data.loopStart) && isNumber(data.loopEnd) && data.loopStart >= data.loopEnd) {
+    errors.push({ path: 'data.loopEnd', message: 'must be after loopStart', value: data.loopEnd });
+  }
+
+  if (!Array.isArray(data.tracks)) {
+    errors.push({ path: 'data.tracks', message: 'must be an array', value: data.tracks });
+  } else if (data.tracks.length > MAX_TRACKS) {
+    errors.push({ path: 'data.tracks', message: `must have at most ${MAX_TRACKS} tracks` });
+  } else {
+    const keyframeLimit = isNumber(duration) ? duration : MAX_TIMELINE_DURATION;
+    data.tracks.forEach((track, index) => validateTrack(track, index, keyframeLimit, errors));
+  }
+
+  return { valid: errors.length === 0, errors };
+}
@@ -0,0 +1,37 @@
+// upstream.ts
+// Shared plumbing for routes that proxy third-party APIs (OpenAI, OpenWeather).
+
+import { NextResponse } from 'next/server';
+
+/** fetch() that aborts after `timeoutMs` and reports it as a timeout error. */
+export async function fetchWithTimeout(url: string, init: RequestInit = {}, timeoutMs = 15000): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Upstream request timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Map a proxy failure to a response. Messages never include keys, so they are
+ * safe to return to the client.
+ */
+export function upstreamErrorResponse(error: unknown, fallback: string): NextResponse {
+  if (error instanceof Error) {
+    if (error.message.includes('not configured')) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    if (error.message.includes('timed out')) {
+      return NextResponse.json({ error: error.message }, { status: 504 });
+    }
+    return NextResponse.json({ error: `${fallback}: ${error.message}` }, { status: 502 });
+  }
+  return NextResponse.json({ error: fallback }, { status: 502 });
+}
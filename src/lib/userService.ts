@@ -0,0 +1,118 @@
+import { AuthCredentials, PublicUser, User, UserRole, USER_ROLES } from '@/types/auth';
+import { getUserStorage, UserStorage } from './userStorage';
+import { hashPassword, verifyPassword } from './auth';
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+export class UserService {
+  private static instance: UserService;
+  private bootstrapped: Promise<void> | null = null;
+
+  public static getInstance(): UserService {
+    if (!UserService.instance) {
+      UserService.instance = new UserService();
+    }
+    return UserService.instance;
+  }
+
+  private get storage(): UserStorage {
+    return getUserStorage();
+  }
+
+  private toPublicUser(user: User): PublicUser {
+    return {
+      id: String(user._id),
+      username: user.username,
+      role: user.role
+    };
+  }
+
+  // AUTH_ADMIN_USERNAME / AUTH_ADMIN_PASSWORD create the first admin account
+  private ensureBootstrapAdmin(): Promise<void> {
+    if (!this.bootstrapped) {
+      this.bootstrapped = (async () => {
+        const username = process.env.AUTH_ADMIN_USERNAME;
+        const password = process.env.AUTH_ADMIN_PASSWORD;
+        if (!username || !password) return;
+        if (await this.storage.findByUsername(username)) return;
+
+        const now = new Date();
+        await this.storage.insert({
+          username,
+          passwordHash: hashPassword(password),
+          role: 'admin',
+          createdAt: now,
+          updatedAt: now
+        });
+        console.log(`👤 Created admin account "${username}"`);
+      })().catch((error) => {
+        // Retry on the next login
+        this.bootstrapped = null;
+        throw error;
+      });
+    }
+    return this.bootstrapped;
+  }
+
+  async register({ username, password }: AuthCredentials): Promise<PublicUser> {
+    if (process.env.AUTH_ALLOW_REGISTRATION === 'false') {
+      throw new Error('Registration is disabled');
+    }
+    if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+      throw new Error('Username must be 3-32 characters (letters, numbers, "_", "." or "-")');
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+
+    await this.ensureBootstrapAdmin();
+    if (await this.storage.findByUsername(username)) {
+      throw new Error('A user with this name already exists');
+    }
+
+    const configuredRole = process.env.AUTH_DEFAULT_ROLE as UserRole | undefined;
+    // Self-registration never grants admin
+    const role: UserRole = configuredRole === 'viewer' ? 'viewer' : 'editor';
+
+    const now = new Date();
+    const user = await this.storage.insert({
+      username,
+      passwordHash: hashPassword(password),
+      role,
+      createdAt: now,
+      updatedAt: now
+    });
+    return this.toPublicUser(user);
+  }
+
+  /** The user for valid credentials, null otherwise. */
+  async authenticate({ username, password }: AuthCredentials): Promise<PublicUser | null> {
+    if (typeof username !== 'string' || typeof password !== 'string') return null;
+
+    await this.ensureBootstrapAdmin();
+    const user = await this.storage.findByUsername(username);
+    if (!user || !verifyPassword(password, user.passwordHash)) {
+      return null;
+    }
+    return this.toPublicUser(user);
+  }
+
+  async getUserById(id: string): Promise<PublicUser | null> {
+    const user = await this.storage.findById(id);
+    return user ? this.toPublicUser(user) : null;
+  }
+
+  async listUsers(): Promise<PublicUser[]> {
+    const users = await this.storage.list();
+    return users.map((user) => this.toPublicUser(user));
+  }
+
+  async setRole(id: string, role: UserRole): Promise<PublicUser | null> {
+    if (!USER_ROLES.includes(role)) {
+      throw new Error(`Role must be one of: ${USER_ROLES.join(', ')}`);
+    }
+    const user = await this.storage.update(id, { role, updatedAt: new Date() });
+    return user ? this.toPublicUser(user) : null;
+  }
+}
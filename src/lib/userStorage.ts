@@ -0,0 +1,118 @@
+import path from 'path';
+import { ObjectId } from 'mongodb';
+import getMongoClient from './mongodb';
+import { User } from '@/types/auth';
+import { JsonFileCollection, getDataDirectory } from './jsonFileStore';
+import { resolvePresetStorageKind } from './presetStorage';
+
+// Accounts live next to the presets: same backend selection as PresetStorage
+export interface UserStorage {
+  list(): Promise<User[]>;
+  count(): Promise<number>;
+  findById(id: string): Promise<User | null>;
+  findByUsername(username: string): Promise<User | null>;
+  insert(user: Omit<User, '_id'>): Promise<User>;
+  update(id: string, changes: Partial<User>): Promise<User | null>;
+}
+
+class MongoUserStorage implements UserStorage {
+  private async collection() {
+    const client = await getMongoClient();
+    return client.db('visual-canvas').collection<User>('users');
+  }
+
+  private toObjectId(id: string): ObjectId | null {
+    return ObjectId.isValid(id) ? new ObjectId(id) : null;
+  }
+
+  async list(): Promise<User[]> {
+    const collection = await this.collection();
+    return collection.find({}).sort({ username: 1 }).toArray();
+  }
+
+  async count(): Promise<number> {
+    const collection = await this.collection();
+    return collection.countDocuments({});
+  }
+
+  async findById(id: string): Promise<User | null> {
+    const objectId = this.toObjectId(id);
+    if (!objectId) return null;
+    const collection = await this.collection();
+    return collection.findOne({ _id: objectId });
+  }
+
+  async findByUsername(username: string): Promise<User | null> {
+    const collection = await this.collection();
+    return collection.findOne({ username });
+  }
+
+  async insert(user: Omit<User, '_id'>): Promise<User> {
+    const collection = await this.collection();
+    const result = await collection.insertOne(user);
+    return { ...user, _id: result.insertedId };
+  }
+
+  async update(id: string, changes: Partial<User>): Promise<User | null> {
+    const objectId = this.toObjectId(id);
+    if (!objectId) return null;
+    const collection = await this.collection();
+    const { _id, ...fields } = changes;
+    const result = await collection.updateOne({ _id: objectId }, { $set: fields });
+    if (result.matchedCount === 0) return null;
+    return collection.findOne({ _id: objectId });
+  }
+}
+
+class FileUserStorage implements UserStorage {
+  private readonly users = new JsonFileCollection<User>(
+    path.join(getDataDirectory(), 'users.json'),
+    ['createdAt', 'updatedAt']
+  );
+
+  async list(): Promise<User[]> {
+    return (await this.users.readAll()).sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async count(): Promise<number> {
+    return (await this.users.readAll()).length;
+  }
+
+  async findById(id: string): Promise<User | null> {
+    return (await this.users.readAll()).find((user) => String(user._id) === id) || null;
+  }
+
+  async findByUsername(username: string): Promise<User | null> {
+    return (await this.users.readAll()).find((user) => user.username === username) || null;
+  }
+
+  async insert(user: Omit<User, '_id'>): Promise<User> {
+    const created: User = { _id: new ObjectId().toHexString(), ...user };
+    return this.users.update((documents) => ({
+      documents: [...documents, created],
+      result: created
+    }));
+  }
+
+  async update(id: string, changes: Partial<User>): Promise<User | null> {
+    const { _id, ...fields } = changes;
+    return this.users.update((documents) => {
+      const index = documents.findIndex((user) => String(user._id) === id);
+      if (index === -1) {
+        return { documents, result: null };
+      }
+      const next = [...documents];
+      next[index] = { ...documents[index], ...fields };
+      return { documents: next, result: next[index] };
+    });
+  }
+}
+
+let storage: UserStorage | null = null;
+
+export function getUserStorage(): UserStorage {
+  if (!storage) {
+    storage = resolvePresetStorageKind() === 'mongo' ? new MongoUserStorage() : new FileUserStorage();
+  }
+  return storage;
+}
@@ -0,0 +1,168 @@
+// weatherProxy.ts
+// Server-side weather lookup behind /api/weather. Uses OpenWeather when
+// OPENWEATHER_API_KEY is set and falls back to the keyless wttr.in API.
+// Mock data is the client's last resort (see WeatherService).
+
+import { fetchWithTimeout } from './upstream';
+import type { WeatherData } from '@/ai-system/types/AITypes';
+
+const WEATHER_TIMEOUT_MS = 8000;
+
+type TimeOfDay = WeatherData['timeOfDay'];
+
+export function getWeatherSource(): 'openweather' | 'wttr.in' {
+  return process.env.OPENWEATHER_API_KEY ? 'openweather' : 'wttr.in';
+}
+
+export async function getWeather(location: string): Promise<WeatherData> {
+  const apiKey = process.env.OPENWEATHER_API_KEY;
+  if (apiKey) {
+    try {
+      const data = await getOpenWeatherData(location, apiKey);
+      if (data) return data;
+      console.warn(`Could not find coordinates for ${location}, trying free weather API`);
+    } catch (error) {
+      console.error('OpenWeather API error, falling back to free weather API:', error);
+    }
+  }
+  return getFreeWeatherData(location);
+}
+
+async function getOpenWeatherData(location: string, apiKey: string): Promise<WeatherData | null> {
+  const geoResponse = await fetchWithTimeout(
+    `https://api.openweathermap.org/geo/1.0/direct?q=${encodeURIComponent(location)}&limit=1&appid=${apiKey}`,
+    {},
+    WEATHER_TIMEOUT_MS
+  );
+  if (!geoResponse.ok) {
+    throw new Error(`Geocoding API error: ${geoResponse.status}`);
+  }
+  const places = await geoResponse.json();
+  if (!Array.isArray(places) || places.length === 0) {
+    return null;
+  }
+  const coords = { lat: places[0].lat, lon: places[0].lon };
+
+  const weatherResponse = await fetchWithTimeout(
+    `https://api.openweathermap.org/data/2.5/weather?lat=${coords.lat}&lon=${coords.lon}&appid=${apiKey}&units=imperial`,
+    {},
+    WEATHER_TIMEOUT_MS
+  );
+  if (!weatherResponse.ok) {
+    throw new Error(`Weather API error: ${weatherResponse.status}`);
+  }
+  const weatherData = await weatherResponse.json();
+
+  return {
+    temperature: Math.round(weatherData.main.temp),
+    condition: mapWeatherCondition(weatherData.weather[0].main),
+    windSpeed: Math.round(weatherData.wind.speed),
+    windDirection: weatherData.wind.deg || 0,
+    humidity: weatherData.main.humidity,
+    pressure: weatherData.main.pressure,
+    timeOfDay: getTimeOfDayFromTimestamp(weatherData.dt, weatherData.sys.sunrise, weatherData.sys.sunset),
+    dataSource: 'OpenWeather API',
+    lastUpdated: new Date().toISOString(),
+    location,
+    verification: {
+      apiProvider: 'OpenWeatherMap',
+      coordinates: coords,
+      rawData: weatherData
+    }
+  };
+}
+
+async function getFreeWeatherData(location: string): Promise<WeatherData> {
+  const response = await fetchWithTimeout(
+    `https://wttr.in/${encodeURIComponent(location)}?format=j1`,
+    {},
+    WEATHER_TIMEOUT_MS
+  );
+  if (!response.ok) {
+    throw new Error(`Free weather API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const current = data.current_condition[0];
+
+  return {
+    temperature: parseInt(current.temp_F),
+    condition: mapWttrCondition(current.weatherDesc[0].value),
+    windSpeed: parseInt(current.windspeedMiles),
+    windDirection: parseInt(current.winddirDegree),
+    humidity: parseInt(current.humidity),
+    pressure: parseFloat(current.pressure),
+    timeOfDay: getTimeOfDayFromHour(new Date().getHours()),
+    dataSource: 'wttr.in API',
+    lastUpdated: new Date().toISOString(),
+    location,
+    verification: {
+      apiProvider: 'wttr.in',
+      rawData: data
+    }
+  };
+}
+
+function mapWeatherCondition(main: string): string {
+  const conditionMap: Record<string, string> = {
+    'Clear': 'clear',
+    'Clouds': 'cloudy',
+    'Rain': 'rain',
+    'Drizzle': 'rain',
+    'Thunderstorm': 'storm',
+    'Snow': 'snow',
+    'Mist': 'fog',
+    'Smoke': 'fog',
+    'Haze': 'fog',
+    'Dust': 'fog',
+    'Fog': 'fog',
+    'Sand': 'fog',
+    'Ash': 'fog',
+    'Squall': 'storm',
+    'Tornado': 'storm'
+  };
+
+  return conditionMap[main] || 'partly cloudy';
+}
+
+function getTimeOfDayFromTimestamp(current: number, sunrise: number, sunset: number): TimeOfDay {
+  const currentTime = current * 1000; // Convert to milliseconds
+  const sunriseTime = sunrise * 1000;
+  const sunsetTime = sunset * 1000;
+
+  const dawnStart = sunriseTime - (2 * 60 * 60 * 1000); // 2 hours before sunrise
+  const dawnEnd = sunriseTime + (1 * 60 * 60 * 1000);   // 1 hour after sunrise
+  const duskStart = sunsetTime - (1 * 60 * 60 * 1000);  // 1 hour before sunset
+  const duskEnd = sunsetTime + (2 * 60 * 60 * 1000);    // 2 hours after sunset
+
+  if (currentTime >= dawnStart && currentTime <= dawnEnd) {
+    return 'dawn';
+  } else if (currentTime > dawnEnd && currentTime < duskStart) {
+    return 'day';
+  } else if (currentTime >= duskStart && currentTime <= duskEnd) {
+    return 'dusk';
+  } else {
+    return 'night';
+  }
+}
+
+function mapWttrCondition(description: string): string {
+  const desc = description.toLowerCase();
+
+  if (desc.includes('sunny') || desc.includes('clear')) return 'clear';
+  if (desc.includes('cloudy') || desc.includes('overcast')) return 'cloudy';
+  if (desc.includes('rain') || desc.includes('drizzle')) return 'rain';
+  if (desc.includes('storm') || desc.includes('thunder')) return 'storm';
+  if (desc.includes('snow') || desc.includes('sleet')) return 'snow';
+  if (desc.includes('fog') || desc.includes('mist')) return 'fog';
+
+  return 'partly cloudy';
+}
+
+// wttr.in has no sunrise/sunset, so use the server's clock
+function getTimeOfDayFromHour(hour: number): TimeOfDay {
+  if (hour >= 5 && hour < 8) return 'dawn';
+  if (hour >= 8 && hour < 18) return 'day';
+  if (hour >= 18 && hour < 21) return 'dusk';
+  return 'night';
+}
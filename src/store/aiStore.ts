@@ -559,6 +559,13 @@ export const applyAIAnalysisToVisualStore = (analysis: ThemeAnalysis, weatherDat
         width: 0.5 + (speed * 0.5),
         fadeRate: 0.1 + (speed * 0.2)
       },
+      crystalTrails: {
+        enabled: speed > 0.7,
+        length: Math.floor(5 + (speed * 10)),
+        opacity: 0.35 + (speed * 0.4),
+        width: 0.5 + (speed * 0.5),
+        fadeRate: 0.1 + (speed * 0.2)
+      },
       particleTrails: {
         enabled: speed > 0.7,
         length: Math.floor(3 + (speed * 7)),
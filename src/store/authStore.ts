@@ -0,0 +1,64 @@
+// authStore.ts
+// Zustand store for the signed-in user (session cookie is managed by the API)
+
+import { create } from 'zustand';
+import { AuthCredentials, PublicUser } from '../types/auth';
+import { AuthClient } from '../lib/authClient';
+
+export interface AuthState {
+  user: PublicUser | null;
+  status: 'unknown' | 'loading' | 'ready';
+  error: string | null;
+}
+
+export interface AuthActions {
+  refreshUser: () => Promise<void>;
+  login: (credentials: AuthCredentials) => Promise<boolean>;
+  register: (credentials: AuthCredentials) => Promise<boolean>;
+  logout: () => Promise<void>;
+  clearError: () => void;
+}
+
+type AuthStore = AuthState & AuthActions;
+
+export const useAuthStore = create<AuthStore>()((set) => {
+  const authenticate = async (request: () => Promise<{ user: PublicUser }>) => {
+    set({ status: 'loading', error: null });
+    try {
+      const { user } = await request();
+      set({ user, status: 'ready' });
+      return true;
+    } catch (error) {
+      set({ status: 'ready', error: error instanceof Error ? error.message : 'Authentication failed' });
+      return false;
+    }
+  };
+
+  return {
+    user: null,
+    status: 'unknown',
+    error: null,
+
+    refreshUser: async () => {
+      set({ status: 'loading' });
+      try {
+        set({ user: await AuthClient.getCurrentUser(), status: 'ready' });
+      } catch (error) {
+        set({ user: null, status: 'ready' });
+      }
+    },
+
+    login: (credentials) => authenticate(() => AuthClient.login(credentials)),
+
+    register: (credentials) => authenticate(() => AuthClient.register(credentials)),
+
+    logout: async () => {
+      await AuthClient.logout();
+      set({ user: null, error: null });
+    },
+
+    clearError: () => {
+      set({ error: null });
+    }
+  };
+});
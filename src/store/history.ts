@@ -0,0 +1,126 @@
+// history.ts
+// Bounded undo/redo stack for visual store mutations.
+//
+// Each entry stores the scene snapshot taken *before* an action ran, labelled with
+// the action name and the state path it changed. Consecutive writes with the same
+// label and path inside the coalesce window (a slider drag) collapse into one entry.
+
+export interface HistoryEntry<T> {
+  label: string;      // Store action, e.g. 'updateGeometric'
+  path: string;       // Changed path, e.g. 'geometric.spheres.size'
+  snapshot: T;
+  timestamp: number;
+}
+
+export interface HistoryEntrySummary {
+  label: string;
+  path: string;
+  timestamp: number;
+}
+
+type HistoryListener = () => void;
+
+export class StateHistory<T> {
+  private past: HistoryEntry<T>[] = [];
+  private future: HistoryEntry<T>[] = [];
+  private listeners = new Set<HistoryListener>();
+
+  constructor(
+    private readonly limit = 100,
+    private readonly coalesceMs = 600
+  ) {}
+
+  record(label: string, path: string, snapshot: T): void {
+    const now = Date.now();
+    const last = this.past[this.past.length - 1];
+
+    if (last && last.label === label && last.path === path && now - last.timestamp < this.coalesceMs) {
+      // Keep the original "before" snapshot, extend the window
+      last.timestamp = now;
+    } else {
+      this.past.push({ label, path, snapshot, timestamp: now });
+      if (this.past.length > this.limit) {
+        this.past.shift();
+      }
+    }
+
+    this.future = [];
+    this.notify();
+  }
+
+  /** Pop the last entry and return the snapshot to restore; `current` becomes redoable. */
+  undo(current: T): HistoryEntry<T> | null {
+    const entry = this.past.pop();
+    if (!entry) return null;
+    this.future.push({ ...entry, snapshot: current, timestamp: Date.now() });
+    this.notify();
+    return entry;
+  }
+
+  redo(current: T): HistoryEntry<T> | null {
+    const entry = this.future.pop();
+    if (!entry) return null;
+    // Redone entries are never coalesced with the next edit
+    this.past.push({ ...entry, snapshot: current, timestamp: 0 });
+    this.notify();
+    return entry;
+  }
+
+  canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  /** Most recent first. */
+  getSummary(): { undo: HistoryEntrySummary[]; redo: HistoryEntrySummary[] } {
+    const summarize = ({ label, path, timestamp }: HistoryEntry<T>) => ({ label, path, timestamp });
+    return {
+      undo: this.past.map(summarize).reverse(),
+      redo: this.future.map(summarize).reverse()
+    };
+  }
+
+  clear(): void {
+    this.past = [];
+    this.future = [];
+    this.notify();
+  }
+
+  subscribe(listener: HistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/** Leaf paths under `prefix` whose value in `updates` differs from `current`. */
+export function diffPaths(prefix: string, current: unknown, updates: unknown): string[] {
+  if (isObject(current) && isObject(updates)) {
+    return Object.keys(updates).flatMap((key) =>
+      diffPaths(`${prefix}.${key}`, current[key], updates[key])
+    );
+  }
+  if (Array.isArray(current) && Array.isArray(updates)) {
+    const changed = current.length !== updates.length || current.some((item, index) => item !== updates[index]);
+    return changed ? [prefix] : [];
+  }
+  return current === updates ? [] : [prefix];
+}
+
+/** Compact label for a set of changed paths, minus `ignore`; null when nothing changed. */
+export function describeChange(prefix: string, current: unknown, updates: unknown, ignore: string[] = []): string | null {
+  const paths = diffPaths(prefix, current, updates).filter((path) => !ignore.includes(path));
+  if (paths.length === 0) return null;
+  return paths.length === 1 ? paths[0] : `${paths[0]} (+${paths.length - 1} more)`;
+}
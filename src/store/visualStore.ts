@@ -10,6 +10,16 @@ import type {
   ColorHarmonyConfig,
   PerformanceMetrics 
 } from '../types/unified';
+import type { Preset } from '../types/preset';
+import { mergeState } from '../utils/stateInterpolation';
+import { CURRENT_PRESET_VERSION, migratePresetData } from '../lib/presetMigrations';
+import { StateHistory, describeChange } from './history';
+import type { HistoryEntrySummary } from './history';
+import { presetTransitionController } from '../utils/transitionController';
+import { DEFAULT_SCENE_SEED, generateSeed, normalizeSeed } from '../utils/seededRandom';
+import type { TransitionHandle, TransitionOptions } from '../utils/transitionController';
+import type { Modulator } from '../types/modulation';
+import type { MappingRuleDefinition } from '../types/mappingRule';
 
 // Add new interface (doesn't break existing code)
 interface BackgroundConfig {
@@ -173,10 +183,15 @@ export interface VisualState {
       count: number;
       size: number;
       color: string;
+      speed: number;
       rotation: number;
       opacity: number;
-      complexity: number;
+      complexity: number;  // Facets per crystal and side shards (0-64)
       organicness: number;
+      movementPattern: 'orbit' | 'verticalSine' | 'static' | 'random';
+      distance: number;
+      pulseEnabled: boolean;
+      pulseSize: number;
     };
     waveInterference: {
       color: string;
@@ -218,7 +233,7 @@ export interface VisualState {
     // Color Blending & Interaction
     colorBlending: {
       enabled: boolean;
-      mode: 'screen' | 'multiply' | 'overlay' | 'soft-light' | 'hard-light' | 'color-dodge';
+      mode: 'screen' | 'multiply' | 'overlay' | 'soft-light' | 'hard-light' | 'color-dodge' | 'add';
       intensity: number;
     };
     
@@ -312,6 +327,13 @@ export interface VisualState {
         width: number;
         fadeRate: number;
       };
+      crystalTrails: {
+        enabled: boolean;
+        length: number;
+        opacity: number;
+        width: number;
+        fadeRate: number;
+      };
       particleTrails: {
         enabled: boolean;
         length: number;
@@ -432,6 +454,15 @@ export interface VisualState {
   // Global animation speed multiplier
   globalAnimationSpeed: number;
 
+  // Scene seed shared by every layout/geometry generator (see utils/seededRandom)
+  seed: number;
+
+  // LFOs and envelopes driving numeric/color paths (see utils/modulationEngine)
+  modulators: Modulator[];
+
+  // Declarative mapping rules saved with the preset (see utils/mappingRules)
+  mappingRules: MappingRuleDefinition[];
+
   // Global blend mode overlay
   globalBlendMode: {
     mode: string; // Allow any string for blend mode
@@ -503,11 +534,19 @@ export interface VisualActions {
   updateEffects: (updates: Partial<VisualState['effects']>) => void;
   updateCamera: (updates: Partial<VisualState['camera']>) => void;
   updateGlobalAnimationSpeed: (speed: number) => void; // NEW: Update global animation speed
+  setSeed: (seed: number) => void;
+  reshuffleSeed: () => number; // Pick a fresh random seed and return it
+  addModulator: (modulator: Modulator) => void;
+  updateModulator: (id: string, changes: Partial<Modulator>) => void;
+  removeModulator: (id: string) => void;
+  setModulators: (modulators: Modulator[]) => void;
+  setMappingRules: (mappingRules: MappingRuleDefinition[]) => void;
   resetToDefaults: () => void;
   savePreset: (name: string) => void;
   loadPreset: (name: string) => void;
   loadPresetData: (presetData: Partial<VisualPreset>) => void; // NEW: Load preset data directly
-  transitionPreset: (name: string, duration?: number) => Promise<void>; // NEW: Smooth transition to preset
+  startPresetTransition: (target: string | Partial<VisualPreset> | Preset['data'], options?: TransitionOptions) => TransitionHandle | null; // Controllable transition (cancel/pause/resume/seek)
+  transitionPreset: (target: string | Partial<VisualPreset> | Preset['data'], duration?: number, options?: Omit<TransitionOptions, 'duration'>) => Promise<void>; // Smooth transition to a saved preset name or preset data
   getAvailablePresets: () => string[];
   deletePreset: (name: string) => void;
   updateBackgroundConfig: (updates: Partial<VisualState['backgroundConfig']>) => void;
@@ -523,6 +562,14 @@ export interface VisualActions {
   clearCanvasError: () => void;
   updateAutoPanAngle: (newAngle: number) => void; // NEW: Function to update only auto-pan angle without affecting enabled state
 
+  // Undo/redo history (scene mutations only; UI, AI status and auto-pan angle are not recorded)
+  undo: () => void;
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  getHistory: () => { undo: HistoryEntrySummary[]; redo: HistoryEntrySummary[] };
+  clearHistory: () => void;
+
   // AI Integration Actions
   toggleAI: () => void;
   setAIEnabled: (enabled: boolean) => void;
@@ -705,10 +752,15 @@ export const GLOBAL_DEFAULTS = {
       count: 8,
       size: 1.0,
       color: '#4ecdc4',
+      speed: 0.6,
       rotation: 2.0,
       opacity: 0.9,
       complexity: 16,
       organicness: 0.2,
+      movementPattern: 'orbit' as const,
+      distance: 2.0,
+      pulseEnabled: false,
+      pulseSize: 1.0,
     },
     waveInterference: {
       color: '#00ffff',
@@ -884,13 +936,18 @@ const defaultState: VisualState = {
       pulseSize: GLOBAL_DEFAULTS.geometric.blobs.pulseSize,
     },
     crystals: {
-      count: 8,
-      size: 1.0,
-      color: '#4ecdc4',
-      rotation: 2.0,
-      opacity: 0.9,
-      complexity: 16,
-      organicness: 0.2,
+      count: GLOBAL_DEFAULTS.geometric.crystals.count,
+      size: GLOBAL_DEFAULTS.geometric.crystals.size,
+      color: GLOBAL_DEFAULTS.geometric.crystals.color,
+      speed: GLOBAL_DEFAULTS.geometric.crystals.speed,
+      rotation: GLOBAL_DEFAULTS.geometric.crystals.rotation,
+      opacity: GLOBAL_DEFAULTS.geometric.crystals.opacity,
+      complexity: GLOBAL_DEFAULTS.geometric.crystals.complexity,
+      organicness: GLOBAL_DEFAULTS.geometric.crystals.organicness,
+      movementPattern: GLOBAL_DEFAULTS.geometric.crystals.movementPattern,
+      distance: GLOBAL_DEFAULTS.geometric.crystals.distance,
+      pulseEnabled: GLOBAL_DEFAULTS.geometric.crystals.pulseEnabled,
+      pulseSize: GLOBAL_DEFAULTS.geometric.crystals.pulseSize,
     },
     waveInterference: {
       color: '#00ffff',
@@ -1015,6 +1072,13 @@ const defaultState: VisualState = {
         width: 0.6,
         fadeRate: 0.5,
       },
+      crystalTrails: {
+        enabled: true,
+        length: 120,
+        opacity: 0.6,
+        width: 0.7,
+        fadeRate: 0.35,
+      },
       particleTrails: {
         enabled: true,
         length: 300,
@@ -1084,6 +1148,9 @@ const defaultState: VisualState = {
     ...GLOBAL_DEFAULTS.camera
   },
   globalAnimationSpeed: clampAnimationSpeed(GLOBAL_DEFAULTS.animation.defaultSpeed),
+  seed: DEFAULT_SCENE_SEED,
+  modulators: [],
+  mappingRules: [],
   globalBlendMode: {
     mode: 'normal',
     opacity: 0.5
@@ -1094,6 +1161,47 @@ const defaultState: VisualState = {
 
 type Store = VisualState & VisualActions;
 
+// Scene slices captured for undo/redo
+type SceneSnapshot = Pick<VisualState, 'background' | 'backgroundConfig' | 'logo' | 'geometric' | 'particles' | 'globalEffects' | 'effects' | 'camera' | 'globalAnimationSpeed' | 'seed' | 'modulators' | 'mappingRules' | 'globalBlendMode' | 'location'>;
+
+const takeSceneSnapshot = (state: VisualState): SceneSnapshot => ({
+  background: state.background,
+  backgroundConfig: state.backgroundConfig,
+  logo: state.logo,
+  geometric: state.geometric,
+  particles: state.particles,
+  globalEffects: state.globalEffects,
+  effects: state.effects,
+  camera: state.camera,
+  globalAnimationSpeed: state.globalAnimationSpeed,
+  seed: state.seed,
+  modulators: state.modulators,
+  mappingRules: state.mappingRules,
+  globalBlendMode: state.globalBlendMode,
+  location: state.location
+});
+
+// High-frequency writes that must never create history entries
+const HISTORY_IGNORED_PATHS = ['camera.autoPan.currentAngle'];
+
+const visualHistory = new StateHistory<SceneSnapshot>(100, 600);
+
+// Record the state before an action; `path` null means nothing changed
+const recordHistory = (label: string, path: string | null, state: VisualState) => {
+  if (path) {
+    visualHistory.record(label, path, takeSceneSnapshot(state));
+  }
+};
+
+// Restore a snapshot without rewinding the live auto-pan angle
+const restoreSceneSnapshot = (state: VisualState, snapshot: SceneSnapshot): Partial<VisualState> => ({
+  ...snapshot,
+  camera: {
+    ...snapshot.camera,
+    autoPan: { ...snapshot.camera.autoPan, currentAngle: state.camera.autoPan.currentAngle }
+  }
+});
+
 export const useVisualStore = create<Store>()(
   persist(
     (set, get) => ({
@@ -1124,6 +1232,7 @@ export const useVisualStore = create<Store>()(
       },
 
       toggleAutoPan: () => {
+        recordHistory('toggleAutoPan', 'camera.autoPan.enabled', get());
         set((state) => {
           const newEnabled = !state.camera.autoPan.enabled;
           return {
@@ -1139,12 +1248,14 @@ export const useVisualStore = create<Store>()(
       },
 
       updateBackground: (updates) => {
+        recordHistory('updateBackground', describeChange('background', get().background, updates), get());
         set((state) => ({
           background: { ...state.background, ...updates }
         }));
       },
 
       updateGeometric: (shape, updates) => {
+        recordHistory('updateGeometric', describeChange(`geometric.${shape}`, get().geometric[shape], updates), get());
         set((state) => ({
           geometric: {
             ...state.geometric,
@@ -1154,24 +1265,28 @@ export const useVisualStore = create<Store>()(
       },
 
       updateParticles: (updates) => {
+        recordHistory('updateParticles', describeChange('particles', get().particles, updates), get());
         set((state) => ({
           particles: { ...state.particles, ...updates }
         }));
       },
 
       updateGlobalEffects: (updates) => {
+        recordHistory('updateGlobalEffects', describeChange('globalEffects', get().globalEffects, updates), get());
         set((state) => ({
           globalEffects: { ...state.globalEffects, ...updates }
         }));
       },
 
       updateEffects: (updates) => {
+        recordHistory('updateEffects', describeChange('effects', get().effects, updates), get());
         set((state) => ({
           effects: { ...state.effects, ...updates }
         }));
       },
 
       updateCamera: (updates) => {
+        recordHistory('updateCamera', describeChange('camera', get().camera, updates, HISTORY_IGNORED_PATHS), get());
         set((state) => ({
           camera: { 
             ...state.camera, 
@@ -1184,6 +1299,7 @@ export const useVisualStore = create<Store>()(
       },
 
       updateGlobalAnimationSpeed: (speed: number) => {
+        recordHistory('updateGlobalAnimationSpeed', describeChange('globalAnimationSpeed', get().globalAnimationSpeed, clampAnimationSpeed(speed)), get());
         set((state) => {
           const clampedSpeed = clampAnimationSpeed(speed);
           return {
@@ -1192,7 +1308,51 @@ export const useVisualStore = create<Store>()(
         });
       },
 
-      resetToDefaults: () => set(defaultState),
+      setSeed: (seed: number) => {
+        const nextSeed = normalizeSeed(seed, get().seed);
+        recordHistory('setSeed', describeChange('seed', get().seed, nextSeed), get());
+        set({ seed: nextSeed });
+      },
+
+      reshuffleSeed: () => {
+        const nextSeed = generateSeed();
+        get().setSeed(nextSeed);
+        return nextSeed;
+      },
+
+      addModulator: (modulator: Modulator) => {
+        recordHistory('addModulator', 'modulators', get());
+        set((state) => ({ modulators: [...state.modulators, modulator] }));
+      },
+
+      updateModulator: (id: string, changes: Partial<Modulator>) => {
+        recordHistory('updateModulator', `modulators.${id}`, get());
+        set((state) => ({
+          modulators: state.modulators.map((modulator) =>
+            modulator.id === id ? { ...modulator, ...changes } as Modulator : modulator
+          )
+        }));
+      },
+
+      removeModulator: (id: string) => {
+        recordHistory('removeModulator', 'modulators', get());
+        set((state) => ({ modulators: state.modulators.filter((modulator) => modulator.id !== id) }));
+      },
+
+      setModulators: (modulators: Modulator[]) => {
+        recordHistory('setModulators', 'modulators', get());
+        set({ modulators });
+      },
+
+      setMappingRules: (mappingRules: MappingRuleDefinition[]) => {
+        recordHistory('setMappingRules', 'mappingRules', get());
+        set({ mappingRules });
+      },
+
+      resetToDefaults: () => {
+        recordHistory('resetToDefaults', '*', get());
+        set(defaultState);
+      },
 
       savePreset: (name) => {
         const state = get();
@@ -1207,10 +1367,13 @@ export const useVisualStore = create<Store>()(
           effects: state.effects,
           camera: state.camera,
           globalAnimationSpeed: state.globalAnimationSpeed,
+          seed: state.seed,
+          modulators: state.modulators,
+          mappingRules: state.mappingRules,
           globalBlendMode: state.globalBlendMode,
           location: state.location,
           savedAt: new Date().toISOString(),
-          version: '1.0'
+          version: CURRENT_PRESET_VERSION
         };
         
         try {
@@ -1225,7 +1388,9 @@ export const useVisualStore = create<Store>()(
         try {
           const presets = JSON.parse(localStorage.getItem('visualPresets') || '{}') as PresetStorage;
           if (presets[name]) {
-            const preset = presets[name];
+            // Upgrade presets saved by older builds before merging
+            const preset = migratePresetData(presets[name], presets[name].version).data;
+            recordHistory(`loadPreset "${name}"`, '*', get());
             
             set((state) => {
               // Deep merge for globalEffects to ensure all nested properties are preserved
@@ -1253,6 +1418,10 @@ export const useVisualStore = create<Store>()(
                     ...state.globalEffects.trails.torusTrails,
                     ...(isPlainObject(preset.globalEffects && preset.globalEffects.trails && preset.globalEffects.trails.torusTrails) ? preset.globalEffects.trails.torusTrails : {})
                   },
+                  crystalTrails: {
+                    ...state.globalEffects.trails.crystalTrails,
+                    ...(isPlainObject(preset.globalEffects && preset.globalEffects.trails && preset.globalEffects.trails.crystalTrails) ? preset.globalEffects.trails.crystalTrails : {})
+                  },
                   particleTrails: {
                     ...state.globalEffects.trails.particleTrails,
                     ...(isPlainObject(preset.globalEffects && preset.globalEffects.trails && preset.globalEffects.trails.particleTrails) ? preset.globalEffects.trails.particleTrails : {})
@@ -1285,6 +1454,9 @@ export const useVisualStore = create<Store>()(
                 effects: { ...state.effects, ...(isPlainObject(preset.effects) ? preset.effects : {}) },
                 camera: mergedCamera,
                 globalAnimationSpeed: newGlobalAnimationSpeed,
+                seed: normalizeSeed(preset.seed, state.seed),
+                modulators: Array.isArray(preset.modulators) ? preset.modulators : state.modulators,
+                mappingRules: Array.isArray(preset.mappingRules) ? preset.mappingRules : state.mappingRules,
                 globalBlendMode: isPlainObject(preset.globalBlendMode) ? preset.globalBlendMode : state.globalBlendMode,
                 location: typeof preset.location === 'string' ? preset.location : state.location,
               };
@@ -1300,6 +1472,7 @@ export const useVisualStore = create<Store>()(
           console.log('🎨 loadPresetData called with:', presetData);
         }
         
+        recordHistory('loadPresetData', '*', get());
         set((state) => {
           // Ensure globalAnimationSpeed is properly set
           const newGlobalAnimationSpeed = presetData.globalAnimationSpeed ?? state.globalAnimationSpeed;
@@ -1377,6 +1550,9 @@ export const useVisualStore = create<Store>()(
             ...otherPresetData,
             geometric: mergedGeometric,
             globalAnimationSpeed: newGlobalAnimationSpeed,
+            seed: normalizeSeed(presetData.seed, state.seed),
+            modulators: Array.isArray(presetData.modulators) ? presetData.modulators : state.modulators,
+            mappingRules: Array.isArray(presetData.mappingRules) ? presetData.mappingRules : state.mappingRules,
             camera: mergedCamera,
             globalEffects: mergedGlobalEffects,
             particles: mergedParticles,
@@ -1437,6 +1613,7 @@ export const useVisualStore = create<Store>()(
         if (updates.timeScale !== undefined) {
           updates.timeScale = clampTimeScale(updates.timeScale);
         }
+        recordHistory('updateBackgroundConfig', describeChange('backgroundConfig', get().backgroundConfig, updates), get());
         
         set((state) => ({
           backgroundConfig: { ...state.backgroundConfig, ...updates }
@@ -1445,6 +1622,10 @@ export const useVisualStore = create<Store>()(
 
       // Global defaults management
       updateGlobalDefaults: (category: keyof typeof GLOBAL_DEFAULTS, updates: any) => {
+        if (['camera', 'visual', 'animation', 'globalBlendMode', 'logo'].includes(category)) {
+          recordHistory('updateGlobalDefaults', category, get());
+        }
+
         // Update the global defaults (this affects future resets)
         Object.assign(GLOBAL_DEFAULTS[category], updates);
         
@@ -1504,6 +1685,7 @@ export const useVisualStore = create<Store>()(
       },
 
       resetToGlobalDefaults: () => {
+        recordHistory('resetToGlobalDefaults', 'camera, effects', get());
         set((state) => ({
           ...state,
           camera: { ...GLOBAL_DEFAULTS.camera },
@@ -1519,12 +1701,14 @@ export const useVisualStore = create<Store>()(
       },
 
       resetCameraToDefaults: () => {
+        recordHistory('resetCameraToDefaults', 'camera', get());
         set((state) => ({
           camera: { ...GLOBAL_DEFAULTS.camera }
         }));
       },
 
       resetVisualEffectsToDefaults: () => {
+        recordHistory('resetVisualEffectsToDefaults', 'effects', get());
         set((state) => ({
           effects: {
             ...state.effects,
@@ -1538,6 +1722,7 @@ export const useVisualStore = create<Store>()(
       },
 
       forceApplyGlobalDefaults: () => {
+        recordHistory('forceApplyGlobalDefaults', 'camera, effects', get());
         set((state) => ({
           ...state,
           camera: { ...GLOBAL_DEFAULTS.camera },
@@ -1564,7 +1749,10 @@ export const useVisualStore = create<Store>()(
         }
       },
 
-      setLocation: (location: string) => set({ location }),
+      setLocation: (location: string) => {
+        recordHistory('setLocation', describeChange('location', get().location, location), get());
+        set({ location });
+      },
 
       setCanvasError: (error) => set({ error }),
       clearCanvasError: () => set({ error: null }),
@@ -1582,174 +1770,62 @@ export const useVisualStore = create<Store>()(
         }));
       },
 
-      transitionPreset: async (name, duration = 2500) => {
+      startPresetTransition: (target, options = {}) => {
         try {
-          const presets = JSON.parse(localStorage.getItem('visualPresets') || '{}') as PresetStorage;
-          if (!presets[name]) {
-            return;
+          let targetPreset: Partial<VisualPreset>;
+          if (typeof target === 'string') {
+            const presets = JSON.parse(localStorage.getItem('visualPresets') || '{}') as PresetStorage;
+            if (!presets[target]) {
+              return null;
+            }
+            targetPreset = migratePresetData(presets[target], presets[target].version).data;
+          } else if (isPlainObject(target)) {
+            // Cloud presets (Preset.data) and raw preset objects are accepted directly
+            targetPreset = target;
+          } else {
+            return null;
           }
 
-          const targetPreset = presets[name];
-          
-          // Get current state
-          const currentState = get();
-          
-          // Create a promise that resolves when transition is complete
-          return new Promise<void>((resolve) => {
-            const startTime = Date.now();
-            
-            const animate = () => {
-              const elapsed = Date.now() - startTime;
-              const progress = Math.min(elapsed / duration, 1);
-              
-              // Easing function for smooth transition
-              const easeInOutCubic = (t: number) => 
-                t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
-              
-              const easedProgress = easeInOutCubic(progress);
-              
-              // Interpolate between current and target values
-              const interpolate = (start: number, end: number, t: number) => 
-                start + (end - start) * t;
-              
-              const interpolateColor = (start: string, end: string, t: number) => {
-                // Simple color interpolation - convert to RGB and interpolate
-                const startRGB = hexToRgb(start);
-                const endRGB = hexToRgb(end);
-                
-                const r = Math.round(interpolate(startRGB.r, endRGB.r, t));
-                const g = Math.round(interpolate(startRGB.g, endRGB.g, t));
-                const b = Math.round(interpolate(startRGB.b, endRGB.b, t));
-                
-                return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-              };
-              
-              // Create interpolated state
-              const interpolatedState: Partial<VisualState> = {};
-              
-              // Interpolate geometric shapes
-              if (targetPreset.geometric) {
-                interpolatedState.geometric = { ...currentState.geometric };
-                
-                // Interpolate spheres
-                if (targetPreset.geometric.spheres) {
-                  interpolatedState.geometric.spheres = {
-                    ...currentState.geometric.spheres,
-                    count: Math.round(interpolate(currentState.geometric.spheres.count, targetPreset.geometric.spheres.count, easedProgress)),
-                    size: interpolate(currentState.geometric.spheres.size, targetPreset.geometric.spheres.size, easedProgress),
-                    color: interpolateColor(currentState.geometric.spheres.color, targetPreset.geometric.spheres.color, easedProgress),
-                    speed: interpolate(currentState.geometric.spheres.speed, targetPreset.geometric.spheres.speed, easedProgress),
-                    rotation: interpolate(currentState.geometric.spheres.rotation, targetPreset.geometric.spheres.rotation, easedProgress),
-                    opacity: interpolate(currentState.geometric.spheres.opacity, targetPreset.geometric.spheres.opacity, easedProgress),
-                    organicness: interpolate(currentState.geometric.spheres.organicness, targetPreset.geometric.spheres.organicness, easedProgress),
-                    distance: interpolate(currentState.geometric.spheres.distance, targetPreset.geometric.spheres.distance, easedProgress),
-                    pulseSize: interpolate(currentState.geometric.spheres.pulseSize, targetPreset.geometric.spheres.pulseSize, easedProgress)
-                  };
-                }
-                
-                // Interpolate cubes
-                if (targetPreset.geometric.cubes) {
-                  interpolatedState.geometric.cubes = {
-                    ...currentState.geometric.cubes,
-                    count: Math.round(interpolate(currentState.geometric.cubes.count, targetPreset.geometric.cubes.count, easedProgress)),
-                    size: interpolate(currentState.geometric.cubes.size, targetPreset.geometric.cubes.size, easedProgress),
-                    color: interpolateColor(currentState.geometric.cubes.color, targetPreset.geometric.cubes.color, easedProgress),
-                    speed: interpolate(currentState.geometric.cubes.speed, targetPreset.geometric.cubes.speed, easedProgress),
-                    rotation: interpolate(currentState.geometric.cubes.rotation, targetPreset.geometric.cubes.rotation, easedProgress),
-                    opacity: interpolate(currentState.geometric.cubes.opacity, targetPreset.geometric.cubes.opacity, easedProgress),
-                    organicness: interpolate(currentState.geometric.cubes.organicness, targetPreset.geometric.cubes.organicness, easedProgress),
-                    distance: interpolate(currentState.geometric.cubes.distance, targetPreset.geometric.cubes.distance, easedProgress),
-                    pulseSize: interpolate(currentState.geometric.cubes.pulseSize, targetPreset.geometric.cubes.pulseSize, easedProgress)
-                  };
-                }
-                
-                // Interpolate toruses
-                if (targetPreset.geometric.toruses) {
-                  interpolatedState.geometric.toruses = {
-                    ...currentState.geometric.toruses,
-                    count: Math.round(interpolate(currentState.geometric.toruses.count, targetPreset.geometric.toruses.count, easedProgress)),
-                    size: interpolate(currentState.geometric.toruses.size, targetPreset.geometric.toruses.size, easedProgress),
-                    color: interpolateColor(currentState.geometric.toruses.color, targetPreset.geometric.toruses.color, easedProgress),
-                    speed: interpolate(currentState.geometric.toruses.speed, targetPreset.geometric.toruses.speed, easedProgress),
-                    rotation: interpolate(currentState.geometric.toruses.rotation, targetPreset.geometric.toruses.rotation, easedProgress),
-                    opacity: interpolate(currentState.geometric.toruses.opacity, targetPreset.geometric.toruses.opacity, easedProgress),
-                    organicness: interpolate(currentState.geometric.toruses.organicness, targetPreset.geometric.toruses.organicness, easedProgress),
-                    distance: interpolate(currentState.geometric.toruses.distance, targetPreset.geometric.toruses.distance, easedProgress),
-                    pulseSize: interpolate(currentState.geometric.toruses.pulseSize, targetPreset.geometric.toruses.pulseSize, easedProgress)
-                  };
-                }
-                
-                // Interpolate blobs
-                if (targetPreset.geometric.blobs) {
-                  interpolatedState.geometric.blobs = {
-                    ...currentState.geometric.blobs,
-                    count: Math.round(interpolate(currentState.geometric.blobs.count, targetPreset.geometric.blobs.count, easedProgress)),
-                    size: interpolate(currentState.geometric.blobs.size, targetPreset.geometric.blobs.size, easedProgress),
-                    color: interpolateColor(currentState.geometric.blobs.color, targetPreset.geometric.blobs.color, easedProgress),
-                    speed: interpolate(currentState.geometric.blobs.speed, targetPreset.geometric.blobs.speed, easedProgress),
-                    opacity: interpolate(currentState.geometric.blobs.opacity, targetPreset.geometric.blobs.opacity, easedProgress),
-                    organicness: interpolate(currentState.geometric.blobs.organicness, targetPreset.geometric.blobs.organicness, easedProgress),
-                    distance: interpolate(currentState.geometric.blobs.distance, targetPreset.geometric.blobs.distance, easedProgress),
-                    pulseSize: interpolate(currentState.geometric.blobs.pulseSize, targetPreset.geometric.blobs.pulseSize, easedProgress)
-                  };
-                }
-              }
-              
-              // Interpolate particles
-              if (targetPreset.particles) {
-                interpolatedState.particles = {
-                  ...currentState.particles,
-                  count: Math.round(interpolate(currentState.particles.count, targetPreset.particles.count, easedProgress)),
-                  size: interpolate(currentState.particles.size, targetPreset.particles.size, easedProgress),
-                  color: interpolateColor(currentState.particles.color, targetPreset.particles.color, easedProgress),
-                  speed: interpolate(currentState.particles.speed, targetPreset.particles.speed, easedProgress),
-                  opacity: interpolate(currentState.particles.opacity, targetPreset.particles.opacity, easedProgress),
-                  spread: interpolate(currentState.particles.spread, targetPreset.particles.spread, easedProgress),
-                  distance: interpolate(currentState.particles.distance, targetPreset.particles.distance, easedProgress),
-                  pulseSize: interpolate(currentState.particles.pulseSize, targetPreset.particles.pulseSize, easedProgress)
-                };
-              }
-              
-              // Interpolate effects
-              if (targetPreset.effects) {
-                interpolatedState.effects = {
-                  ...currentState.effects,
-                  glow: interpolate(currentState.effects.glow, targetPreset.effects.glow, easedProgress),
-                  contrast: interpolate(currentState.effects.contrast, targetPreset.effects.contrast, easedProgress),
-                  saturation: interpolate(currentState.effects.saturation, targetPreset.effects.saturation, easedProgress),
-                  brightness: interpolate(currentState.effects.brightness, targetPreset.effects.brightness, easedProgress),
-                  vignette: interpolate(currentState.effects.vignette, targetPreset.effects.vignette, easedProgress),
-                  hue: interpolate(currentState.effects.hue, targetPreset.effects.hue, easedProgress)
-                };
-              }
-              
-              // Interpolate global animation speed
-              if (typeof targetPreset.globalAnimationSpeed === 'number') {
-                interpolatedState.globalAnimationSpeed = interpolate(
-                  currentState.globalAnimationSpeed, 
-                  targetPreset.globalAnimationSpeed, 
-                  easedProgress
-                );
-              }
-              
-              // Apply interpolated state
-              set((state) => ({
-                ...state,
-                ...interpolatedState
-              }));
-              
-              // Continue animation if not complete
-              if (progress < 1) {
-                requestAnimationFrame(animate);
-              } else {
-                resolve();
-              }
-            };
-            
-            animate();
+          recordHistory('transitionPreset', '*', get());
+
+          // Start from the live state: if another transition is mid-flight this is its
+          // current interpolated frame, so the controller retargets without a jump
+          return presetTransitionController.start(get(), targetPreset, options, (interpolatedState) => {
+            // Merge into the live state so independently updated fields (auto-pan angle, UI) are preserved
+            set((state) => mergeState(state, interpolatedState));
           });
         } catch (error) {
           console.error('Error during preset transition:', error);
+          return null;
+        }
+      },
+
+      undo: () => {
+        // A running transition would immediately overwrite the restored state
+        presetTransitionController.cancelActive();
+        const entry = visualHistory.undo(takeSceneSnapshot(get()));
+        if (entry) {
+          set((state) => restoreSceneSnapshot(state, entry.snapshot));
+        }
+      },
+
+      redo: () => {
+        presetTransitionController.cancelActive();
+        const entry = visualHistory.redo(takeSceneSnapshot(get()));
+        if (entry) {
+          set((state) => restoreSceneSnapshot(state, entry.snapshot));
+        }
+      },
+
+      canUndo: () => visualHistory.canUndo(),
+      canRedo: () => visualHistory.canRedo(),
+      getHistory: () => visualHistory.getSummary(),
+      clearHistory: () => visualHistory.clear(),
+
+      transitionPreset: async (target, duration = 2500, options = {}) => {
+        const handle = get().startPresetTransition(target, { ...options, duration });
+        if (handle) {
+          await handle.finished;
         }
       },
 
@@ -2098,6 +2174,9 @@ export const useVisualStore = create<Store>()(
         effects: state.effects,
         camera: state.camera,
         globalAnimationSpeed: state.globalAnimationSpeed,
+        seed: state.seed,
+        modulators: state.modulators,
+        mappingRules: state.mappingRules,
         globalBlendMode: state.globalBlendMode,
         location: state.location
       }),
@@ -2111,16 +2190,6 @@ function isPlainObject(obj: any): obj is object {
   return obj && typeof obj === 'object' && !Array.isArray(obj);
 }
 
-// Utility function for color conversion
-function hexToRgb(hex: string): { r: number; g: number; b: number } {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return result ? {
-    r: parseInt(result[1], 16),
-    g: parseInt(result[2], 16),
-    b: parseInt(result[3], 16)
-  } : { r: 0, g: 0, b: 0 };
-}
-
 // Helper function to build AI state safely
 function buildAIState(
   enabled: boolean,
@@ -0,0 +1,40 @@
+// Audio-reactive mode: analysed sound features and their bindings to VisualState paths
+
+export type AudioInputKind = 'microphone' | 'file';
+
+export type AudioBandName = 'bass' | 'lowMid' | 'mid' | 'highMid' | 'treble';
+
+export interface AudioBand {
+  name: AudioBandName;
+  low: number;        // Hz
+  high: number;       // Hz
+}
+
+// Every feature is normalised to 0-1 so bindings can map it onto any range
+export interface AudioFeatures {
+  level: number;      // Overall loudness
+  bass: number;
+  lowMid: number;
+  mid: number;
+  highMid: number;
+  treble: number;
+  beat: number;       // 1 on a detected beat, decaying back to 0
+  onset: number;      // 1 on any detected note/transient onset, decaying back to 0
+}
+
+export type AudioFeatureName = keyof AudioFeatures;
+
+export interface AudioBinding {
+  id: string;
+  path: string;       // Numeric VisualState path, e.g. 'geometric.spheres.size'
+  feature: AudioFeatureName;
+  min: number;        // Value at feature 0
+  max: number;        // Value at feature 1
+  enabled: boolean;
+}
+
+export interface AudioAnalysisSettings {
+  smoothing: number;        // 0-0.95, release smoothing of the band energies
+  gain: number;             // Input gain applied before normalisation
+  beatSensitivity: number;  // 1-3, threshold in standard deviations above the recent flux mean
+}
@@ -0,0 +1,31 @@
+import { ObjectId } from 'mongodb';
+
+export type UserRole = 'viewer' | 'editor' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['viewer', 'editor', 'admin'];
+
+export interface User {
+  _id?: ObjectId | string;
+  username: string;
+  passwordHash: string;
+  role: UserRole;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// User as exposed to routes and the client (never includes the hash)
+export interface PublicUser {
+  id: string;
+  username: string;
+  role: UserRole;
+}
+
+export interface AuthCredentials {
+  username: string;
+  password: string;
+}
+
+export interface AuthResponse {
+  user: PublicUser;
+  token: string; // Also set as an httpOnly cookie; use as a Bearer token for scripts
+}
@@ -0,0 +1,57 @@
+// Declarative ParameterMappingEngine rules: plain JSON, so they can be saved per
+// user or with a preset, exported and shared. See utils/mappingRules for the compiler.
+
+export type MappingRuleSource = 'ai' | 'weather' | 'time' | 'evolution' | 'audio' | 'hybrid';
+
+export type MappingCurveShape = 'linear' | 'smooth' | 'easeIn' | 'easeOut' | 'step';
+
+// How the engine combines several rules' values for one variable
+export type ConflictStrategy =
+  | 'winner-takes-all'      // highest priority wins outright
+  | 'priority-weighted'     // average weighted by priority
+  | 'confidence-weighted'   // average weighted by confidence
+  | 'max'
+  | 'min'
+  | 'hue-blend';            // priority × confidence weights; colors blend around the hue wheel
+
+// Maps the rule's first input from inputRange onto outputRange
+export interface MappingCurve {
+  shape: MappingCurveShape;
+  inputRange: [number, number];
+  outputRange: [number, number];
+  steps?: number;               // 'step' only: number of levels (2-100)
+}
+
+export interface MappingRuleDefinition {
+  id: string;
+  variable: string;             // Store path the rule drives, e.g. 'globalEffects.volumetric.density'
+  enabled: boolean;
+  source: MappingRuleSource;
+  inputs: string[];             // Engine inputs the rule reads, e.g. ['weather.windSpeed']
+  curve?: MappingCurve;
+  expression?: string;          // Replaces the curve when set; may only read the listed inputs
+  constraints: {
+    min: number;
+    max: number;
+    safeZone?: [number, number];
+  };
+  priority: number;             // 1-10, higher wins conflicts
+  sensitivity: number;          // 0-1, how small a change is still applied
+  description?: string;
+  strategy?: ConflictStrategy;  // When set, joins the variable's other rules (combined this way) instead of replacing them
+}
+
+// JSON file written by export and accepted by import (a bare rule array is accepted too)
+export interface MappingRuleFile {
+  format: 'visual-canvas-mapping-rules';
+  version: 1;
+  exportedAt: string;
+  rules: MappingRuleDefinition[];
+}
+
+// A user's own rules, stored server-side
+export interface UserMappingRules {
+  ownerId: string;
+  rules: MappingRuleDefinition[];
+  updatedAt: Date;
+}
@@ -0,0 +1,32 @@
+// Continuous parameter modulation (LFOs and envelopes) on VisualState paths
+
+export type LfoShape = 'sine' | 'triangle' | 'square' | 'randomWalk' | 'noise';
+
+export type EnvelopeTrigger = 'loop' | 'manual';
+
+interface ModulatorBase {
+  id: string;
+  path: string;       // Numeric or hex color path, e.g. 'geometric.spheres.size'
+  enabled: boolean;
+  depth: number;      // Amplitude in the target's units; hue degrees for colors
+  rate: number;       // Cycles per second (envelopes: retriggers per second when looping)
+  phase: number;      // 0-1 offset into the cycle
+  sync: boolean;      // Scale time by globalAnimationSpeed
+}
+
+export interface LfoModulator extends ModulatorBase {
+  kind: 'lfo';
+  shape: LfoShape;    // Bipolar: the target swings ±depth around its base value
+}
+
+export interface EnvelopeModulator extends ModulatorBase {
+  kind: 'envelope';   // Unipolar: the target rises by up to depth, then returns to its base
+  attack: number;     // Seconds
+  decay: number;      // Seconds
+  sustain: number;    // Level 0-1
+  hold: number;       // Seconds at the sustain level before release
+  release: number;    // Seconds
+  trigger: EnvelopeTrigger;
+}
+
+export type Modulator = LfoModulator | EnvelopeModulator;
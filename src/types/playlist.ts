@@ -0,0 +1,51 @@
+import { ObjectId } from 'mongodb';
+
+export type PlaylistOrder = 'ordered' | 'shuffled';
+
+// Local wall-clock window, 'HH:MM'. An end at or before the start wraps past midnight.
+export interface PlaylistTimeWindow {
+  start: string;
+  end: string;
+}
+
+export interface PlaylistItem {
+  presetId: string;              // Cloud preset
+  presetName?: string;           // Label kept with the item so lists render without fetching presets
+  dwell?: number;                // Seconds shown after the transition; playlist default when omitted
+  transition?: number;           // Seconds crossfading into this preset; playlist default when omitted
+  window?: PlaylistTimeWindow;   // Only played inside this window (e.g. calm presets 22:00-06:00)
+}
+
+export interface Playlist {
+  _id?: ObjectId | string;
+  name: string;
+  description?: string;
+  order: PlaylistOrder;
+  dwell: number;         // Default seconds per preset
+  transition: number;    // Default transition seconds
+  items: PlaylistItem[];
+  isPublic?: boolean;
+  createdBy?: string;
+  ownerId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreatePlaylistRequest {
+  name: string;
+  description?: string;
+  order: PlaylistOrder;
+  dwell: number;
+  transition: number;
+  items: PlaylistItem[];
+  isPublic?: boolean;
+}
+
+export interface UpdatePlaylistRequest extends Partial<CreatePlaylistRequest> {
+  id: string;
+}
+
+export interface PlaylistListResponse {
+  playlists: Playlist[];
+  total: number;
+}
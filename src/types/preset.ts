@@ -1,4 +1,6 @@
 import { ObjectId } from 'mongodb';
+import type { Modulator } from './modulation';
+import type { MappingRuleDefinition } from './mappingRule';
 
 export interface Preset {
   _id?: ObjectId | string;
@@ -18,9 +20,14 @@ export interface Preset {
     background: any;
     ui: any;
     globalAnimationSpeed: number;
+    seed?: number;       // Scene seed; with the data it fully determines the rendered layout
+    modulators?: Modulator[];
+    mappingRules?: MappingRuleDefinition[];
   };
   isPublic?: boolean;
-  createdBy?: string;
+  createdBy?: string;   // Username of the creator
+  ownerId?: string;     // User id; presets without an owner can only be changed by admins
+  isSystem?: boolean;   // Protected preset (e.g. LANDING), admin-only
   version?: string;
 }
 
@@ -31,10 +38,50 @@ export interface CreatePresetRequest {
   tags?: string[];
   data: Preset['data'];
   isPublic?: boolean;
+  isSystem?: boolean; // Admin only
 }
 
 export interface UpdatePresetRequest extends Partial<CreatePresetRequest> {
   id: string;
+  message?: string; // Recorded on the revision created by this update
+}
+
+// Immutable snapshot of a preset, written on create and on every update
+export interface PresetRevision {
+  _id?: ObjectId | string;
+  presetId: string;
+  revision: number;   // 1-based, increasing per preset
+  name: string;
+  description?: string;
+  category?: string;
+  tags?: string[];
+  data: Preset['data'];
+  version?: string;
+  author: string;
+  message: string;
+  createdAt: Date;
+}
+
+export type PresetRevisionSummary = Omit<PresetRevision, 'data'>;
+
+export interface PresetRevisionListResponse {
+  presetId: string;
+  revisions: PresetRevisionSummary[]; // Newest first
+  total: number;
+}
+
+export interface PresetChange {
+  path: string; // e.g. 'data.geometric.spheres.count' or 'name'
+  type: 'added' | 'removed' | 'changed';
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface PresetRevisionDiff {
+  presetId: string;
+  from: number;
+  to: number;
+  changes: PresetChange[];
 }
 
 export interface PresetListResponse {
@@ -0,0 +1,59 @@
+import { ObjectId } from 'mongodb';
+import type { EasingType } from '@/ai-enhanced/types/InterpolationTypes';
+
+export type TimelineValue = number | string | boolean | number[];
+
+// Any transition easing, plus 'step' to jump to the next key when it is reached
+export type TimelineEasing = EasingType | 'step';
+
+export interface TimelineKeyframe {
+  time: number;             // Seconds from the start of the timeline
+  value: TimelineValue;
+  easing?: TimelineEasing;  // Curve from this key to the next, defaults to linear
+  hold?: number;            // Seconds to hold this value before moving towards the next key
+}
+
+export interface TimelineTrack {
+  id: string;
+  path: string;                    // Dotted VisualState path, e.g. 'geometric.spheres.color'
+  keyframes: TimelineKeyframe[];   // Sorted by time
+  muted?: boolean;
+}
+
+export interface TimelineData {
+  duration: number;     // Seconds
+  loop: boolean;
+  loopStart?: number;   // Loop region, defaults to the whole timeline
+  loopEnd?: number;
+  tracks: TimelineTrack[];
+}
+
+export interface Timeline {
+  _id?: ObjectId | string;
+  name: string;
+  description?: string;
+  presetId?: string;    // Preset loaded before the timeline starts playing
+  data: TimelineData;
+  isPublic?: boolean;
+  createdBy?: string;
+  ownerId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateTimelineRequest {
+  name: string;
+  description?: string;
+  presetId?: string;
+  data: TimelineData;
+  isPublic?: boolean;
+}
+
+export interface UpdateTimelineRequest extends Partial<CreateTimelineRequest> {
+  id: string;
+}
+
+export interface TimelineListResponse {
+  timelines: Timeline[];
+  total: number;
+}
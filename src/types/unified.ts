@@ -365,10 +365,15 @@ export class TypeMapper {
           count: 0, // Default
           size: 1, // Default
           color: '#ffffff', // Default
+          speed: 0.6, // Default
           rotation: 0, // Default
           opacity: 1, // Default
           complexity: 1, // Default
-          organicness: 0 // Default
+          organicness: 0, // Default
+          movementPattern: 'orbit', // Default
+          distance: 2.0, // Default
+          pulseEnabled: false, // Default
+          pulseSize: 1 // Default
         },
         waveInterference: {
           color: '#ffffff' // Default
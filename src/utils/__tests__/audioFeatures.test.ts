@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { AUDIO_BANDS, AudioFeatureExtractor, DEFAULT_AUDIO_SETTINGS, SILENT_FEATURES, bandEnergy, smoothValue } from '../audioFeatures';
+
+const SAMPLE_RATE = 48000;
+const BINS = 1024;
+const BIN_WIDTH = SAMPLE_RATE / 2 / BINS;
+const DT = 1 / 60;
+
+// Flat magnitude across each listed band, silence elsewhere
+const spectrum = (levels: Record<string, number>) => {
+  const bins = new Uint8Array(BINS);
+  AUDIO_BANDS.forEach((band) => {
+    if (levels[band.name] === undefined) return;
+    bins.fill(levels[band.name], Math.floor(band.low / BIN_WIDTH), Math.ceil(band.high / BIN_WIDTH));
+  });
+  return bins;
+};
+
+const feed = (extractor: AudioFeatureExtractor, frames: Uint8Array[], settings = DEFAULT_AUDIO_SETTINGS) =>
+  frames.map((frame) => extractor.process(frame, SAMPLE_RATE, DT, settings));
+
+// A second of low bass flicker: enough flux history for the adaptive threshold
+const quietPassage = () => Array.from({ length: 60 }, (_, i) => spectrum({ bass: i % 2 ? 30 : 20 }));
+
+describe('bandEnergy', () => {
+  it('averages the bins covering the band', () => {
+    const bins = new Uint8Array(BINS).fill(255);
+    expect(bandEnergy(bins, SAMPLE_RATE, 20, 250)).toBe(1);
+    expect(bandEnergy(new Uint8Array(BINS), SAMPLE_RATE, 20, 250)).toBe(0);
+
+    const half = new Uint8Array(BINS);
+    half.fill(255, 0, 5);
+    half.fill(0, 5, 10);
+    expect(bandEnergy(half, SAMPLE_RATE, 0, 10 * BIN_WIDTH)).toBe(0.5);
+  });
+
+  it('keeps to the spectrum and covers at least one bin', () => {
+    const bins = new Uint8Array(BINS);
+    bins[BINS - 1] = 255;
+    expect(bandEnergy(bins, SAMPLE_RATE, SAMPLE_RATE / 2 - BIN_WIDTH, 96000)).toBe(1);
+
+    bins[3] = 51;
+    expect(bandEnergy(bins, SAMPLE_RATE, 3 * BIN_WIDTH, 3 * BIN_WIDTH)).toBe(0.2);
+  });
+});
+
+describe('smoothValue', () => {
+  it('rises at once and falls by the release per 1/60 s', () => {
+    expect(smoothValue(0.2, 0.9, 0.8, DT)).toBe(0.9);
+    expect(smoothValue(1, 0, 0.5, DT)).toBeCloseTo(0.5);
+    expect(smoothValue(1, 0, 0, DT)).toBe(0);
+  });
+
+  it('falls the same whatever the frame rate', () => {
+    const twoFrames = smoothValue(smoothValue(1, 0, 0.6, 1 / 120), 0, 0.6, 1 / 120);
+    expect(twoFrames).toBeCloseTo(smoothValue(1, 0, 0.6, DT));
+  });
+});
+
+describe('AudioFeatureExtractor', () => {
+  it('reports band levels with gain and release smoothing', () => {
+    const extractor = new AudioFeatureExtractor();
+    expect(extractor.getFeatures()).toEqual(SILENT_FEATURES);
+
+    const [loud] = feed(extractor, [spectrum({ bass: 255, treble: 51 })], { ...DEFAULT_AUDIO_SETTINGS, gain: 2 });
+    expect(loud.bass).toBe(1);
+    expect(loud.treble).toBeCloseTo(0.4);
+    expect(loud.mid).toBe(0);
+    expect(loud.level).toBeGreaterThan(0);
+
+    const [falling] = feed(extractor, [spectrum({})]);
+    expect(falling.bass).toBeCloseTo(DEFAULT_AUDIO_SETTINGS.smoothing);
+    expect(falling.beat).toBe(0);
+  });
+
+  it('fires a beat on a bass hit that stands out from the recent flux', () => {
+    const extractor = new AudioFeatureExtractor();
+    const quiet = feed(extractor, quietPassage());
+    expect(quiet.every((features) => features.beat === 0 && features.onset === 0)).toBe(true);
+
+    const [hit] = feed(extractor, [spectrum({ bass: 120 })]);
+    expect(hit.beat).toBe(1);
+    expect(hit.onset).toBe(1);
+  });
+
+  it('raises the threshold when the recent flux is busy', () => {
+    const extractor = new AudioFeatureExtractor();
+    feed(extractor, Array.from({ length: 60 }, (_, i) => spectrum({ bass: i % 2 ? 0 : 200 })));
+
+    // Same 120-step hit as in the quiet passage, now buried in the flicker
+    const [hit] = feed(extractor, [spectrum({ bass: 120 })]);
+    expect(hit.beat).toBe(0);
+  });
+
+  it('accepts at most one beat per MIN_BEAT_INTERVAL', () => {
+    const extractor = new AudioFeatureExtractor();
+    feed(extractor, quietPassage());
+
+    const kick = spectrum({ bass: 255 });
+    const rest = (frames: number) => Array.from({ length: frames }, () => spectrum({ bass: 20 }));
+    const frames = feed(extractor, [kick, ...rest(11), kick, ...rest(9), kick]);
+
+    expect(frames[0].beat).toBe(1);
+    expect(frames[12].beat).toBeLessThan(1); // 0.2 s after the first kick
+    expect(frames[22].beat).toBe(1);         // 0.37 s after it
+  });
+
+  it('detects onsets outside the bass without calling them beats', () => {
+    const extractor = new AudioFeatureExtractor();
+    feed(extractor, quietPassage());
+
+    const [hit] = feed(extractor, [spectrum({ bass: 20, treble: 255 })]);
+    expect(hit.onset).toBe(1);
+    expect(hit.beat).toBe(0);
+  });
+
+  it('decays the beat and onset pulses exponentially', () => {
+    const extractor = new AudioFeatureExtractor();
+    feed(extractor, [...quietPassage(), spectrum({ bass: 255 })]);
+
+    const after = feed(extractor, Array.from({ length: 30 }, () => spectrum({ bass: 255 })));
+    expect(after[0].beat).toBeCloseTo(Math.exp(-6 * DT));
+    expect(after[29].beat).toBeCloseTo(Math.exp(-3));
+    expect(after[29].onset).toBeCloseTo(Math.exp(-3));
+  });
+
+  it('starts over on reset', () => {
+    const extractor = new AudioFeatureExtractor();
+    feed(extractor, [...quietPassage(), spectrum({ bass: 255 })]);
+    extractor.reset();
+    expect(extractor.getFeatures()).toEqual(SILENT_FEATURES);
+
+    // No previous frame, so the first hit after a reset can't be a beat
+    const [first] = feed(extractor, [spectrum({ bass: 255 })]);
+    expect(first.beat).toBe(0);
+  });
+});
@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { useVisualStore } from '../../store/visualStore';
+import { audioAnalyzer } from '../audioAnalyzer';
+import { audioReactive } from '../audioReactive';
+import { SILENT_FEATURES } from '../audioFeatures';
+import { sceneOverlay } from '../sceneOverlay';
+
+afterEach(() => {
+  audioReactive.getBindings().forEach((binding) => audioReactive.removeBinding(binding.id));
+  vi.restoreAllMocks();
+});
+
+describe('audioReactive', () => {
+  it('drives bound parameters through the overlay and releases them when the input stops', () => {
+    // No localStorage to keep the bindings in under node
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const running = vi.spyOn(audioAnalyzer, 'isRunning').mockReturnValue(true);
+    vi.spyOn(audioAnalyzer, 'sample').mockReturnValue({ ...SILENT_FEATURES, level: 0.8, bass: 0.5 });
+    const stored = useVisualStore.getState().effects.vignette;
+    const storeWrites = vi.fn();
+    const unsubscribe = useVisualStore.subscribe(storeWrites);
+
+    audioReactive.addBinding('effects.vignette', 'bass', 0.2, 0.6);
+    audioReactive.tick(1 / 60);
+    expect(sceneOverlay.getState().effects.vignette).toBeCloseTo(0.4);
+    expect(useVisualStore.getState().effects.vignette).toBe(stored);
+
+    running.mockReturnValue(false);
+    audioReactive.tick(1 / 60);
+    unsubscribe();
+    expect(sceneOverlay.getLayer('audio')).toBeUndefined();
+    expect(storeWrites).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { EVOLUTION_PERIOD_MS, EVOLUTION_PHASES, computeEvolution } from '../evolution';
+
+const HOUR = EVOLUTION_PERIOD_MS['1hour'];
+const START = Date.UTC(2024, 0, 1);
+const at = (progress: number) => START + progress * HOUR;
+
+describe('computeEvolution', () => {
+  it('walks the phases in order through one cycle', () => {
+    const phases = [0, 0.35, 0.55, 0.7, 0.9].map((progress) => computeEvolution(START, '1hour', at(progress)).state.phase);
+    expect(phases).toEqual(EVOLUTION_PHASES);
+  });
+
+  it('starts calm and reaches full intensity in the middle of the peak', () => {
+    const start = computeEvolution(START, '1hour', START);
+    expect(start.state).toMatchObject({ phase: 'calm', mood: 'peaceful', duration: 0 });
+    expect(start.state.intensity).toBeCloseTo(0.15);
+
+    expect(computeEvolution(START, '1hour', at(0.575)).state.intensity).toBeCloseTo(1);
+  });
+
+  it('has no intensity jump at phase boundaries', () => {
+    [0.3, 0.5, 0.65, 0.85].forEach((boundary) => {
+      const before = computeEvolution(START, '1hour', at(boundary) - 1).state.intensity;
+      const after = computeEvolution(START, '1hour', at(boundary)).state.intensity;
+      expect(Math.abs(after - before)).toBeLessThan(0.001);
+    });
+  });
+
+  it('reports time in phase, cycle progress and when the phase ends', () => {
+    const position = computeEvolution(START, '1hour', at(0.4));
+    expect(position.state.phase).toBe('building');
+    expect(position.state.duration).toBe(360);
+    expect(position.cycleProgress).toBeCloseTo(0.4);
+    expect(position.phaseEndsAt).toBe(at(0.5));
+  });
+
+  it('resumes from the wall clock across cycles', () => {
+    const position = computeEvolution(START, '1day', START + 3 * EVOLUTION_PERIOD_MS['1day'] + 1000);
+    expect(position.cycle).toBe(3);
+    expect(position.state.phase).toBe('calm');
+    expect(position.state.duration).toBe(1);
+  });
+
+  it('pins a clock set backwards to the start of the cycle', () => {
+    const position = computeEvolution(START, '1week', START - HOUR);
+    expect(position.cycle).toBe(0);
+    expect(position.cycleProgress).toBe(0);
+    expect(position.state.phase).toBe('calm');
+  });
+});
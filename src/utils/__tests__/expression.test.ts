@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { ExpressionError, compileExpression } from '../expression';
+
+const run = (source: string, inputs: Record<string, unknown> = {}) =>
+  compileExpression(source).evaluate((name) => inputs[name]);
+
+describe('compileExpression', () => {
+  it('follows arithmetic precedence and parentheses', () => {
+    expect(run('1 + 2 * 3')).toBe(7);
+    expect(run('(1 + 2) * 3')).toBe(9);
+    expect(run('10 - 4 - 3')).toBe(3);
+    expect(run('-2 * -3 + 7 % 4')).toBe(9);
+    expect(run('1.5e1 / .5')).toBe(30);
+  });
+
+  it('compares and combines values into booleans', () => {
+    expect(run('2 < 3 && 3 <= 3')).toBe(true);
+    expect(run('1 > 2 || !true')).toBe(false);
+    expect(run("mood === 'calm'", { mood: 'calm' })).toBe(true);
+    expect(run("mood != 'calm'", { mood: 'calm' })).toBe(false);
+    expect(run('0 || 5')).toBe(true);
+  });
+
+  it('nests conditionals to the right', () => {
+    const source = 'x < 0 ? -1 : x == 0 ? 0 : 1';
+    expect(run(source, { x: -4 })).toBe(-1);
+    expect(run(source, { x: 0 })).toBe(0);
+    expect(run(source, { x: 9 })).toBe(1);
+  });
+
+  it('reads dotted inputs and lists them in order of first use', () => {
+    const compiled = compileExpression("evolution.mood == 'chaotic' ? 1.5 : lerp(0.5, 1, audio.bass) + audio.bass * 0");
+    expect(compiled.inputs).toEqual(['evolution.mood', 'audio.bass']);
+    expect(compiled.evaluate((name) => ({ 'evolution.mood': 'calm', 'audio.bass': 0.5 } as Record<string, unknown>)[name])).toBe(0.75);
+  });
+
+  it('calls the built-in functions', () => {
+    expect(run('clamp(weather.temperature / 100, 0, 1) * 2', { 'weather.temperature': 150 })).toBe(2);
+    expect(run('max(1, 7, 3) + min(4, 2)')).toBe(9);
+    expect(run('smoothstep(0, 10, 5)')).toBe(0.5);
+    expect(run('round(PI * 100)')).toBe(314);
+    expect(run("mixColor('#000000', '#ffffff', 0)")).toBe('#000000');
+    expect(run("hueShift('#ff0000', 0)")).toBe('#ff0000');
+  });
+
+  it('only short-circuits into the branch it takes', () => {
+    expect(run('false && missing > 1')).toBe(false);
+    expect(run('true ? 1 : missing')).toBe(1);
+  });
+});
+
+describe('expression errors', () => {
+  it('reports syntax errors with their position', () => {
+    expect(() => compileExpression('1 + * 2')).toThrow(new ExpressionError("Unexpected '*'", 4));
+    expect(() => compileExpression('(1 + 2')).toThrow("Expected ')' before the end");
+    expect(() => compileExpression("'open")).toThrow('Unterminated string');
+    expect(() => compileExpression('a = 1')).toThrow("Unexpected character '='");
+    expect(() => compileExpression('')).toThrow('Unexpected end of expression');
+  });
+
+  it('rejects unknown functions and wrong argument counts', () => {
+    expect(() => compileExpression('eval(1)')).toThrow("Unknown function 'eval'");
+    expect(() => compileExpression('constructor(1)')).toThrow("Unknown function 'constructor'");
+    expect(() => compileExpression('clamp(1, 2)')).toThrow('clamp() takes 3 arguments');
+    expect(() => compileExpression('abs()')).toThrow('abs() takes 1 argument');
+  });
+
+  it('has no property access or member calls', () => {
+    expect(() => compileExpression("x['constructor']")).toThrow(ExpressionError);
+    expect(() => compileExpression('x.constructor(1)')).toThrow("Unknown function 'x.constructor'");
+  });
+
+  it('limits length and nesting', () => {
+    expect(() => compileExpression('1+'.repeat(600) + '1')).toThrow('longer than 1000 characters');
+    expect(() => compileExpression('('.repeat(50) + '1' + ')'.repeat(50))).toThrow('nested too deeply');
+  });
+
+  it('fails at run time on missing inputs, wrong types and non-finite results', () => {
+    expect(() => run('audio.bass * 2')).toThrow("Input 'audio.bass' has no value");
+    expect(() => run('audio.bass', { 'audio.bass': { level: 1 } })).toThrow('has no value');
+    expect(() => run("'a' + 1")).toThrow("Operator '+' expects numbers");
+    expect(() => run("hueShift('red', 10)")).toThrow('hueShift() expects a hex color');
+    expect(() => run('1 / 0')).toThrow('did not produce a finite number');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compileMappingRule,
+  createMappingRule,
+  evaluateCurve,
+  parseMappingRules,
+  serializeMappingRules,
+  validateMappingRule,
+  validateMappingRules
+} from '../mappingRules';
+import type { MappingRuleDefinition } from '../../types/mappingRule';
+
+const rule = (overrides: Partial<MappingRuleDefinition> = {}): MappingRuleDefinition => ({
+  ...createMappingRule('globalEffects.volumetric.density', [0, 2]),
+  id: 'rule-1',
+  ...overrides
+});
+
+const input = (values: Record<string, any>) => values as any;
+
+describe('evaluateCurve', () => {
+  it('maps the input range onto the output range and clamps outside it', () => {
+    const curve = { shape: 'linear' as const, inputRange: [0, 100] as [number, number], outputRange: [10, 20] as [number, number] };
+    expect(evaluateCurve(curve, 50)).toBe(15);
+    expect(evaluateCurve(curve, -10)).toBe(10);
+    expect(evaluateCurve(curve, 500)).toBe(20);
+    expect(evaluateCurve({ ...curve, outputRange: [20, 10] }, 25)).toBe(17.5);
+  });
+
+  it('shapes the curve', () => {
+    const base = { inputRange: [0, 1] as [number, number], outputRange: [0, 1] as [number, number] };
+    expect(evaluateCurve({ ...base, shape: 'easeIn' }, 0.5)).toBe(0.25);
+    expect(evaluateCurve({ ...base, shape: 'easeOut' }, 0.5)).toBe(0.75);
+    expect(evaluateCurve({ ...base, shape: 'smooth' }, 0.25)).toBeCloseTo(0.15625);
+    expect(evaluateCurve({ ...base, shape: 'step', steps: 3 }, 0.5)).toBe(0.5);
+    expect(evaluateCurve({ ...base, shape: 'step', steps: 3 }, 1)).toBe(1);
+  });
+});
+
+describe('validateMappingRule', () => {
+  it('accepts a new rule and an expression rule', () => {
+    expect(validateMappingRule(rule())).toEqual([]);
+    expect(validateMappingRule(rule({
+      curve: undefined,
+      inputs: ['audio.bass', 'current'],
+      expression: 'lerp(current, 2, audio.bass)',
+      strategy: 'max'
+    }))).toEqual([]);
+  });
+
+  it('reports each problem at its path', () => {
+    const paths = validateMappingRule({
+      ...rule(),
+      variable: 'bad path!',
+      source: 'mystery',
+      inputs: ['weather.temperature', 'process.env'],
+      curve: { shape: 'step', inputRange: [1, 1], outputRange: [0] },
+      constraints: { min: 2, max: 1 },
+      priority: 11,
+      sensitivity: 2,
+      strategy: 'average'
+    }).map((error) => error.path);
+    expect(paths).toEqual([
+      'rule.variable',
+      'rule.source',
+      'rule.inputs[1]',
+      'rule.curve.inputRange',
+      'rule.curve.outputRange',
+      'rule.curve.steps',
+      'rule.constraints',
+      'rule.priority',
+      'rule.sensitivity',
+      'rule.strategy'
+    ]);
+  });
+
+  it('rejects expressions that read undeclared inputs or do not parse', () => {
+    expect(validateMappingRule(rule({ expression: 'audio.bass * 2' }))).toEqual([
+      { path: 'rule.expression', message: 'Reads inputs not listed in inputs: audio.bass' }
+    ]);
+    expect(validateMappingRule(rule({ expression: 'evolution.intensity +' }))[0].path).toBe('rule.expression');
+  });
+
+  it('checks rule lists as a whole', () => {
+    expect(validateMappingRules({})).toEqual({ valid: false, errors: [{ path: 'rules', message: 'Must be an array' }] });
+    expect(validateMappingRules([rule(), { ...rule(), priority: 0 }]).errors.map((error) => error.path)).toEqual(['rules[1].priority']);
+  });
+});
+
+describe('compileMappingRule', () => {
+  it('runs curve rules on their first input', () => {
+    const compiled = compileMappingRule(rule({ description: 'Denser as it builds' }));
+    expect(compiled).toMatchObject({ variable: 'globalEffects.volumetric.density', source: 'evolution', priority: 6, description: 'Denser as it builds' });
+    expect(compiled.mappingFunction(input({ evolution: { intensity: 0.25 } }))).toBe(0.5);
+    expect(() => compiled.mappingFunction(input({ evolution: {} }))).toThrow('Curve input evolution.intensity is not a number');
+  });
+
+  it('runs expression rules against the declared inputs only', () => {
+    const compiled = compileMappingRule(rule({ inputs: ['weather.windSpeed', 'current'], expression: 'current + weather.windSpeed / 10' }));
+    expect(compiled.mappingFunction(input({ weather: { windSpeed: 5 }, current: 1 }))).toBe(1.5);
+  });
+
+  it('refuses invalid definitions', () => {
+    expect(() => compileMappingRule(rule({ priority: 0 }))).toThrow('rule.priority: Must be a whole number from 1 to 10');
+  });
+});
+
+describe('rule files', () => {
+  it('round-trips exported rules', () => {
+    const rules = [rule(), rule({ id: 'rule-2', strategy: 'min' })];
+    expect(parseMappingRules(serializeMappingRules(rules))).toEqual(rules);
+    expect(parseMappingRules(JSON.stringify(rules))).toEqual(rules);
+  });
+
+  it('rejects other JSON and reports the first problems', () => {
+    expect(() => parseMappingRules('{')).toThrow('Not a JSON file');
+    expect(() => parseMappingRules('{"rules": []}')).toThrow('Not a mapping rules file');
+    const broken = Array.from({ length: 5 }, (_, index) => rule({ id: `rule-${index}`, priority: 0 }));
+    expect(() => parseMappingRules(JSON.stringify(broken))).toThrow('(and 2 more)');
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { modulateValue } from '../modulation';
+import { getPresetNumberRange } from '../../lib/presetValidation';
+
+describe('modulateValue', () => {
+  it('keeps numbers inside the path range when one is given', () => {
+    expect(modulateValue('effects.vignette', 0.9, 0.5, [0, 1])).toBe(1);
+    expect(modulateValue('camera.height', -90, -30, [-100, 100])).toBe(-100);
+    expect(modulateValue('camera.fov', 60, 10, getPresetNumberRange('camera.fov'))).toBe(70);
+  });
+
+  it('only stops non-negative bases at zero without a range', () => {
+    expect(modulateValue('effects.glow', 0.2, -1)).toBe(0);
+    expect(modulateValue('camera.height', -2, -1)).toBe(-3);
+  });
+
+  it('rounds count-like keys after clamping', () => {
+    expect(modulateValue('geometric.spheres.count', 98, 4.4, [0, 100])).toBe(100);
+    expect(modulateValue('geometric.spheres.count', 8, 1.6, [0, 100])).toBe(10);
+  });
+});
+
+describe('getPresetNumberRange', () => {
+  it('follows the preset schema, including tuple items', () => {
+    expect(getPresetNumberRange('effects.vignette')).toEqual([0, 1]);
+    expect(getPresetNumberRange('camera.position.1')).toEqual([-10000, 10000]);
+    expect(getPresetNumberRange('geometric.spheres.color')).toBeNull();
+    expect(getPresetNumberRange('not.a.path')).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { createPlayOrder, getActiveItems, isWindowActive, parseClockTime } from '../playlistSchedule';
+import type { PlaylistItem } from '../../types/playlist';
+
+const at = (hours: number, minutes = 0) => new Date(2024, 0, 1, hours, minutes);
+
+describe('parseClockTime', () => {
+  it('reads HH:MM as minutes after midnight', () => {
+    expect(parseClockTime('00:00')).toBe(0);
+    expect(parseClockTime('22:30')).toBe(1350);
+  });
+
+  it('rejects malformed times', () => {
+    expect(parseClockTime('24:00')).toBeNull();
+    expect(parseClockTime('9:00')).toBeNull();
+    expect(parseClockTime('12:60')).toBeNull();
+  });
+});
+
+describe('isWindowActive', () => {
+  it('includes the start and excludes the end of a daytime window', () => {
+    const window = { start: '09:00', end: '17:00' };
+    expect(isWindowActive(window, at(9))).toBe(true);
+    expect(isWindowActive(window, at(16, 59))).toBe(true);
+    expect(isWindowActive(window, at(17))).toBe(false);
+  });
+
+  it('wraps windows past midnight', () => {
+    const window = { start: '22:00', end: '06:00' };
+    expect(isWindowActive(window, at(23))).toBe(true);
+    expect(isWindowActive(window, at(5, 59))).toBe(true);
+    expect(isWindowActive(window, at(12))).toBe(false);
+  });
+
+  it('never matches a malformed window', () => {
+    expect(isWindowActive({ start: 'late', end: '06:00' }, at(23))).toBe(false);
+  });
+});
+
+describe('getActiveItems', () => {
+  const day: PlaylistItem = { presetId: 'day' };
+  const other: PlaylistItem = { presetId: 'other' };
+  const night: PlaylistItem = { presetId: 'night', window: { start: '22:00', end: '06:00' } };
+  const items = [day, night, other];
+
+  it('plays only active windowed items while one is active', () => {
+    expect(getActiveItems({ items }, at(23))).toEqual([night]);
+  });
+
+  it('falls back to the unwindowed items otherwise', () => {
+    expect(getActiveItems({ items }, at(12))).toEqual([day, other]);
+  });
+});
+
+describe('createPlayOrder', () => {
+  const items: PlaylistItem[] = [{ presetId: 'a' }, { presetId: 'b' }, { presetId: 'c' }];
+
+  it('keeps ordered playlists as they are', () => {
+    expect(createPlayOrder(items, 'ordered', items[0]).map((item) => item.presetId)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('shuffles with the given random source', () => {
+    expect(createPlayOrder(items, 'shuffled', undefined, () => 0).map((item) => item.presetId)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('never starts a shuffled pass with the item just shown', () => {
+    const order = createPlayOrder(items, 'shuffled', { presetId: 'b' }, () => 0);
+    expect(order.map((item) => item.presetId)).toEqual(['c', 'a', 'b']);
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { useVisualStore } from '../../store/visualStore';
+import { sceneOverlay } from '../sceneOverlay';
+import { modulationEngine } from '../modulationEngine';
+import type { Modulator } from '../../types/modulation';
+
+const initial = useVisualStore.getState();
+
+afterEach(() => {
+  useVisualStore.setState(initial, true);
+  (['liveMapping', 'timeline', 'modulation', 'audio'] as const).forEach((layer) => sceneOverlay.clearLayer(layer));
+});
+
+describe('sceneOverlay', () => {
+  it('lays the layers over the store in order without touching it', () => {
+    sceneOverlay.setLayer('audio', { camera: { fov: 90 } });
+    sceneOverlay.setLayer('timeline', { camera: { fov: 30 }, effects: { glow: 0.9 } });
+
+    expect(sceneOverlay.getState().camera.fov).toBe(90);
+    expect(sceneOverlay.getState().effects.glow).toBe(0.9);
+    expect(sceneOverlay.getState('timeline').camera.fov).toBe(30);
+    expect(sceneOverlay.getState('liveMapping')).toBe(useVisualStore.getState());
+    expect(useVisualStore.getState().camera.fov).toBe(initial.camera.fov);
+  });
+
+  it('keeps returning the same object until the store or a layer changes', () => {
+    sceneOverlay.setLayer('timeline', { effects: { glow: 0.5 } });
+    const first = sceneOverlay.getState();
+    expect(sceneOverlay.getState()).toBe(first);
+
+    sceneOverlay.setLayer('timeline', { effects: { glow: 0.6 } });
+    const second = sceneOverlay.getState();
+    expect(second).not.toBe(first);
+
+    useVisualStore.setState({ globalAnimationSpeed: 2 });
+    expect(sceneOverlay.getState()).not.toBe(second);
+    expect(sceneOverlay.getState().globalAnimationSpeed).toBe(2);
+  });
+
+  it('notifies subscribers of layer changes and drops empty layers', () => {
+    const listener = vi.fn();
+    const unsubscribe = sceneOverlay.subscribe(listener);
+    sceneOverlay.setLayer('modulation', { effects: { glow: 0.2 } });
+    sceneOverlay.setLayer('modulation', {});
+    sceneOverlay.clearLayer('modulation');
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(sceneOverlay.getLayer('modulation')).toBeUndefined();
+  });
+});
+
+describe('modulationEngine', () => {
+  it('writes modulated values to the overlay and leaves the store at the base', () => {
+    const lfo: Modulator = {
+      id: 'fov-square', kind: 'lfo', shape: 'square', path: 'camera.fov',
+      enabled: true, depth: 10, rate: 1, phase: 0, sync: false
+    };
+    useVisualStore.setState({ camera: { ...initial.camera, fov: 60 }, modulators: [lfo] });
+    const storeWrites = vi.fn();
+    const unsubscribe = useVisualStore.subscribe(storeWrites);
+
+    modulationEngine.tick(0.25);
+    expect(sceneOverlay.getState().camera.fov).toBe(70);
+    expect(useVisualStore.getState().camera.fov).toBe(60);
+
+    // A keyframed value becomes the new base
+    sceneOverlay.setLayer('timeline', { camera: { fov: 40 } });
+    modulationEngine.tick(1);
+    expect(sceneOverlay.getState().camera.fov).toBe(50);
+
+    unsubscribe();
+    expect(storeWrites).not.toHaveBeenCalled();
+
+    useVisualStore.setState({ modulators: [] });
+    modulationEngine.tick(0.25);
+    expect(sceneOverlay.getLayer('modulation')).toBeUndefined();
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+  blendHuesOklch,
+  interpolateState,
+  isHexColor,
+  mergeState,
+  mixColorsOklab
+} from '../stateInterpolation';
+
+describe('interpolateState', () => {
+  const from = {
+    camera: { fov: 40, position: [0, 0, 10], autoPan: { currentAngle: 1.2, enabled: false } },
+    geometric: { spheres: { count: 10, color: '#000000', seed: 3 } },
+    globalBlendMode: 'normal',
+    ui: { open: true }
+  };
+  const to = {
+    camera: { fov: 80, position: [10, 0, 20], autoPan: { currentAngle: 3, enabled: true } },
+    geometric: { spheres: { count: 15, color: '#ffffff', seed: 9 } },
+    globalBlendMode: 'screen',
+    ui: { open: false }
+  };
+
+  it('lerps numbers and tuples and rounds count-like keys', () => {
+    const result: any = interpolateState(from, to, 0.25);
+    expect(result.camera.fov).toBe(50);
+    expect(result.camera.position).toEqual([2.5, 0, 12.5]);
+    expect(result.geometric.spheres.count).toBe(11);
+  });
+
+  it('switches discrete values and seeds at the switch point', () => {
+    const before: any = interpolateState(from, to, 0.4);
+    const after: any = interpolateState(from, to, 0.6);
+    expect(before.globalBlendMode).toBe('normal');
+    expect(before.geometric.spheres.seed).toBe(3);
+    expect(after.globalBlendMode).toBe('screen');
+    expect(after.geometric.spheres.seed).toBe(9);
+    expect((interpolateState(from, to, 0.4, { switchPoint: 0.3 }) as any).globalBlendMode).toBe('screen');
+  });
+
+  it('leaves session paths and the auto-pan angle out of the result', () => {
+    const result: any = interpolateState(from, to, 0.5);
+    expect(result.ui).toBeUndefined();
+    expect(result.camera.autoPan).toEqual({ enabled: true });
+  });
+
+  it('returns the target values at t = 1', () => {
+    const result: any = interpolateState(from, to, 1);
+    expect(result.camera.fov).toBe(80);
+    expect(result.geometric.spheres).toEqual(to.geometric.spheres);
+  });
+
+  it('swaps modulator lists as a whole', () => {
+    const a = { modulators: [{ id: 'a', rate: 1 }] };
+    const b = { modulators: [{ id: 'b', rate: 3 }] };
+    expect(interpolateState(a, b, 0.4).modulators).toBe(a.modulators);
+    expect(interpolateState(a, b, 0.6).modulators).toBe(b.modulators);
+  });
+});
+
+describe('mergeState', () => {
+  it('merges objects deeply and replaces arrays and primitives', () => {
+    const base = { camera: { fov: 40, position: [0, 0, 10], autoPan: { currentAngle: 2 } }, speed: 1 };
+    const merged = mergeState(base, { camera: { fov: 60, position: [1, 1] }, speed: 2 });
+    expect(merged).toEqual({ camera: { fov: 60, position: [1, 1], autoPan: { currentAngle: 2 } }, speed: 2 });
+    expect(base.camera.fov).toBe(40);
+  });
+});
+
+describe('color helpers', () => {
+  it('recognises short and long hex colors only', () => {
+    expect(isHexColor('#fff')).toBe(true);
+    expect(isHexColor('#A1b2C3')).toBe(true);
+    expect(isHexColor('fff')).toBe(false);
+    expect(isHexColor('#ffff')).toBe(false);
+    expect(isHexColor(0xffffff)).toBe(false);
+  });
+
+  it('mixes in OKLab with exact endpoints', () => {
+    expect(mixColorsOklab('#ff0000', '#0000ff', 0)).toBe('#ff0000');
+    expect(mixColorsOklab('#ff0000', '#0000ff', 1)).toBe('#0000ff');
+    expect(mixColorsOklab('#000', '#fff', 0.5)).toBe('#636363');
+  });
+
+  it('blends hues around the wheel rather than through gray', () => {
+    const blended = blendHuesOklch(['#ff0000', '#00ffff'], [1, 1]);
+    const [r, g, b] = [1, 3, 5].map((index) => parseInt(blended.slice(index, index + 2), 16));
+    expect(Math.max(r, g, b) - Math.min(r, g, b)).toBeGreaterThan(60);
+  });
+});
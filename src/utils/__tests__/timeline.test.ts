@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import {
+  advanceTimelineTime,
+  createTrack,
+  getLoopRegion,
+  getPathValue,
+  sampleTimeline,
+  sampleTrack,
+  setPathValue,
+  upsertKeyframe
+} from '../timeline';
+import type { TimelineData, TimelineTrack } from '../../types/timeline';
+
+const track = (path: string, keyframes: TimelineTrack['keyframes'], muted?: boolean): TimelineTrack =>
+  ({ id: path, path, keyframes, muted });
+
+describe('sampleTrack', () => {
+  const fov = track('camera.fov', [
+    { time: 0, value: 40 },
+    { time: 10, value: 80, hold: 2, easing: 'easeIn' },
+    { time: 20, value: 60 }
+  ]);
+
+  it('holds the first and last values outside the keys', () => {
+    expect(sampleTrack(fov, -1)).toBe(40);
+    expect(sampleTrack(fov, 25)).toBe(60);
+    expect(sampleTrack(track('camera.fov', []), 1)).toBeUndefined();
+  });
+
+  it('eases between keys after the hold', () => {
+    expect(sampleTrack(fov, 5)).toBe(60);
+    expect(sampleTrack(fov, 11)).toBe(80);
+    // Halfway through the 12s-20s ease with easeIn (t * t)
+    expect(sampleTrack(fov, 16)).toBe(75);
+  });
+
+  it('jumps on step keys and rounds counts', () => {
+    const stepped = track('camera.fov', [{ time: 0, value: 1, easing: 'step' }, { time: 4, value: 2 }]);
+    expect(sampleTrack(stepped, 3.9)).toBe(1);
+    expect(sampleTrack(stepped, 4)).toBe(2);
+
+    const count = track('geometric.spheres.count', [{ time: 0, value: 0 }, { time: 10, value: 10 }]);
+    expect(sampleTrack(count, 3.6)).toBe(4);
+  });
+
+  it('blends colors and switches enums like preset transitions', () => {
+    const color = track('geometric.spheres.color', [{ time: 0, value: '#000000' }, { time: 1, value: '#ffffff' }]);
+    expect(sampleTrack(color, 0.5)).toBe('#636363');
+
+    const mode = track('globalBlendMode', [{ time: 0, value: 'normal' }, { time: 1, value: 'screen' }]);
+    expect(sampleTrack(mode, 0.4)).toBe('normal');
+    expect(sampleTrack(mode, 0.6)).toBe('screen');
+  });
+});
+
+describe('sampleTimeline', () => {
+  it('builds a partial tree of unmuted tracks', () => {
+    const data: TimelineData = {
+      duration: 10,
+      loop: false,
+      tracks: [
+        track('camera.fov', [{ time: 0, value: 40 }]),
+        track('camera.position', [{ time: 0, value: [0, 0, 0] }, { time: 2, value: [2, 4, 6] }]),
+        track('effects.glow', [{ time: 0, value: 1 }], true)
+      ]
+    };
+    expect(sampleTimeline(data, 1)).toEqual({ camera: { fov: 40, position: [1, 2, 3] } });
+  });
+});
+
+describe('playhead', () => {
+  const base: TimelineData = { duration: 10, loop: true, loopStart: 2, loopEnd: 6, tracks: [] };
+
+  it('clamps the loop region to the timeline', () => {
+    expect(getLoopRegion(base)).toEqual({ start: 2, end: 6 });
+    expect(getLoopRegion({ ...base, loopStart: 12, loopEnd: 20 })).toEqual({ start: 10, end: 10 });
+    expect(getLoopRegion({ ...base, loopStart: undefined, loopEnd: undefined })).toEqual({ start: 0, end: 10 });
+  });
+
+  it('wraps inside the loop region and stops at the end otherwise', () => {
+    expect(advanceTimelineTime(base, 5, 2)).toEqual({ time: 3, ended: false });
+    expect(advanceTimelineTime(base, 1, 0.5)).toEqual({ time: 1.5, ended: false });
+    expect(advanceTimelineTime({ ...base, loop: false }, 9, 2)).toEqual({ time: 10, ended: true });
+    expect(advanceTimelineTime({ ...base, loop: false }, 5, 2)).toEqual({ time: 7, ended: false });
+  });
+});
+
+describe('editing helpers', () => {
+  it('replaces keys at the same time and keeps keys sorted', () => {
+    let edited = createTrack('camera.fov', 40, 5);
+    edited = upsertKeyframe(edited, { time: 1, value: 30 });
+    edited = upsertKeyframe(edited, { time: 5.0004, value: 50, easing: 'step' });
+    expect(edited.keyframes).toEqual([
+      { time: 1, value: 30 },
+      { time: 5.0004, value: 50, easing: 'step' }
+    ]);
+  });
+
+  it('reads and writes dotted paths', () => {
+    const target: Record<string, any> = { camera: 3 };
+    setPathValue(target, 'camera.position.1', 4);
+    expect(target).toEqual({ camera: { position: { 1: 4 } } });
+    expect(getPathValue(target, 'camera.position.1')).toBe(4);
+    expect(getPathValue(target, 'camera.fov.value')).toBeUndefined();
+  });
+});
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { useVisualStore } from '../../store/visualStore';
+import { sceneOverlay } from '../sceneOverlay';
+import { timelinePlayer } from '../timelinePlayer';
+import type { TimelineData } from '../../types/timeline';
+
+const timeline: TimelineData = {
+  duration: 2,
+  loop: false,
+  tracks: [{ id: 'fov', path: 'camera.fov', keyframes: [{ time: 0, value: 40 }, { time: 2, value: 80 }] }]
+};
+
+afterEach(() => {
+  timelinePlayer.load(null);
+});
+
+describe('timelinePlayer', () => {
+  it('plays on the overlay and writes the store once when paused', () => {
+    useVisualStore.setState({ camera: { ...useVisualStore.getState().camera, fov: 60 } });
+    timelinePlayer.load(timeline);
+    timelinePlayer.play();
+
+    const storeWrites = vi.fn();
+    const unsubscribe = useVisualStore.subscribe(storeWrites);
+    timelinePlayer.tick(0.5);
+    timelinePlayer.tick(0.5);
+    expect(sceneOverlay.getState().camera.fov).toBe(60);
+    expect(useVisualStore.getState().camera.fov).toBe(60);
+    expect(storeWrites).not.toHaveBeenCalled();
+
+    timelinePlayer.pause();
+    unsubscribe();
+    expect(storeWrites).toHaveBeenCalledTimes(1);
+    expect(useVisualStore.getState().camera.fov).toBe(60);
+    expect(sceneOverlay.getLayer('timeline')).toBeUndefined();
+  });
+
+  it('keeps the last frame in the store when playback ends', () => {
+    timelinePlayer.load(timeline);
+    timelinePlayer.seek(0);
+    timelinePlayer.play();
+    timelinePlayer.tick(1.5);
+    expect(useVisualStore.getState().camera.fov).toBe(40);
+
+    timelinePlayer.tick(1);
+    expect(timelinePlayer.getSnapshot().status).toBe('stopped');
+    expect(useVisualStore.getState().camera.fov).toBe(80);
+    expect(sceneOverlay.getLayer('timeline')).toBeUndefined();
+  });
+});
@@ -0,0 +1,201 @@
+// audioAnalyzer.ts
+// Web Audio input for audio-reactive mode: microphone or an uploaded file.
+//
+// The analyser is sampled once per rendered frame (see AudioReactiveDriver), so
+// features line up with the frame they drive. File playback is also routed to the
+// speakers; the microphone is analysed only, to avoid feedback.
+
+import React from 'react';
+import type { AudioAnalysisSettings, AudioFeatures, AudioInputKind } from '../types/audio';
+import { AudioFeatureExtractor, DEFAULT_AUDIO_SETTINGS, SILENT_FEATURES } from './audioFeatures';
+
+export type AudioAnalyzerStatus = 'idle' | 'starting' | 'running' | 'error';
+
+export interface AudioAnalyzerSnapshot {
+  status: AudioAnalyzerStatus;
+  input: AudioInputKind | null;
+  sourceName: string | null;   // File name, or the microphone's device label
+  settings: AudioAnalysisSettings;
+  error: string | null;
+}
+
+const FFT_SIZE = 2048;
+
+const IDLE_SNAPSHOT: AudioAnalyzerSnapshot = {
+  status: 'idle',
+  input: null,
+  sourceName: null,
+  settings: DEFAULT_AUDIO_SETTINGS,
+  error: null
+};
+
+class AudioAnalyzer {
+  private static instance: AudioAnalyzer;
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private spectrum: Uint8Array | null = null;
+  private source: AudioNode | null = null;
+  private stream: MediaStream | null = null;
+  private element: HTMLAudioElement | null = null;
+  private objectUrl: string | null = null;
+  private extractor = new AudioFeatureExtractor();
+  // Bumped by every stop (and so every start); a start that awaited past a newer one gives up
+  private runId = 0;
+  private snapshot: AudioAnalyzerSnapshot = IDLE_SNAPSHOT;
+  private listeners = new Set<() => void>();
+
+  private constructor() {}
+
+  static getInstance(): AudioAnalyzer {
+    if (!AudioAnalyzer.instance) {
+      AudioAnalyzer.instance = new AudioAnalyzer();
+    }
+    return AudioAnalyzer.instance;
+  }
+
+  getSnapshot = (): AudioAnalyzerSnapshot => this.snapshot;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  isRunning(): boolean {
+    return this.snapshot.status === 'running';
+  }
+
+  getFeatures(): AudioFeatures {
+    return this.isRunning() ? this.extractor.getFeatures() : SILENT_FEATURES;
+  }
+
+  updateSettings(changes: Partial<AudioAnalysisSettings>) {
+    this.setSnapshot({ ...this.snapshot, settings: { ...this.snapshot.settings, ...changes } });
+  }
+
+  async startMicrophone() {
+    this.stop();
+    const runId = this.runId;
+    this.setSnapshot({ ...this.snapshot, status: 'starting', input: 'microphone', error: null });
+    try {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        throw new Error('Microphone input is not supported in this browser');
+      }
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false }
+      });
+      // Stopped or restarted while the permission prompt was open
+      if (runId !== this.runId) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      const context = this.ensureContext();
+      this.stream = stream;
+      this.connect(context.createMediaStreamSource(stream), false);
+      this.setSnapshot({
+        ...this.snapshot,
+        status: 'running',
+        sourceName: stream.getAudioTracks()[0]?.label || 'Microphone'
+      });
+    } catch (error) {
+      if (runId === this.runId) this.fail(error, 'Could not access the microphone');
+    }
+  }
+
+  async startFile(file: File) {
+    this.stop();
+    const runId = this.runId;
+    this.setSnapshot({ ...this.snapshot, status: 'starting', input: 'file', error: null });
+    try {
+      const context = this.ensureContext();
+      this.objectUrl = URL.createObjectURL(file);
+      const element = new Audio(this.objectUrl);
+      element.loop = true;
+      this.element = element;
+      this.connect(context.createMediaElementSource(element), true);
+      await element.play();
+      // A newer start or stop has already torn this element down
+      if (runId !== this.runId) return;
+      this.setSnapshot({ ...this.snapshot, status: 'running', sourceName: file.name });
+    } catch (error) {
+      if (runId === this.runId) this.fail(error, `Could not play ${file.name}`);
+    }
+  }
+
+  stop() {
+    this.runId++;
+    this.source?.disconnect();
+    this.source = null;
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    if (this.element) {
+      this.element.pause();
+      this.element.removeAttribute('src');
+      this.element = null;
+    }
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+    this.extractor.reset();
+    if (this.snapshot.status !== 'idle') {
+      this.setSnapshot({ ...IDLE_SNAPSHOT, settings: this.snapshot.settings });
+    }
+  }
+
+  /** Analyse the current audio frame. Called once per rendered frame. */
+  sample(delta: number): AudioFeatures {
+    if (!this.isRunning() || !this.analyser || !this.spectrum || !this.context) {
+      return SILENT_FEATURES;
+    }
+    this.analyser.getByteFrequencyData(this.spectrum);
+    return this.extractor.process(this.spectrum, this.context.sampleRate, delta, this.snapshot.settings);
+  }
+
+  private ensureContext(): AudioContext {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.analyser = this.context.createAnalyser();
+      this.analyser.fftSize = FFT_SIZE;
+      // Smoothing happens in the feature extractor so onsets keep their edges
+      this.analyser.smoothingTimeConstant = 0;
+      this.spectrum = new Uint8Array(this.analyser.frequencyBinCount);
+    }
+    if (this.context.state === 'suspended') {
+      this.context.resume();
+    }
+    return this.context;
+  }
+
+  private connect(source: AudioNode, monitor: boolean) {
+    this.source = source;
+    source.connect(this.analyser!);
+    if (monitor) {
+      source.connect(this.context!.destination);
+    }
+  }
+
+  private fail(error: unknown, fallback: string) {
+    console.error('Audio input failed:', error);
+    const message = error instanceof Error && error.message ? error.message : fallback;
+    this.stop();
+    this.setSnapshot({ ...this.snapshot, status: 'error', error: message });
+  }
+
+  private setSnapshot(snapshot: AudioAnalyzerSnapshot) {
+    this.snapshot = snapshot;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const audioAnalyzer = AudioAnalyzer.getInstance();
+
+// Hook for React components
+export const useAudioAnalyzer = (): AudioAnalyzerSnapshot => {
+  return React.useSyncExternalStore(
+    audioAnalyzer.subscribe,
+    audioAnalyzer.getSnapshot,
+    () => IDLE_SNAPSHOT
+  );
+};
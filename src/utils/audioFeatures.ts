@@ -0,0 +1,170 @@
+// audioFeatures.ts
+// Feature extraction for audio-reactive mode, independent of the Web Audio API.
+//
+// Works on the byte magnitude spectrum an AnalyserNode produces (0-255 per bin).
+// Band energies are smoothed with a fast attack and a configurable release so
+// visuals jump with the sound but don't flicker. Onsets use spectral flux against
+// an adaptive threshold; beats are onsets in the bass band, at most one per
+// MIN_BEAT_INTERVAL.
+
+import type { AudioAnalysisSettings, AudioBand, AudioFeatures } from '../types/audio';
+
+export const AUDIO_BANDS: AudioBand[] = [
+  { name: 'bass', low: 20, high: 250 },
+  { name: 'lowMid', low: 250, high: 500 },
+  { name: 'mid', low: 500, high: 2000 },
+  { name: 'highMid', low: 2000, high: 4000 },
+  { name: 'treble', low: 4000, high: 16000 }
+];
+
+export const DEFAULT_AUDIO_SETTINGS: AudioAnalysisSettings = {
+  smoothing: 0.6,
+  gain: 1,
+  beatSensitivity: 1.5
+};
+
+export const SILENT_FEATURES: AudioFeatures = {
+  level: 0,
+  bass: 0,
+  lowMid: 0,
+  mid: 0,
+  highMid: 0,
+  treble: 0,
+  beat: 0,
+  onset: 0
+};
+
+// Seconds of flux history the adaptive threshold looks back over
+const FLUX_HISTORY_SECONDS = 1;
+// Fastest beat accepted (~200 BPM)
+const MIN_BEAT_INTERVAL = 0.3;
+const MIN_ONSET_INTERVAL = 0.08;
+// Per-second decay of the beat/onset pulses
+const PULSE_DECAY = 6;
+
+/** Mean magnitude (0-1) of the spectrum bins covering [low, high) Hz. */
+export function bandEnergy(spectrum: Uint8Array, sampleRate: number, low: number, high: number): number {
+  const binWidth = sampleRate / 2 / spectrum.length;
+  const start = Math.max(0, Math.floor(low / binWidth));
+  const end = Math.min(spectrum.length, Math.max(start + 1, Math.ceil(high / binWidth)));
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += spectrum[i];
+  return end > start ? sum / (end - start) / 255 : 0;
+}
+
+/** Rise immediately, fall at a rate set by `release` (0 = no smoothing). */
+export function smoothValue(previous: number, next: number, release: number, delta: number): number {
+  if (next >= previous) return next;
+  // Frame-rate independent: `release` is the fraction kept per 1/60 s
+  const keep = Math.pow(release, delta * 60);
+  return next + (previous - next) * keep;
+}
+
+interface FluxDetector {
+  history: number[];
+  lastFired: number;
+}
+
+// Positive spectral flux between two frames over bins [start, end)
+function spectralFlux(current: Uint8Array, previous: Uint8Array, start: number, end: number): number {
+  let flux = 0;
+  for (let i = start; i < end; i++) {
+    const rise = current[i] - previous[i];
+    if (rise > 0) flux += rise;
+  }
+  return flux / Math.max(1, end - start) / 255;
+}
+
+// Whether `flux` stands out from its recent history; records it either way
+function detectPeak(
+  detector: FluxDetector,
+  flux: number,
+  time: number,
+  sensitivity: number,
+  minInterval: number,
+  historyLength: number
+): boolean {
+  const { history } = detector;
+  let fired = false;
+  if (history.length >= 8) {
+    const mean = history.reduce((sum, value) => sum + value, 0) / history.length;
+    const variance = history.reduce((sum, value) => sum + (value - mean) ** 2, 0) / history.length;
+    const threshold = mean + sensitivity * Math.sqrt(variance);
+    fired = flux > threshold && flux > 0.01 && time - detector.lastFired >= minInterval;
+  }
+  if (fired) detector.lastFired = time;
+  history.push(flux);
+  if (history.length > historyLength) history.shift();
+  return fired;
+}
+
+/**
+ * Stateful feature extractor: feed it one spectrum per frame and it returns the
+ * smoothed features for that frame.
+ */
+export class AudioFeatureExtractor {
+  private features: AudioFeatures = { ...SILENT_FEATURES };
+  private previous: Uint8Array | null = null;
+  private time = 0;
+  private beat: FluxDetector = { history: [], lastFired: -Infinity };
+  private onset: FluxDetector = { history: [], lastFired: -Infinity };
+
+  reset() {
+    this.features = { ...SILENT_FEATURES };
+    this.previous = null;
+    this.time = 0;
+    this.beat = { history: [], lastFired: -Infinity };
+    this.onset = { history: [], lastFired: -Infinity };
+  }
+
+  getFeatures(): AudioFeatures {
+    return this.features;
+  }
+
+  process(spectrum: Uint8Array, sampleRate: number, delta: number, settings: AudioAnalysisSettings): AudioFeatures {
+    this.time += delta;
+    const gain = (value: number) => Math.min(1, value * settings.gain);
+    const next: AudioFeatures = { ...this.features };
+
+    let total = 0;
+    AUDIO_BANDS.forEach((band) => {
+      const energy = gain(bandEnergy(spectrum, sampleRate, band.low, band.high));
+      next[band.name] = smoothValue(this.features[band.name], energy, settings.smoothing, delta);
+      total += energy;
+    });
+    next.level = smoothValue(this.features.level, total / AUDIO_BANDS.length, settings.smoothing, delta);
+
+    const decay = Math.exp(-PULSE_DECAY * delta);
+    next.beat = this.features.beat * decay;
+    next.onset = this.features.onset * decay;
+
+    if (this.previous && this.previous.length === spectrum.length) {
+      const historyLength = Math.max(8, Math.round(FLUX_HISTORY_SECONDS / Math.max(delta, 1 / 240)));
+      const binWidth = sampleRate / 2 / spectrum.length;
+      const bassEnd = Math.max(1, Math.ceil(AUDIO_BANDS[0].high / binWidth));
+
+      const bassFlux = spectralFlux(spectrum, this.previous, 0, bassEnd);
+      if (detectPeak(this.beat, bassFlux, this.time, settings.beatSensitivity, MIN_BEAT_INTERVAL, historyLength)) {
+        next.beat = 1;
+      }
+      // Bands weigh equally, so a kick registers as strongly as a broadband hit
+      const previous = this.previous;
+      const flux = AUDIO_BANDS.reduce((sum, band) => {
+        const start = Math.floor(band.low / binWidth);
+        const end = Math.min(spectrum.length, Math.max(start + 1, Math.ceil(band.high / binWidth)));
+        return sum + spectralFlux(spectrum, previous, start, end);
+      }, 0) / AUDIO_BANDS.length;
+      if (detectPeak(this.onset, flux, this.time, settings.beatSensitivity, MIN_ONSET_INTERVAL, historyLength)) {
+        next.onset = 1;
+      }
+    }
+
+    if (this.previous && this.previous.length === spectrum.length) {
+      this.previous.set(spectrum);
+    } else {
+      this.previous = new Uint8Array(spectrum);
+    }
+    this.features = next;
+    return next;
+  }
+}
@@ -0,0 +1,148 @@
+// audioReactive.ts
+// Applies audio bindings once per rendered frame, through the 'audio' layer of the
+// scene overlay rather than the store, so bound parameters return to their stored
+// values when the input stops or the binding goes away.
+//
+// Each enabled binding becomes an 'audio' rule in a dedicated ParameterMappingEngine,
+// so bindings get the engine's safety limits. That engine shares live mode's locks,
+// so a parameter locked in the parameter tester stops following the audio too.
+// Bindings are kept in localStorage rather than presets: they describe the venue's
+// sound setup, not the look.
+
+import React from 'react';
+import { ParameterMappingEngine } from '../ai-system/services/ParameterMappingEngine';
+import type { AudioBinding, AudioFeatureName } from '../types/audio';
+import { audioAnalyzer } from './audioAnalyzer';
+import { liveMapping } from './liveMapping';
+import { sceneOverlay } from './sceneOverlay';
+import { isDiscreteNumberKey, mergeState } from './stateInterpolation';
+import { setPathValue } from './timeline';
+
+const STORAGE_KEY = 'audioBindings';
+const NO_BINDINGS: AudioBinding[] = [];
+
+export const AUDIO_FEATURE_NAMES: AudioFeatureName[] = ['level', 'bass', 'lowMid', 'mid', 'highMid', 'treble', 'beat', 'onset'];
+
+function loadBindings(): AudioBinding[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('Failed to load audio bindings:', error);
+    return [];
+  }
+}
+
+class AudioReactive {
+  private static instance: AudioReactive;
+  private engine = new ParameterMappingEngine();
+  private bindings: AudioBinding[] = [];
+  private loaded = false;
+  private listeners = new Set<() => void>();
+
+  private constructor() {
+    this.engine.shareLocksWith(liveMapping.getEngine());
+  }
+
+  static getInstance(): AudioReactive {
+    if (!AudioReactive.instance) {
+      AudioReactive.instance = new AudioReactive();
+    }
+    return AudioReactive.instance;
+  }
+
+  getBindings = (): AudioBinding[] => {
+    // Deferred so the module can be imported during server rendering
+    if (!this.loaded) {
+      this.loaded = true;
+      this.applyRules(loadBindings());
+    }
+    return this.bindings;
+  };
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  addBinding(path: string, feature: AudioFeatureName, min: number, max: number) {
+    const binding: AudioBinding = {
+      id: `audio-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      path,
+      feature,
+      min,
+      max,
+      enabled: true
+    };
+    // One binding per path: the engine holds a single rule per variable
+    this.setBindings([...this.getBindings().filter((existing) => existing.path !== path), binding]);
+  }
+
+  updateBinding(id: string, changes: Partial<Omit<AudioBinding, 'id' | 'path'>>) {
+    this.setBindings(this.getBindings().map((binding) => (binding.id === id ? { ...binding, ...changes } : binding)));
+  }
+
+  removeBinding(id: string) {
+    this.setBindings(this.getBindings().filter((binding) => binding.id !== id));
+  }
+
+  /** Analyse this frame's audio and drive the bound parameters. Called by AudioReactiveDriver. */
+  tick(delta: number) {
+    if (!audioAnalyzer.isRunning()) {
+      sceneOverlay.clearLayer('audio');
+      return;
+    }
+    const features = audioAnalyzer.sample(delta);
+    if (this.getBindings().length === 0) return;
+
+    // Compared with what is on screen, so values within a binding's sensitivity hold
+    const updates = this.engine.mapAudioParameters(features, sceneOverlay.getState());
+    if (updates.length === 0) return;
+
+    const partial: Record<string, any> = {};
+    updates.forEach((update) => {
+      if (typeof update.value !== 'number' || !isFinite(update.value)) return;
+      const key = update.variable.slice(update.variable.lastIndexOf('.') + 1);
+      setPathValue(partial, update.variable, isDiscreteNumberKey(key) ? Math.round(update.value) : update.value);
+    });
+    sceneOverlay.setLayer('audio', mergeState(sceneOverlay.getLayer('audio') ?? {}, partial));
+  }
+
+  // Rebuild the engine's audio rules from scratch; non-audio rules are never evaluated here
+  private applyRules(bindings: AudioBinding[]) {
+    this.bindings.forEach((binding) => this.engine.removeRule(binding.path));
+    bindings.forEach((binding) => {
+      if (binding.enabled) {
+        this.engine.addAudioMapping(binding.path, binding.feature, binding.min, binding.max);
+      }
+    });
+    this.bindings = bindings;
+  }
+
+  private setBindings(bindings: AudioBinding[]) {
+    this.applyRules(bindings);
+    // Bound parameters are rewritten on the next frame; unbound ones go back to the store
+    sceneOverlay.clearLayer('audio');
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+    } catch (error) {
+      console.warn('Failed to save audio bindings:', error);
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const audioReactive = AudioReactive.getInstance();
+
+// Hook for React components
+export const useAudioBindings = (): AudioBinding[] => {
+  return React.useSyncExternalStore(
+    audioReactive.subscribe,
+    audioReactive.getBindings,
+    () => NO_BINDINGS
+  );
+};
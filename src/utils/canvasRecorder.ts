@@ -0,0 +1,323 @@
+// canvasRecorder.ts
+// Video and frame-sequence recording of the WebGL canvas.
+//
+// Real-time mode streams the canvas (including in-canvas post effects) through
+// MediaRecorder to WebM. Offline mode switches the R3F frameloop to 'never' and
+// advances the clock by a fixed 1/fps per frame, so animation timing depends only
+// on the frame index, never on how fast the machine renders. Each frame is saved as
+// a numbered PNG, either into a folder the user picks or into a single ZIP. The ZIP
+// is built in memory, so it stops at MAX_ZIP_BYTES and the render reports how many
+// frames made it in.
+
+import React from 'react';
+import { advance, RootState } from '@react-three/fiber';
+import { crc32, downloadBlob } from './imageExport';
+
+export type RecorderStatus = 'idle' | 'recording' | 'rendering';
+
+export interface OfflineRenderOptions {
+  fps: number;
+  duration: number;     // Seconds of animation to render
+  baseName: string;     // Used for the ZIP name and frame prefix
+  onProgress?: (frame: number, total: number) => void;
+}
+
+export interface OfflineRenderResult {
+  written: number;      // Frames saved
+  total: number;        // Frames requested
+  truncated: boolean;   // The ZIP filled up before the last frame
+}
+
+// Frame destinations for offline rendering; write resolves false when the frame didn't fit
+interface FrameSink {
+  write: (name: string, blob: Blob) => Promise<boolean>;
+  finish: () => Promise<void>;
+}
+
+const VIDEO_MIME_TYPES = [
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm'
+];
+
+// Keeps a sequence under the ZIP format's 65535-entry limit
+const MAX_OFFLINE_FPS = 60;
+const MAX_OFFLINE_DURATION = 300;
+
+// The ZIP fallback holds every frame in memory and has 32-bit sizes and offsets (no
+// ZIP64), so it stops well short of the format's 4 GB limit
+export const MAX_ZIP_BYTES = 1024 ** 3;
+
+class CanvasRecorder {
+  private static instance: CanvasRecorder;
+  private getState: (() => RootState) | null = null;
+  private status: RecorderStatus = 'idle';
+  private listeners = new Set<() => void>();
+  private mediaRecorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private cancelRequested = false;
+
+  private constructor() {}
+
+  static getInstance(): CanvasRecorder {
+    if (!CanvasRecorder.instance) {
+      CanvasRecorder.instance = new CanvasRecorder();
+    }
+    return CanvasRecorder.instance;
+  }
+
+  // Called from inside the Canvas once the root store exists
+  attach(getState: () => RootState) {
+    this.getState = getState;
+  }
+
+  detach(getState: () => RootState) {
+    if (this.getState === getState) {
+      this.getState = null;
+    }
+  }
+
+  isReady(): boolean {
+    return this.getState !== null;
+  }
+
+  getStatus(): RecorderStatus {
+    return this.status;
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private setStatus(status: RecorderStatus) {
+    this.status = status;
+    this.listeners.forEach((listener) => listener());
+  }
+
+  static getSupportedVideoType(): string | null {
+    if (typeof MediaRecorder === 'undefined') return null;
+    return VIDEO_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) || null;
+  }
+
+  /** Start a real-time WebM recording of the canvas. */
+  startVideo(fps: number = 60, bitsPerSecond: number = 12_000_000) {
+    if (!this.getState) throw new Error('Canvas is not ready for recording');
+    if (this.status !== 'idle') throw new Error('A recording is already in progress');
+
+    const mimeType = CanvasRecorder.getSupportedVideoType();
+    if (!mimeType) throw new Error('This browser cannot record WebM video');
+
+    const canvas = this.getState().gl.domElement as HTMLCanvasElement;
+    const stream = canvas.captureStream(fps);
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: bitsPerSecond });
+
+    this.chunks = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+    recorder.start(1000);
+    this.mediaRecorder = recorder;
+    this.setStatus('recording');
+  }
+
+  /** Stop the real-time recording and return the WebM file. */
+  stopVideo(): Promise<Blob> {
+    const recorder = this.mediaRecorder;
+    if (!recorder) return Promise.reject(new Error('No recording in progress'));
+
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        recorder.stream.getTracks().forEach((track) => track.stop());
+        const blob = new Blob(this.chunks, { type: 'video/webm' });
+        this.chunks = [];
+        this.mediaRecorder = null;
+        this.setStatus('idle');
+        resolve(blob);
+      };
+      recorder.stop();
+    });
+  }
+
+  /** Ask a running offline render to stop after the current frame. */
+  cancelFrames() {
+    this.cancelRequested = true;
+  }
+
+  /**
+   * Render a deterministic PNG sequence. Fewer frames than requested are written when
+   * cancelled or when the ZIP fallback reaches MAX_ZIP_BYTES.
+   */
+  async renderFrames(options: OfflineRenderOptions): Promise<OfflineRenderResult> {
+    if (!this.getState) throw new Error('Canvas is not ready for recording');
+    if (this.status !== 'idle') throw new Error('A recording is already in progress');
+
+    const fps = Math.max(1, Math.min(MAX_OFFLINE_FPS, Math.round(options.fps)));
+    const duration = Math.max(0, Math.min(MAX_OFFLINE_DURATION, options.duration));
+    const total = Math.max(1, Math.round(duration * fps));
+    const digits = Math.max(5, String(total).length);
+
+    const sink = await createFrameSink(options.baseName);
+    const state = this.getState();
+    const canvas = state.gl.domElement as HTMLCanvasElement;
+    const savedElapsed = state.clock.elapsedTime;
+
+    // Copy target: the WebGL drawing buffer is only guaranteed until the frame is composited
+    const snapshot = document.createElement('canvas');
+    snapshot.width = canvas.width;
+    snapshot.height = canvas.height;
+    const context = snapshot.getContext('2d');
+    if (!context) throw new Error('Could not create frame buffer');
+
+    this.cancelRequested = false;
+    // Flips the Canvas frameloop prop to 'never' (see useRecorderStatus) and resets the clock to 0
+    this.setStatus('rendering');
+    state.setFrameloop('never');
+
+    let written = 0;
+    let truncated = false;
+    try {
+      for (let frame = 0; frame < total && !this.cancelRequested; frame++) {
+        advance(frame / fps);
+        context.clearRect(0, 0, snapshot.width, snapshot.height);
+        context.drawImage(canvas, 0, 0);
+
+        const blob = await canvasToBlob(snapshot);
+        if (!await sink.write(`${options.baseName}_${String(frame + 1).padStart(digits, '0')}.png`, blob)) {
+          truncated = true;
+          break;
+        }
+        written = frame + 1;
+        options.onProgress?.(written, total);
+      }
+      await sink.finish();
+    } finally {
+      const current = this.getState?.() ?? state;
+      current.setFrameloop('always');
+      current.clock.elapsedTime = savedElapsed;
+      this.setStatus('idle');
+    }
+    return { written, total, truncated };
+  }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => blob ? resolve(blob) : reject(new Error('Frame encoding failed')), 'image/png');
+  });
+}
+
+// Prefer writing straight to a folder (Chromium); otherwise collect frames into a ZIP
+async function createFrameSink(baseName: string): Promise<FrameSink> {
+  const picker = (window as any).showDirectoryPicker as (() => Promise<any>) | undefined;
+  if (picker) {
+    try {
+      const directory = await picker.call(window);
+      return {
+        write: async (name, blob) => {
+          const handle = await directory.getFileHandle(name, { create: true });
+          const writable = await handle.createWritable();
+          await writable.write(blob);
+          await writable.close();
+          return true;
+        },
+        finish: async () => {}
+      };
+    } catch (error) {
+      if ((error as DOMException)?.name === 'AbortError') throw new Error('Frame rendering cancelled');
+      console.warn('Folder output unavailable, falling back to ZIP:', error);
+    }
+  }
+
+  const files: Array<{ name: string; data: Uint8Array }> = [];
+  let size = ZIP_END_SIZE;
+  return {
+    write: async (name, blob) => {
+      const entrySize = zipEntrySize(name, blob.size);
+      if (size + entrySize > MAX_ZIP_BYTES) return false;
+      files.push({ name, data: new Uint8Array(await blob.arrayBuffer()) });
+      size += entrySize;
+      return true;
+    },
+    finish: async () => {
+      if (files.length === 0) return;
+      downloadBlob(createZip(files), `${baseName}_frames.zip`);
+    }
+  };
+}
+
+const ZIP_END_SIZE = 22;
+
+// Local header, data and central directory entry for one file
+function zipEntrySize(name: string, dataLength: number): number {
+  const nameLength = new TextEncoder().encode(name).length;
+  return 30 + nameLength + dataLength + 46 + nameLength;
+}
+
+/** Minimal uncompressed (stored) ZIP writer; PNGs are already compressed. No ZIP64. */
+export function createZip(files: Array<{ name: string; data: Uint8Array }>): Blob {
+  if (files.length > 0xffff) throw new Error('Too many files for a ZIP without ZIP64');
+
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);             // Version needed
+    localView.setUint16(8, 0, true);              // Stored
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, file.data.length, true);
+    localView.setUint32(22, file.data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const entry = new Uint8Array(46 + name.length);
+    const entryView = new DataView(entry.buffer);
+    entryView.setUint32(0, 0x02014b50, true);
+    entryView.setUint16(4, 20, true);             // Version made by
+    entryView.setUint16(6, 20, true);             // Version needed
+    entryView.setUint32(16, crc, true);
+    entryView.setUint32(20, file.data.length, true);
+    entryView.setUint32(24, file.data.length, true);
+    entryView.setUint16(28, name.length, true);
+    entryView.setUint32(42, offset, true);
+    entry.set(name, 46);
+
+    parts.push(local, file.data);
+    central.push(entry);
+    offset += local.length + file.data.length;
+  }
+  if (offset > 0xffffffff) throw new Error('Files too large for a ZIP without ZIP64');
+
+  const centralSize = central.reduce((sum, entry) => sum + entry.length, 0);
+  const end = new Uint8Array(ZIP_END_SIZE);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end], { type: 'application/zip' });
+}
+
+export const canvasRecorder = CanvasRecorder.getInstance();
+export const getSupportedVideoType = CanvasRecorder.getSupportedVideoType;
+
+// Hook for React components
+export const useRecorderStatus = (): RecorderStatus => {
+  return React.useSyncExternalStore(
+    canvasRecorder.subscribe,
+    () => canvasRecorder.getStatus(),
+    () => 'idle'
+  );
+};
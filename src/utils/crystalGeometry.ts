@@ -0,0 +1,108 @@
+// crystalGeometry.ts
+// Procedural faceted crystal geometry for the crystals layer.
+//
+// A crystal is a lathed quartz-like prism (pointed top, shorter pointed base) whose
+// facet count grows with `complexity`; higher complexity also sprouts smaller side
+// shards into a cluster. Geometry is non-indexed so every facet keeps a flat normal.
+// Organic distortion displaces vertices by a hash of their position, so vertices
+// shared between facets move together and the surface never tears.
+
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { mulberry32 } from './seededRandom';
+
+export interface CrystalGeometryOptions {
+  size: number;
+  complexity: number;   // 0-64: facets per shard and number of side shards
+  organicness: number;  // Vertex distortion amount, relative to size
+  seed?: number;        // Varies shard layout and distortion between crystals
+}
+
+export const MAX_CRYSTAL_COMPLEXITY = 64;
+
+// Deterministic 0..1 value for a (quantized) position
+function hashPosition(x: number, y: number, z: number, seed: number): number {
+  const qx = Math.round(x * 1000);
+  const qy = Math.round(y * 1000);
+  const qz = Math.round(z * 1000);
+  let h = Math.imul(qx, 73856093) ^ Math.imul(qy, 19349663) ^ Math.imul(qz, 83492791) ^ Math.imul(seed, 2654435761);
+  h = Math.imul(h ^ (h >>> 16), 0x45d9f3b);
+  h = Math.imul(h ^ (h >>> 16), 0x45d9f3b);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
+
+function createShard(radius: number, height: number, facets: number): THREE.BufferGeometry {
+  const profile = [
+    new THREE.Vector2(0, -height * 0.35),            // Base point
+    new THREE.Vector2(radius, -height * 0.15),       // Lower girdle
+    new THREE.Vector2(radius * 0.9, height * 0.3),   // Upper girdle
+    new THREE.Vector2(0, height * 0.65)              // Termination
+  ];
+  const lathe = new THREE.LatheGeometry(profile, facets);
+  const faceted = lathe.toNonIndexed();
+  lathe.dispose();
+  return faceted;
+}
+
+/** Facets around each shard for a complexity value (3 at 0, 12 at the maximum). */
+export function getCrystalFacets(complexity: number): number {
+  const safeComplexity = Math.max(0, Math.min(MAX_CRYSTAL_COMPLEXITY, complexity || 0));
+  return 3 + Math.round((safeComplexity / MAX_CRYSTAL_COMPLEXITY) * 9);
+}
+
+export function createCrystalGeometry({ size, complexity, organicness, seed = 1 }: CrystalGeometryOptions): THREE.BufferGeometry {
+  const safeSize = isNaN(size) || size <= 0 ? 1.0 : size;
+  const safeComplexity = isNaN(complexity) ? 0 : Math.max(0, Math.min(MAX_CRYSTAL_COMPLEXITY, complexity));
+  const safeOrganicness = isNaN(organicness) || organicness < 0 ? 0 : organicness;
+  const rand = mulberry32(seed);
+
+  const facets = getCrystalFacets(safeComplexity);
+  const sideShards = Math.floor(safeComplexity / 16);
+
+  const shards: THREE.BufferGeometry[] = [
+    createShard(safeSize * 0.45, safeSize * 2, facets)
+  ];
+
+  for (let i = 0; i < sideShards; i++) {
+    const scale = 0.35 + rand() * 0.3;
+    const shard = createShard(safeSize * 0.45 * scale, safeSize * 2 * scale, Math.max(3, facets - 1));
+    const angle = (i / sideShards) * Math.PI * 2 + rand() * 0.6;
+    const tilt = 0.35 + rand() * 0.45;
+
+    // Lean outward from the base of the main shard
+    shard.rotateZ(tilt);
+    shard.rotateY(angle);
+    shard.translate(
+      Math.cos(angle) * safeSize * 0.2,
+      -safeSize * 0.25,
+      -Math.sin(angle) * safeSize * 0.2
+    );
+    shards.push(shard);
+  }
+
+  const geometry = shards.length > 1 ? mergeGeometries(shards) : shards[0];
+  if (shards.length > 1) {
+    shards.forEach((shard) => shard.dispose());
+  }
+
+  if (safeOrganicness > 0) {
+    const positions = geometry.attributes.position;
+    const amount = safeOrganicness * 0.25 * safeSize;
+    for (let i = 0; i < positions.count; i++) {
+      const x = positions.getX(i);
+      const y = positions.getY(i);
+      const z = positions.getZ(i);
+      positions.setXYZ(
+        i,
+        x + (hashPosition(x, y, z, seed) - 0.5) * amount,
+        y + (hashPosition(x, y, z, seed + 1) - 0.5) * amount,
+        z + (hashPosition(x, y, z, seed + 2) - 0.5) * amount
+      );
+    }
+    positions.needsUpdate = true;
+  }
+
+  geometry.computeVertexNormals();
+  geometry.computeBoundingSphere();
+  return geometry;
+}
@@ -0,0 +1,89 @@
+// evolution.ts
+// Where a long-running scene is in its evolution cycle at a given moment.
+//
+// One cycle spans the theme's evolution period and walks through
+// calm → building → peak → declining → transition before starting over. The
+// position is a pure function of the cycle's start time and the clock, so a
+// reload (or a machine that was off overnight) resumes exactly where the wall
+// clock says it should be.
+
+import type { EvolutionState } from '../ai-system/services/ParameterMappingEngine';
+import type { ThemeConfig } from '../ai-system/types/AITypes';
+
+export type EvolutionPeriod = ThemeConfig['evolutionPeriod'];
+export type EvolutionPhase = EvolutionState['phase'];
+
+export const EVOLUTION_PERIOD_MS: Record<EvolutionPeriod, number> = {
+  '1hour': 60 * 60 * 1000,
+  '1day': 24 * 60 * 60 * 1000,
+  '1week': 7 * 24 * 60 * 60 * 1000
+};
+
+interface PhaseSpec {
+  phase: EvolutionPhase;
+  mood: EvolutionState['mood'];
+  share: number;                   // Fraction of the cycle
+  intensity: [number, number];     // Intensity at the start and end of the phase
+}
+
+// Each phase ends at the intensity the next one starts from, so there are no jumps
+const PHASES: PhaseSpec[] = [
+  { phase: 'calm', mood: 'peaceful', share: 0.3, intensity: [0.15, 0.25] },
+  { phase: 'building', mood: 'energetic', share: 0.2, intensity: [0.25, 0.85] },
+  { phase: 'peak', mood: 'chaotic', share: 0.15, intensity: [0.85, 0.85] },
+  { phase: 'declining', mood: 'calm', share: 0.2, intensity: [0.85, 0.3] },
+  { phase: 'transition', mood: 'mysterious', share: 0.15, intensity: [0.3, 0.15] }
+];
+
+const PEAK_SWELL = 0.15;
+
+export const EVOLUTION_PHASES: EvolutionPhase[] = PHASES.map((spec) => spec.phase);
+
+export interface EvolutionPosition {
+  state: EvolutionState;
+  cycle: number;           // Completed cycles since the start
+  cycleProgress: number;   // 0-1 through the current cycle
+  phaseEndsAt: number;     // Epoch ms
+}
+
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+export function computeEvolution(startedAt: number, period: EvolutionPeriod, now: number): EvolutionPosition {
+  const periodMs = EVOLUTION_PERIOD_MS[period];
+  // A clock set backwards pins the scene at the start of the cycle
+  const elapsed = Math.max(0, now - startedAt);
+  const cycle = Math.floor(elapsed / periodMs);
+  const cycleProgress = (elapsed % periodMs) / periodMs;
+
+  let phaseStart = 0;
+  let spec = PHASES[PHASES.length - 1];
+  for (const candidate of PHASES) {
+    if (cycleProgress < phaseStart + candidate.share) {
+      spec = candidate;
+      break;
+    }
+    phaseStart += candidate.share;
+  }
+
+  const phaseProgress = Math.min(1, (cycleProgress - phaseStart) / spec.share);
+  const [from, to] = spec.intensity;
+  let intensity = from + (to - from) * smoothstep(phaseProgress);
+  if (spec.phase === 'peak') {
+    intensity += PEAK_SWELL * Math.sin(Math.PI * phaseProgress);
+  }
+
+  const cycleStart = startedAt + cycle * periodMs;
+  return {
+    state: {
+      phase: spec.phase,
+      mood: spec.mood,
+      intensity: Math.min(1, Math.max(0, intensity)),
+      duration: Math.floor(Math.round((cycleProgress - phaseStart) * periodMs) / 1000)
+    },
+    cycle,
+    cycleProgress,
+    phaseEndsAt: Math.round(cycleStart + (phaseStart + spec.share) * periodMs)
+  };
+}
@@ -0,0 +1,154 @@
+// evolutionScheduler.ts
+// Keeps the evolution cycle running across reloads and hands its current state
+// to ParameterMappingEngine.mapParameters.
+//
+// Only the cycle's start time and period are stored (in localStorage: the cycle
+// belongs to the installation, not to a preset); the state itself is recomputed
+// from the clock, so it keeps advancing while the page is closed.
+
+import React from 'react';
+import type { EvolutionState } from '../ai-system/services/ParameterMappingEngine';
+import { computeEvolution, EVOLUTION_PERIOD_MS, type EvolutionPeriod, type EvolutionPosition } from './evolution';
+
+const STORAGE_KEY = 'evolutionSchedule';
+const DEFAULT_PERIOD: EvolutionPeriod = '1day';
+
+// How often subscribers (the tester's readout) are refreshed
+const TICK_MS = 5000;
+
+interface EvolutionSchedule {
+  period: EvolutionPeriod;
+  startedAt: number;   // Epoch ms at which the current run's first cycle began
+}
+
+export interface EvolutionSchedulerSnapshot extends EvolutionPosition {
+  period: EvolutionPeriod;
+  startedAt: number;
+}
+
+const SERVER_SNAPSHOT: EvolutionSchedulerSnapshot = {
+  period: DEFAULT_PERIOD,
+  startedAt: 0,
+  ...computeEvolution(0, DEFAULT_PERIOD, 0)
+};
+
+function loadSchedule(): EvolutionSchedule | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : null;
+    if (parsed && parsed.period in EVOLUTION_PERIOD_MS && Number.isFinite(parsed.startedAt)) {
+      return { period: parsed.period, startedAt: parsed.startedAt };
+    }
+  } catch (error) {
+    console.warn('Failed to load evolution schedule:', error);
+  }
+  return null;
+}
+
+class EvolutionScheduler {
+  private static instance: EvolutionScheduler;
+  private schedule: EvolutionSchedule | null = null;
+  private snapshot: EvolutionSchedulerSnapshot | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private listeners = new Set<() => void>();
+
+  private constructor() {}
+
+  static getInstance(): EvolutionScheduler {
+    if (!EvolutionScheduler.instance) {
+      EvolutionScheduler.instance = new EvolutionScheduler();
+    }
+    return EvolutionScheduler.instance;
+  }
+
+  /** The evolution state to pass to mapParameters right now. */
+  getState(now = Date.now()): EvolutionState {
+    const { period, startedAt } = this.getSchedule();
+    return computeEvolution(startedAt, period, now).state;
+  }
+
+  getSnapshot = (): EvolutionSchedulerSnapshot => {
+    if (!this.snapshot) {
+      this.snapshot = this.compute(Date.now());
+    }
+    return this.snapshot;
+  };
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    if (!this.timer) {
+      this.timer = setInterval(() => this.refresh(), TICK_MS);
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.timer) {
+        clearInterval(this.timer);
+        this.timer = null;
+      }
+    };
+  };
+
+  /** Change the cycle length without jumping: the scene stays at the same point in its cycle. */
+  setPeriod(period: EvolutionPeriod) {
+    const now = Date.now();
+    const { cycleProgress } = this.compute(now);
+    this.save({ period, startedAt: now - Math.round(cycleProgress * EVOLUTION_PERIOD_MS[period]) });
+  }
+
+  /** Start a fresh cycle from the calm phase. */
+  restart() {
+    this.save({ period: this.getSchedule().period, startedAt: Date.now() });
+  }
+
+  private getSchedule(): EvolutionSchedule {
+    // Deferred so the module can be imported during server rendering
+    if (!this.schedule) {
+      const saved = loadSchedule();
+      if (saved) {
+        this.schedule = saved;
+      } else {
+        // First run on this machine: the cycle starts now
+        this.schedule = { period: DEFAULT_PERIOD, startedAt: Date.now() };
+        this.persist(this.schedule);
+      }
+    }
+    return this.schedule;
+  }
+
+  private compute(now: number): EvolutionSchedulerSnapshot {
+    const { period, startedAt } = this.getSchedule();
+    return { period, startedAt, ...computeEvolution(startedAt, period, now) };
+  }
+
+  private refresh() {
+    this.snapshot = this.compute(Date.now());
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private save(schedule: EvolutionSchedule) {
+    this.schedule = schedule;
+    this.persist(schedule);
+    this.refresh();
+  }
+
+  private persist(schedule: EvolutionSchedule) {
+    if (typeof window === 'undefined') return;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(schedule));
+    } catch (error) {
+      console.warn('Failed to save evolution schedule:', error);
+    }
+  }
+}
+
+export const evolutionScheduler = EvolutionScheduler.getInstance();
+
+// Hook for React components
+export const useEvolution = (): EvolutionSchedulerSnapshot => {
+  return React.useSyncExternalStore(
+    evolutionScheduler.subscribe,
+    evolutionScheduler.getSnapshot,
+    () => SERVER_SNAPSHOT
+  );
+};
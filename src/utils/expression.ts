@@ -0,0 +1,352 @@
+// expression.ts
+// A small expression language for user-authored mapping rules.
+//
+// Expressions are parsed into a tree and interpreted; nothing is ever handed to
+// eval or Function. The only names an expression can read are the inputs the
+// caller resolves, the only functions are the ones listed below, and there are
+// no assignments, loops or property access, so an expression can't reach
+// anything outside the values it is given.
+//
+//   clamp(weather.temperature / 100, 0, 1) * 2
+//   evolution.mood == 'chaotic' ? 1.5 : lerp(0.5, 1, audio.bass)
+//   hueShift(ai.colorPalette.primary, time.hour * 15)
+
+import { mixColorsOklab, rotateHueOklab, isHexColor } from './stateInterpolation';
+
+export type ExpressionValue = number | string | boolean;
+
+export class ExpressionError extends Error {
+  constructor(message: string, readonly position?: number) {
+    super(position === undefined ? message : `${message} (at ${position + 1})`);
+    this.name = 'ExpressionError';
+  }
+}
+
+type ExpressionNode =
+  | { type: 'literal'; value: ExpressionValue }
+  | { type: 'input'; name: string; position: number }
+  | { type: 'unary'; operator: '-' | '!'; operand: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[]; position: number };
+
+interface Token {
+  kind: 'number' | 'string' | 'name' | 'operator' | 'end';
+  text: string;
+  position: number;
+}
+
+export interface CompiledExpression {
+  source: string;
+  inputs: string[];   // Input names the expression reads, in order of first use
+  evaluate(resolve: (name: string) => unknown): ExpressionValue;
+}
+
+const MAX_LENGTH = 1000;
+const MAX_DEPTH = 40;
+
+// Own keys only, so names like 'constructor' can't reach Object.prototype
+const has = (table: object, key: string) => Object.prototype.hasOwnProperty.call(table, key);
+
+const CONSTANTS: Record<string, ExpressionValue> = {
+  true: true,
+  false: false,
+  PI: Math.PI
+};
+
+function toNumber(value: ExpressionValue, name: string): number {
+  if (typeof value !== 'number') {
+    throw new ExpressionError(`${name} expects numbers, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+function toColor(value: ExpressionValue, name: string): string {
+  if (!isHexColor(value)) {
+    throw new ExpressionError(`${name} expects a hex color, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+const numeric = (fn: (...args: number[]) => number) => (name: string, args: ExpressionValue[]) =>
+  fn(...args.map((arg) => toNumber(arg, name)));
+
+// name: [min args, max args, implementation]
+export const EXPRESSION_FUNCTIONS: Record<string, [number, number, (name: string, args: ExpressionValue[]) => ExpressionValue]> = {
+  abs: [1, 1, numeric(Math.abs)],
+  floor: [1, 1, numeric(Math.floor)],
+  ceil: [1, 1, numeric(Math.ceil)],
+  round: [1, 1, numeric(Math.round)],
+  sqrt: [1, 1, numeric(Math.sqrt)],
+  exp: [1, 1, numeric(Math.exp)],
+  log: [1, 1, numeric(Math.log)],
+  sin: [1, 1, numeric(Math.sin)],
+  cos: [1, 1, numeric(Math.cos)],
+  pow: [2, 2, numeric(Math.pow)],
+  min: [1, 16, numeric(Math.min)],
+  max: [1, 16, numeric(Math.max)],
+  clamp: [3, 3, numeric((value, low, high) => Math.min(high, Math.max(low, value)))],
+  lerp: [3, 3, numeric((from, to, t) => from + (to - from) * t)],
+  smoothstep: [3, 3, numeric((edge0, edge1, value) => {
+    const t = Math.min(1, Math.max(0, (value - edge0) / (edge1 - edge0 || 1)));
+    return t * t * (3 - 2 * t);
+  })],
+  mixColor: [3, 3, (name, [from, to, t]) => mixColorsOklab(toColor(from, name), toColor(to, name), toNumber(t, name))],
+  hueShift: [2, 2, (name, [color, degrees]) => rotateHueOklab(toColor(color, name), toNumber(degrees, name))]
+};
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '(', ')', ','];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const rest = source.slice(index);
+    const number = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(rest);
+    if (number) {
+      tokens.push({ kind: 'number', text: number[0], position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    // Dotted names are whole inputs: 'weather.temperature' is one token
+    const name = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*/.exec(rest);
+    if (name) {
+      tokens.push({ kind: 'name', text: name[0], position: index });
+      index += name[0].length;
+      continue;
+    }
+
+    if (char === '\'' || char === '"') {
+      const end = source.indexOf(char, index + 1);
+      if (end === -1) throw new ExpressionError('Unterminated string', index);
+      tokens.push({ kind: 'string', text: source.slice(index + 1, end), position: index });
+      index = end + 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find((candidate) => rest.startsWith(candidate));
+    if (!operator) throw new ExpressionError(`Unexpected character '${char}'`, index);
+    tokens.push({ kind: 'operator', text: operator, position: index });
+    index += operator.length;
+  }
+
+  tokens.push({ kind: 'end', text: '', position: source.length });
+  return tokens;
+}
+
+// Recursive descent, lowest precedence first: ?: || && ==/!= comparisons +- */% unary
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.conditional();
+    const token = this.peek();
+    if (token.kind !== 'end') throw new ExpressionError(`Unexpected '${token.text}'`, token.position);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private accept(...operators: string[]): Token | null {
+    const token = this.peek();
+    if (token.kind === 'operator' && operators.includes(token.text)) {
+      this.index++;
+      return token;
+    }
+    return null;
+  }
+
+  private expect(operator: string) {
+    const token = this.peek();
+    if (!this.accept(operator)) {
+      throw new ExpressionError(`Expected '${operator}'${token.kind === 'end' ? ' before the end' : ` but found '${token.text}'`}`, token.position);
+    }
+  }
+
+  private nested<T>(parse: () => T): T {
+    if (++this.depth > MAX_DEPTH) throw new ExpressionError('Expression is nested too deeply', this.peek().position);
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private conditional(): ExpressionNode {
+    return this.nested(() => {
+      const test = this.binary(0);
+      if (!this.accept('?')) return test;
+      const consequent = this.conditional();
+      this.expect(':');
+      const alternate = this.conditional();
+      return { type: 'conditional', test, consequent, alternate };
+    });
+  }
+
+  private static readonly LEVELS = [['||'], ['&&'], ['==', '!=', '===', '!=='], ['<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+
+  private binary(level: number): ExpressionNode {
+    if (level === Parser.LEVELS.length) return this.unary();
+    let left = this.binary(level + 1);
+    let token: Token | null;
+    while ((token = this.accept(...Parser.LEVELS[level]))) {
+      const operator = token.text === '===' ? '==' : token.text === '!==' ? '!=' : token.text;
+      left = { type: 'binary', operator, left, right: this.binary(level + 1), position: token.position };
+    }
+    return left;
+  }
+
+  private unary(): ExpressionNode {
+    const token = this.accept('-', '!', '+');
+    if (!token) return this.primary();
+    const operand = this.nested(() => this.unary());
+    return token.text === '+' ? operand : { type: 'unary', operator: token.text as '-' | '!', operand };
+  }
+
+  private primary(): ExpressionNode {
+    const token = this.peek();
+    switch (token.kind) {
+      case 'number':
+        this.index++;
+        return { type: 'literal', value: parseFloat(token.text) };
+      case 'string':
+        this.index++;
+        return { type: 'literal', value: token.text };
+      case 'name': {
+        this.index++;
+        if (this.accept('(')) {
+          const spec = has(EXPRESSION_FUNCTIONS, token.text) ? EXPRESSION_FUNCTIONS[token.text] : null;
+          if (!spec) throw new ExpressionError(`Unknown function '${token.text}'`, token.position);
+          const args: ExpressionNode[] = [];
+          if (!this.accept(')')) {
+            do {
+              args.push(this.conditional());
+            } while (this.accept(','));
+            this.expect(')');
+          }
+          if (args.length < spec[0] || args.length > spec[1]) {
+            const expected = spec[0] === spec[1] ? `${spec[0]}` : `${spec[0]}-${spec[1]}`;
+            throw new ExpressionError(`${token.text}() takes ${expected} argument${spec[1] === 1 ? '' : 's'}`, token.position);
+          }
+          return { type: 'call', name: token.text, args, position: token.position };
+        }
+        if (has(CONSTANTS, token.text)) {
+          return { type: 'literal', value: CONSTANTS[token.text] };
+        }
+        return { type: 'input', name: token.text, position: token.position };
+      }
+      default:
+        if (this.accept('(')) {
+          const node = this.conditional();
+          this.expect(')');
+          return node;
+        }
+        throw new ExpressionError(token.kind === 'end' ? 'Unexpected end of expression' : `Unexpected '${token.text}'`, token.position);
+    }
+  }
+}
+
+function collectInputs(node: ExpressionNode, inputs: string[]) {
+  switch (node.type) {
+    case 'input':
+      if (!inputs.includes(node.name)) inputs.push(node.name);
+      break;
+    case 'unary':
+      collectInputs(node.operand, inputs);
+      break;
+    case 'binary':
+      collectInputs(node.left, inputs);
+      collectInputs(node.right, inputs);
+      break;
+    case 'conditional':
+      collectInputs(node.test, inputs);
+      collectInputs(node.consequent, inputs);
+      collectInputs(node.alternate, inputs);
+      break;
+    case 'call':
+      node.args.forEach((arg) => collectInputs(arg, inputs));
+      break;
+  }
+}
+
+function evaluateNode(node: ExpressionNode, resolve: (name: string) => unknown): ExpressionValue {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'input': {
+      const value = resolve(node.name);
+      if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return value;
+      throw new ExpressionError(`Input '${node.name}' has no value`, node.position);
+    }
+    case 'unary': {
+      const operand = evaluateNode(node.operand, resolve);
+      return node.operator === '!' ? !operand : -toNumber(operand, 'Unary -');
+    }
+    case 'conditional':
+      return evaluateNode(node.test, resolve)
+        ? evaluateNode(node.consequent, resolve)
+        : evaluateNode(node.alternate, resolve);
+    case 'call':
+      return EXPRESSION_FUNCTIONS[node.name][2](`${node.name}()`, node.args.map((arg) => evaluateNode(arg, resolve)));
+    case 'binary': {
+      // Short-circuit like JavaScript, but always yield a boolean
+      if (node.operator === '&&') return !!evaluateNode(node.left, resolve) && !!evaluateNode(node.right, resolve);
+      if (node.operator === '||') return !!evaluateNode(node.left, resolve) || !!evaluateNode(node.right, resolve);
+
+      const left = evaluateNode(node.left, resolve);
+      const right = evaluateNode(node.right, resolve);
+      if (node.operator === '==') return left === right;
+      if (node.operator === '!=') return left !== right;
+
+      const label = `Operator '${node.operator}'`;
+      const a = toNumber(left, label);
+      const b = toNumber(right, label);
+      switch (node.operator) {
+        case '<': return a < b;
+        case '<=': return a <= b;
+        case '>': return a > b;
+        case '>=': return a >= b;
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        default: return a % b;
+      }
+    }
+  }
+}
+
+/** Parse `source` once; throws ExpressionError with the offending position on syntax errors. */
+export function compileExpression(source: string): CompiledExpression {
+  if (source.length > MAX_LENGTH) {
+    throw new ExpressionError(`Expression is longer than ${MAX_LENGTH} characters`);
+  }
+  const tree = new Parser(tokenize(source)).parse();
+  const inputs: string[] = [];
+  collectInputs(tree, inputs);
+
+  return {
+    source,
+    inputs,
+    evaluate(resolve) {
+      const value = evaluateNode(tree, resolve);
+      if (typeof value === 'number' && !isFinite(value)) {
+        throw new ExpressionError('Expression did not produce a finite number');
+      }
+      return value;
+    }
+  };
+}
@@ -0,0 +1,349 @@
+// imageExport.ts
+// High-resolution still export of the 3D scene.
+//
+// The live renderer re-renders the scene synchronously in tiles the size of its
+// drawing buffer, each tile a sub-frustum of the full image (camera.setViewOffset).
+// Tiles are copied to a 2D canvas before the browser composites the frame, so the
+// live view never shows them. The logo overlay is drawn on top and the result is
+// encoded as PNG or JPEG with the preset name and seed embedded as metadata.
+//
+// While post-processing is on, each tile is rendered through the live EffectComposer
+// (pointed at the export camera), so bloom, depth of field and grading match the view.
+// Screen-space effects only see their own tile: glow and blur can't cross tile edges.
+
+import * as THREE from 'three';
+import type { EffectComposer } from 'postprocessing';
+import type { VisualState } from '../store/visualStore';
+
+export type ImageExportFormat = 'png' | 'jpeg';
+
+export interface ImageExportMetadata {
+  name: string;
+  seed: number;
+}
+
+export interface ImageExportOptions {
+  width: number;
+  height: number;
+  format: ImageExportFormat;
+  transparent: boolean;        // PNG only; JPEG always gets a solid background
+  backgroundColor: string;     // Used when not transparent
+  quality?: number;            // JPEG quality, 0-1
+  logo?: VisualState['logo'];  // Composited when provided and enabled
+  metadata: ImageExportMetadata;
+}
+
+// Browsers refuse 2D canvases much beyond this on either side
+export const MAX_EXPORT_DIMENSION = 16384;
+
+const LOGO_SRC = '/ralph-logo.gif';
+const SOFTWARE_NAME = 'Ralph Visual Canvas';
+
+interface SceneTarget {
+  gl: THREE.WebGLRenderer;
+  scene: THREE.Scene;
+  camera: THREE.Camera;
+}
+
+class SceneExporter {
+  private static instance: SceneExporter;
+  private target: SceneTarget | null = null;
+  private composer: EffectComposer | null = null;
+
+  private constructor() {}
+
+  static getInstance(): SceneExporter {
+    if (!SceneExporter.instance) {
+      SceneExporter.instance = new SceneExporter();
+    }
+    return SceneExporter.instance;
+  }
+
+  // Called from inside the Canvas once the renderer exists
+  attach(target: SceneTarget) {
+    this.target = target;
+  }
+
+  detach(gl: THREE.WebGLRenderer) {
+    if (this.target?.gl === gl) {
+      this.target = null;
+    }
+  }
+
+  /** Ref callback for the post-processing EffectComposer; null while it is unmounted. */
+  setComposer = (composer: EffectComposer | null) => {
+    this.composer = composer;
+  };
+
+  isReady(): boolean {
+    return this.target !== null;
+  }
+
+  /** Render, composite and encode the current scene. */
+  async exportImage(options: ImageExportOptions): Promise<Blob> {
+    if (!this.target) {
+      throw new Error('Canvas is not ready for export');
+    }
+
+    const width = clampDimension(options.width);
+    const height = clampDimension(options.height);
+    const transparent = options.transparent && options.format === 'png';
+
+    const output = document.createElement('canvas');
+    output.width = width;
+    output.height = height;
+    const context = output.getContext('2d');
+    if (!context) {
+      throw new Error('Could not create export canvas');
+    }
+
+    if (!transparent) {
+      context.fillStyle = options.backgroundColor;
+      context.fillRect(0, 0, width, height);
+    }
+
+    this.renderTiles(context, width, height, transparent ? null : options.backgroundColor);
+
+    if (options.logo?.enabled) {
+      const viewportWidth = (this.target.gl.domElement as HTMLCanvasElement).clientWidth || width;
+      await drawLogo(context, options.logo, width, height, width / viewportWidth);
+    }
+
+    const mimeType = options.format === 'png' ? 'image/png' : 'image/jpeg';
+    const encoded = await new Promise<Blob>((resolve, reject) => {
+      output.toBlob(
+        (blob) => blob ? resolve(blob) : reject(new Error('Image encoding failed')),
+        mimeType,
+        options.quality ?? 0.92
+      );
+    });
+
+    const bytes = new Uint8Array(await encoded.arrayBuffer());
+    const tagged = options.format === 'png'
+      ? embedPngMetadata(bytes, options.metadata)
+      : embedJpegMetadata(bytes, options.metadata);
+    return new Blob([tagged], { type: mimeType });
+  }
+
+  private renderTiles(context: CanvasRenderingContext2D, width: number, height: number, background: string | null) {
+    const { gl, scene, camera } = this.target as SceneTarget;
+    const composer = this.composer;
+    const canvas = gl.domElement as HTMLCanvasElement;
+    const buffer = gl.getDrawingBufferSize(new THREE.Vector2());
+    const tileWidth = Math.max(1, Math.floor(buffer.x));
+    const tileHeight = Math.max(1, Math.floor(buffer.y));
+
+    // Render with a copy so the live camera (and its controls) are untouched
+    const exportCamera = camera.clone() as THREE.Camera;
+    const previousBackground = scene.background;
+    const previousClearColor = gl.getClearColor(new THREE.Color());
+    const previousClearAlpha = gl.getClearAlpha();
+
+    scene.background = background ? new THREE.Color(background) : null;
+    gl.setClearColor(0x000000, 0);
+    composer?.setMainCamera(exportCamera);
+
+    try {
+      for (let y = 0; y < height; y += tileHeight) {
+        for (let x = 0; x < width; x += tileWidth) {
+          setTileView(exportCamera, width, height, x, y, tileWidth, tileHeight);
+          if (composer) {
+            composer.render(0);
+          } else {
+            gl.render(scene, exportCamera);
+          }
+
+          // The drawing buffer is still intact until this task returns
+          const copyWidth = Math.min(tileWidth, width - x);
+          const copyHeight = Math.min(tileHeight, height - y);
+          context.drawImage(canvas, 0, 0, copyWidth, copyHeight, x, y, copyWidth, copyHeight);
+        }
+      }
+    } finally {
+      composer?.setMainCamera(camera);
+      scene.background = previousBackground;
+      gl.setClearColor(previousClearColor, previousClearAlpha);
+    }
+  }
+}
+
+function clampDimension(value: number): number {
+  if (!isFinite(value)) return 1;
+  return Math.max(1, Math.min(MAX_EXPORT_DIMENSION, Math.round(value)));
+}
+
+function setTileView(camera: THREE.Camera, width: number, height: number, x: number, y: number, tileWidth: number, tileHeight: number) {
+  if (camera instanceof THREE.PerspectiveCamera) {
+    camera.aspect = width / height;
+    camera.setViewOffset(width, height, x, y, tileWidth, tileHeight);
+  } else if (camera instanceof THREE.OrthographicCamera) {
+    camera.setViewOffset(width, height, x, y, tileWidth, tileHeight);
+  }
+}
+
+// Mirrors the CSS placement in CompanyLogo, scaled from viewport pixels to export pixels
+async function drawLogo(
+  context: CanvasRenderingContext2D,
+  logo: VisualState['logo'],
+  width: number,
+  height: number,
+  scale: number
+) {
+  const image = new Image();
+  image.src = LOGO_SRC;
+  try {
+    await image.decode();
+  } catch (error) {
+    console.warn('Logo could not be loaded; exporting without it:', error);
+    return;
+  }
+
+  const size = logo.size * scale;
+  const margin = 20 * scale;
+  let left: number;
+  let top: number;
+
+  switch (logo.position.x) {
+    case 'left':
+      left = margin + logo.offset.x * scale;
+      break;
+    case 'right':
+      left = width - size - margin + logo.offset.x * scale;
+      break;
+    case 'center':
+    default:
+      left = (width - size) / 2 + logo.offset.x * scale;
+      break;
+  }
+
+  switch (logo.position.y) {
+    case 'bottom':
+      top = height - size - margin + logo.offset.y * scale;
+      break;
+    case 'center':
+      top = (height - size) / 2 + logo.offset.y * scale;
+      break;
+    case 'top':
+    default:
+      top = margin + logo.offset.y * scale;
+      break;
+  }
+
+  // object-fit: contain inside the square logo box
+  const aspect = image.naturalWidth / Math.max(1, image.naturalHeight);
+  const drawWidth = aspect >= 1 ? size : size * aspect;
+  const drawHeight = aspect >= 1 ? size / aspect : size;
+
+  context.save();
+  context.globalAlpha = Math.max(0, Math.min(1, logo.opacity));
+  context.drawImage(image, left + (size - drawWidth) / 2, top + (size - drawHeight) / 2, drawWidth, drawHeight);
+  context.restore();
+}
+
+// ---------------------------------------------------------------------------
+// Metadata
+// ---------------------------------------------------------------------------
+
+const textEncoder = new TextEncoder();
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// iTXt chunk: keyword, no compression, empty language tags, UTF-8 text
+function createPngTextChunk(keyword: string, text: string): Uint8Array {
+  const data = concatBytes([
+    textEncoder.encode(keyword),
+    new Uint8Array([0, 0, 0, 0, 0]),
+    textEncoder.encode(text)
+  ]);
+  const typeAndData = concatBytes([textEncoder.encode('iTXt'), data]);
+
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(typeAndData, 4);
+  view.setUint32(8 + data.length, crc32(typeAndData));
+  return chunk;
+}
+
+function describeMetadata(metadata: ImageExportMetadata): Array<[string, string]> {
+  return [
+    ['Title', metadata.name],
+    ['Seed', String(metadata.seed)],
+    ['Software', SOFTWARE_NAME],
+    ['Comment', JSON.stringify({ preset: metadata.name, seed: metadata.seed })]
+  ];
+}
+
+/** Insert text chunks right after IHDR (8-byte signature + 25-byte IHDR chunk). */
+export function embedPngMetadata(png: Uint8Array, metadata: ImageExportMetadata): Uint8Array {
+  const ihdrEnd = 8 + 25;
+  const chunks = describeMetadata(metadata).map(([keyword, text]) => createPngTextChunk(keyword, text));
+  return concatBytes([png.subarray(0, ihdrEnd), ...chunks, png.subarray(ihdrEnd)]);
+}
+
+/** Insert a COM segment after SOI and any leading APP0 (JFIF) segment. */
+export function embedJpegMetadata(jpeg: Uint8Array, metadata: ImageExportMetadata): Uint8Array {
+  let insertAt = 2;
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) {
+    insertAt = 4 + ((jpeg[4] << 8) | jpeg[5]);
+  }
+
+  const text = textEncoder.encode(describeMetadata(metadata).map(([key, value]) => `${key}: ${value}`).join('\n'));
+  const payload = text.subarray(0, 65533);
+  const segment = new Uint8Array(4 + payload.length);
+  segment[0] = 0xff;
+  segment[1] = 0xfe;
+  segment[2] = ((payload.length + 2) >> 8) & 0xff;
+  segment[3] = (payload.length + 2) & 0xff;
+  segment.set(payload, 4);
+
+  return concatBytes([jpeg.subarray(0, insertAt), segment, jpeg.subarray(insertAt)]);
+}
+
+/** File name like "sunset-drift_20240601_7680x4320.png". */
+export function getExportFileName(metadata: ImageExportMetadata, width: number, height: number, format: ImageExportFormat): string {
+  const slug = metadata.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'canvas';
+  return `${slug}_${metadata.seed}_${width}x${height}.${format === 'png' ? 'png' : 'jpg'}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export const sceneExporter = SceneExporter.getInstance();
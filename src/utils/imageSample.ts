@@ -0,0 +1,47 @@
+// imageSample.ts
+// Decodes an image in the browser and returns a small RGBA thumbnail of it. Sent
+// along with image analysis requests so the offline AI provider, which has no image
+// decoder on the server, can measure the image's real colors.
+
+import type { ImageSample } from '../ai-system/types/AITypes';
+
+export const IMAGE_SAMPLE_MAX_SIZE = 48;
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Image could not be decoded'));
+    image.src = src;
+  });
+}
+
+/** Thumbnail of a data URL or bare base64 image; null outside the browser or when decoding fails. */
+export async function sampleImage(image: string): Promise<ImageSample | null> {
+  if (typeof document === 'undefined') return null;
+
+  try {
+    // Browsers sniff the real format, so the declared type only has to be an image one
+    const element = await loadImage(image.startsWith('data:') ? image : `data:image/png;base64,${image}`);
+    const scale = Math.min(1, IMAGE_SAMPLE_MAX_SIZE / Math.max(element.naturalWidth, element.naturalHeight));
+    const width = Math.max(1, Math.round(element.naturalWidth * scale));
+    const height = Math.max(1, Math.round(element.naturalHeight * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    context.drawImage(element, 0, 0, width, height);
+
+    const { data } = context.getImageData(0, 0, width, height);
+    let binary = '';
+    data.forEach((byte) => {
+      binary += String.fromCharCode(byte);
+    });
+    return { width, height, pixels: btoa(binary) };
+  } catch (error) {
+    console.warn('Could not sample image colors:', error);
+    return null;
+  }
+}
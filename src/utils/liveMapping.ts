@@ -0,0 +1,245 @@
+// liveMapping.ts
+// Live mode: keeps running ParameterMappingEngine against the latest AI analysis,
+// weather, time of day and evolution phase, and eases the canvas to each result.
+//
+// The engine runs every few seconds on the render clock, reading the time of day
+// afresh each run; every changed value then glides to its new target over a few
+// seconds instead of snapping. Glides play on the 'liveMapping' layer of the scene
+// overlay and each value is written to the store once, when it arrives. Variables with an active override in the AI store
+// are pinned to the override, and variables locked on the engine are left alone.
+// Weather is re-fetched for the same location every ten minutes (the server
+// caches it for that long anyway). Declarative mapping rules (the user's own,
+// then the current preset's) are applied on top of the engine's built-in rules.
+
+import React from 'react';
+import { useAIStore } from '../store/aiStore';
+import { useVisualStore } from '../store/visualStore';
+import { ParameterMappingEngine, type ParameterUpdate } from '../ai-system/services/ParameterMappingEngine';
+import type { MappingRuleDefinition } from '../types/mappingRule';
+import { WeatherService } from '../ai-system/services/WeatherService';
+import type { WeatherData } from '../ai-system/types/AITypes';
+import { EASING_FUNCTIONS } from '../ai-enhanced/types/InterpolationTypes';
+import { evolutionScheduler } from './evolutionScheduler';
+import { sceneOverlay } from './sceneOverlay';
+import { userMappingRules } from './userMappingRules';
+import { isDiscreteNumberKey, isHexColor, mergeState, mixColorsOklab } from './stateInterpolation';
+import { getPathValue, setPathValue } from './timeline';
+
+const RUN_INTERVAL_SECONDS = 5;
+const TRANSITION_SECONDS = 3;
+const WEATHER_REFRESH_MS = 10 * 60_000;
+
+export interface LiveMappingSnapshot {
+  running: boolean;
+  lastRunAt: number | null;           // Epoch ms
+  lastUpdates: ParameterUpdate[];     // What the last run changed, overrides included
+}
+
+const STOPPED_SNAPSHOT: LiveMappingSnapshot = {
+  running: false,
+  lastRunAt: null,
+  lastUpdates: []
+};
+
+interface Transition {
+  from: unknown;
+  to: unknown;
+  elapsed: number;
+}
+
+function blendValue(key: string, from: unknown, to: unknown, t: number): unknown {
+  if (typeof from === 'number' && typeof to === 'number') {
+    const value = from + (to - from) * t;
+    return isDiscreteNumberKey(key) ? Math.round(value) : value;
+  }
+  if (isHexColor(from) && isHexColor(to)) {
+    return t >= 1 ? to : mixColorsOklab(from, to, t);
+  }
+  // Booleans, enums and anything else can't be blended: switch straight away
+  return to;
+}
+
+class LiveMapping {
+  private static instance: LiveMapping;
+  private engine = new ParameterMappingEngine();
+  private transitions = new Map<string, Transition>();
+  private sinceRun = RUN_INTERVAL_SECONDS;
+  private weatherRequestedAt = 0;
+  private weatherInFlight = false;
+  private appliedRules: [MappingRuleDefinition[], MappingRuleDefinition[]] | null = null;
+  private snapshot: LiveMappingSnapshot = STOPPED_SNAPSHOT;
+  private listeners = new Set<() => void>();
+
+  private constructor() {}
+
+  static getInstance(): LiveMapping {
+    if (!LiveMapping.instance) {
+      LiveMapping.instance = new LiveMapping();
+    }
+    return LiveMapping.instance;
+  }
+
+  /** The engine live mode runs; lock parameters on it to keep live mode off them. */
+  getEngine(): ParameterMappingEngine {
+    return this.engine;
+  }
+
+  getSnapshot = (): LiveMappingSnapshot => this.snapshot;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /** Advance by the render delta (seconds). Called once per frame by LiveMappingDriver. */
+  tick(delta: number) {
+    const { isLiveMode, aiResults, weatherData } = useAIStore.getState();
+    if (!isLiveMode || !aiResults || !weatherData) {
+      if (this.snapshot.running) this.stop();
+      return;
+    }
+
+    this.refreshWeather(weatherData);
+
+    this.sinceRun += delta;
+    if (this.sinceRun >= RUN_INTERVAL_SECONDS) {
+      this.sinceRun = 0;
+      this.run();
+    }
+
+    if (this.transitions.size > 0) {
+      this.advanceTransitions(delta);
+    }
+  }
+
+  private run() {
+    const aiStore = useAIStore.getState();
+    // Values mid-glide count as where they are now
+    const current = sceneOverlay.getState('liveMapping');
+    const overrides = aiStore.activeOverrides;
+
+    this.syncRules(userMappingRules.getSnapshot().rules, current.mappingRules);
+
+    const startedAt = Date.now();
+    let updates: ParameterUpdate[];
+    try {
+      aiStore.setMappingEngineStatus('active');
+      updates = this.engine
+        .mapParameters(aiStore.aiResults!, aiStore.weatherData!, current, evolutionScheduler.getState())
+        .filter((update) => {
+          if (!(update.variable in overrides)) return true;
+          this.engine.getAuditLog().noteOverride(update.variable, startedAt, 'Manual override in the parameter tester');
+          return false;
+        });
+      aiStore.setMappingEngineStatus('idle');
+    } catch (error) {
+      console.error('Live mapping failed:', error);
+      aiStore.setMappingEngineStatus('error');
+      return;
+    }
+
+    Object.entries(overrides).forEach(([variable, value]) => {
+      if (getPathValue(current, variable) === value) return;
+      updates.push({ variable, value, source: 'override', priority: 10, reason: 'Manual override', confidence: 1 });
+    });
+
+    // A value already heading to the same target keeps its glide
+    updates = updates.filter((update) => this.transitions.get(update.variable)?.to !== update.value);
+    updates.forEach((update) => {
+      this.transitions.set(update.variable, {
+        from: getPathValue(current, update.variable),
+        to: update.value,
+        elapsed: 0
+      });
+    });
+
+    const now = Date.now();
+    const previousRunAt = this.snapshot.lastRunAt;
+    if (previousRunAt !== null && now > previousRunAt) {
+      aiStore.updatePerformanceMetrics({ updateFrequency: Math.round(100_000 / (now - previousRunAt)) / 100 });
+    }
+    aiStore.setLastUpdateTime(new Date(now));
+    this.setSnapshot({ running: true, lastRunAt: now, lastUpdates: updates });
+  }
+
+  // Recompile only when either rule list has been replaced
+  private syncRules(userRules: MappingRuleDefinition[], presetRules: MappingRuleDefinition[]) {
+    const applied = this.appliedRules;
+    if (applied && applied[0] === userRules && applied[1] === presetRules) return;
+    this.appliedRules = [userRules, presetRules];
+    // Later definitions win, so a preset rule replaces the user's rule on the same variable
+    this.engine.setRuleDefinitions([...userRules, ...presetRules]);
+  }
+
+  private advanceTransitions(delta: number) {
+    const gliding: Record<string, any> = {};
+    const arrived: Record<string, any> = {};
+    this.transitions.forEach((transition, variable) => {
+      transition.elapsed += delta;
+      const progress = Math.min(1, transition.elapsed / TRANSITION_SECONDS);
+      const key = variable.slice(variable.lastIndexOf('.') + 1);
+      const value = blendValue(key, transition.from, transition.to, EASING_FUNCTIONS.easeInOut.function(progress));
+      if (progress >= 1) {
+        setPathValue(arrived, variable, value);
+        this.transitions.delete(variable);
+      } else {
+        setPathValue(gliding, variable, value);
+      }
+    });
+    if (Object.keys(arrived).length > 0) {
+      useVisualStore.setState((state) => mergeState(state, arrived));
+    }
+    sceneOverlay.setLayer('liveMapping', gliding);
+  }
+
+  private refreshWeather(weather: WeatherData) {
+    const location = weather.location;
+    const now = Date.now();
+    const fetchedAt = Math.max(this.weatherRequestedAt, Date.parse(weather.lastUpdated ?? '') || 0);
+    if (!location || this.weatherInFlight || now - fetchedAt < WEATHER_REFRESH_MS) return;
+
+    this.weatherRequestedAt = now;
+    this.weatherInFlight = true;
+    WeatherService.getInstance().getWeatherData(location)
+      .then((fresh) => {
+        // Mock data (no dataSource) means the lookup failed: keep the last real reading
+        if (fresh.dataSource && useAIStore.getState().weatherData?.location === location) {
+          useAIStore.getState().setWeatherData({ ...fresh, location });
+        }
+      })
+      .finally(() => {
+        this.weatherInFlight = false;
+      });
+  }
+
+  private stop() {
+    // Values mid-transition stay where they are
+    const gliding = sceneOverlay.getLayer('liveMapping');
+    if (gliding) {
+      useVisualStore.setState((state) => mergeState(state, gliding));
+      sceneOverlay.clearLayer('liveMapping');
+    }
+    this.transitions.clear();
+    this.sinceRun = RUN_INTERVAL_SECONDS;
+    useAIStore.getState().updatePerformanceMetrics({ updateFrequency: 0 });
+    this.setSnapshot(STOPPED_SNAPSHOT);
+  }
+
+  private setSnapshot(snapshot: LiveMappingSnapshot) {
+    this.snapshot = snapshot;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const liveMapping = LiveMapping.getInstance();
+
+// Hook for React components
+export const useLiveMapping = (): LiveMappingSnapshot => {
+  return React.useSyncExternalStore(
+    liveMapping.subscribe,
+    liveMapping.getSnapshot,
+    () => STOPPED_SNAPSHOT
+  );
+};
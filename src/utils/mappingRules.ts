@@ -0,0 +1,291 @@
+// mappingRules.ts
+// Validation, compilation and JSON import/export for declarative mapping rules.
+//
+// A rule reads named engine inputs and turns them into a value either through a
+// curve (first input, range to range) or a sandboxed expression (see expression.ts).
+// Compiled rules are ordinary ParameterRules, so the engine's safety limits, locks
+// and sensitivity apply to them exactly as to the built-in ones.
+
+import type { MappingFunction, ParameterRule } from '../ai-system/services/ParameterMappingEngine';
+import type {
+  ConflictStrategy,
+  MappingCurve,
+  MappingCurveShape,
+  MappingRuleDefinition,
+  MappingRuleFile,
+  MappingRuleSource
+} from '../types/mappingRule';
+import { compileExpression, type ExpressionValue } from './expression';
+import { getPathValue } from './timeline';
+
+export const MAPPING_RULE_SOURCES: MappingRuleSource[] = ['ai', 'weather', 'time', 'evolution', 'audio', 'hybrid'];
+
+export const MAPPING_CURVE_SHAPES: MappingCurveShape[] = ['linear', 'smooth', 'easeIn', 'easeOut', 'step'];
+
+export const CONFLICT_STRATEGIES: ConflictStrategy[] = [
+  'winner-takes-all',
+  'priority-weighted',
+  'confidence-weighted',
+  'max',
+  'min',
+  'hue-blend'
+];
+
+// Everything a rule may read, with a hint for the editor
+export const MAPPING_INPUTS: Record<string, string> = {
+  'ai.visualCharacteristics.saturation': '0-1',
+  'ai.visualCharacteristics.turbulence': '0-1',
+  'ai.visualCharacteristics.harmony': '0-1',
+  'ai.visualCharacteristics.energy': '0-1',
+  'ai.visualCharacteristics.speed': '0-2',
+  'ai.visualCharacteristics.density': '0-2',
+  'ai.visualCharacteristics.brightness': '0-2',
+  'ai.colorPalette.primary': 'hex color',
+  'ai.colorPalette.secondary': 'hex color',
+  'ai.colorPalette.accent': 'hex color',
+  'ai.confidence': '0-1',
+  'weather.temperature': '°F',
+  'weather.windSpeed': 'mph',
+  'weather.windDirection': 'degrees',
+  'weather.humidity': '0-100',
+  'weather.pressure': 'hPa or inHg',
+  'weather.condition': "'clear', 'cloudy', 'rain', 'storm', 'snow', 'fog'…",
+  'weather.timeOfDay': "'dawn', 'day', 'dusk', 'night'",
+  'time.hour': '0-23',
+  'time.minute': '0-59',
+  'time.period': "'dawn', 'day', 'dusk', 'night'",
+  'evolution.intensity': '0-1',
+  'evolution.phase': "'calm', 'building', 'peak', 'declining', 'transition'",
+  'evolution.mood': "'calm', 'energetic', 'mysterious', 'chaotic', 'peaceful'",
+  'evolution.duration': 'seconds in the current phase',
+  'audio.level': '0-1',
+  'audio.bass': '0-1',
+  'audio.lowMid': '0-1',
+  'audio.mid': '0-1',
+  'audio.highMid': '0-1',
+  'audio.treble': '0-1',
+  'audio.beat': '0 or 1',
+  'audio.onset': '0 or 1',
+  current: "the parameter's current value"
+};
+
+export function isMappingInput(name: unknown): name is string {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(MAPPING_INPUTS, name);
+}
+
+export const MAPPING_RULE_FILE_FORMAT: MappingRuleFile['format'] = 'visual-canvas-mapping-rules';
+
+const VARIABLE_PATTERN = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/;
+const MAX_RULES = 200;
+
+export interface MappingRuleError {
+  path: string;      // e.g. 'rules[2].expression'
+  message: string;
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const isRange = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 && value.every(isFiniteNumber);
+
+function shapeCurve(shape: MappingCurveShape, t: number, steps = 2): number {
+  switch (shape) {
+    case 'smooth': return t * t * (3 - 2 * t);
+    case 'easeIn': return t * t;
+    case 'easeOut': return 1 - (1 - t) * (1 - t);
+    case 'step': return Math.min(steps - 1, Math.floor(t * steps)) / (steps - 1);
+    default: return t;
+  }
+}
+
+export function evaluateCurve(curve: MappingCurve, input: number): number {
+  const [inMin, inMax] = curve.inputRange;
+  const [outMin, outMax] = curve.outputRange;
+  const t = Math.min(1, Math.max(0, (input - inMin) / (inMax - inMin)));
+  return outMin + (outMax - outMin) * shapeCurve(curve.shape, t, curve.steps);
+}
+
+function validateCurve(curve: unknown, path: string, errors: MappingRuleError[]) {
+  if (!curve || typeof curve !== 'object') {
+    errors.push({ path, message: 'Needs a curve or an expression' });
+    return;
+  }
+  const { shape, inputRange, outputRange, steps } = curve as Partial<MappingCurve>;
+  if (!MAPPING_CURVE_SHAPES.includes(shape as MappingCurveShape)) {
+    errors.push({ path: `${path}.shape`, message: `Must be one of ${MAPPING_CURVE_SHAPES.join(', ')}` });
+  }
+  if (!isRange(inputRange) || inputRange[0] === inputRange[1]) {
+    errors.push({ path: `${path}.inputRange`, message: 'Must be two different numbers' });
+  }
+  if (!isRange(outputRange)) {
+    errors.push({ path: `${path}.outputRange`, message: 'Must be two numbers' });
+  }
+  if (shape === 'step' && !(Number.isInteger(steps) && steps! >= 2 && steps! <= 100)) {
+    errors.push({ path: `${path}.steps`, message: 'Must be a whole number from 2 to 100' });
+  }
+}
+
+/** Every problem with one rule; an empty list means it will compile. */
+export function validateMappingRule(rule: unknown, path = 'rule'): MappingRuleError[] {
+  const errors: MappingRuleError[] = [];
+  if (!rule || typeof rule !== 'object') {
+    return [{ path, message: 'Must be an object' }];
+  }
+  const definition = rule as Partial<MappingRuleDefinition>;
+
+  if (typeof definition.id !== 'string' || !definition.id) {
+    errors.push({ path: `${path}.id`, message: 'Must be a non-empty string' });
+  }
+  if (typeof definition.variable !== 'string' || !VARIABLE_PATTERN.test(definition.variable)) {
+    errors.push({ path: `${path}.variable`, message: 'Must be a store path such as globalEffects.volumetric.density' });
+  }
+  if (typeof definition.enabled !== 'boolean') {
+    errors.push({ path: `${path}.enabled`, message: 'Must be true or false' });
+  }
+  if (!MAPPING_RULE_SOURCES.includes(definition.source as MappingRuleSource)) {
+    errors.push({ path: `${path}.source`, message: `Must be one of ${MAPPING_RULE_SOURCES.join(', ')}` });
+  }
+
+  const inputs = Array.isArray(definition.inputs) ? definition.inputs : null;
+  if (!inputs || inputs.length === 0) {
+    errors.push({ path: `${path}.inputs`, message: 'Must list at least one input' });
+  } else {
+    inputs.forEach((input, index) => {
+      if (!isMappingInput(input)) {
+        errors.push({ path: `${path}.inputs[${index}]`, message: `Unknown input ${JSON.stringify(input)}` });
+      }
+    });
+  }
+
+  if (typeof definition.expression === 'string' && definition.expression.trim()) {
+    try {
+      const compiled = compileExpression(definition.expression);
+      const undeclared = compiled.inputs.filter((name) => !inputs?.includes(name));
+      if (undeclared.length > 0) {
+        errors.push({ path: `${path}.expression`, message: `Reads inputs not listed in inputs: ${undeclared.join(', ')}` });
+      }
+    } catch (error) {
+      errors.push({ path: `${path}.expression`, message: error instanceof Error ? error.message : String(error) });
+    }
+  } else if (definition.expression !== undefined && typeof definition.expression !== 'string') {
+    errors.push({ path: `${path}.expression`, message: 'Must be a string' });
+  } else {
+    validateCurve(definition.curve, `${path}.curve`, errors);
+  }
+
+  const constraints = definition.constraints;
+  if (!constraints || !isFiniteNumber(constraints.min) || !isFiniteNumber(constraints.max) || constraints.min > constraints.max) {
+    errors.push({ path: `${path}.constraints`, message: 'Needs numeric min and max with min ≤ max' });
+  } else if (constraints.safeZone !== undefined && (!isRange(constraints.safeZone) || constraints.safeZone[0] > constraints.safeZone[1])) {
+    errors.push({ path: `${path}.constraints.safeZone`, message: 'Must be [low, high]' });
+  }
+
+  if (!Number.isInteger(definition.priority) || definition.priority! < 1 || definition.priority! > 10) {
+    errors.push({ path: `${path}.priority`, message: 'Must be a whole number from 1 to 10' });
+  }
+  if (!isFiniteNumber(definition.sensitivity) || definition.sensitivity < 0 || definition.sensitivity > 1) {
+    errors.push({ path: `${path}.sensitivity`, message: 'Must be between 0 and 1' });
+  }
+  if (definition.description !== undefined && (typeof definition.description !== 'string' || definition.description.length > 200)) {
+    errors.push({ path: `${path}.description`, message: 'Must be a string of at most 200 characters' });
+  }
+  if (definition.strategy !== undefined && !CONFLICT_STRATEGIES.includes(definition.strategy)) {
+    errors.push({ path: `${path}.strategy`, message: `Must be one of ${CONFLICT_STRATEGIES.join(', ')}` });
+  }
+
+  return errors;
+}
+
+export function validateMappingRules(rules: unknown): { valid: boolean; errors: MappingRuleError[] } {
+  if (!Array.isArray(rules)) {
+    return { valid: false, errors: [{ path: 'rules', message: 'Must be an array' }] };
+  }
+  if (rules.length > MAX_RULES) {
+    return { valid: false, errors: [{ path: 'rules', message: `At most ${MAX_RULES} rules` }] };
+  }
+  const errors = rules.flatMap((rule, index) => validateMappingRule(rule, `rules[${index}]`));
+  return { valid: errors.length === 0, errors };
+}
+
+/** Turn a definition into an engine rule. Throws when the definition is invalid. */
+export function compileMappingRule(definition: MappingRuleDefinition): ParameterRule {
+  const errors = validateMappingRule(definition);
+  if (errors.length > 0) {
+    throw new Error(errors.map((error) => `${error.path}: ${error.message}`).join('; '));
+  }
+
+  const inputs = definition.inputs;
+  const resolve = (input: Parameters<MappingFunction>[0]) => (name: string): unknown =>
+    inputs.includes(name) ? (name === 'current' ? input.current : getPathValue(input, name)) : undefined;
+
+  let mappingFunction: MappingFunction;
+  if (definition.expression?.trim()) {
+    const expression = compileExpression(definition.expression);
+    mappingFunction = (input): ExpressionValue => expression.evaluate(resolve(input));
+  } else {
+    const curve = definition.curve!;
+    mappingFunction = (input) => {
+      const value = resolve(input)(inputs[0]);
+      if (typeof value !== 'number') {
+        throw new Error(`Curve input ${inputs[0]} is not a number`);
+      }
+      return evaluateCurve(curve, value);
+    };
+  }
+
+  return {
+    variable: definition.variable,
+    source: definition.source,
+    priority: definition.priority,
+    constraints: { ...definition.constraints },
+    mappingFunction,
+    sensitivity: definition.sensitivity,
+    description: definition.description || `Custom ${definition.source} rule`
+  };
+}
+
+export function createMappingRule(variable: string, range: [number, number] = [0, 1]): MappingRuleDefinition {
+  return {
+    id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    variable,
+    enabled: true,
+    source: 'evolution',
+    inputs: ['evolution.intensity'],
+    curve: { shape: 'linear', inputRange: [0, 1], outputRange: [...range] },
+    constraints: { min: Math.min(...range), max: Math.max(...range) },
+    priority: 6,
+    sensitivity: 0.5
+  };
+}
+
+export function serializeMappingRules(rules: MappingRuleDefinition[]): string {
+  const file: MappingRuleFile = {
+    format: MAPPING_RULE_FILE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    rules
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/** Parse an exported file (or a bare rule array). Throws with the first problems found. */
+export function parseMappingRules(json: string): MappingRuleDefinition[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Not a JSON file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const rules = Array.isArray(parsed) ? parsed : (parsed as Partial<MappingRuleFile> | null)?.rules;
+  if (!Array.isArray(parsed) && (parsed as Partial<MappingRuleFile> | null)?.format !== MAPPING_RULE_FILE_FORMAT) {
+    throw new Error('Not a mapping rules file');
+  }
+
+  const { valid, errors } = validateMappingRules(rules);
+  if (!valid) {
+    const shown = errors.slice(0, 3).map((error) => `${error.path}: ${error.message}`);
+    throw new Error(`${shown.join('; ')}${errors.length > 3 ? ` (and ${errors.length - 3} more)` : ''}`);
+  }
+  return rules as MappingRuleDefinition[];
+}
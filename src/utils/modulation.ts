@@ -0,0 +1,179 @@
+// modulation.ts
+// Signal generators for parameter modulators.
+//
+// LFOs return a bipolar signal in [-1, 1], envelopes a unipolar level in [0, 1].
+// Every generator depends only on modulation time (plus the scene seed for the
+// random shapes), so the fixed-step offline renderer reproduces the same motion.
+
+import type { EnvelopeModulator, LfoModulator, LfoShape } from '../types/modulation';
+import { deriveSeed, mulberry32 } from './seededRandom';
+import { isDiscreteNumberKey, isHexColor, rotateHueOklab } from './stateInterpolation';
+
+export const LFO_SHAPES: LfoShape[] = ['sine', 'triangle', 'square', 'randomWalk', 'noise'];
+
+// Largest single step of a random walk, as a fraction of the full swing
+const RANDOM_WALK_STEP = 0.35;
+
+function createModulatorId(): string {
+  return `mod-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createLfo(path: string, depth: number): LfoModulator {
+  return { id: createModulatorId(), path, enabled: true, kind: 'lfo', shape: 'sine', depth, rate: 0.25, phase: 0, sync: true };
+}
+
+export function createEnvelope(path: string, depth: number): EnvelopeModulator {
+  return {
+    id: createModulatorId(),
+    path,
+    enabled: true,
+    kind: 'envelope',
+    depth,
+    rate: 0.2,
+    phase: 0,
+    sync: true,
+    attack: 0.5,
+    decay: 0.5,
+    sustain: 0.6,
+    hold: 1,
+    release: 1.5,
+    trigger: 'loop'
+  };
+}
+
+/** A reasonable starting depth for a path's current value: a quarter of it, or 60° of hue. */
+export function defaultDepth(value: unknown): number {
+  if (isHexColor(value)) return 60;
+  if (typeof value === 'number' && value !== 0) return Math.abs(value) * 0.25;
+  return 0.25;
+}
+
+// Deterministic value in [-1, 1] for integer lattice point `index`
+function latticeValue(seed: number, modulatorId: string, index: number): number {
+  return mulberry32(deriveSeed(seed, 'modulator', modulatorId, index))() * 2 - 1;
+}
+
+// Smooth 1D value noise: cosine-interpolated lattice values
+function valueNoise(seed: number, modulatorId: string, x: number): number {
+  const index = Math.floor(x);
+  const t = (1 - Math.cos((x - index) * Math.PI)) / 2;
+  const a = latticeValue(seed, modulatorId, index);
+  const b = latticeValue(seed, modulatorId, index + 1);
+  return a + (b - a) * t;
+}
+
+// Reflect an unbounded walk position into [-1, 1]
+function reflect(value: number): number {
+  const wrapped = ((value + 1) % 4 + 4) % 4;
+  return wrapped <= 2 ? wrapped - 1 : 3 - wrapped;
+}
+
+/**
+ * Random walk: seeded steps summed over the lattice, linearly interpolated between
+ * points. `cache` carries the running sum between frames so each frame only adds
+ * the new steps.
+ */
+function randomWalk(
+  seed: number,
+  modulatorId: string,
+  x: number,
+  cache: { index: number; sum: number }
+): number {
+  const target = Math.floor(x);
+  if (target < cache.index) {
+    cache.index = 0;
+    cache.sum = 0;
+  }
+  while (cache.index < target) {
+    cache.index++;
+    cache.sum += latticeValue(seed, modulatorId, cache.index) * RANDOM_WALK_STEP;
+  }
+  const next = cache.sum + latticeValue(seed, modulatorId, target + 1) * RANDOM_WALK_STEP;
+  return reflect(cache.sum + (next - cache.sum) * (x - target));
+}
+
+export interface LfoContext {
+  seed: number;
+  walkCache: { index: number; sum: number };
+}
+
+/** Bipolar LFO output at modulation time `time` (seconds). */
+export function sampleLfo(modulator: LfoModulator, time: number, context: LfoContext): number {
+  const cycles = time * modulator.rate + modulator.phase;
+  const position = cycles - Math.floor(cycles);
+
+  switch (modulator.shape) {
+    case 'sine':
+      return Math.sin(position * Math.PI * 2);
+    case 'triangle':
+      return 1 - 4 * Math.abs(position - 0.5);
+    case 'square':
+      return position < 0.5 ? 1 : -1;
+    case 'noise':
+      return valueNoise(context.seed, modulator.id, cycles);
+    case 'randomWalk':
+      return randomWalk(context.seed, modulator.id, cycles, context.walkCache);
+    default:
+      return 0;
+  }
+}
+
+/** ADSR level `elapsed` seconds after a trigger; 0 once released. */
+export function envelopeLevel(envelope: EnvelopeModulator, elapsed: number): number {
+  const { attack, decay, sustain, hold, release } = envelope;
+  if (elapsed < 0) return 0;
+  if (elapsed < attack) return elapsed / attack;
+
+  let t = elapsed - attack;
+  if (t < decay) return 1 - (1 - sustain) * (t / decay);
+
+  t -= decay;
+  if (t < hold) return sustain;
+
+  t -= hold;
+  if (t < release) return sustain * (1 - t / release);
+  return 0;
+}
+
+/**
+ * Envelope output at modulation time `time`. Looping envelopes retrigger every
+ * 1/rate seconds; manual ones run from the last trigger time (null = never triggered).
+ */
+export function sampleEnvelope(envelope: EnvelopeModulator, time: number, triggeredAt: number | null): number {
+  if (envelope.trigger === 'manual') {
+    return triggeredAt === null ? 0 : envelopeLevel(envelope, time - triggeredAt);
+  }
+  if (envelope.rate <= 0) return 0;
+  const period = 1 / envelope.rate;
+  const shifted = time + envelope.phase * period;
+  return envelopeLevel(envelope, shifted - Math.floor(shifted / period) * period);
+}
+
+/**
+ * Offset a base value by the summed modulator output: numbers move by `offset`
+ * (kept inside `range` when given, else non-negative when the base is; rounded for
+ * count-like keys), colors rotate hue by `offset` degrees. Returns undefined for
+ * values a modulator can't drive.
+ */
+export function modulateValue(
+  path: string,
+  base: unknown,
+  offset: number,
+  range: [number, number] | null = null
+): number | string | undefined {
+  if (typeof base === 'number' && isFinite(base)) {
+    let value = base + offset;
+    if (range) value = Math.min(range[1], Math.max(range[0], value));
+    else if (base >= 0) value = Math.max(0, value);
+    return isDiscreteNumberKey(path.slice(path.lastIndexOf('.') + 1)) ? Math.round(value) : value;
+  }
+  if (isHexColor(base)) {
+    return rotateHueOklab(base, offset);
+  }
+  return undefined;
+}
+
+/** Whether a modulator can drive this value (finite number or hex color). */
+export function isModulatable(value: unknown): boolean {
+  return (typeof value === 'number' && isFinite(value)) || isHexColor(value);
+}
@@ -0,0 +1,93 @@
+// modulationEngine.ts
+// Applies the store's modulators to their target paths once per rendered frame.
+//
+// The value a modulator swings around (its base) is whatever the store and the
+// overlay layers below modulation (live mapping, timeline) hold for the path, so a
+// slider, a preset load or a keyframe moves the base. Modulators on the same path add
+// up. The output goes to the 'modulation' layer of the scene overlay, never the store,
+// so removing the last modulator on a path simply shows the base again. Numbers stay
+// inside the range saved presets allow for the path.
+
+import { useVisualStore } from '../store/visualStore';
+import { getPathValue, setPathValue } from './timeline';
+import { modulateValue, sampleEnvelope, sampleLfo } from './modulation';
+import { sceneOverlay } from './sceneOverlay';
+import { getPresetNumberRange } from '../lib/presetValidation';
+
+class ModulationEngine {
+  private static instance: ModulationEngine;
+  // Modulation clocks: wall time and time scaled by globalAnimationSpeed
+  private time = 0;
+  private syncedTime = 0;
+  private walkCaches = new Map<string, { index: number; sum: number }>();
+  private triggers = new Map<string, { time: number; syncedTime: number }>();
+
+  private constructor() {}
+
+  static getInstance(): ModulationEngine {
+    if (!ModulationEngine.instance) {
+      ModulationEngine.instance = new ModulationEngine();
+    }
+    return ModulationEngine.instance;
+  }
+
+  /** Fire a manual envelope from the start of its attack. */
+  trigger(modulatorId: string) {
+    this.triggers.set(modulatorId, { time: this.time, syncedTime: this.syncedTime });
+  }
+
+  /** Advance by the render delta (seconds). Called once per frame by ModulationDriver. */
+  tick(delta: number) {
+    const state = useVisualStore.getState();
+    const modulators = state.modulators ?? [];
+    if (modulators.length === 0) {
+      sceneOverlay.clearLayer('modulation');
+      return;
+    }
+
+    this.time += delta;
+    this.syncedTime += delta * state.globalAnimationSpeed;
+
+    // Sum every enabled modulator's output per target path
+    const offsets = new Map<string, number>();
+    modulators.forEach((modulator) => {
+      if (!modulator.enabled) return;
+      const time = modulator.sync ? this.syncedTime : this.time;
+
+      let signal: number;
+      if (modulator.kind === 'lfo') {
+        let walkCache = this.walkCaches.get(modulator.id);
+        if (!walkCache) {
+          walkCache = { index: 0, sum: 0 };
+          this.walkCaches.set(modulator.id, walkCache);
+        }
+        signal = sampleLfo(modulator, time, { seed: state.seed, walkCache });
+      } else {
+        const trigger = this.triggers.get(modulator.id);
+        const triggeredAt = trigger ? (modulator.sync ? trigger.syncedTime : trigger.time) : null;
+        signal = sampleEnvelope(modulator, time, triggeredAt);
+      }
+      offsets.set(modulator.path, (offsets.get(modulator.path) ?? 0) + modulator.depth * signal);
+    });
+
+    const base = sceneOverlay.getState('timeline');
+    const partial: Record<string, any> = {};
+    offsets.forEach((offset, path) => {
+      const value = modulateValue(path, getPathValue(base, path), offset, getPresetNumberRange(path));
+      if (value !== undefined) {
+        setPathValue(partial, path, value);
+      }
+    });
+
+    const ids = new Set(modulators.map((modulator) => modulator.id));
+    [this.walkCaches, this.triggers].forEach((map) => {
+      Array.from(map.keys()).forEach((id) => {
+        if (!ids.has(id)) map.delete(id);
+      });
+    });
+
+    sceneOverlay.setLayer('modulation', partial);
+  }
+}
+
+export const modulationEngine = ModulationEngine.getInstance();
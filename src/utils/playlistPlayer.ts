@@ -0,0 +1,182 @@
+// playlistPlayer.ts
+// Auto-cycles the canvas through a preset playlist (kiosk and background installs).
+//
+// Runs on wall-clock timers: each item crossfades in with the store's preset
+// transition, dwells, then the next item is picked. The time-of-day schedule is
+// re-evaluated before every item, so a window opening at 22:00 takes over at the
+// next change. Fetched presets are cached for the lifetime of the run.
+
+import React from 'react';
+import { useVisualStore } from '../store/visualStore';
+import { PresetClient } from '../lib/presetClient';
+import { migratePreset } from '../lib/presetMigrations';
+import type { Playlist, PlaylistItem } from '../types/playlist';
+import type { Preset } from '../types/preset';
+import { createPlayOrder, getActiveItems } from './playlistSchedule';
+
+export type PlaylistPlaybackStatus = 'stopped' | 'playing' | 'waiting';
+
+export interface PlaylistPlayerSnapshot {
+  status: PlaylistPlaybackStatus;
+  playlistId: string | null;
+  playlistName: string | null;
+  current: PlaylistItem | null;
+  nextChangeAt: number | null;   // Epoch ms of the next scheduled change
+}
+
+const STOPPED_SNAPSHOT: PlaylistPlayerSnapshot = {
+  status: 'stopped',
+  playlistId: null,
+  playlistName: null,
+  current: null,
+  nextChangeAt: null
+};
+
+// Re-check the schedule this often when no item is eligible, and retry this soon after a failed fetch
+const IDLE_RECHECK_MS = 60_000;
+const RETRY_MS = 5_000;
+
+class PlaylistPlayer {
+  private static instance: PlaylistPlayer;
+  private playlist: Playlist | null = null;
+  private queue: PlaylistItem[] = [];
+  private activeKey = '';
+  private runId = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private presets = new Map<string, Preset['data']>();
+  private snapshot: PlaylistPlayerSnapshot = STOPPED_SNAPSHOT;
+  private listeners = new Set<() => void>();
+
+  private constructor() {}
+
+  static getInstance(): PlaylistPlayer {
+    if (!PlaylistPlayer.instance) {
+      PlaylistPlayer.instance = new PlaylistPlayer();
+    }
+    return PlaylistPlayer.instance;
+  }
+
+  getSnapshot = (): PlaylistPlayerSnapshot => this.snapshot;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /** Start cycling; the first preset is applied immediately rather than crossfaded. */
+  start(playlist: Playlist) {
+    this.stop();
+    this.playlist = playlist;
+    this.queue = [];
+    this.activeKey = '';
+    this.presets.clear();
+    this.advance(this.runId, true);
+  }
+
+  stop() {
+    this.runId++;
+    this.clearTimer();
+    this.playlist = null;
+    this.setSnapshot(STOPPED_SNAPSHOT);
+  }
+
+  /** Cut the current dwell short and move to the next item. */
+  skip() {
+    if (!this.playlist) return;
+    this.clearTimer();
+    this.advance(++this.runId, false);
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(runId: number, delay: number, first: boolean) {
+    this.timer = setTimeout(() => this.advance(runId, first), delay);
+    this.setSnapshot({ ...this.snapshot, nextChangeAt: Date.now() + delay });
+  }
+
+  private nextItem(): PlaylistItem | null {
+    const playlist = this.playlist!;
+    const items = getActiveItems(playlist, new Date());
+    if (items.length === 0) return null;
+
+    // A different eligible set (a window opened or closed) restarts the rotation
+    const key = items.map((item) => playlist.items.indexOf(item)).join(',');
+    if (key !== this.activeKey || this.queue.length === 0) {
+      this.activeKey = key;
+      this.queue = createPlayOrder(items, playlist.order, this.snapshot.current ?? undefined);
+    }
+    return this.queue.shift() ?? null;
+  }
+
+  private async loadPreset(presetId: string): Promise<Preset['data']> {
+    const cached = this.presets.get(presetId);
+    if (cached) return cached;
+    const preset = migratePreset(await PresetClient.getPresetById(presetId));
+    this.presets.set(presetId, preset.data);
+    return preset.data;
+  }
+
+  private async advance(runId: number, first: boolean) {
+    const playlist = this.playlist;
+    if (!playlist || runId !== this.runId) return;
+
+    const item = this.nextItem();
+    if (!item) {
+      this.setSnapshot({ ...this.snapshot, status: 'waiting', current: null });
+      this.schedule(runId, IDLE_RECHECK_MS, first);
+      return;
+    }
+
+    let data: Preset['data'];
+    try {
+      data = await this.loadPreset(item.presetId);
+    } catch (error) {
+      console.error(`Playlist "${playlist.name}": could not load preset ${item.presetName || item.presetId}:`, error);
+      if (runId === this.runId) this.schedule(runId, RETRY_MS, first);
+      return;
+    }
+    if (runId !== this.runId) return;
+
+    this.setSnapshot({
+      status: 'playing',
+      playlistId: playlist._id ? String(playlist._id) : null,
+      playlistName: playlist.name,
+      current: item,
+      nextChangeAt: null
+    });
+
+    const store = useVisualStore.getState();
+    const transition = item.transition ?? playlist.transition;
+    if (first || transition <= 0) {
+      store.loadPresetData(data);
+    } else {
+      await store.startPresetTransition(data, { duration: transition * 1000 })?.finished;
+      if (runId !== this.runId) return;
+    }
+
+    this.schedule(runId, (item.dwell ?? playlist.dwell) * 1000, false);
+  }
+
+  private setSnapshot(snapshot: PlaylistPlayerSnapshot) {
+    this.snapshot = snapshot;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const playlistPlayer = PlaylistPlayer.getInstance();
+
+// Hook for React components
+export const usePlaylistPlayer = (): PlaylistPlayerSnapshot => {
+  return React.useSyncExternalStore(
+    playlistPlayer.subscribe,
+    playlistPlayer.getSnapshot,
+    () => STOPPED_SNAPSHOT
+  );
+};
@@ -0,0 +1,56 @@
+// playlistSchedule.ts
+// Which playlist items are eligible at a given time, and in what order they play.
+//
+// Items with a time window only play inside it. While any windowed item is active,
+// only the active windowed items play (e.g. calm presets after 22:00 take over the
+// whole rotation); otherwise the items without a window play.
+
+import type { Playlist, PlaylistItem, PlaylistOrder, PlaylistTimeWindow } from '../types/playlist';
+
+const CLOCK_TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/** Minutes after midnight for 'HH:MM', or null when malformed. */
+export function parseClockTime(value: string): number | null {
+  const match = CLOCK_TIME_PATTERN.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+export function isWindowActive(window: PlaylistTimeWindow, date: Date): boolean {
+  const start = parseClockTime(window.start);
+  const end = parseClockTime(window.end);
+  if (start === null || end === null) return false;
+
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  // Windows ending at or before their start wrap past midnight (22:00-06:00)
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+export function getActiveItems(playlist: Pick<Playlist, 'items'>, date: Date): PlaylistItem[] {
+  const scheduled = playlist.items.filter((item) => item.window && isWindowActive(item.window, date));
+  return scheduled.length > 0 ? scheduled : playlist.items.filter((item) => !item.window);
+}
+
+/**
+ * One pass over `items`. Shuffled passes avoid starting with the item that was just
+ * shown, so a reshuffle never plays the same preset twice in a row.
+ */
+export function createPlayOrder(
+  items: PlaylistItem[],
+  order: PlaylistOrder,
+  previous?: PlaylistItem,
+  random: () => number = Math.random
+): PlaylistItem[] {
+  if (order === 'ordered') return [...items];
+
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  if (shuffled.length > 1 && previous && shuffled[0].presetId === previous.presetId) {
+    shuffled.push(shuffled.shift()!);
+  }
+  return shuffled;
+}
@@ -0,0 +1,23 @@
+// safetyLimits.ts
+// Absolute [min, max] bounds for the scene parameters that can overload the renderer
+// or break the view.
+//
+// One table for everything that writes these paths: the mapping engine clamps AI and
+// audio rule output to it, and preset validation rejects saved payloads outside it.
+// The bounds reach the top of the dashboard sliders, so anything a user can set by
+// hand is also a value the engine may produce; each mapping rule's own constraints
+// keep its output well inside them.
+
+export const SAFETY_LIMITS: Readonly<Record<string, readonly [number, number]>> = {
+  'particles.count': [0, 1000],
+  'geometric.spheres.count': [0, 20],
+  'geometric.cubes.count': [0, 20],
+  'geometric.toruses.count': [0, 20],
+  'geometric.blobs.count': [0, 15],
+  // Free camera mode stores the horizontal distance, which reaches 0 looking straight down
+  'camera.distance': [0, 200],
+  'camera.fov': [20, 150],
+  'globalEffects.shapeGlow.radius': [1, 150],
+  'globalEffects.fireflies.count': [5, 150],
+  'backgroundConfig.timeScale': [0.05, 5.0]
+};
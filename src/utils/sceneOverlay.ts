@@ -0,0 +1,105 @@
+// sceneOverlay.ts
+// Values the render-loop drivers change every frame, laid over the visual store
+// instead of written into it.
+//
+// A store write runs the persist middleware (partialize plus a localStorage write)
+// and re-renders every component that reads the whole store, so drivers that move
+// values on every frame each own a layer here: a partial state tree applied over the
+// store in a fixed order, later layers winning on shared paths. Scene components read
+// the result through useSceneState. Panels, saves, undo snapshots and persistence
+// keep reading the store, so they only ever see base values.
+
+import React from 'react';
+import { useVisualStore } from '../store/visualStore';
+import { mergeState } from './stateInterpolation';
+
+export type SceneState = ReturnType<typeof useVisualStore.getState>;
+
+// Lowest first: modulators swing around whatever the layers below them hold
+export const SCENE_OVERLAY_LAYERS = ['liveMapping', 'timeline', 'modulation', 'audio'] as const;
+
+export type SceneOverlayLayer = typeof SCENE_OVERLAY_LAYERS[number];
+
+class SceneOverlay {
+  private static instance: SceneOverlay;
+  private layers = new Map<SceneOverlayLayer, Record<string, any>>();
+  private version = 0;
+  private cache: { base: SceneState; version: number; state: SceneState } | null = null;
+  private listeners = new Set<() => void>();
+
+  private constructor() {}
+
+  static getInstance(): SceneOverlay {
+    if (!SceneOverlay.instance) {
+      SceneOverlay.instance = new SceneOverlay();
+    }
+    return SceneOverlay.instance;
+  }
+
+  /** Replace a layer's values with a partial state tree; an empty tree removes the layer. */
+  setLayer(layer: SceneOverlayLayer, partial: Record<string, any>) {
+    if (Object.keys(partial).length === 0) {
+      this.clearLayer(layer);
+      return;
+    }
+    this.layers.set(layer, partial);
+    this.changed();
+  }
+
+  clearLayer(layer: SceneOverlayLayer) {
+    if (this.layers.delete(layer)) this.changed();
+  }
+
+  getLayer(layer: SceneOverlayLayer): Record<string, any> | undefined {
+    return this.layers.get(layer);
+  }
+
+  /** The store with every layer up to and including `through` applied; all layers by default. */
+  getState(through?: SceneOverlayLayer): SceneState {
+    const base = useVisualStore.getState();
+    if (through !== undefined) {
+      return this.compose(base, SCENE_OVERLAY_LAYERS.indexOf(through) + 1);
+    }
+    // Cached so useSyncExternalStore sees the same object until something changes
+    if (!this.cache || this.cache.base !== base || this.cache.version !== this.version) {
+      this.cache = { base, version: this.version, state: this.compose(base, SCENE_OVERLAY_LAYERS.length) };
+    }
+    return this.cache.state;
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    const unsubscribeStore = useVisualStore.subscribe(listener);
+    return () => {
+      this.listeners.delete(listener);
+      unsubscribeStore();
+    };
+  };
+
+  private compose(base: SceneState, count: number): SceneState {
+    return SCENE_OVERLAY_LAYERS.slice(0, count).reduce((state, layer) => {
+      const partial = this.layers.get(layer);
+      return partial ? mergeState(state, partial) : state;
+    }, base);
+  }
+
+  private changed() {
+    this.version++;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const sceneOverlay = SceneOverlay.getInstance();
+
+const selectAll = (state: SceneState) => state;
+
+// Hook for scene components: the store as currently shown, overlays included
+export function useSceneState(): SceneState;
+export function useSceneState<T>(selector: (state: SceneState) => T): T;
+export function useSceneState<T>(selector: (state: SceneState) => T = selectAll as (state: SceneState) => T): T {
+  return React.useSyncExternalStore(
+    sceneOverlay.subscribe,
+    () => selector(sceneOverlay.getState()),
+    () => selector(useVisualStore.getState())
+  );
+}
@@ -0,0 +1,76 @@
+// seededRandom.ts
+// Seeded pseudo-random numbers for scene generators.
+//
+// Every generator that lays out objects or distorts geometry draws from its own
+// stream, derived from the scene seed and a stream name ('spheres', 'fireflies'...).
+// Separate streams keep generators independent: changing the sphere count never
+// moves the cubes. A preset plus its seed therefore renders the same everywhere.
+// Per-frame jitter keys its stream by object index and clock time as well, so a
+// fixed-step offline render repeats exactly.
+
+export const MAX_SEED = 0xffffffff;
+
+// Seed used when a scene has none (fresh installs, presets from before seeding)
+export const DEFAULT_SCENE_SEED = 20240601;
+
+export interface SeededRandom {
+  /** Next float in [0, 1) */
+  next: () => number;
+  /** Float in [min, max) */
+  range: (min: number, max: number) => number;
+  /** Float in [-scale / 2, scale / 2), the seeded form of (Math.random() - 0.5) * scale */
+  centered: (scale: number) => number;
+  /** Integer in [min, max] */
+  int: (min: number, max: number) => number;
+}
+
+// mulberry32: small, fast and good enough for visual layouts
+export function mulberry32(seed: number): () => number {
+  return function() {
+    let t = seed += 0x6D2B79F5;
+    t = Math.imul(t ^ t >>> 15, t | 1);
+    t ^= t + Math.imul(t ^ t >>> 7, t | 61);
+    return ((t ^ t >>> 14) >>> 0) / 4294967296;
+  };
+}
+
+/** Clamp any input to a valid unsigned 32-bit seed. */
+export function normalizeSeed(seed: unknown, fallback: number = DEFAULT_SCENE_SEED): number {
+  if (typeof seed !== 'number' || !isFinite(seed)) return fallback;
+  return Math.floor(Math.abs(seed)) % (MAX_SEED + 1);
+}
+
+/** Derive an independent seed for a named stream (FNV-1a over the key parts). */
+export function deriveSeed(seed: number, ...keys: Array<string | number>): number {
+  let hash = (normalizeSeed(seed) ^ 0x811c9dc5) >>> 0;
+  const text = keys.join(':');
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+export function createSeededRandom(seed: number): SeededRandom {
+  const next = mulberry32(normalizeSeed(seed));
+  return {
+    next,
+    range: (min, max) => min + next() * (max - min),
+    centered: (scale) => (next() - 0.5) * scale,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1))
+  };
+}
+
+/** Random stream for one generator in a scene. */
+export function createSceneRandom(sceneSeed: number, stream: string, ...keys: Array<string | number>): SeededRandom {
+  return createSeededRandom(deriveSeed(sceneSeed, stream, ...keys));
+}
+
+/** A fresh, non-deterministic seed (used by the "reshuffle" controls). */
+export function generateSeed(): number {
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    return crypto.getRandomValues(new Uint32Array(1))[0];
+  }
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
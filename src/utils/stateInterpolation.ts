@@ -0,0 +1,275 @@
+// stateInterpolation.ts
+// Generic, schema-driven interpolation of VisualState trees used by preset transitions.
+//
+// The walker follows the shape of the *target* object so any field a preset carries
+// (globalEffects, camera, backgroundConfig, logo, globalBlendMode...) is crossfaded:
+// - numbers are lerped (count-like fields are rounded, seeds switch)
+// - hex colors are blended in OKLab so midpoints stay perceptually even
+// - arrays of equal length are interpolated per component (camera.position, rainbow colors)
+// - booleans, enums and any other value switch at a configurable point
+// - modulator lists switch as a whole (lerping an LFO's rate would scramble its phase)
+//
+// The result only contains paths present in the target, so it can be merged into
+// the live store without clobbering fields that change independently (auto-pan angle).
+
+export interface StateInterpolationOptions {
+  /** Progress (0-1) at which booleans, enums and other discrete values flip to the target. */
+  switchPoint?: number;
+  /** Dotted paths that are never touched by the walk (e.g. 'camera.autoPan.currentAngle'). */
+  skipPaths?: string[];
+}
+
+// Paths that describe the session rather than the scene
+export const DEFAULT_SKIPPED_PATHS = [
+  'ui',
+  'ai',
+  'error',
+  'location',
+  'savedAt',
+  'version',
+  'camera.autoPan.currentAngle'
+];
+
+// Numeric fields that only make sense as integers
+const DISCRETE_NUMBER_KEYS = new Set([
+  'count',
+  'layers',
+  'points',
+  'contourLevels',
+  'preset',
+  'layerCount',
+  'complexity'
+]);
+
+// Numeric identifiers that must never take intermediate values (switched like enums)
+const SWITCHED_NUMBER_KEYS = new Set([
+  'seed'
+]);
+
+// Paths whose whole value is swapped at the switch point instead of being walked
+const SWITCHED_PATHS = new Set([
+  'modulators',
+  'mappingRules'
+]);
+
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export function isDiscreteNumberKey(key: string): boolean {
+  return DISCRETE_NUMBER_KEYS.has(key);
+}
+
+export function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_COLOR_PATTERN.test(value);
+}
+
+/**
+ * Interpolate from `from` towards `to` at eased progress `t` (0-1).
+ * Returns a partial tree containing only the paths present in `to`.
+ */
+export function interpolateState<T extends Record<string, any>>(
+  from: T,
+  to: Record<string, any>,
+  t: number,
+  options: StateInterpolationOptions = {}
+): Partial<T> {
+  const switchPoint = options.switchPoint ?? 0.5;
+  const skipPaths = new Set(options.skipPaths ?? DEFAULT_SKIPPED_PATHS);
+  return interpolateObject(from, to, t, '', switchPoint, skipPaths) as Partial<T>;
+}
+
+/**
+ * Deep-merge a partial state produced by `interpolateState` into a base state.
+ * Objects are merged recursively; arrays and primitives are replaced.
+ */
+export function mergeState<T extends Record<string, any>>(base: T, partial: Record<string, any>): T {
+  const result: Record<string, any> = { ...base };
+  Object.keys(partial).forEach((key) => {
+    const value = partial[key];
+    result[key] = isPlainObject(value) && isPlainObject(result[key])
+      ? mergeState(result[key], value)
+      : value;
+  });
+  return result as T;
+}
+
+function interpolateObject(
+  from: Record<string, any>,
+  to: Record<string, any>,
+  t: number,
+  path: string,
+  switchPoint: number,
+  skipPaths: Set<string>
+): Record<string, any> {
+  const result: Record<string, any> = {};
+
+  Object.keys(to).forEach((key) => {
+    const childPath = path ? `${path}.${key}` : key;
+    if (skipPaths.has(childPath) || to[key] === undefined) return;
+    result[key] = interpolateValue(from[key], to[key], t, key, childPath, switchPoint, skipPaths);
+  });
+
+  return result;
+}
+
+function interpolateValue(
+  from: any,
+  to: any,
+  t: number,
+  key: string,
+  path: string,
+  switchPoint: number,
+  skipPaths: Set<string>
+): any {
+  if (t >= 1) {
+    return isPlainObject(to) && isPlainObject(from)
+      ? interpolateObject(from, to, 1, path, switchPoint, skipPaths)
+      : to;
+  }
+
+  if (SWITCHED_PATHS.has(path)) {
+    return t >= switchPoint ? to : from;
+  }
+
+  if (typeof from === 'number' && typeof to === 'number' && isFinite(from) && isFinite(to) && !SWITCHED_NUMBER_KEYS.has(key)) {
+    const value = from + (to - from) * t;
+    return DISCRETE_NUMBER_KEYS.has(key) ? Math.round(value) : value;
+  }
+
+  if (isHexColor(from) && isHexColor(to)) {
+    return mixColorsOklab(from, to, t);
+  }
+
+  if (Array.isArray(from) && Array.isArray(to) && from.length === to.length) {
+    return to.map((item, index) =>
+      interpolateValue(from[index], item, t, key, `${path}.${index}`, switchPoint, skipPaths)
+    );
+  }
+
+  if (isPlainObject(from) && isPlainObject(to)) {
+    return interpolateObject(from, to, t, path, switchPoint, skipPaths);
+  }
+
+  // Booleans, enums, mismatched shapes and fields missing on one side
+  return t >= switchPoint ? to : from;
+}
+
+// --- Perceptual color blending (OKLab) ---
+
+function hexToRgb(hex: string): [number, number, number] {
+  let value = hex.slice(1);
+  if (value.length === 3) {
+    value = value.split('').map((c) => c + c).join('');
+  }
+  return [
+    parseInt(value.slice(0, 2), 16) / 255,
+    parseInt(value.slice(2, 4), 16) / 255,
+    parseInt(value.slice(4, 6), 16) / 255
+  ];
+}
+
+function rgbToHex(rgb: [number, number, number]): string {
+  return '#' + rgb
+    .map((channel) => Math.round(Math.max(0, Math.min(1, channel)) * 255).toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function srgbToLinear(c: number): number {
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(c: number): number {
+  return c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+}
+
+function rgbToOklab([r, g, b]: [number, number, number]): [number, number, number] {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+  ];
+}
+
+function oklabToRgb([L, a, b]: [number, number, number]): [number, number, number] {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * b, 3);
+
+  return [
+    linearToSrgb(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    linearToSrgb(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    linearToSrgb(-0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s)
+  ];
+}
+
+/** Blend two hex colors in OKLab space; `t` = 0 returns `from`, 1 returns `to`. */
+export function mixColorsOklab(from: string, to: string, t: number): string {
+  const a = rgbToOklab(hexToRgb(from));
+  const b = rgbToOklab(hexToRgb(to));
+  return rgbToHex(oklabToRgb([
+    a[0] + (b[0] - a[0]) * t,
+    a[1] + (b[1] - a[1]) * t,
+    a[2] + (b[2] - a[2]) * t
+  ]));
+}
+
+/** Rotate a hex color's hue in OKLab space, keeping its lightness and chroma. */
+export function rotateHueOklab(hex: string, degrees: number): string {
+  const [L, a, b] = rgbToOklab(hexToRgb(hex));
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return rgbToHex(oklabToRgb([L, a * cos - b * sin, a * sin + b * cos]));
+}
+
+/** Weighted average of hex colors in OKLab space (weights need not sum to 1). */
+export function averageColorsOklab(colors: string[], weights: number[]): string {
+  const total = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+  const mixed: [number, number, number] = [0, 0, 0];
+  colors.forEach((color, index) => {
+    const lab = rgbToOklab(hexToRgb(color));
+    const weight = weights[index] / total;
+    mixed[0] += lab[0] * weight;
+    mixed[1] += lab[1] * weight;
+    mixed[2] += lab[2] * weight;
+  });
+  return rgbToHex(oklabToRgb(mixed));
+}
+
+/**
+ * Weighted blend that travels around the hue wheel (OKLCh) instead of through the
+ * middle, so red and cyan meet at a saturated color rather than gray. Lightness and
+ * chroma are averaged; hue is the weighted circular mean.
+ */
+export function blendHuesOklch(colors: string[], weights: number[]): string {
+  const total = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+  let lightness = 0;
+  let chroma = 0;
+  let hueX = 0;
+  let hueY = 0;
+  colors.forEach((color, index) => {
+    const [L, a, b] = rgbToOklab(hexToRgb(color));
+    const weight = weights[index] / total;
+    const c = Math.hypot(a, b);
+    lightness += L * weight;
+    chroma += c * weight;
+    // Grays have no hue to contribute
+    if (c > 1e-4) {
+      hueX += (a / c) * weight;
+      hueY += (b / c) * weight;
+    }
+  });
+  const hue = Math.atan2(hueY, hueX);
+  return rgbToHex(oklabToRgb([lightness, chroma * Math.cos(hue), chroma * Math.sin(hue)]));
+}
@@ -0,0 +1,173 @@
+// timeline.ts
+// Keyframe timeline model: sampling, looping and editing helpers.
+//
+// A timeline is a set of tracks, each animating one dotted VisualState path through
+// keyframes. Between two keys the value holds for `hold` seconds, then eases to the
+// next key with the first key's easing. Values are blended with the same rules as
+// preset transitions (OKLab colors, rounded counts, switched enums and seeds).
+
+import { EASING_FUNCTIONS } from '../ai-enhanced/types/InterpolationTypes';
+import type { EasingType } from '../ai-enhanced/types/InterpolationTypes';
+import type { TimelineData, TimelineEasing, TimelineKeyframe, TimelineTrack, TimelineValue } from '../types/timeline';
+import { DEFAULT_SKIPPED_PATHS, interpolateState, isHexColor, isPlainObject } from './stateInterpolation';
+
+export const TIMELINE_EASINGS: TimelineEasing[] = [...(Object.keys(EASING_FUNCTIONS) as EasingType[]), 'step'];
+
+// Keys closer than this are treated as the same key when editing
+const KEY_TIME_EPSILON = 0.001;
+
+export function createEmptyTimeline(duration: number = 60): TimelineData {
+  return { duration, loop: true, tracks: [] };
+}
+
+export function getPathValue(source: Record<string, any>, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), source);
+}
+
+/** Write `value` at `path` in a partial tree, creating intermediate objects. */
+export function setPathValue(target: Record<string, any>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let node = target;
+  keys.slice(0, -1).forEach((key) => {
+    if (!isPlainObject(node[key])) node[key] = {};
+    node = node[key];
+  });
+  node[keys[keys.length - 1]] = value;
+}
+
+export function isTimelineValue(value: unknown): value is TimelineValue {
+  return (typeof value === 'number' && isFinite(value)) ||
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    (Array.isArray(value) && value.every((item) => typeof item === 'number' && isFinite(item)));
+}
+
+/**
+ * Every leaf path of a state tree a track can animate: numbers, colors, booleans,
+ * enum strings and numeric tuples (camera.position). Session-only paths are skipped.
+ */
+export function listAnimatablePaths(state: Record<string, any>): string[] {
+  const skipped = new Set(DEFAULT_SKIPPED_PATHS);
+  const paths: string[] = [];
+
+  const walk = (node: Record<string, any>, prefix: string) => {
+    Object.keys(node).forEach((key) => {
+      const path = prefix ? `${prefix}.${key}` : key;
+      const value = node[key];
+      if (skipped.has(path) || typeof value === 'function') return;
+      if (isPlainObject(value)) {
+        walk(value, path);
+      } else if (isTimelineValue(value) && !(Array.isArray(value) && value.length === 0)) {
+        paths.push(path);
+      }
+    });
+  };
+
+  walk(state, '');
+  return paths.sort();
+}
+
+function blendValues(path: string, from: TimelineValue, to: TimelineValue, t: number): TimelineValue {
+  const key = path.slice(path.lastIndexOf('.') + 1);
+  const blended = interpolateState({ [key]: from }, { [key]: to }, t, { skipPaths: [] });
+  return blended[key] as TimelineValue;
+}
+
+/** Value of a track at `time` (seconds); undefined when the track has no keys. */
+export function sampleTrack(track: TimelineTrack, time: number): TimelineValue | undefined {
+  const keys = track.keyframes;
+  if (keys.length === 0) return undefined;
+  if (time <= keys[0].time) return keys[0].value;
+
+  const last = keys[keys.length - 1];
+  if (time >= last.time) return last.value;
+
+  let index = 0;
+  while (index < keys.length - 2 && keys[index + 1].time <= time) index++;
+  const from = keys[index];
+  const to = keys[index + 1];
+
+  const easingStart = Math.min(to.time, from.time + Math.max(0, from.hold ?? 0));
+  if (time <= easingStart) return from.value;
+
+  const easing = from.easing ?? 'linear';
+  if (easing === 'step') return from.value;
+
+  const span = to.time - easingStart;
+  const progress = span > 0 ? (time - easingStart) / span : 1;
+  const ease = EASING_FUNCTIONS[easing]?.function ?? EASING_FUNCTIONS.linear.function;
+  return blendValues(track.path, from.value, to.value, ease(progress));
+}
+
+/** Partial VisualState tree with every unmuted track sampled at `time`. */
+export function sampleTimeline(data: TimelineData, time: number): Record<string, any> {
+  const partial: Record<string, any> = {};
+  data.tracks.forEach((track) => {
+    if (track.muted) return;
+    const value = sampleTrack(track, time);
+    if (value !== undefined) {
+      setPathValue(partial, track.path, value);
+    }
+  });
+  return partial;
+}
+
+export function getLoopRegion(data: TimelineData): { start: number; end: number } {
+  const end = Math.min(data.duration, data.loopEnd ?? data.duration);
+  const start = Math.max(0, Math.min(end, data.loopStart ?? 0));
+  return { start, end };
+}
+
+/**
+ * Advance a playhead by `delta` seconds. Returns the new time and whether a
+ * non-looping timeline reached its end.
+ */
+export function advanceTimelineTime(data: TimelineData, time: number, delta: number): { time: number; ended: boolean } {
+  const next = time + delta;
+  if (data.loop) {
+    const { start, end } = getLoopRegion(data);
+    const span = end - start;
+    if (span > 0 && next >= end) {
+      return { time: start + ((next - start) % span), ended: false };
+    }
+    return { time: Math.min(next, data.duration), ended: false };
+  }
+  if (next >= data.duration) {
+    return { time: data.duration, ended: true };
+  }
+  return { time: next, ended: false };
+}
+
+function createTrackId(): string {
+  return `track-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createTrack(path: string, value: TimelineValue, time: number = 0): TimelineTrack {
+  return { id: createTrackId(), path, keyframes: [{ time, value }] };
+}
+
+/** Insert a keyframe, replacing any key at the same time; keeps keys sorted. */
+export function upsertKeyframe(track: TimelineTrack, keyframe: TimelineKeyframe): TimelineTrack {
+  const existing = track.keyframes.find((key) => Math.abs(key.time - keyframe.time) < KEY_TIME_EPSILON);
+  const others = track.keyframes.filter((key) => key !== existing);
+  const merged = existing ? { ...existing, ...keyframe } : keyframe;
+  return { ...track, keyframes: [...others, merged].sort((a, b) => a.time - b.time) };
+}
+
+export function removeKeyframe(track: TimelineTrack, index: number): TimelineTrack {
+  return { ...track, keyframes: track.keyframes.filter((_, i) => i !== index) };
+}
+
+/** Replace a keyframe (e.g. after editing its time) and re-sort. */
+export function updateKeyframe(track: TimelineTrack, index: number, changes: Partial<TimelineKeyframe>): TimelineTrack {
+  const keyframes = track.keyframes.map((key, i) => (i === index ? { ...key, ...changes } : key));
+  return { ...track, keyframes: keyframes.sort((a, b) => a.time - b.time) };
+}
+
+/** Short label for a keyframe value in the editor. */
+export function formatTimelineValue(value: TimelineValue): string {
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(3);
+  if (Array.isArray(value)) return `[${value.map((item) => Number(item.toFixed(2))).join(', ')}]`;
+  if (isHexColor(value)) return value.toLowerCase();
+  return String(value);
+}
@@ -0,0 +1,158 @@
+// timelinePlayer.ts
+// Plays a keyframe timeline into the visual store.
+//
+// The player has no clock of its own: TimelineDriver ticks it from useFrame with the
+// render delta, so shows stay in step with the canvas (including the fixed-step
+// clock used for offline frame rendering). While playing, sampled values go to the
+// 'timeline' layer of the scene overlay; pausing, stopping or reaching the end writes
+// them to the store once, and scrubbing a stopped or paused timeline writes directly.
+// Every path the timeline doesn't animate stays under manual control.
+
+import React from 'react';
+import { useVisualStore } from '../store/visualStore';
+import type { TimelineData } from '../types/timeline';
+import { advanceTimelineTime, sampleTimeline } from './timeline';
+import { mergeState } from './stateInterpolation';
+import { presetTransitionController } from './transitionController';
+import { sceneOverlay } from './sceneOverlay';
+
+export type TimelinePlaybackStatus = 'stopped' | 'playing' | 'paused';
+
+export interface TimelinePlayerSnapshot {
+  status: TimelinePlaybackStatus;
+  time: number;
+  duration: number;
+}
+
+const STOPPED_SNAPSHOT: TimelinePlayerSnapshot = { status: 'stopped', time: 0, duration: 0 };
+
+class TimelinePlayer {
+  private static instance: TimelinePlayer;
+  private data: TimelineData | null = null;
+  private status: TimelinePlaybackStatus = 'stopped';
+  private time = 0;
+  private snapshot: TimelinePlayerSnapshot = STOPPED_SNAPSHOT;
+  private listeners = new Set<() => void>();
+
+  private constructor() {}
+
+  static getInstance(): TimelinePlayer {
+    if (!TimelinePlayer.instance) {
+      TimelinePlayer.instance = new TimelinePlayer();
+    }
+    return TimelinePlayer.instance;
+  }
+
+  /** Replace the timeline being played; keeps the playhead so edits apply live. */
+  load(data: TimelineData | null) {
+    this.data = data;
+    if (!data) {
+      this.settle();
+      this.status = 'stopped';
+      this.time = 0;
+    } else {
+      this.time = Math.min(this.time, data.duration);
+    }
+    this.notify();
+  }
+
+  getData(): TimelineData | null {
+    return this.data;
+  }
+
+  getSnapshot = (): TimelinePlayerSnapshot => this.snapshot;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  play() {
+    if (!this.data) return;
+    // A preset crossfade would fight the timeline for the same paths
+    presetTransitionController.cancelActive();
+    if (this.status === 'stopped' && this.time >= this.data.duration) {
+      this.time = 0;
+    }
+    this.status = 'playing';
+    this.apply();
+    this.notify();
+  }
+
+  pause() {
+    if (this.status !== 'playing') return;
+    this.settle();
+    this.status = 'paused';
+    this.notify();
+  }
+
+  /** Stop and rewind; the scene keeps the last applied values. */
+  stop() {
+    this.settle();
+    this.status = 'stopped';
+    this.time = 0;
+    this.notify();
+  }
+
+  /** Move the playhead and apply that frame immediately (scrubbing). */
+  seek(time: number) {
+    if (!this.data) return;
+    this.time = Math.max(0, Math.min(this.data.duration, time));
+    this.apply();
+    this.notify();
+  }
+
+  /** Advance by the render delta (seconds). Called once per frame by TimelineDriver. */
+  tick(delta: number) {
+    if (this.status !== 'playing' || !this.data) return;
+
+    const { time, ended } = advanceTimelineTime(this.data, this.time, delta);
+    this.time = time;
+    this.apply();
+    if (ended) {
+      this.settle();
+      this.status = 'stopped';
+    }
+    this.notify();
+  }
+
+  private apply() {
+    if (!this.data) return;
+    const partial = sampleTimeline(this.data, this.time);
+    if (this.status === 'playing') {
+      sceneOverlay.setLayer('timeline', partial);
+    } else if (Object.keys(partial).length > 0) {
+      useVisualStore.setState((state) => mergeState(state, partial));
+    }
+  }
+
+  // Keep the last played frame: move it from the overlay into the store
+  private settle() {
+    const partial = sceneOverlay.getLayer('timeline');
+    if (!partial) return;
+    useVisualStore.setState((state) => mergeState(state, partial));
+    sceneOverlay.clearLayer('timeline');
+  }
+
+  private notify() {
+    this.snapshot = {
+      status: this.status,
+      time: this.time,
+      duration: this.data?.duration ?? 0
+    };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const timelinePlayer = TimelinePlayer.getInstance();
+
+// Hook for React components
+export const useTimelinePlayer = (): TimelinePlayerSnapshot => {
+  return React.useSyncExternalStore(
+    timelinePlayer.subscribe,
+    timelinePlayer.getSnapshot,
+    () => STOPPED_SNAPSHOT
+  );
+};
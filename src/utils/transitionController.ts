@@ -0,0 +1,196 @@
+// transitionController.ts
+// Drives a single state transition at a time with a cancellable handle.
+//
+// Only one animation loop ever writes to the store. Starting a new transition while
+// another is in flight retargets: the running one is cancelled and the new one starts
+// from whatever interpolated state the store currently holds, so there is no jump.
+
+import { EASING_FUNCTIONS } from '../ai-enhanced/types/InterpolationTypes';
+import type { EasingType } from '../ai-enhanced/types/InterpolationTypes';
+import { interpolateState } from './stateInterpolation';
+import type { StateInterpolationOptions } from './stateInterpolation';
+
+export type TransitionStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+
+export interface TransitionOptions extends StateInterpolationOptions {
+  duration?: number;                 // Milliseconds, defaults to 2500
+  easing?: EasingType;               // Any easing from InterpolationTypes, defaults to easeInOutCubic
+  onProgress?: (progress: number, easedProgress: number) => void;
+  onComplete?: () => void;
+  onCancel?: () => void;
+}
+
+export interface TransitionHandle {
+  readonly id: number;
+  readonly status: TransitionStatus;
+  readonly progress: number;
+  /** Resolves when the transition completes or is cancelled (check `status`). */
+  readonly finished: Promise<void>;
+  cancel: () => void;
+  pause: () => void;
+  resume: () => void;
+  /** Jump to a progress value (0-1); keeps the paused state if paused. */
+  seek: (progress: number) => void;
+}
+
+type ApplyFrame = (partial: Record<string, any>) => void;
+
+const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+const scheduleFrame = (callback: () => void): number =>
+  typeof requestAnimationFrame !== 'undefined'
+    ? requestAnimationFrame(callback)
+    : (setTimeout(callback, 16) as unknown as number);
+
+const cancelFrame = (id: number) => {
+  if (typeof cancelAnimationFrame !== 'undefined') {
+    cancelAnimationFrame(id);
+  } else {
+    clearTimeout(id);
+  }
+};
+
+class ActiveTransition implements TransitionHandle {
+  status: TransitionStatus = 'running';
+  progress = 0;
+  readonly finished: Promise<void>;
+
+  private resolveFinished!: () => void;
+  private startTime = now();
+  private pausedAt = 0;
+  private frameId: number | null = null;
+  private readonly duration: number;
+  private readonly ease: (t: number) => number;
+
+  constructor(
+    readonly id: number,
+    private readonly from: Record<string, any>,
+    private readonly to: Record<string, any>,
+    private readonly options: TransitionOptions,
+    private readonly apply: ApplyFrame,
+    private readonly onSettled: (transition: ActiveTransition) => void
+  ) {
+    this.duration = Math.max(0, options.duration ?? 2500);
+    this.ease = EASING_FUNCTIONS[options.easing ?? 'easeInOutCubic']?.function ?? EASING_FUNCTIONS.easeInOutCubic.function;
+    this.finished = new Promise<void>((resolve) => {
+      this.resolveFinished = resolve;
+    });
+  }
+
+  begin() {
+    this.tick();
+  }
+
+  cancel = () => {
+    if (this.status === 'completed' || this.status === 'cancelled') return;
+    this.stopLoop();
+    this.status = 'cancelled';
+    this.options.onCancel?.();
+    this.settle();
+  };
+
+  pause = () => {
+    if (this.status !== 'running') return;
+    this.stopLoop();
+    this.pausedAt = now();
+    this.status = 'paused';
+  };
+
+  resume = () => {
+    if (this.status !== 'paused') return;
+    this.startTime += now() - this.pausedAt;
+    this.status = 'running';
+    this.tick();
+  };
+
+  seek = (progress: number) => {
+    if (this.status === 'completed' || this.status === 'cancelled') return;
+    const clamped = Math.max(0, Math.min(1, progress));
+    const reference = this.status === 'paused' ? this.pausedAt : now();
+    this.startTime = reference - clamped * this.duration;
+
+    if (this.status === 'paused') {
+      this.renderFrame(clamped);
+      if (clamped >= 1) this.complete();
+    } else {
+      this.stopLoop();
+      this.tick();
+    }
+  };
+
+  private tick = () => {
+    this.frameId = null;
+    const elapsed = now() - this.startTime;
+    const progress = this.duration > 0 ? Math.min(elapsed / this.duration, 1) : 1;
+    this.renderFrame(progress);
+
+    if (progress < 1) {
+      this.frameId = scheduleFrame(this.tick);
+    } else {
+      this.complete();
+    }
+  };
+
+  private renderFrame(progress: number) {
+    this.progress = progress;
+    const easedProgress = progress >= 1 ? 1 : this.ease(progress);
+    this.apply(interpolateState(this.from, this.to, easedProgress, this.options));
+    this.options.onProgress?.(progress, easedProgress);
+  }
+
+  private complete() {
+    this.status = 'completed';
+    this.options.onComplete?.();
+    this.settle();
+  }
+
+  private stopLoop() {
+    if (this.frameId !== null) {
+      cancelFrame(this.frameId);
+      this.frameId = null;
+    }
+  }
+
+  private settle() {
+    this.onSettled(this);
+    this.resolveFinished();
+  }
+}
+
+export class TransitionController {
+  private active: ActiveTransition | null = null;
+  private nextId = 1;
+
+  /**
+   * Start transitioning from `from` to `to`. Any transition already in flight is
+   * cancelled first; callers should pass the current (possibly mid-transition)
+   * state as `from` so the new transition retargets smoothly.
+   */
+  start(
+    from: Record<string, any>,
+    to: Record<string, any>,
+    options: TransitionOptions,
+    apply: ApplyFrame
+  ): TransitionHandle {
+    this.active?.cancel();
+
+    const transition = new ActiveTransition(this.nextId++, from, to, options, apply, (settled) => {
+      if (this.active === settled) {
+        this.active = null;
+      }
+    });
+    this.active = transition;
+    transition.begin();
+    return transition;
+  }
+
+  getActive(): TransitionHandle | null {
+    return this.active;
+  }
+
+  cancelActive(): void {
+    this.active?.cancel();
+  }
+}
+
+export const presetTransitionController = new TransitionController();
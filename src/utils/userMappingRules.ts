@@ -0,0 +1,83 @@
+// userMappingRules.ts
+// The signed-in user's own mapping rules, kept on the server (/api/mapping-rules)
+// so they follow the user between machines. Live mode applies them under the
+// current preset's rules: a preset rule on the same variable wins.
+
+import React from 'react';
+import { MappingRuleClient } from '../lib/mappingRuleClient';
+import type { MappingRuleDefinition } from '../types/mappingRule';
+
+export type UserMappingRulesStatus = 'idle' | 'loading' | 'ready' | 'saving' | 'signed-out' | 'error';
+
+export interface UserMappingRulesSnapshot {
+  status: UserMappingRulesStatus;
+  rules: MappingRuleDefinition[];
+  error: string | null;
+}
+
+const IDLE_SNAPSHOT: UserMappingRulesSnapshot = { status: 'idle', rules: [], error: null };
+
+class UserMappingRuleLibrary {
+  private static instance: UserMappingRuleLibrary;
+  private snapshot: UserMappingRulesSnapshot = IDLE_SNAPSHOT;
+  private listeners = new Set<() => void>();
+
+  private constructor() {}
+
+  static getInstance(): UserMappingRuleLibrary {
+    if (!UserMappingRuleLibrary.instance) {
+      UserMappingRuleLibrary.instance = new UserMappingRuleLibrary();
+    }
+    return UserMappingRuleLibrary.instance;
+  }
+
+  getSnapshot = (): UserMappingRulesSnapshot => this.snapshot;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /** Fetch the rules for whoever is signed in now (call again after signing in or out). */
+  async load() {
+    this.setSnapshot({ ...this.snapshot, status: 'loading', error: null });
+    try {
+      const ruleSet = await MappingRuleClient.getMyRules();
+      this.setSnapshot(ruleSet
+        ? { status: 'ready', rules: ruleSet.rules, error: null }
+        : { status: 'signed-out', rules: [], error: null });
+    } catch (error) {
+      this.setSnapshot({ ...this.snapshot, status: 'error', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /** Replace the user's rules. Applied locally right away; reverted if the server rejects them. */
+  async save(rules: MappingRuleDefinition[]) {
+    const previous = this.snapshot.rules;
+    this.setSnapshot({ status: 'saving', rules, error: null });
+    try {
+      const saved = await MappingRuleClient.saveMyRules(rules);
+      this.setSnapshot({ status: 'ready', rules: saved.rules, error: null });
+    } catch (error) {
+      this.setSnapshot({ status: 'error', rules: previous, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private setSnapshot(snapshot: UserMappingRulesSnapshot) {
+    this.snapshot = snapshot;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const userMappingRules = UserMappingRuleLibrary.getInstance();
+
+// Hook for React components
+export const useUserMappingRules = (): UserMappingRulesSnapshot => {
+  return React.useSyncExternalStore(
+    userMappingRules.subscribe,
+    userMappingRules.getSnapshot,
+    () => IDLE_SNAPSHOT
+  );
+};